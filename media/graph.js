@@ -0,0 +1,358 @@
+// @ts-check
+// Graph view script for MDloggerForCode.
+// Lays out notes with a simple force simulation and draws them on a canvas.
+(function () {
+    // @ts-ignore
+    const vscode = acquireVsCodeApi();
+
+    const canvas = /** @type {HTMLCanvasElement} */ (document.getElementById('graph'));
+    const ctx = /** @type {CanvasRenderingContext2D} */ (canvas.getContext('2d'));
+    const localInput = /** @type {HTMLInputElement} */ (document.getElementById('local'));
+    const hopsInput = /** @type {HTMLInputElement} */ (document.getElementById('hops'));
+    const folderSelect = /** @type {HTMLSelectElement} */ (document.getElementById('folder'));
+    const tagSelect = /** @type {HTMLSelectElement} */ (document.getElementById('tag'));
+    const stats = /** @type {HTMLElement} */ (document.getElementById('stats'));
+
+    /** @type {{id: string, title: string, path: string, orphan: boolean, x: number, y: number, vx: number, vy: number, degree: number, fixed: boolean}[]} */
+    let nodes = [];
+    /** @type {{source: any, target: any}[]} */
+    let edges = [];
+    /** @type {Map<string, Set<string>>} */
+    let neighbors = new Map();
+    /** @type {string | undefined} */
+    let center;
+
+    const view = { x: 0, y: 0, scale: 1 };
+    let alpha = 0;
+    let hovered = null;
+    let dragging = null;
+    let panning = null;
+    let moved = false;
+    let frame = 0;
+
+    // ---- 設定 ----
+
+    function postOptions() {
+        vscode.postMessage({
+            command: 'setOptions',
+            options: {
+                local: localInput.checked,
+                hops: Number(hopsInput.value),
+                folder: folderSelect.value,
+                tag: tagSelect.value
+            }
+        });
+    }
+
+    localInput.addEventListener('change', postOptions);
+    hopsInput.addEventListener('change', postOptions);
+    folderSelect.addEventListener('change', postOptions);
+    tagSelect.addEventListener('change', postOptions);
+
+    function fillSelect(select, values, selected) {
+        select.replaceChildren();
+        const all = document.createElement('option');
+        all.value = '';
+        all.textContent = 'All';
+        select.appendChild(all);
+        for (const value of values) {
+            const option = document.createElement('option');
+            option.value = value;
+            option.textContent = value;
+            select.appendChild(option);
+        }
+        select.value = values.includes(selected) ? selected : '';
+    }
+
+    // ---- グラフデータ ----
+
+    window.addEventListener('message', event => {
+        const msg = event.data;
+        if (msg.command !== 'graph') {
+            return;
+        }
+        localInput.checked = msg.options.local;
+        hopsInput.value = String(msg.options.hops);
+        hopsInput.disabled = !msg.options.local;
+        fillSelect(folderSelect, msg.folders, msg.options.folder);
+        fillSelect(tagSelect, msg.tags, msg.options.tag);
+        center = msg.center;
+        setGraph(msg.nodes, msg.edges);
+    });
+
+    function setGraph(newNodes, newEdges) {
+        // 既存ノードの位置を引き継いでレイアウトの跳びを抑える
+        const previous = new Map(nodes.map(n => [n.id, n]));
+        nodes = newNodes.map((n, i) => {
+            const old = previous.get(n.id);
+            if (old) {
+                return { ...n, x: old.x, y: old.y, vx: 0, vy: 0, degree: 0, fixed: false };
+            }
+            const angle = i * 2.399963; // 黄金角で初期配置
+            const radius = 10 * Math.sqrt(i + 1);
+            return { ...n, x: Math.cos(angle) * radius, y: Math.sin(angle) * radius, vx: 0, vy: 0, degree: 0, fixed: false };
+        });
+
+        const byId = new Map(nodes.map(n => [n.id, n]));
+        neighbors = new Map(nodes.map(n => [n.id, new Set()]));
+        edges = [];
+        for (const e of newEdges) {
+            const source = byId.get(e.source);
+            const target = byId.get(e.target);
+            if (!source || !target) {
+                continue;
+            }
+            edges.push({ source, target });
+            source.degree++;
+            target.degree++;
+            neighbors.get(source.id).add(target.id);
+            neighbors.get(target.id).add(source.id);
+        }
+
+        const orphans = nodes.filter(n => n.orphan).length;
+        stats.textContent = `${nodes.length} notes, ${edges.length} links, ${orphans} orphans`;
+        hovered = null;
+        reheat(1);
+    }
+
+    // ---- 力学シミュレーション ----
+
+    function reheat(value) {
+        alpha = Math.max(alpha, value);
+        if (!frame) {
+            frame = requestAnimationFrame(tick);
+        }
+    }
+
+    function tick() {
+        frame = 0;
+        simulate();
+        draw();
+        if (alpha > 0.005 || dragging) {
+            frame = requestAnimationFrame(tick);
+        }
+    }
+
+    function simulate() {
+        const repulsion = 900;
+        const springLength = 60;
+        const springStrength = 0.04;
+        const gravity = 0.01;
+
+        // ノード間の反発 (O(n^2) だがノート数程度なら十分)
+        for (let i = 0; i < nodes.length; i++) {
+            const a = nodes[i];
+            for (let j = i + 1; j < nodes.length; j++) {
+                const b = nodes[j];
+                let dx = b.x - a.x;
+                let dy = b.y - a.y;
+                let dist2 = dx * dx + dy * dy;
+                if (dist2 < 0.01) {
+                    dx = Math.random() - 0.5;
+                    dy = Math.random() - 0.5;
+                    dist2 = dx * dx + dy * dy;
+                }
+                if (dist2 > 250000) {
+                    continue;
+                }
+                const force = (repulsion * alpha) / dist2;
+                const dist = Math.sqrt(dist2);
+                const fx = (dx / dist) * force;
+                const fy = (dy / dist) * force;
+                a.vx -= fx;
+                a.vy -= fy;
+                b.vx += fx;
+                b.vy += fy;
+            }
+        }
+
+        // リンクのばね
+        for (const e of edges) {
+            const dx = e.target.x - e.source.x;
+            const dy = e.target.y - e.source.y;
+            const dist = Math.sqrt(dx * dx + dy * dy) || 1;
+            const force = (dist - springLength) * springStrength * alpha;
+            const fx = (dx / dist) * force;
+            const fy = (dy / dist) * force;
+            e.source.vx += fx;
+            e.source.vy += fy;
+            e.target.vx -= fx;
+            e.target.vy -= fy;
+        }
+
+        for (const n of nodes) {
+            n.vx -= n.x * gravity * alpha;
+            n.vy -= n.y * gravity * alpha;
+            if (n.fixed) {
+                n.vx = 0;
+                n.vy = 0;
+                continue;
+            }
+            n.vx *= 0.6;
+            n.vy *= 0.6;
+            n.x += n.vx;
+            n.y += n.vy;
+        }
+
+        alpha *= 0.98;
+    }
+
+    // ---- 描画 ----
+
+    function color(name, fallback) {
+        const value = getComputedStyle(document.body).getPropertyValue(name).trim();
+        return value || fallback;
+    }
+
+    function radiusOf(n) {
+        return 4 + Math.min(8, Math.sqrt(n.degree) * 1.5);
+    }
+
+    function resize() {
+        const ratio = window.devicePixelRatio || 1;
+        canvas.width = canvas.clientWidth * ratio;
+        canvas.height = canvas.clientHeight * ratio;
+        draw();
+    }
+
+    function draw() {
+        const ratio = window.devicePixelRatio || 1;
+        ctx.setTransform(1, 0, 0, 1, 0, 0);
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        ctx.setTransform(
+            view.scale * ratio, 0, 0, view.scale * ratio,
+            (canvas.clientWidth / 2 + view.x) * ratio,
+            (canvas.clientHeight / 2 + view.y) * ratio
+        );
+
+        const foreground = color('--vscode-foreground', '#ccc');
+        const nodeColor = color('--vscode-textLink-foreground', '#3794ff');
+        const orphanColor = color('--vscode-disabledForeground', '#888');
+        const centerColor = color('--vscode-charts-orange', '#d18616');
+        const edgeColor = color('--vscode-editorLineNumber-foreground', '#666');
+        const active = hovered ? neighbors.get(hovered.id) : undefined;
+
+        ctx.lineWidth = 1 / view.scale;
+        for (const e of edges) {
+            const highlighted = hovered && (e.source === hovered || e.target === hovered);
+            ctx.globalAlpha = hovered && !highlighted ? 0.15 : 0.6;
+            ctx.strokeStyle = highlighted ? nodeColor : edgeColor;
+            ctx.beginPath();
+            ctx.moveTo(e.source.x, e.source.y);
+            ctx.lineTo(e.target.x, e.target.y);
+            ctx.stroke();
+        }
+
+        ctx.font = `${12 / view.scale}px ${color('--vscode-font-family', 'sans-serif')}`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'top';
+        for (const n of nodes) {
+            const related = !hovered || n === hovered || (active && active.has(n.id));
+            ctx.globalAlpha = related ? 1 : 0.2;
+            ctx.fillStyle = n.id === center ? centerColor : n.orphan ? orphanColor : nodeColor;
+            const r = radiusOf(n);
+            ctx.beginPath();
+            ctx.arc(n.x, n.y, r, 0, Math.PI * 2);
+            ctx.fill();
+
+            // ラベルはズーム時・ホバー時・現在のノートのみ表示して混雑を避ける
+            if (view.scale > 1.2 || n.id === center || (hovered && related)) {
+                ctx.fillStyle = foreground;
+                ctx.fillText(n.title, n.x, n.y + r + 2 / view.scale);
+            }
+        }
+        ctx.globalAlpha = 1;
+    }
+
+    // ---- 操作 ----
+
+    function toWorld(event) {
+        const rect = canvas.getBoundingClientRect();
+        return {
+            x: (event.clientX - rect.left - rect.width / 2 - view.x) / view.scale,
+            y: (event.clientY - rect.top - rect.height / 2 - view.y) / view.scale
+        };
+    }
+
+    function nodeAt(point) {
+        for (let i = nodes.length - 1; i >= 0; i--) {
+            const n = nodes[i];
+            const r = radiusOf(n) + 2 / view.scale;
+            if ((n.x - point.x) ** 2 + (n.y - point.y) ** 2 <= r * r) {
+                return n;
+            }
+        }
+        return null;
+    }
+
+    canvas.addEventListener('mousedown', event => {
+        moved = false;
+        const node = nodeAt(toWorld(event));
+        if (node) {
+            dragging = node;
+            node.fixed = true;
+            reheat(0.3);
+        } else {
+            panning = { x: event.clientX - view.x, y: event.clientY - view.y };
+            canvas.style.cursor = 'grabbing';
+        }
+    });
+
+    window.addEventListener('mousemove', event => {
+        if (dragging) {
+            const point = toWorld(event);
+            dragging.x = point.x;
+            dragging.y = point.y;
+            moved = true;
+            reheat(0.3);
+            return;
+        }
+        if (panning) {
+            view.x = event.clientX - panning.x;
+            view.y = event.clientY - panning.y;
+            moved = true;
+            draw();
+            return;
+        }
+        if (event.target === canvas) {
+            const node = nodeAt(toWorld(event));
+            if (node !== hovered) {
+                hovered = node;
+                canvas.style.cursor = node ? 'pointer' : 'grab';
+                draw();
+            }
+        }
+    });
+
+    window.addEventListener('mouseup', () => {
+        if (dragging) {
+            dragging.fixed = false;
+            if (!moved) {
+                vscode.postMessage({ command: 'open', id: dragging.id });
+            }
+            dragging = null;
+        }
+        if (panning) {
+            panning = null;
+            canvas.style.cursor = 'grab';
+        }
+    });
+
+    canvas.addEventListener('wheel', event => {
+        event.preventDefault();
+        const rect = canvas.getBoundingClientRect();
+        const mx = event.clientX - rect.left - rect.width / 2;
+        const my = event.clientY - rect.top - rect.height / 2;
+        const factor = Math.exp(-event.deltaY * 0.001);
+        const scale = Math.min(8, Math.max(0.1, view.scale * factor));
+        // カーソル位置を固定したままズームする
+        view.x = mx - ((mx - view.x) * scale) / view.scale;
+        view.y = my - ((my - view.y) * scale) / view.scale;
+        view.scale = scale;
+        draw();
+    }, { passive: false });
+
+    window.addEventListener('resize', resize);
+    resize();
+    vscode.postMessage({ command: 'ready' });
+})();
@@ -8,23 +8,49 @@
  */
 
 import * as vscode from 'vscode';
+import type MarkdownIt from 'markdown-it';
 import * as path from 'path';
-import { WikiLinkProcessor } from './processors/WikiLinkProcessor';
 import { DateTimeFormatter } from './utils/DateTimeFormatter';
 import { ConfigurationManager } from './managers/ConfigurationManager';
+import { PathUtil } from './utils/PathUtil';
+import { findBlockEndLine, createBlockId, extractBlockIds } from './utils/NoteParser';
 import { WikiLinkContextProvider } from './providers/WikiLinkContextProvider';
 import { WikiLinkCompletionProvider } from './providers/WikiLinkCompletionProvider';
 import { ListContinuationProvider } from './providers/ListContinuationProvider';
 import { DailyNoteManager } from './managers/DailyNoteManager';
-import { PathUtil } from './utils/PathUtil';
-import { NoteFinder } from './utils/NoteFinder';
 import { QuickCaptureSidebarProvider } from './providers/QuickCaptureSidebarProvider';
+import { VaultIndex } from './services/VaultIndex';
+import { WikiLinkResolver } from './services/WikiLinkResolver';
+import { BacklinksTreeProvider, BacklinkNode } from './providers/BacklinksTreeProvider';
+import { NoteRenameService } from './services/NoteRenameService';
+import { WikiLinkDiagnosticsProvider } from './providers/WikiLinkDiagnosticsProvider';
+import { WikiLinkCodeActionProvider } from './providers/WikiLinkCodeActionProvider';
+import { WikiLinkHoverProvider } from './providers/WikiLinkHoverProvider';
+import { WikiLinkNavigationProvider } from './providers/WikiLinkNavigationProvider';
+import { MarkdownPreviewProvider } from './providers/MarkdownPreviewProvider';
+import { BuiltinPreviewExtension } from './providers/BuiltinPreviewExtension';
+import { GraphViewProvider } from './providers/GraphViewProvider';
+import { CalendarViewProvider } from './providers/CalendarViewProvider';
+import { NotePeriod } from './utils/Period';
+import { FrontmatterCompletionProvider } from './providers/FrontmatterCompletionProvider';
+import { FrontmatterDiagnosticsProvider } from './providers/FrontmatterDiagnosticsProvider';
+import { PropertiesTreeProvider } from './providers/PropertiesTreeProvider';
+import { FrontmatterTimestampService } from './services/FrontmatterTimestampService';
+import { TemplateService } from './services/TemplateService';
+import { NoteCreationService } from './services/NoteCreationService';
+import { TagCompletionProvider } from './providers/TagCompletionProvider';
+import { TagsTreeProvider, TagNode } from './providers/TagsTreeProvider';
+import { TagRenameService } from './services/TagRenameService';
+import { SearchIndex } from './services/SearchIndex';
+import { SearchResultsTreeProvider } from './providers/SearchResultsTreeProvider';
+import { NoteQueryService } from './services/NoteQueryService';
 
 /**
  * Activates the MDloggerForCode extension.
  * Initializes all managers, providers, and registers commands and event listeners.
  *
  * @param context - The VS Code extension context for managing subscriptions and resources
+ * @returns The markdown-it extension API consumed by the built-in Markdown preview
  * @throws {Error} When critical components fail to initialize
  */
 export function activate(context: vscode.ExtensionContext) {
@@ -56,6 +82,24 @@ export function activate(context: vscode.ExtensionContext) {
         return;
     }
 
+    // VaultIndex初期化（全プロバイダーで共有するノートインデックス）
+    let vaultIndex: VaultIndex;
+    try {
+        vaultIndex = new VaultIndex(configManager);
+        context.subscriptions.push(vaultIndex);
+        // 初回スキャンをバックグラウンドで開始
+        vaultIndex.ensureLoaded().catch(error => console.warn('[MDloggerForCode] Initial vault scan failed:', error));
+    } catch (error) {
+        vscode.window.showErrorMessage('Failed to initialize VaultIndex');
+        return;
+    }
+
+    const linkResolver = new WikiLinkResolver(configManager, vaultIndex);
+
+    // 標準Markdownプレビュー拡張（markdown.markdownItPlugins）
+    const builtinPreviewExtension = new BuiltinPreviewExtension(vaultIndex, linkResolver);
+    context.subscriptions.push(builtinPreviewExtension);
+
     // DateTimeFormatter初期化
     let dateTimeFormatter: DateTimeFormatter;
     try {
@@ -65,6 +109,14 @@ export function activate(context: vscode.ExtensionContext) {
         return;
     }
 
+    // frontmatter の created/updated 自動設定（保存時に updated を更新）
+    const timestampService = new FrontmatterTimestampService(configManager, dateTimeFormatter);
+    context.subscriptions.push(timestampService.register(vaultIndex));
+
+    // 新規ノートのテンプレート展開（{{title}}、{{date}}、{{prompt:...}} など）
+    const templateService = new TemplateService(configManager, dateTimeFormatter);
+    const noteCreationService = new NoteCreationService(configManager, linkResolver, templateService, timestampService);
+
     // WikiLink Context Provider初期化
     let contextProvider: WikiLinkContextProvider;
     try {
@@ -78,7 +130,7 @@ export function activate(context: vscode.ExtensionContext) {
     let dailyNoteManager: DailyNoteManager | undefined;
     if (configManager.getDailyNoteEnabled()) {
         try {
-            dailyNoteManager = new DailyNoteManager(configManager, dateTimeFormatter);
+            dailyNoteManager = new DailyNoteManager(configManager, dateTimeFormatter, timestampService, templateService);
         } catch (error) {
             vscode.window.showErrorMessage('Failed to initialize DailyNoteManager');
             return;
@@ -88,7 +140,7 @@ export function activate(context: vscode.ExtensionContext) {
     // WikiLink DocumentLinkProvider登録
     let linkProviderDisposable: vscode.Disposable;
     try {
-        const wikiLinkProvider = new WikiLinkDocumentLinkProvider(configManager);
+        const wikiLinkProvider = new WikiLinkDocumentLinkProvider(linkResolver);
         linkProviderDisposable = vscode.languages.registerDocumentLinkProvider(
             { scheme: 'file', language: 'markdown' },
             wikiLinkProvider
@@ -102,18 +154,89 @@ export function activate(context: vscode.ExtensionContext) {
     let completionProviderDisposable: vscode.Disposable;
     let wikiLinkCompletionProvider: WikiLinkCompletionProvider;
     try {
-        wikiLinkCompletionProvider = new WikiLinkCompletionProvider(configManager);
+        wikiLinkCompletionProvider = new WikiLinkCompletionProvider(configManager, vaultIndex, linkResolver);
         completionProviderDisposable = vscode.languages.registerCompletionItemProvider(
             { scheme: 'file', language: 'markdown' },
             wikiLinkCompletionProvider,
             '[', // Trigger character for opening bracket
-            '/'  // Trigger character for directory path separator
+            '/', // Trigger character for directory path separator
+            '#', // Trigger character for heading references
+            '^'  // Trigger character for block references
         );
     } catch (error) {
         vscode.window.showErrorMessage('Failed to register WikiLinkCompletionProvider');
         return;
     }
 
+    // frontmatter のキー/値の補完登録
+    try {
+        const frontmatterCompletionDisposable = vscode.languages.registerCompletionItemProvider(
+            { scheme: 'file', language: 'markdown' },
+            new FrontmatterCompletionProvider(vaultIndex),
+            ':', // Trigger character after a property key
+            ','  // Trigger character between inline list items
+        );
+        context.subscriptions.push(frontmatterCompletionDisposable);
+    } catch (error) {
+        errors.push(`Failed to register FrontmatterCompletionProvider: ${error}`);
+    }
+
+    // タグ補完の登録（本文中の # で起動）
+    try {
+        const tagCompletionDisposable = vscode.languages.registerCompletionItemProvider(
+            { scheme: 'file', language: 'markdown' },
+            new TagCompletionProvider(vaultIndex),
+            '#', // Trigger character for tags
+            '/'  // Trigger character for nested tags
+        );
+        context.subscriptions.push(tagCompletionDisposable);
+    } catch (error) {
+        errors.push(`Failed to register TagCompletionProvider: ${error}`);
+    }
+
+    // frontmatter（YAML）の構文診断登録
+    try {
+        context.subscriptions.push(new FrontmatterDiagnosticsProvider());
+    } catch (error) {
+        errors.push(`Failed to register FrontmatterDiagnosticsProvider: ${error}`);
+    }
+
+    // WikiLink診断（リンク切れ検出）とクイックフィックス登録
+    try {
+        const diagnosticsProvider = new WikiLinkDiagnosticsProvider(configManager, vaultIndex, linkResolver);
+        const codeActionDisposable = vscode.languages.registerCodeActionsProvider(
+            { scheme: 'file', language: 'markdown' },
+            new WikiLinkCodeActionProvider(configManager, vaultIndex, linkResolver),
+            { providedCodeActionKinds: WikiLinkCodeActionProvider.providedCodeActionKinds }
+        );
+        context.subscriptions.push(diagnosticsProvider, codeActionDisposable);
+    } catch (error) {
+        errors.push(`Failed to register WikiLink diagnostics: ${error}`);
+    }
+
+    // WikiLink HoverProvider登録（リンク先プレビュー）
+    try {
+        const hoverDisposable = vscode.languages.registerHoverProvider(
+            { scheme: 'file', language: 'markdown' },
+            new WikiLinkHoverProvider(configManager, linkResolver)
+        );
+        context.subscriptions.push(hoverDisposable);
+    } catch (error) {
+        errors.push(`Failed to register WikiLinkHoverProvider: ${error}`);
+    }
+
+    // WikiLink Definition/ReferenceProvider登録（F12 / Shift+F12）
+    try {
+        const selector: vscode.DocumentSelector = { scheme: 'file', language: 'markdown' };
+        const navigationProvider = new WikiLinkNavigationProvider(vaultIndex, linkResolver);
+        context.subscriptions.push(
+            vscode.languages.registerDefinitionProvider(selector, navigationProvider),
+            vscode.languages.registerReferenceProvider(selector, navigationProvider)
+        );
+    } catch (error) {
+        errors.push(`Failed to register WikiLinkNavigationProvider: ${error}`);
+    }
+
     // List ContinuationProvider登録
     let listContinuationDisposable: vscode.Disposable | undefined;
     try {
@@ -128,8 +251,12 @@ export function activate(context: vscode.ExtensionContext) {
 
     // openOrCreateWikiLink コマンド
     try {
-        const openCommand = vscode.commands.registerCommand('mdlg.openOrCreateWikiLink', () => {
-            return openOrCreateWikiLink(configManager);
+        const openCommand = vscode.commands.registerCommand('mdlg.openOrCreateWikiLink', (linkText?: string, source?: string) => {
+            return openOrCreateWikiLink(
+                noteCreationService,
+                typeof linkText === 'string' ? linkText : undefined,
+                typeof source === 'string' ? vscode.Uri.parse(source) : undefined
+            );
         });
         commands.push(openCommand);
     } catch (error) {
@@ -156,20 +283,142 @@ export function activate(context: vscode.ExtensionContext) {
         errors.push(`Failed to register insertTime: ${error}`);
     }
 
-    // preview コマンド
+    // preview コマンド（WikiLink対応プレビュー）
     try {
+        const previewProvider = new MarkdownPreviewProvider(configManager, vaultIndex, linkResolver);
         const previewCommand = vscode.commands.registerCommand('mdlg.preview', () => {
-            return showPreview();
+            return previewProvider.show();
         });
+        context.subscriptions.push(previewProvider);
         commands.push(previewCommand);
     } catch (error) {
         errors.push(`Failed to register preview: ${error}`);
     }
 
+    // materializeQuery コマンド（mdlg-query ブロックを結果の Markdown に置き換え）
+    try {
+        const queryService = new NoteQueryService(vaultIndex, linkResolver);
+        const materializeQueryCommand = vscode.commands.registerCommand('mdlg.materializeQuery', () => {
+            return queryService.materializeQuery();
+        });
+        commands.push(materializeQueryCommand);
+    } catch (error) {
+        errors.push(`Failed to register materializeQuery: ${error}`);
+    }
+
+    // newNoteFromTemplate コマンド（テンプレートフォルダから選んでノートを作成）
+    try {
+        const newNoteCommand = vscode.commands.registerCommand('mdlg.newNoteFromTemplate', () => {
+            return newNoteFromTemplate(configManager, linkResolver, templateService, noteCreationService);
+        });
+        commands.push(newNoteCommand);
+    } catch (error) {
+        errors.push(`Failed to register newNoteFromTemplate: ${error}`);
+    }
+
+    // showGraph コマンド（ノートとリンクのグラフビュー）
+    try {
+        const graphProvider = new GraphViewProvider(context.extensionUri, vaultIndex, linkResolver);
+        const graphCommand = vscode.commands.registerCommand('mdlg.showGraph', () => {
+            return graphProvider.show();
+        });
+        context.subscriptions.push(graphProvider);
+        commands.push(graphCommand);
+    } catch (error) {
+        errors.push(`Failed to register showGraph: ${error}`);
+    }
+
+    // Backlinks tree view registration
+    try {
+        const backlinksProvider = new BacklinksTreeProvider(configManager, vaultIndex, linkResolver);
+        const backlinksView = vscode.window.createTreeView(BacklinksTreeProvider.viewId, {
+            treeDataProvider: backlinksProvider,
+            showCollapseAll: true
+        });
+        const linkMentionCommand = vscode.commands.registerCommand('mdlg.linkUnlinkedMention', (node: BacklinkNode) => {
+            return backlinksProvider.linkMention(node);
+        });
+        context.subscriptions.push(backlinksProvider, backlinksView);
+        commands.push(linkMentionCommand);
+    } catch (error) {
+        errors.push(`Failed to register BacklinksTreeProvider: ${error}`);
+    }
+
+    // Properties tree view registration
+    try {
+        const propertiesProvider = new PropertiesTreeProvider();
+        const propertiesView = vscode.window.createTreeView(PropertiesTreeProvider.viewId, {
+            treeDataProvider: propertiesProvider
+        });
+        context.subscriptions.push(propertiesProvider, propertiesView);
+    } catch (error) {
+        errors.push(`Failed to register PropertiesTreeProvider: ${error}`);
+    }
+
+    // Tags tree view and renameTag command registration
+    try {
+        const tagsProvider = new TagsTreeProvider(vaultIndex);
+        const tagsView = vscode.window.createTreeView(TagsTreeProvider.viewId, {
+            treeDataProvider: tagsProvider,
+            showCollapseAll: true
+        });
+        const tagRenameService = new TagRenameService(vaultIndex);
+        const renameTagCommand = vscode.commands.registerCommand('mdlg.renameTag', (tag?: TagNode | string) => {
+            return tagRenameService.renameTag(typeof tag === 'string' ? tag : tag?.tag);
+        });
+        context.subscriptions.push(tagsProvider, tagsView);
+        commands.push(renameTagCommand);
+    } catch (error) {
+        errors.push(`Failed to register TagsTreeProvider: ${error}`);
+    }
+
+    // Search results tree view and search command registration
+    try {
+        const searchIndex = new SearchIndex(vaultIndex);
+        const searchProvider = new SearchResultsTreeProvider(searchIndex, vaultIndex);
+        const searchView = vscode.window.createTreeView(SearchResultsTreeProvider.viewId, {
+            treeDataProvider: searchProvider,
+            showCollapseAll: true
+        });
+        const searchCommand = vscode.commands.registerCommand('mdlg.search', async (query?: string) => {
+            const results = await searchProvider.search(typeof query === 'string' ? query : undefined);
+            if (results) {
+                await vscode.commands.executeCommand(`${SearchResultsTreeProvider.viewId}.focus`);
+            }
+            return results;
+        });
+        context.subscriptions.push(searchIndex, searchProvider, searchView);
+        commands.push(searchCommand);
+    } catch (error) {
+        errors.push(`Failed to register SearchResultsTreeProvider: ${error}`);
+    }
+
+    // copyBlockReference コマンド（ブロックIDを付与してリンクをコピー）
+    try {
+        const copyBlockReferenceCommand = vscode.commands.registerCommand('mdlg.copyBlockReference', () => {
+            return copyBlockReference(linkResolver);
+        });
+        commands.push(copyBlockReferenceCommand);
+    } catch (error) {
+        errors.push(`Failed to register copyBlockReference: ${error}`);
+    }
+
+    // renameNote コマンド（リンク更新付きリネーム）
+    try {
+        const renameService = new NoteRenameService(configManager, vaultIndex, linkResolver);
+        const renameCommand = vscode.commands.registerCommand('mdlg.renameNote', (uri?: vscode.Uri) => {
+            return renameService.renameNote(uri);
+        });
+        context.subscriptions.push(renameService);
+        commands.push(renameCommand);
+    } catch (error) {
+        errors.push(`Failed to register renameNote: ${error}`);
+    }
+
     // Quick Capture sidebar provider registration (requires DailyNoteManager)
     if (dailyNoteManager) {
         try {
-            const quickCaptureProvider = new QuickCaptureSidebarProvider(context, configManager, dailyNoteManager);
+            const quickCaptureProvider = new QuickCaptureSidebarProvider(context, configManager, dailyNoteManager, vaultIndex);
             const providerDisposable = vscode.window.registerWebviewViewProvider(QuickCaptureSidebarProvider.viewId, quickCaptureProvider);
             context.subscriptions.push(providerDisposable);
         } catch (error) {
@@ -177,6 +426,17 @@ export function activate(context: vscode.ExtensionContext) {
         }
     }
 
+    // Calendar view registration (daily notes per day, requires DailyNoteManager)
+    if (dailyNoteManager) {
+        try {
+            const calendarProvider = new CalendarViewProvider(configManager, dailyNoteManager, vaultIndex);
+            const providerDisposable = vscode.window.registerWebviewViewProvider(CalendarViewProvider.viewId, calendarProvider);
+            context.subscriptions.push(calendarProvider, providerDisposable);
+        } catch (error) {
+            errors.push(`Failed to register CalendarViewProvider: ${error}`);
+        }
+    }
+
     // openQuickCapture コマンド (reveal and focus the Quick Capture view, requires DailyNoteManager)
     if (dailyNoteManager) {
         try {
@@ -216,6 +476,69 @@ export function activate(context: vscode.ExtensionContext) {
         } catch (error) {
             errors.push(`Failed to register openDailyNote: ${error}`);
         }
+
+        // ワークスペースフォルダーを確認してからノートを開くコマンドハンドラーを作る
+        const withWorkspaceFolder = (
+            action: (workspaceFolder: vscode.WorkspaceFolder) => Promise<unknown>,
+            failureMessage = 'Failed to open daily note'
+        ) => async () => {
+            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+            if (!workspaceFolder) {
+                vscode.window.showErrorMessage('No workspace folder found. Please open a folder first.');
+                return;
+            }
+
+            try {
+                await action(workspaceFolder);
+            } catch (error) {
+                vscode.window.showErrorMessage(failureMessage);
+            }
+        };
+
+        // 前後の日報、および任意の日付の日報を開くコマンド
+        try {
+            commands.push(
+                vscode.commands.registerCommand('mdlg.openPreviousDailyNote', withWorkspaceFolder(
+                    workspaceFolder => dailyNoteManager!.openAdjacentDailyNote(workspaceFolder, -1)
+                )),
+                vscode.commands.registerCommand('mdlg.openNextDailyNote', withWorkspaceFolder(
+                    workspaceFolder => dailyNoteManager!.openAdjacentDailyNote(workspaceFolder, 1)
+                )),
+                vscode.commands.registerCommand('mdlg.openDailyNoteForDate', withWorkspaceFolder(
+                    workspaceFolder => dailyNoteManager!.openDailyNoteForDate(workspaceFolder)
+                ))
+            );
+        } catch (error) {
+            errors.push(`Failed to register daily note navigation: ${error}`);
+        }
+
+        // 週次・月次・四半期・年次ノートのコマンド
+        try {
+            const periodCommands: [string, NotePeriod][] = [
+                ['mdlg.openWeeklyNote', 'week'],
+                ['mdlg.openMonthlyNote', 'month'],
+                ['mdlg.openQuarterlyNote', 'quarter'],
+                ['mdlg.openYearlyNote', 'year']
+            ];
+            for (const [command, period] of periodCommands) {
+                commands.push(vscode.commands.registerCommand(command, withWorkspaceFolder(
+                    workspaceFolder => dailyNoteManager!.openOrCreatePeriodicNote(workspaceFolder, period),
+                    'Failed to open periodic note'
+                )));
+            }
+            commands.push(
+                vscode.commands.registerCommand('mdlg.openPreviousPeriodicNote', withWorkspaceFolder(
+                    workspaceFolder => dailyNoteManager!.openAdjacentPeriodicNote(workspaceFolder, -1),
+                    'Failed to open periodic note'
+                )),
+                vscode.commands.registerCommand('mdlg.openNextPeriodicNote', withWorkspaceFolder(
+                    workspaceFolder => dailyNoteManager!.openAdjacentPeriodicNote(workspaceFolder, 1),
+                    'Failed to open periodic note'
+                ))
+            );
+        } catch (error) {
+            errors.push(`Failed to register periodic notes: ${error}`);
+        }
     }
 
     // エラー報告（但し拡張機能は継続）
@@ -231,7 +554,6 @@ export function activate(context: vscode.ExtensionContext) {
         const subscriptions = [
             linkProviderDisposable,
             completionProviderDisposable,
-            wikiLinkCompletionProvider, // Add the provider instance for proper cleanup
             ...commands
         ];
 
@@ -248,7 +570,7 @@ export function activate(context: vscode.ExtensionContext) {
     // 設定変更の監視
     try {
         const configChangeListener = vscode.workspace.onDidChangeConfiguration(e => {
-            if (e.affectsConfiguration('obsd')) {
+            if (e.affectsConfiguration('mdlg') || e.affectsConfiguration('obsd')) {
                 configManager.triggerConfigurationChanged();
             }
         });
@@ -258,6 +580,11 @@ export function activate(context: vscode.ExtensionContext) {
         vscode.window.showErrorMessage('Failed to set up configuration change listener');
         return;
     }
+
+    // 標準Markdownプレビューが markdown-it インスタンスを渡して呼び出す
+    return {
+        extendMarkdownIt: (md: MarkdownIt) => builtinPreviewExtension.extendMarkdownIt(md)
+    };
 }
 
 /**
@@ -269,18 +596,15 @@ export function activate(context: vscode.ExtensionContext) {
  * @implements {vscode.DocumentLinkProvider}
  */
 class WikiLinkDocumentLinkProvider implements vscode.DocumentLinkProvider {
-    private wikiLinkProcessor: WikiLinkProcessor;
-    private configManager: ConfigurationManager;
+    private linkResolver: WikiLinkResolver;
     
     /**
      * Creates a new WikiLinkDocumentLinkProvider instance.
      *
-     * @param configManager - Configuration manager for accessing extension settings
+     * @param linkResolver - Shared resolver used to locate link targets
      */
-    constructor(configManager: ConfigurationManager) {
-        this.configManager = configManager;
-        const slugStrategy = this.configManager.getSlugStrategy();
-        this.wikiLinkProcessor = new WikiLinkProcessor({ slugStrategy });
+    constructor(linkResolver: WikiLinkResolver) {
+        this.linkResolver = linkResolver;
     }
     
     /**
@@ -304,52 +628,33 @@ class WikiLinkDocumentLinkProvider implements vscode.DocumentLinkProvider {
         const links: vscode.DocumentLink[] = [];
         const text = document.getText();
         const wikiLinkRegex = /\[\[([^\]]+)\]\]/g;
-        const extension = this.configManager.getNoteExtension();
-        const vaultRoot = this.configManager.getVaultRoot();
-        const searchSubdirectories = this.configManager.getSearchSubdirectories();
         
         let match;
         while ((match = wikiLinkRegex.exec(text)) !== null) {
             try {
-                const linkText = match[1];
-                const parsedLink = this.wikiLinkProcessor.parseWikiLink(linkText);
-                
-                const startPos = document.positionAt(match.index);
+                // 埋め込み（![[...]]）は ! を含めてリンク範囲にする
+                const isEmbed = match.index > 0 && text[match.index - 1] === '!';
+                const startPos = document.positionAt(isEmbed ? match.index - 1 : match.index);
                 const endPos = document.positionAt(match.index + match[0].length);
                 const range = new vscode.Range(startPos, endPos);
-                
-                let fileName = this.wikiLinkProcessor.transformFileName(parsedLink.pageName);
-                fileName = PathUtil.sanitizeFileName(fileName);
-                
-                let uri: vscode.Uri | undefined;
-
-                if (searchSubdirectories) {
-                    try {
-                        const foundFile = await NoteFinder.findNoteByTitle(
-                            fileName,
-                            workspaceFolder,
-                            vaultRoot,
-                            extension
-                        );
-
-                        if (foundFile) {
-                            uri = foundFile.uri;
-                        }
-                    } catch (error) {
-                        console.warn('Failed to resolve WikiLink target:', error);
+
+                // 画像/PDFはノートとして作成せず、既存の添付ファイルにリンクする
+                const parsedLink = this.linkResolver.getProcessor().parseWikiLink(match[1], isEmbed);
+                if (PathUtil.getAttachmentKind(parsedLink.pageName)) {
+                    const attachment = await this.linkResolver.findAttachment(parsedLink.pageName);
+                    if (attachment) {
+                        links.push(new vscode.DocumentLink(range, attachment));
                     }
+                    continue;
                 }
 
-                if (!uri) {
-                    uri = PathUtil.createSafeUri(
-                        vaultRoot,
-                        fileName,
-                        extension,
-                        workspaceFolder
-                    );
-                }
+                const resolved = await this.linkResolver.resolve(match[1], workspaceFolder, document.uri);
                 
-                const documentLink = new vscode.DocumentLink(range, uri);
+                // 見出し/ブロック参照は行番号フラグメント付きで開く
+                const target = resolved.line !== undefined
+                    ? resolved.uri.with({ fragment: `L${resolved.line + 1}` })
+                    : resolved.uri;
+                const documentLink = new vscode.DocumentLink(range, target);
                 links.push(documentLink);
             } catch (error) {
                 continue;
@@ -365,99 +670,129 @@ class WikiLinkDocumentLinkProvider implements vscode.DocumentLinkProvider {
  * Extracts WikiLink text at the current cursor position and either opens the existing file
  * or creates a new file using the configured template.
  *
- * @param configManager - Configuration manager for accessing extension settings
- * @throws {Error} When file creation or opening fails
+ * @param noteCreationService - Opens the link target or creates the missing note
+ * @param explicitLinkText - Link text to open instead of the one at the cursor (e.g. from a hover command link)
+ * @param explicitSource - Note containing the explicit link (defaults to the active editor's document)
  */
-async function openOrCreateWikiLink(configManager: ConfigurationManager): Promise<void> {
+async function openOrCreateWikiLink(
+    noteCreationService: NoteCreationService,
+    explicitLinkText?: string,
+    explicitSource?: vscode.Uri
+): Promise<void> {
     const editor = vscode.window.activeTextEditor;
-    if (!editor) {
-        return;
+    let linkText = explicitLinkText;
+    if (linkText === undefined) {
+        if (!editor) {
+            return;
+        }
+        linkText = getWikiLinkAtPosition(editor.document, editor.selection.active);
     }
-
-    const position = editor.selection.active;
-    const linkText = getWikiLinkAtPosition(editor.document, position);
+    const source = explicitSource ?? editor?.document.uri;
 
     if (!linkText) {
         vscode.window.showInformationMessage('No WikiLink found at cursor position');
         return;
     }
 
-    try {
-        const wikiLinkProcessor = new WikiLinkProcessor({
-            slugStrategy: configManager.getSlugStrategy()
-        });
-        const parsedLink = wikiLinkProcessor.parseWikiLink(linkText);
-        let fileName = wikiLinkProcessor.transformFileName(parsedLink.pageName);
-
-        // ファイルシステム安全な名前に正規化
-        fileName = PathUtil.sanitizeFileName(fileName);
+    await noteCreationService.openOrCreateWikiLink(linkText, source);
+}
 
-        const extension = configManager.getNoteExtension();
-        const vaultRoot = configManager.getVaultRoot();
+/**
+ * Creates a note from a template of the templates folder.
+ * Asks for the template and the title; the file name follows `mdlg.slugStrategy` and the
+ * note is placed in the folder named by the template's `destination` property (or the vault root).
+ *
+ * @param configManager - Configuration manager for accessing extension settings
+ * @param linkResolver - Shared resolver providing the slug strategy
+ * @param templateService - Lists and renders the templates
+ * @param noteCreationService - Creates the note with timestamps and the cursor placement
+ */
+async function newNoteFromTemplate(
+    configManager: ConfigurationManager,
+    linkResolver: WikiLinkResolver,
+    templateService: TemplateService,
+    noteCreationService: NoteCreationService
+): Promise<void> {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder) {
+        vscode.window.showErrorMessage('No workspace folder found. Please open a folder first.');
+        return;
+    }
 
-        // ワークスペースフォルダーの確認
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) {
-            vscode.window.showErrorMessage('No workspace folder found. Please open a folder first.');
+    try {
+        const template = await templateService.pickTemplate(workspaceFolder);
+        if (!template) {
             return;
         }
-
-        // Check if subdirectory search is enabled
-        const searchSubdirectories = configManager.getSearchSubdirectories();
-
-        if (searchSubdirectories) {
-            // Try to find the note in subdirectories
-            const foundFile = await NoteFinder.findNoteByTitle(
-                fileName,
-                workspaceFolder,
-                vaultRoot,
-                extension
-            );
-
-            if (foundFile) {
-                // If found, open the existing file
-                await vscode.window.showTextDocument(foundFile.uri);
-                return;
-            }
+        const title = (await vscode.window.showInputBox({
+            prompt: `Title of the new note (${template.name})`,
+            validateInput: value => value.trim() === '' ? 'Enter a title' : undefined
+        }))?.trim();
+        if (!title) {
+            return;
         }
 
-        // If not found, create a new file in the default location
-        // PathUtilを使用した安全なURI作成
+        const rendered = await templateService.render(template.content, workspaceFolder, { title });
+        const { content, destination } = templateService.extractDestination(rendered);
         const uri = PathUtil.createSafeUri(
-            vaultRoot,
-            fileName,
-            extension,
-            workspaceFolder
+            configManager.getVaultRoot(),
+            linkResolver.getProcessor().transformFileName(title),
+            configManager.getNoteExtension(),
+            workspaceFolder,
+            destination
         );
-
-        // ファイル存在チェックと作成処理
-        try {
-            await vscode.workspace.fs.stat(uri);
-            await vscode.window.showTextDocument(uri);
-        } catch {
-            // ファイルが存在しない場合は新規作成
-            try {
-                // ディレクトリ作成の改善
-                const dirUri = vscode.Uri.file(path.dirname(uri.fsPath));
-                await vscode.workspace.fs.createDirectory(dirUri);
-
-                const template = configManager.getTemplate();
-                const data = new TextEncoder().encode(template);
-                await vscode.workspace.fs.writeFile(uri, data);
-                await vscode.window.showTextDocument(uri);
-            } catch (createError) {
-                vscode.window.showErrorMessage(
-                    `Failed to create file: ${createError instanceof Error ? createError.message : String(createError)}`
-                );
-            }
-        }
+        await noteCreationService.openOrCreateNote(uri, content);
     } catch (error) {
         vscode.window.showErrorMessage(
-            `WikiLink operation failed: ${error instanceof Error ? error.message : String(error)}`
+            `Failed to create note: ${error instanceof Error ? error.message : String(error)}`
         );
     }
 }
 
+/**
+ * Copies a `[[Note#^block-id]]` link to the paragraph or list item at the cursor.
+ * Appends a generated block ID to the block when it does not have one yet.
+ *
+ * @param linkResolver - Shared resolver providing the page name for the current note
+ * @throws {Error} When editing the document or writing to the clipboard fails
+ */
+async function copyBlockReference(linkResolver: WikiLinkResolver): Promise<void> {
+    const editor = vscode.window.activeTextEditor;
+    if (!editor || editor.document.languageId !== 'markdown') {
+        return;
+    }
+
+    const document = editor.document;
+    const content = document.getText();
+    const line = findBlockEndLine(content, editor.selection.active.line);
+    if (line === undefined) {
+        vscode.window.showInformationMessage('Place the cursor in a paragraph or list item to copy a block reference');
+        return;
+    }
+
+    // 既にブロックIDがあれば再利用する
+    const lineText = document.lineAt(line).text;
+    let blockId = extractBlockIds(lineText)[0]?.id;
+    if (!blockId) {
+        blockId = createBlockId(new Set(extractBlockIds(content).map(block => block.id)));
+        const textEnd = lineText.trimEnd().length;
+        const suffix = ` ^${blockId}`;
+        const applied = await editor.edit(builder => {
+            builder.replace(new vscode.Range(line, textEnd, line, lineText.length), suffix);
+        });
+        if (!applied) {
+            vscode.window.showErrorMessage('Failed to add block ID');
+            return;
+        }
+    }
+
+    const fileName = path.basename(document.uri.fsPath, path.extname(document.uri.fsPath));
+    const pageName = linkResolver.getProcessor().pageNameFromFileName(fileName);
+    const link = `[[${pageName}#^${blockId}]]`;
+    await vscode.env.clipboard.writeText(link);
+    vscode.window.showInformationMessage(`Copied ${link}`);
+}
+
 /**
  * Inserts the current date at the cursor position using the configured format.
  *
@@ -502,23 +837,6 @@ async function insertTime(configManager: ConfigurationManager, dateTimeFormatter
     await vscode.workspace.applyEdit(edit);
 }
 
-/**
- * Shows a preview of the current Markdown document.
- * Currently displays a placeholder message. Future implementation will provide
- * enhanced preview functionality.
- *
- * @throws {Error} When preview cannot be displayed
- */
-async function showPreview(): Promise<void> {
-    const editor = vscode.window.activeTextEditor;
-    if (!editor || editor.document.languageId !== 'markdown') {
-        vscode.window.showInformationMessage('Open a Markdown file to use preview');
-        return;
-    }
-    
-    vscode.window.showInformationMessage('Preview feature coming soon!');
-}
-
 /**
  * Extracts WikiLink text at the specified position in the document.
  * Searches for [[]] patterns around the cursor position and returns the link text.
@@ -529,7 +847,10 @@ async function showPreview(): Promise<void> {
  */
 function getWikiLinkAtPosition(document: vscode.TextDocument, position: vscode.Position): string {
     const text = document.getText();
-    const offset = document.offsetAt(position);
+    // 埋め込みの ! 上にカーソルがある場合もリンクとして扱う
+    const offset = text.startsWith('![[', document.offsetAt(position))
+        ? document.offsetAt(position) + 1
+        : document.offsetAt(position);
     
     const lastOpenBracket = text.lastIndexOf('[[', offset);
     if (lastOpenBracket === -1) {
@@ -6,6 +6,8 @@
  * @version 1.0.0
  */
 
+import { NotePeriod } from '../utils/Period';
+
 /**
  * Strategy for transforming WikiLink page names into file names.
  * - 'passthrough': Keep original name unchanged
@@ -14,6 +16,23 @@
  */
 export type SlugStrategy = 'passthrough' | 'kebab-case' | 'snake_case';
 
+/**
+ * Policy for choosing between several notes that share the linked title.
+ * - 'shallowest': The note with the fewest folders in its path
+ * - 'closest': The note closest to the linking note in the folder tree
+ * - 'sameFolder': A note in the linking note's folder, otherwise the shallowest
+ * - 'prompt': Ask when opening a link; elsewhere behaves like 'closest'
+ */
+export type LinkResolutionPolicy = 'shallowest' | 'closest' | 'sameFolder' | 'prompt';
+
+/**
+ * What happens to the unfinished tasks of the previous daily note when today's note is created.
+ * - 'off': Nothing
+ * - 'copy': Copy them into today's note
+ * - 'move': Copy them into today's note and mark the originals as migrated (`- [>]`)
+ */
+export type TaskRolloverMode = 'off' | 'copy' | 'move';
+
 /**
  * Complete configuration object for the MDloggerForCode extension.
  * Contains all user-configurable settings with their current values.
@@ -25,6 +44,8 @@ export interface ObsdConfiguration {
     readonly dateFormat: string;
     readonly timeFormat: string;
     readonly template: string;
+    readonly templatesFolder: string;
+    readonly promptForTemplate: boolean;
     readonly dailyNoteTemplate: string;
     readonly dailyNotePath: string;
     readonly dailyNoteEnabled: boolean;
@@ -33,6 +54,28 @@ export interface ObsdConfiguration {
     readonly notesFolder: string;
     readonly dailyNoteFormat: string;
     readonly captureSectionName: string;
+    readonly updateLinksOnRename: boolean;
+    readonly linkDiagnosticsEnabled: boolean;
+    readonly hoverPreviewLines: number;
+    readonly linkResolution: LinkResolutionPolicy;
+    readonly completionShortestPath: boolean;
+    readonly frontmatterTimestamps: boolean;
+    readonly frontmatterTimestampFormat: string;
+    readonly calendarFirstDayOfWeek: number;
+    readonly calendarShowWeekNumbers: boolean;
+    readonly periodicNotes: Readonly<Record<NotePeriod, PeriodicNoteSettings>>;
+    readonly periodicNoteLinks: boolean;
+    readonly taskRollover: TaskRolloverMode;
+    readonly taskRolloverSectionName: string;
+}
+
+/**
+ * Folder, file name format and template of one kind of periodic note.
+ */
+export interface PeriodicNoteSettings {
+    readonly path: string;
+    readonly format: string;
+    readonly template: string;
 }
 
 /**
@@ -81,6 +124,17 @@ export interface WorkspaceConfiguration {
     update(key: string, value: string | number | boolean | object | null): Promise<void> | PromiseLike<void>;
 }
 
+/** Setting name prefix and defaults of each periodic note (`mdlg.weeklyNotePath`, ...). */
+const periodicNoteDefaults: Record<NotePeriod, { prefix: string; path: string; format: string }> = {
+    week: { prefix: 'weekly', path: 'weeklynotes', format: 'GGGG-[W]WW' },
+    month: { prefix: 'monthly', path: 'monthlynotes', format: 'YYYY-MM' },
+    quarter: { prefix: 'quarterly', path: 'quarterlynotes', format: 'YYYY-[Q]Q' },
+    year: { prefix: 'yearly', path: 'yearlynotes', format: 'YYYY' }
+};
+
+/** Values of `mdlg.calendarFirstDayOfWeek`, indexed like `Date.getDay()`. */
+const weekdays = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
 /**
  * Manages extension configuration with validation and change monitoring.
  * Provides type-safe access to all extension settings and validates configuration values.
@@ -158,6 +212,24 @@ export class ConfigurationManager {
         return this.config.get<string>('template', '');
     }
 
+    /**
+     * Gets the folder (relative to the vault root) containing the note templates.
+     *
+     * @returns The configured templates folder (default: 'templates')
+     */
+    getTemplatesFolder(): string {
+        return this.config.get<string>('templatesFolder', 'templates');
+    }
+
+    /**
+     * Gets whether creating a note from a WikiLink asks which template to use.
+     *
+     * @returns True if the template picker is shown (default: false)
+     */
+    getPromptForTemplate(): boolean {
+        return this.config.get<boolean>('promptForTemplate', false);
+    }
+
     /**
      * Gets the template path for daily notes.
      *
@@ -224,6 +296,140 @@ export class ConfigurationManager {
         return this.config.get<boolean>('searchSubdirectories', true);
     }
 
+    /**
+     * Checks if incoming WikiLinks should be rewritten when a note is renamed.
+     *
+     * @returns True if links are updated on rename (default: true)
+     */
+    getUpdateLinksOnRename(): boolean {
+        return this.config.get<boolean>('updateLinksOnRename', true);
+    }
+
+    /**
+     * Checks if broken WikiLinks are reported in the Problems panel.
+     *
+     * @returns True if link diagnostics are enabled (default: true)
+     */
+    getLinkDiagnosticsEnabled(): boolean {
+        return this.config.get<boolean>('linkDiagnosticsEnabled', true);
+    }
+
+    /**
+     * Gets the maximum number of note lines shown in WikiLink hover previews.
+     *
+     * @returns Number of lines (default: 10)
+     */
+    getHoverPreviewLines(): number {
+        return this.config.get<number>('hoverPreviewLines', 10);
+    }
+
+    /**
+     * Gets the policy for resolving links whose title matches several notes.
+     *
+     * @returns The configured resolution policy (default: 'shallowest')
+     */
+    getLinkResolution(): LinkResolutionPolicy {
+        const policy = this.config.get<string>('linkResolution', 'shallowest');
+
+        if (this.isValidLinkResolution(policy)) {
+            return policy;
+        }
+
+        return 'shallowest';
+    }
+
+    /**
+     * Checks if WikiLink completion inserts the shortest path that identifies the note
+     * (e.g. `projects/Meeting`) when several notes share its title.
+     *
+     * @returns True if the shortest unique path is inserted (default: false)
+     */
+    getCompletionShortestPath(): boolean {
+        return this.config.get<boolean>('completionShortestPath', false);
+    }
+
+    /**
+     * Gets whether `created`/`updated` frontmatter properties are maintained automatically.
+     *
+     * @returns True if timestamps are written on note creation and save (default: false)
+     */
+    getFrontmatterTimestamps(): boolean {
+        return this.config.get<boolean>('frontmatterTimestamps', false);
+    }
+
+    /**
+     * Gets the format of the `created`/`updated` frontmatter timestamps.
+     *
+     * @returns The configured format string (default: 'YYYY-MM-DD HH:mm')
+     */
+    getFrontmatterTimestampFormat(): string {
+        return this.config.get<string>('frontmatterTimestampFormat', 'YYYY-MM-DD HH:mm');
+    }
+
+    /**
+     * Gets the weekday the calendar view's weeks start on.
+     *
+     * @returns Weekday index, 0 = Sunday ... 6 = Saturday (default: 0)
+     */
+    getCalendarFirstDayOfWeek(): number {
+        const day = this.config.get<string>('calendarFirstDayOfWeek', 'sunday');
+        const index = weekdays.indexOf(day);
+        return index === -1 ? 0 : index;
+    }
+
+    /**
+     * Checks if the calendar view shows ISO week numbers.
+     *
+     * @returns True if week numbers are shown (default: false)
+     */
+    getCalendarShowWeekNumbers(): boolean {
+        return this.config.get<boolean>('calendarShowWeekNumbers', false);
+    }
+
+    /**
+     * Gets the folder, file name format and template of a periodic note
+     * (`mdlg.weeklyNotePath`, `mdlg.weeklyNoteFormat`, `mdlg.weeklyNoteTemplate`, ...).
+     *
+     * @param period - The period of the note
+     * @returns The configured settings (default folder e.g. 'weeklynotes', format e.g. 'GGGG-[W]WW', no template)
+     */
+    getPeriodicNoteSettings(period: NotePeriod): PeriodicNoteSettings {
+        const defaults = periodicNoteDefaults[period];
+        return {
+            path: this.config.get<string>(`${defaults.prefix}NotePath`, defaults.path),
+            format: this.config.get<string>(`${defaults.prefix}NoteFormat`, defaults.format),
+            template: this.config.get<string>(`${defaults.prefix}NoteTemplate`, '')
+        };
+    }
+
+    /**
+     * Checks if daily notes link to their weekly note and weekly notes list their daily notes.
+     *
+     * @returns True if the links are added when the notes are created (default: false)
+     */
+    getPeriodicNoteLinks(): boolean {
+        return this.config.get<boolean>('periodicNoteLinks', false);
+    }
+
+    /**
+     * Gets what happens to the unfinished tasks of the previous daily note when today's note is created.
+     *
+     * @returns The configured rollover mode (default: 'off')
+     */
+    getTaskRollover(): TaskRolloverMode {
+        const mode = this.config.get<string>('taskRollover', 'off');
+        return mode === 'copy' || mode === 'move' ? mode : 'off';
+    }
+
+    /**
+     * Gets the section heading of today's daily note that receives rolled over tasks.
+     *
+     * @returns The configured section name (default: 'Unfinished Tasks')
+     */
+    getTaskRolloverSectionName(): string {
+        return this.config.get<string>('taskRolloverSectionName', 'Unfinished Tasks');
+    }
+
     /**
      * Gets the complete configuration object.
      *
@@ -237,6 +443,8 @@ export class ConfigurationManager {
             dateFormat: this.getDateFormat(),
             timeFormat: this.getTimeFormat(),
             template: this.getTemplate(),
+            templatesFolder: this.getTemplatesFolder(),
+            promptForTemplate: this.getPromptForTemplate(),
             dailyNoteTemplate: this.getDailyNoteTemplate(),
             dailyNotePath: this.getDailyNotePath(),
             dailyNoteEnabled: this.getDailyNoteEnabled(),
@@ -245,7 +453,25 @@ export class ConfigurationManager {
             ,
             notesFolder: this.getNotesFolder(),
             dailyNoteFormat: this.getDailyNoteFormat(),
-            captureSectionName: this.getCaptureSectionName()
+            captureSectionName: this.getCaptureSectionName(),
+            updateLinksOnRename: this.getUpdateLinksOnRename(),
+            linkDiagnosticsEnabled: this.getLinkDiagnosticsEnabled(),
+            hoverPreviewLines: this.getHoverPreviewLines(),
+            linkResolution: this.getLinkResolution(),
+            completionShortestPath: this.getCompletionShortestPath(),
+            frontmatterTimestamps: this.getFrontmatterTimestamps(),
+            frontmatterTimestampFormat: this.getFrontmatterTimestampFormat(),
+            calendarFirstDayOfWeek: this.getCalendarFirstDayOfWeek(),
+            calendarShowWeekNumbers: this.getCalendarShowWeekNumbers(),
+            periodicNotes: {
+                week: this.getPeriodicNoteSettings('week'),
+                month: this.getPeriodicNoteSettings('month'),
+                quarter: this.getPeriodicNoteSettings('quarter'),
+                year: this.getPeriodicNoteSettings('year')
+            },
+            periodicNoteLinks: this.getPeriodicNoteLinks(),
+            taskRollover: this.getTaskRollover(),
+            taskRolloverSectionName: this.getTaskRolloverSectionName()
         };
     }
 
@@ -331,6 +557,16 @@ export class ConfigurationManager {
         return ['passthrough', 'kebab-case', 'snake_case'].includes(strategy);
     }
 
+    /**
+     * Type guard to check if a string is a valid link resolution policy.
+     *
+     * @param policy - The string to check
+     * @returns True if the policy is valid
+     */
+    private isValidLinkResolution(policy: string): policy is LinkResolutionPolicy {
+        return ['shallowest', 'closest', 'sameFolder', 'prompt'].includes(policy);
+    }
+
     /**
      * Validates a date format string.
      *
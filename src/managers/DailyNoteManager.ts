@@ -1,6 +1,7 @@
 /**
  * @fileoverview Daily note management functionality for MDloggerForCode extension.
- * Provides automated daily note creation, template management, and date-based file organization.
+ * Provides automated daily note creation, template management, and date-based file organization,
+ * generalized to weekly, monthly, quarterly and yearly periodic notes.
  *
  * @author MDloggerForCode Team
  * @version 1.0.0
@@ -10,6 +11,33 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import { ConfigurationManager } from './ConfigurationManager';
 import { DateTimeFormatter } from '../utils/DateTimeFormatter';
+import { parseNaturalDate } from '../utils/NaturalDate';
+import { NotePeriod, notePeriods, getPeriodStart, addPeriods, getWeekDays } from '../utils/Period';
+import { parseFrontmatter } from '../utils/Frontmatter';
+import { TaskItem, extractTasks, insertIntoSection, markTaskMigrated } from '../utils/NoteParser';
+import { PathUtil } from '../utils/PathUtil';
+import { extractCursor } from '../utils/TemplateEngine';
+import { FrontmatterTimestampService } from '../services/FrontmatterTimestampService';
+import { TemplateService } from '../services/TemplateService';
+
+/** Names of the periods shown when asking for a kind of periodic note. */
+const periodLabels: Record<NotePeriod, string> = {
+    week: 'Weekly note',
+    month: 'Monthly note',
+    quarter: 'Quarterly note',
+    year: 'Yearly note'
+};
+
+/**
+ * Unfinished tasks of a previous daily note to roll over into a new one.
+ */
+interface RolloverTasks {
+    /** The previous daily note */
+    uri: vscode.Uri;
+    /** Its title, as used in WikiLinks */
+    title: string;
+    tasks: TaskItem[];
+}
 
 /**
  * Manages daily note creation and organization.
@@ -24,34 +52,16 @@ export class DailyNoteManager {
      *
      * @param configManager - Configuration manager for accessing daily note settings
      * @param dateTimeFormatter - Formatter for converting dates to file names
+     * @param timestampService - Adds `created`/`updated` frontmatter to new daily notes (optional)
+     * @param templateService - Reads and renders the note templates
      */
     constructor(
         private configManager: ConfigurationManager,
-        private dateTimeFormatter: DateTimeFormatter
+        private dateTimeFormatter: DateTimeFormatter,
+        private timestampService?: FrontmatterTimestampService,
+        private templateService: TemplateService = new TemplateService(configManager, dateTimeFormatter)
     ) {}
 
-    /**
-     * Normalizes an absolute path for safe URI construction in remote environments.
-     * Converts Windows backslashes to forward slashes and ensures proper URI path format.
-     *
-     * @param absolutePath - The absolute path to normalize
-     * @returns Normalized path suitable for URI construction
-     */
-    private normalizeAbsolutePath(absolutePath: string): string {
-        // Convert Windows backslashes to forward slashes
-        let normalized = absolutePath.replace(/\\/g, '/');
-
-        // Ensure single leading slash for absolute paths
-        if (!normalized.startsWith('/')) {
-            normalized = '/' + normalized;
-        }
-
-        // Remove duplicate slashes
-        normalized = normalized.replace(/\/+/g, '/');
-
-        return normalized;
-    }
-
     /**
      * Generates a daily note file name for the specified date.
      * Uses the configured date format and note extension.
@@ -78,110 +88,388 @@ export class DailyNoteManager {
     getDailyNotePath(workspaceFolder: vscode.WorkspaceFolder, date: Date): vscode.Uri {
         const fileName = this.getDailyNoteFileName(date);
         const dailyNotePath = this.configManager.getDailyNotePath();
-        const vaultRoot = this.configManager.getVaultRoot();
-
-        if (vaultRoot && vaultRoot.trim() !== '') {
-            if (vaultRoot.startsWith('/') || vaultRoot.match(/^[A-Za-z]:/)) {
-                // 絶対パスの場合、ワークスペースのスキーム（file://、vscode-remote://など）を保持
-                // リモート環境でも正しく動作するように、ワークスペースURIのスキームを使用
-                const scheme = workspaceFolder.uri.scheme;
-                if (scheme === 'file') {
-                    return vscode.Uri.file(`${vaultRoot}/${dailyNotePath}/${fileName}`);
-                } else {
-                    // リモート環境の場合、正規化されたパスでURIを構築
-                    const normalizedVaultRoot = this.normalizeAbsolutePath(vaultRoot);
-                    const fullPath = `${normalizedVaultRoot}/${dailyNotePath}/${fileName}`;
-                    return workspaceFolder.uri.with({ path: fullPath });
-                }
-            } else {
-                return vscode.Uri.joinPath(workspaceFolder.uri, vaultRoot, dailyNotePath, fileName);
-            }
-        } else {
-            return vscode.Uri.joinPath(workspaceFolder.uri, dailyNotePath, fileName);
-        }
+        return this.resolveVaultUri(workspaceFolder, dailyNotePath, fileName);
     }
 
     /**
-     * Loads template content from the configured template file.
-     * Attempts to read the daily note template file and returns its content.
-     * Returns empty string if template file is not found or not configured.
+     * Resolves a path relative to the vault root.
+     * Handles both absolute and relative vault root paths, keeping the workspace URI scheme
+     * for absolute roots so that remote workspaces keep working.
      *
      * @param workspaceFolder - The VS Code workspace folder
-     * @returns Promise resolving to template content or empty string
-     * @throws {Error} When template file cannot be read (non-existence is handled gracefully)
+     * @param segments - Path segments below the vault root
+     * @returns URI of the path
      */
-    async getTemplateContent(workspaceFolder: vscode.WorkspaceFolder): Promise<string> {
-        const templatePath = this.configManager.getDailyNoteTemplate();
+    private resolveVaultUri(workspaceFolder: vscode.WorkspaceFolder, ...segments: string[]): vscode.Uri {
+        return PathUtil.resolveVaultUri(this.configManager.getVaultRoot(), workspaceFolder, ...segments);
+    }
 
-        if (!templatePath || templatePath.trim() === '') {
-            return '';
+    /**
+     * Gets the date of a daily note from its URI, by parsing the file name with the
+     * configured date format.
+     *
+     * @param workspaceFolder - The VS Code workspace folder
+     * @param uri - URI of the note
+     * @returns The date, or undefined when the note is not a daily note
+     */
+    getDailyNoteDate(workspaceFolder: vscode.WorkspaceFolder, uri: vscode.Uri): Date | undefined {
+        const date = this.parseDailyNoteFileName(path.posix.basename(uri.path || uri.fsPath));
+        // 同じ名前でも日報フォルダ以外のノートは対象外
+        if (!date || this.getDailyNotePath(workspaceFolder, date).toString() !== uri.toString()) {
+            return undefined;
         }
+        return date;
+    }
+
+    /**
+     * Finds the closest existing daily note before or after a date, skipping days without a note.
+     *
+     * @param workspaceFolder - The VS Code workspace folder
+     * @param date - Reference date
+     * @param direction - -1 for the previous note, 1 for the next one
+     * @returns Date of the adjacent daily note, or undefined when there is none
+     */
+    async findAdjacentDailyNote(workspaceFolder: vscode.WorkspaceFolder, date: Date, direction: -1 | 1): Promise<Date | undefined> {
+        const referenceUri = this.getDailyNotePath(workspaceFolder, date);
+        const dirUri = referenceUri.with({ path: path.posix.dirname(referenceUri.path || referenceUri.fsPath) });
+        const day = new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
 
+        let entries: [string, vscode.FileType][];
         try {
-            const vaultRoot = this.configManager.getVaultRoot();
-            let templateUri: vscode.Uri;
-
-            if (vaultRoot && vaultRoot.trim() !== '') {
-                if (vaultRoot.startsWith('/') || vaultRoot.match(/^[A-Za-z]:/)) {
-                    // 絶対パスの場合、ワークスペースのスキームを保持
-                    const scheme = workspaceFolder.uri.scheme;
-                    if (scheme === 'file') {
-                        templateUri = vscode.Uri.file(`${vaultRoot}/${templatePath}`);
-                    } else {
-                        // リモート環境の場合、正規化されたパスでURIを構築
-                        const normalizedVaultRoot = this.normalizeAbsolutePath(vaultRoot);
-                        const fullPath = `${normalizedVaultRoot}/${templatePath}`;
-                        templateUri = workspaceFolder.uri.with({ path: fullPath });
-                    }
-                } else {
-                    templateUri = vscode.Uri.joinPath(workspaceFolder.uri, vaultRoot, templatePath);
-                }
-            } else {
-                templateUri = vscode.Uri.joinPath(workspaceFolder.uri, templatePath);
+            entries = await vscode.workspace.fs.readDirectory(dirUri);
+        } catch {
+            return undefined;
+        }
+
+        let closest: Date | undefined;
+        for (const [name, type] of entries) {
+            if (type !== vscode.FileType.File) {
+                continue;
             }
+            const noteDate = this.parseDailyNoteFileName(name);
+            if (!noteDate || (noteDate.getTime() - day) * direction <= 0) {
+                continue;
+            }
+            if (!closest || (noteDate.getTime() - closest.getTime()) * direction < 0) {
+                closest = noteDate;
+            }
+        }
+        return closest;
+    }
+
+    /**
+     * Opens the previous or next existing daily note, starting from the daily note of the
+     * active editor (or today when another file is active).
+     *
+     * @param workspaceFolder - The VS Code workspace folder
+     * @param direction - -1 for the previous note, 1 for the next one
+     * @returns True if a note was opened
+     */
+    async openAdjacentDailyNote(workspaceFolder: vscode.WorkspaceFolder, direction: -1 | 1): Promise<boolean> {
+        const activeUri = vscode.window.activeTextEditor?.document.uri;
+        const reference = (activeUri && this.getDailyNoteDate(workspaceFolder, activeUri)) || new Date();
+        const target = await this.findAdjacentDailyNote(workspaceFolder, reference, direction);
+        if (!target) {
+            vscode.window.showInformationMessage(`No ${direction < 0 ? 'previous' : 'next'} daily note found`);
+            return false;
+        }
+        await this.openOrCreateDailyNote(workspaceFolder, target);
+        return true;
+    }
+
+    /**
+     * Asks for a date (ISO dates or phrases such as "yesterday", "last friday", "+3d")
+     * and opens or creates its daily note.
+     *
+     * @param workspaceFolder - The VS Code workspace folder
+     * @returns True if a note was opened
+     */
+    async openDailyNoteForDate(workspaceFolder: vscode.WorkspaceFolder): Promise<boolean> {
+        const dateFormat = this.configManager.getDateFormat();
+        const parse = (value: string) => parseNaturalDate(value) ?? this.dateTimeFormatter.parseDate(value.trim(), dateFormat);
+        const input = await vscode.window.showInputBox({
+            prompt: 'Open the daily note of a date',
+            placeHolder: 'YYYY-MM-DD, today, yesterday, last friday, +3d, -1w ...',
+            validateInput: value => value.trim() === '' || parse(value)
+                ? undefined
+                : 'Enter a date such as 2025-09-18, "yesterday", "last friday" or "+3d"'
+        });
+        const date = input ? parse(input) : undefined;
+        if (!date) {
+            return false;
+        }
+        await this.openOrCreateDailyNote(workspaceFolder, date);
+        return true;
+    }
 
-            const data = await vscode.workspace.fs.readFile(templateUri);
-            return new TextDecoder().decode(data);
-        } catch (error) {
-            // テンプレートファイルが見つからない場合は空文字列を返す
-            return '';
+    /**
+     * Parses a daily note file name back to its date. Only names that the configured
+     * format produces exactly are accepted.
+     */
+    private parseDailyNoteFileName(fileName: string): Date | undefined {
+        const extension = this.configManager.getNoteExtension();
+        if (!fileName.endsWith(extension)) {
+            return undefined;
         }
+        const date = this.dateTimeFormatter.parseDate(fileName.slice(0, -extension.length), this.configManager.getDateFormat());
+        return date && this.getDailyNoteFileName(date) === fileName ? date : undefined;
+    }
+
+    /**
+     * Loads template content from the configured template file.
+     * Attempts to read the daily note template file and returns its content,
+     * rendered for the daily note of the given date (`{{title}}`, `{{date}}`, ...).
+     * Returns empty string if template file is not found or not configured.
+     *
+     * @param workspaceFolder - The VS Code workspace folder
+     * @param date - The date of the daily note (defaults to current date)
+     * @returns Promise resolving to template content or empty string
+     * @throws {Error} When template file cannot be read (non-existence is handled gracefully)
+     */
+    async getTemplateContent(workspaceFolder: vscode.WorkspaceFolder, date: Date = new Date()): Promise<string> {
+        const template = await this.templateService.readTemplate(workspaceFolder, this.configManager.getDailyNoteTemplate());
+        const title = this.dateTimeFormatter.formatDate(date, this.configManager.getDateFormat());
+        return this.templateService.render(template, workspaceFolder, { title, date });
     }
 
     /**
      * Opens an existing daily note or creates a new one for the specified date.
      * Main entry point for daily note functionality. Handles file existence checking,
      * directory creation, template application, and file opening.
+     * With `mdlg.taskRollover`, today's new note receives the unfinished tasks of the
+     * most recent previous daily note.
      *
      * @param workspaceFolder - The VS Code workspace folder
      * @param date - The date for the daily note (defaults to current date)
      * @throws {Error} When file creation or opening fails
      */
     async openOrCreateDailyNote(workspaceFolder: vscode.WorkspaceFolder, date: Date = new Date()): Promise<void> {
-        const dailyNoteUri = this.getDailyNotePath(workspaceFolder, date);
+        const rolloverMode = isToday(date) ? this.configManager.getTaskRollover() : 'off';
+        let rollover = undefined as RolloverTasks | undefined;
+
+        const created = await this.openOrCreateNote(this.getDailyNotePath(workspaceFolder, date), async () => {
+            let content = await this.getTemplateContent(workspaceFolder, date);
+            if (this.configManager.getPeriodicNoteLinks()) {
+                content = insertAfterFrontmatter(content, `Week: [[${this.getPeriodicNoteTitle('week', date)}]]`);
+            }
+            if (rolloverMode !== 'off') {
+                rollover = await this.findRolloverTasks(workspaceFolder, date);
+                if (rollover) {
+                    content = this.insertRolloverTasks(content, rollover);
+                }
+            }
+            return content;
+        });
+
+        // 新しい日報の作成後に、移動元のタスクを移行済みにする
+        if (created && rollover && rolloverMode === 'move') {
+            await this.markTasksMigrated(rollover);
+        }
+    }
+
+    /**
+     * Generates the file name of a weekly, monthly, quarterly or yearly note.
+     * Uses the format configured for the period (e.g. `GGGG-[W]WW` → `2025-W38.md`).
+     *
+     * @param period - The period of the note
+     * @param date - Any date inside the period
+     * @returns The formatted file name with extension
+     */
+    getPeriodicNoteFileName(period: NotePeriod, date: Date): string {
+        return `${this.getPeriodicNoteTitle(period, date)}${this.configManager.getNoteExtension()}`;
+    }
+
+    /**
+     * Resolves the complete path of a weekly, monthly, quarterly or yearly note.
+     *
+     * @param workspaceFolder - The VS Code workspace folder
+     * @param period - The period of the note
+     * @param date - Any date inside the period
+     * @returns Complete URI for the periodic note file
+     */
+    getPeriodicNotePath(workspaceFolder: vscode.WorkspaceFolder, period: NotePeriod, date: Date): vscode.Uri {
+        const { path: folder } = this.configManager.getPeriodicNoteSettings(period);
+        return this.resolveVaultUri(workspaceFolder, folder, this.getPeriodicNoteFileName(period, date));
+    }
+
+    /**
+     * Finds which periodic note a URI is, by parsing its file name with the format of each period.
+     *
+     * @param workspaceFolder - The VS Code workspace folder
+     * @param uri - URI of the note
+     * @returns The period and its first day, or undefined when the note is not a periodic note
+     */
+    getPeriodicNote(workspaceFolder: vscode.WorkspaceFolder, uri: vscode.Uri): { period: NotePeriod; date: Date } | undefined {
+        const extension = this.configManager.getNoteExtension();
+        const fileName = path.posix.basename(uri.path || uri.fsPath);
+        if (!fileName.endsWith(extension)) {
+            return undefined;
+        }
+
+        for (const period of notePeriods) {
+            const { format } = this.configManager.getPeriodicNoteSettings(period);
+            const date = this.dateTimeFormatter.parseDate(fileName.slice(0, -extension.length), format);
+            // 同じ名前でも別フォルダのノートや別の期間のノートは対象外
+            if (date && this.getPeriodicNotePath(workspaceFolder, period, date).toString() === uri.toString()) {
+                return { period, date: getPeriodStart(date, period) };
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Opens an existing periodic note or creates it from the period's template.
+     * With `mdlg.periodicNoteLinks`, new weekly notes list the daily notes of the week.
+     *
+     * @param workspaceFolder - The VS Code workspace folder
+     * @param period - The period of the note
+     * @param date - Any date inside the period (defaults to current date)
+     * @throws {Error} When file creation or opening fails
+     */
+    async openOrCreatePeriodicNote(workspaceFolder: vscode.WorkspaceFolder, period: NotePeriod, date: Date = new Date()): Promise<void> {
+        await this.openOrCreateNote(this.getPeriodicNotePath(workspaceFolder, period, date), async () => {
+            const { template } = this.configManager.getPeriodicNoteSettings(period);
+            const content = await this.templateService.render(
+                await this.templateService.readTemplate(workspaceFolder, template),
+                workspaceFolder,
+                { title: this.getPeriodicNoteTitle(period, date), date: getPeriodStart(date, period) }
+            );
+            if (period !== 'week' || !this.configManager.getPeriodicNoteLinks()) {
+                return content;
+            }
+            const dateFormat = this.configManager.getDateFormat();
+            const days = getWeekDays(date).map(day => `- [[${this.dateTimeFormatter.formatDate(day, dateFormat)}]]`);
+            const section = `## Days\n${days.join('\n')}\n`;
+            return content.trim() === '' ? section : `${content.trimEnd()}\n\n${section}`;
+        });
+    }
+
+    /**
+     * Opens the previous or next note of the same period as the active periodic note.
+     * When the active editor is not a periodic note, asks for the period and starts from today.
+     *
+     * @param workspaceFolder - The VS Code workspace folder
+     * @param direction - -1 for the previous period, 1 for the next one
+     * @returns True if a note was opened
+     */
+    async openAdjacentPeriodicNote(workspaceFolder: vscode.WorkspaceFolder, direction: -1 | 1): Promise<boolean> {
+        const activeUri = vscode.window.activeTextEditor?.document.uri;
+        const active = activeUri ? this.getPeriodicNote(workspaceFolder, activeUri) : undefined;
+        const period = active?.period ?? await this.pickPeriod();
+        if (!period) {
+            return false;
+        }
+        await this.openOrCreatePeriodicNote(workspaceFolder, period, addPeriods(active?.date ?? new Date(), period, direction));
+        return true;
+    }
+
+    /**
+     * Collects the unfinished tasks of the most recent daily note before a date.
+     */
+    private async findRolloverTasks(workspaceFolder: vscode.WorkspaceFolder, date: Date): Promise<RolloverTasks | undefined> {
+        const previous = await this.findAdjacentDailyNote(workspaceFolder, date, -1);
+        if (!previous) {
+            return undefined;
+        }
+        const uri = this.getDailyNotePath(workspaceFolder, previous);
+        try {
+            const tasks = extractTasks(new TextDecoder().decode(await vscode.workspace.fs.readFile(uri)));
+            if (tasks.length === 0) {
+                return undefined;
+            }
+            const title = this.dateTimeFormatter.formatDate(previous, this.configManager.getDateFormat());
+            return { uri, title, tasks };
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Adds rolled over tasks, with a link to their origin, to the rollover section of a new note.
+     * Indentation is kept relative to the least indented task.
+     */
+    private insertRolloverTasks(content: string, rollover: RolloverTasks): string {
+        const sectionName = this.configManager.getTaskRolloverSectionName();
+        const newline = content.includes('\r\n') ? '\r\n' : '\n';
+        const indent = Math.min(...rollover.tasks.map(task => task.raw.match(/^\s*/)![0].length));
+        const lines = [`From [[${rollover.title}]]`, ...rollover.tasks.map(task => task.raw.slice(indent))];
+
+        if (content.trim() === '') {
+            return [`## ${sectionName}`, ...lines, ''].join(newline);
+        }
+        return insertIntoSection(content, sectionName, lines.join(newline)).newContent;
+    }
 
+    /**
+     * Marks rolled over tasks as migrated (`- [>]`) in their origin note.
+     * Tasks whose line changed in the meantime are left alone.
+     */
+    private async markTasksMigrated(rollover: RolloverTasks): Promise<void> {
+        let content = new TextDecoder().decode(await vscode.workspace.fs.readFile(rollover.uri));
+        for (const task of rollover.tasks) {
+            if (content.split(/\r?\n/)[task.line] === task.raw) {
+                content = markTaskMigrated(content, task.line);
+            }
+        }
+        await vscode.workspace.fs.writeFile(rollover.uri, new TextEncoder().encode(content));
+    }
+
+    /**
+     * Gets the file name of a periodic note without its extension, as used in WikiLinks.
+     */
+    private getPeriodicNoteTitle(period: NotePeriod, date: Date): string {
+        const { format } = this.configManager.getPeriodicNoteSettings(period);
+        return this.dateTimeFormatter.formatDate(getPeriodStart(date, period), format);
+    }
+
+    private async pickPeriod(): Promise<NotePeriod | undefined> {
+        const picked = await vscode.window.showQuickPick(
+            notePeriods.map(period => ({ label: periodLabels[period], period })),
+            { placeHolder: 'Select the kind of periodic note' }
+        );
+        return picked?.period;
+    }
+
+    /**
+     * Opens a note, creating it (and its folder) with the given initial content when it does not exist.
+     * The cursor of a new note is placed at the template's `{{cursor}}`, if any.
+     *
+     * @returns True if the note was created
+     */
+    private async openOrCreateNote(uri: vscode.Uri, getInitialContent: () => Promise<string>): Promise<boolean> {
         try {
             // ファイルが既に存在するかチェック
-            await vscode.workspace.fs.stat(dailyNoteUri);
+            await vscode.workspace.fs.stat(uri);
             // 存在する場合はそのまま開く
-            await vscode.window.showTextDocument(dailyNoteUri);
+            await vscode.window.showTextDocument(uri);
+            return false;
         } catch {
             // ファイルが存在しない場合は新規作成
-            const templateContent = await this.getTemplateContent(workspaceFolder);
-            const data = new TextEncoder().encode(templateContent);
+            let templateContent = await getInitialContent();
+            if (this.timestampService) {
+                templateContent = this.timestampService.stampNewNote(templateContent);
+            }
+            const { content, cursor } = extractCursor(templateContent);
+            const data = new TextEncoder().encode(content);
 
             // ディレクトリが存在しない場合は作成
             // 元のURIのスキームを保持して親ディレクトリURIを作成
-            const uriPath = dailyNoteUri.path || dailyNoteUri.fsPath;
+            const uriPath = uri.path || uri.fsPath;
             const dirPath = path.dirname(uriPath);
-            const dirUri = dailyNoteUri.with({ path: dirPath });
+            const dirUri = uri.with({ path: dirPath });
             await vscode.workspace.fs.createDirectory(dirUri);
 
             // ファイル作成
-            await vscode.workspace.fs.writeFile(dailyNoteUri, data);
+            await vscode.workspace.fs.writeFile(uri, data);
 
             // 新しいタブで開く
-            await vscode.window.showTextDocument(dailyNoteUri);
+            if (cursor) {
+                const position = new vscode.Position(cursor.line, cursor.character);
+                await vscode.window.showTextDocument(uri, { selection: new vscode.Range(position, position) });
+            } else {
+                await vscode.window.showTextDocument(uri);
+            }
+            return true;
         }
     }
 
@@ -201,14 +489,38 @@ export class DailyNoteManager {
         sectionName?: string,
         date: Date = new Date()
     ): Promise<{ uri: vscode.Uri; line: number }> {
-        const targetSection = sectionName || this.configManager.getCaptureSectionName();
-        const dailyUri = this.getDailyNotePath(workspaceFolder, date);
-
         // Ensure file exists (creates if necessary)
         await this.openOrCreateDailyNote(workspaceFolder, date);
+        return this.appendCaptureLine(this.getDailyNotePath(workspaceFolder, date), content, sectionName);
+    }
+
+    /**
+     * Appends a captured line to a named section inside the current weekly, monthly,
+     * quarterly or yearly note, creating the note or the section when needed.
+     *
+     * @param workspaceFolder - The VS Code workspace folder
+     * @param period - The period of the target note
+     * @param content - The content to append (single-line)
+     * @param sectionName - Optional section heading to append into. If omitted, uses ConfigurationManager.getCaptureSectionName().
+     * @param date - Optional date inside the target period (defaults to today)
+     * @returns Promise resolving to the inserted line index and target URI
+     */
+    async appendToPeriodicNoteSection(
+        workspaceFolder: vscode.WorkspaceFolder,
+        period: NotePeriod,
+        content: string,
+        sectionName?: string,
+        date: Date = new Date()
+    ): Promise<{ uri: vscode.Uri; line: number }> {
+        await this.openOrCreatePeriodicNote(workspaceFolder, period, date);
+        return this.appendCaptureLine(this.getPeriodicNotePath(workspaceFolder, period, date), content, sectionName);
+    }
+
+    private async appendCaptureLine(uri: vscode.Uri, content: string, sectionName?: string): Promise<{ uri: vscode.Uri; line: number }> {
+        const targetSection = sectionName || this.configManager.getCaptureSectionName();
 
         // Read file
-        const raw = await vscode.workspace.fs.readFile(dailyUri);
+        const raw = await vscode.workspace.fs.readFile(uri);
         const text = new TextDecoder().decode(raw);
         const lines = text.split(/\r?\n/);
 
@@ -251,8 +563,28 @@ export class DailyNoteManager {
 
         // Write back
         const newText = lines.join('\n');
-        await vscode.workspace.fs.writeFile(dailyUri, new TextEncoder().encode(newText));
+        await vscode.workspace.fs.writeFile(uri, new TextEncoder().encode(newText));
 
-        return { uri: dailyUri, line: insertLine };
+        return { uri, line: insertLine };
+    }
+}
+
+function isToday(date: Date): boolean {
+    return date.toDateString() === new Date().toDateString();
+}
+
+/**
+ * Inserts a line after the frontmatter of a note (or at the top when it has none),
+ * separated from the following content by a blank line.
+ */
+function insertAfterFrontmatter(content: string, line: string): string {
+    if (content === '') {
+        return `${line}\n`;
     }
+    const newline = content.includes('\r\n') ? '\r\n' : '\n';
+    const lines = content.split(/\r?\n/);
+    const frontmatter = parseFrontmatter(content);
+    const index = frontmatter && frontmatter.endLine >= 0 ? frontmatter.endLine + 1 : 0;
+    lines.splice(index, 0, line, ...(lines[index]?.trim() ? [''] : []));
+    return lines.join(newline);
 }
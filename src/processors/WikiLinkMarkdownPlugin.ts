@@ -0,0 +1,164 @@
+/**
+ * @fileoverview markdown-it plugin rendering [[WikiLinks]] as HTML links.
+ * Link targets are resolved through a callback so that renderers share the
+ * extension's resolution rules and can style links to missing notes differently.
+ * Embeds (`![[...]]`) are delegated to an optional callback and fall back to links.
+ *
+ * @author MDloggerForCode Team
+ * @version 1.0.0
+ */
+
+import type MarkdownIt from 'markdown-it';
+import type StateInline from 'markdown-it/lib/rules_inline/state_inline';
+import type StateBlock from 'markdown-it/lib/rules_block/state_block';
+import { WikiLinkProcessor, formatLinkAnchor } from './WikiLinkProcessor';
+
+/**
+ * Result of resolving a WikiLink for rendering.
+ */
+export interface RenderedWikiLinkTarget {
+    /** The href written to the anchor */
+    readonly href: string;
+    /** False when the target note does not exist yet */
+    readonly exists: boolean;
+    /** URI of the note the link was resolved against, written to `data-source` for click handling */
+    readonly source?: string;
+}
+
+/**
+ * Options for the WikiLink markdown-it plugin.
+ */
+export interface WikiLinkPluginOptions {
+    /**
+     * Resolves raw link text (without brackets) to a target. The markdown-it `env` of the
+     * current render is passed through so that links can be resolved relative to its note.
+     * Must be synchronous because markdown-it renders synchronously.
+     */
+    resolve(linkText: string, env?: unknown): RenderedWikiLinkTarget;
+    /**
+     * Renders an embed (`![[linkText]]`) to HTML. The markdown-it `env` of the current
+     * render is passed through so that nested renders can track their ancestors.
+     * When omitted, embeds are rendered as regular links.
+     */
+    renderEmbed?(linkText: string, env: unknown): string;
+    /**
+     * Processor used to extract the display label (defaults to passthrough), or a function
+     * returning the processor of the current render when the instance outlives settings changes
+     */
+    processor?: WikiLinkProcessor | (() => WikiLinkProcessor);
+}
+
+/** CSS class of every rendered WikiLink. */
+export const wikiLinkClass = 'mdlg-wikilink';
+
+/** CSS class added to links whose target does not exist. */
+export const missingWikiLinkClass = 'mdlg-wikilink-missing';
+
+/** CSS class of the container of an embed on its own line. */
+export const embedBlockClass = 'mdlg-embed-block';
+
+/**
+ * Registers the `wikilink` / `wikilink_embed` rules and their renderers.
+ * The raw link text is kept in a `data-wikilink` attribute for click handling.
+ *
+ * @param md - markdown-it instance
+ * @param options - Plugin options
+ */
+export function wikiLinkPlugin(md: MarkdownIt, options: WikiLinkPluginOptions): void {
+    const defaultProcessor = options.processor instanceof WikiLinkProcessor ? options.processor : new WikiLinkProcessor();
+    const getProcessor = typeof options.processor === 'function' ? options.processor : () => defaultProcessor;
+    const escape = md.utils.escapeHtml;
+
+    md.inline.ruler.before('link', 'wikilink', (state: StateInline, silent: boolean) => {
+        const isEmbed = state.src.charCodeAt(state.pos) === 0x21 /* ! */;
+        const start = isEmbed ? state.pos + 1 : state.pos;
+        const linkText = matchWikiLink(state.src, start);
+        if (linkText === null) {
+            return false;
+        }
+
+        if (!silent) {
+            const token = state.push(isEmbed ? 'wikilink_embed' : 'wikilink', '', 0);
+            token.meta = { linkText };
+            token.content = linkText;
+        }
+        state.pos = start + linkText.length + 4;
+        return true;
+    });
+
+    // 単独行の埋め込みは段落で囲まずブロックとして描画する
+    md.block.ruler.before('paragraph', 'wikilink_embed', (state: StateBlock, startLine: number, _endLine: number, silent: boolean) => {
+        if (state.sCount[startLine] - state.blkIndent >= 4) {
+            return false;
+        }
+        const line = state.src.slice(state.bMarks[startLine] + state.tShift[startLine], state.eMarks[startLine]).trimEnd();
+        const linkText = line.startsWith('!') ? matchWikiLink(line, 1) : null;
+        if (linkText === null || line.length !== linkText.length + 5) {
+            return false;
+        }
+
+        if (!silent) {
+            const token = state.push('wikilink_embed', 'div', 0);
+            token.block = true;
+            token.map = [startLine, startLine + 1];
+            token.meta = { linkText };
+            token.content = linkText;
+        }
+        state.line = startLine + 1;
+        return true;
+    });
+
+    const renderLink = (linkText: string, raw: string, env: unknown): string => {
+        let label = linkText;
+        try {
+            const parsed = getProcessor().parseWikiLink(linkText);
+            const anchor = formatLinkAnchor(parsed);
+            label = parsed.displayName ?? (anchor ? `${parsed.pageName} > ${anchor}` : parsed.pageName);
+        } catch {
+            // 不正なリンクはそのまま表示
+            return escape(raw);
+        }
+
+        const target = options.resolve(linkText, env);
+        const classes = target.exists ? wikiLinkClass : `${wikiLinkClass} ${missingWikiLinkClass}`;
+        const source = target.source ? ` data-source="${escape(target.source)}"` : '';
+        return `<a href="${escape(target.href)}" class="${classes}" data-wikilink="${escape(linkText)}"${source}>${escape(label)}</a>`;
+    };
+
+    md.renderer.rules.wikilink = (tokens, idx, _options, env) => {
+        const linkText: string = tokens[idx].meta.linkText;
+        return renderLink(linkText, `[[${linkText}]]`, env);
+    };
+
+    md.renderer.rules.wikilink_embed = (tokens, idx, _options, env, self) => {
+        const token = tokens[idx];
+        const linkText: string = token.meta.linkText;
+        const html = options.renderEmbed
+            ? options.renderEmbed(linkText, env)
+            : renderLink(linkText, `![[${linkText}]]`, env);
+        return token.block
+            ? `<div class="${embedBlockClass}"${self.renderAttrs(token)}>${html}</div>\n`
+            : html;
+    };
+}
+
+/**
+ * Matches `[[linkText]]` at the given position.
+ *
+ * @returns The link text, or null when there is no well-formed WikiLink at `start`
+ */
+function matchWikiLink(src: string, start: number): string | null {
+    if (src.charCodeAt(start) !== 0x5B /* [ */ || src.charCodeAt(start + 1) !== 0x5B) {
+        return null;
+    }
+
+    const end = src.indexOf(']]', start + 2);
+    if (end === -1) {
+        return null;
+    }
+    const linkText = src.slice(start + 2, end);
+    if (linkText.trim() === '' || /[[\]\n]/.test(linkText)) {
+        return null;
+    }
+    return linkText;
+}
@@ -11,13 +11,30 @@ import type { SlugStrategy } from '../managers/ConfigurationManager';
 
 /**
  * Represents a parsed WikiLink with all its components.
- * Contains the page name, optional display name, heading reference, and alias status.
+ * Contains the page name, optional display name, heading or block reference, alias
+ * status and whether the link is an embed (`![[...]]`).
  */
 export interface ParsedWikiLink {
     readonly pageName: string;
     readonly displayName?: string;
+    /** Heading path of `[[Page#Heading]]`; not set for block references */
     readonly heading?: string;
+    /** Block ID of `[[Page#^block-id]]`, without the leading `^` */
+    readonly blockId?: string;
     readonly isAlias: boolean;
+    /** True for embeds written as `![[...]]`; omitted for regular links */
+    readonly isEmbed?: boolean;
+}
+
+/**
+ * Returns the anchor of a parsed link as written after `#`: the heading path,
+ * or `^block-id` for block references.
+ *
+ * @param parsedLink - The parsed WikiLink
+ * @returns The anchor, or undefined when the link targets the whole note
+ */
+export function formatLinkAnchor(parsedLink: ParsedWikiLink): string | undefined {
+    return parsedLink.blockId !== undefined ? `^${parsedLink.blockId}` : parsedLink.heading;
 }
 
 /**
@@ -76,10 +93,16 @@ export class WikiLinkProcessor {
      * and heading links [[Page#Section]] with various combinations.
      *
      * @param linkText - The WikiLink text to parse (without [[ ]] brackets)
+     * @param isEmbed - True when the link was written with the `!` embed prefix
      * @returns Parsed WikiLink object with all components
      * @throws {WikiLinkError} When link text is invalid or malformed
      */
-    parseWikiLink(linkText: string): ParsedWikiLink {
+    parseWikiLink(linkText: string, isEmbed = false): ParsedWikiLink {
+        const parsed = this.parseLinkText(linkText);
+        return isEmbed ? { ...parsed, isEmbed: true } : parsed;
+    }
+
+    private parseLinkText(linkText: string): ParsedWikiLink {
         this.validateLinkText(linkText);
         
         const trimmedLinkText = linkText.trim();
@@ -151,7 +174,7 @@ export class WikiLinkProcessor {
         if (headingMatch) {
             return {
                 pageName: headingMatch[1].trim(),
-                heading: headingMatch[2].trim(),
+                ...this.parseAnchor(headingMatch[2]),
                 displayName: displayName,
                 isAlias: true
             };
@@ -179,11 +202,23 @@ export class WikiLinkProcessor {
 
         return {
             pageName: headingMatch[1].trim(),
-            heading: headingMatch[2].trim(),
+            ...this.parseAnchor(headingMatch[2]),
             isAlias: false
         };
     }
 
+    /**
+     * Classifies the part after `#` as a block reference (`^block-id`) or a heading.
+     *
+     * @param anchor - The text after the first `#`
+     * @returns The block ID or heading component of the parsed link
+     */
+    private parseAnchor(anchor: string): { heading: string } | { blockId: string } {
+        const trimmed = anchor.trim();
+        const blockMatch = trimmed.match(/^\^([A-Za-z0-9-]+)$/);
+        return blockMatch ? { blockId: blockMatch[1] } : { heading: trimmed };
+    }
+
     /**
      * Parses simple links in format [[Page]].
      *
@@ -217,6 +252,53 @@ export class WikiLinkProcessor {
         }
     }
 
+    /**
+     * Derives a page name from a file name by reversing the configured slug strategy.
+     * Separators of kebab-case/snake_case names become spaces, and words are capitalized
+     * when the hint page name is written that way. The result always transforms back to
+     * the given file name; if it would not, the file name itself is returned.
+     *
+     * @param fileName - File name without extension
+     * @param hint - Optional existing page name whose capitalization style is reused
+     * @returns Page name suitable for use inside a WikiLink
+     */
+    pageNameFromFileName(fileName: string, hint?: string): string {
+        const strategy = this.options.slugStrategy;
+        if (strategy === 'passthrough') {
+            return fileName;
+        }
+
+        const separator = strategy === 'kebab-case' ? '-' : '_';
+        const words = fileName.split(separator).filter(word => word !== '');
+        const hintWords = hint ? hint.trim().split(/\s+/) : [];
+        const capitalize = hintWords.length > 0 && hintWords.every(word => /^[^a-z]/.test(word));
+
+        const pageName = words
+            .map(word => capitalize ? word.charAt(0).toUpperCase() + word.slice(1) : word)
+            .join(' ');
+
+        return this.transformFileName(pageName) === fileName ? pageName : fileName;
+    }
+
+    /**
+     * Replaces the page name part of raw WikiLink text, keeping heading, alias and spacing.
+     *
+     * @param linkText - The raw WikiLink text (without [[ ]] brackets)
+     * @param newPageName - The page name to put in place of the current one
+     * @returns Offset and length of the replaced segment within linkText and the new text
+     * @throws {WikiLinkError} When link text is invalid
+     */
+    replacePageName(linkText: string, newPageName: string): { offset: number; length: number; newLinkText: string } {
+        const parsed = this.parseWikiLink(linkText);
+        const offset = linkText.indexOf(parsed.pageName);
+        const length = parsed.pageName.length;
+        return {
+            offset,
+            length,
+            newLinkText: linkText.substring(0, offset) + newPageName + linkText.substring(offset + length)
+        };
+    }
+
     /**
      * Transforms page name to kebab-case format.
      * Converts to lowercase, replaces special characters and spaces with hyphens.
@@ -0,0 +1,328 @@
+/**
+ * @fileoverview Backlinks tree view for the active note.
+ * Lists every note linking to the active file (linked mentions) and plain-text
+ * occurrences of its title that are not wrapped in brackets (unlinked mentions).
+ *
+ * @author MDloggerForCode Team
+ * @version 1.0.0
+ */
+
+import * as vscode from 'vscode';
+import { ConfigurationManager } from '../managers/ConfigurationManager';
+import { VaultIndex, IndexedNote } from '../services/VaultIndex';
+import { WikiLinkResolver } from '../services/WikiLinkResolver';
+import { findUnlinkedMentions } from '../utils/NoteParser';
+
+/** Maximum length of the context line shown for each mention. */
+const maxContextLength = 120;
+
+/** Delay before refreshing the view after index updates (typing triggers many). */
+const refreshDelayMs = 300;
+
+/**
+ * A single mention of the active note inside a source note.
+ */
+export interface BacklinkMention {
+    readonly uri: vscode.Uri;
+    readonly line: number;
+    readonly character: number;
+    readonly length: number;
+    /** The full source line, used as context */
+    readonly lineText: string;
+    /** The matched text (WikiLink including brackets, or the plain-text mention) */
+    readonly text: string;
+}
+
+/**
+ * Node types rendered by the backlinks tree.
+ */
+export type BacklinkNode =
+    | { readonly kind: 'group'; readonly linked: boolean }
+    | { readonly kind: 'file'; readonly linked: boolean; readonly note: IndexedNote; readonly mentions: BacklinkMention[] }
+    | { readonly kind: 'mention'; readonly linked: boolean; readonly targetTitle: string; readonly mention: BacklinkMention };
+
+/**
+ * Tree data provider for the `mdlg.backlinks` Explorer view.
+ *
+ * @class BacklinksTreeProvider
+ * @implements {vscode.TreeDataProvider<BacklinkNode>}
+ */
+export class BacklinksTreeProvider implements vscode.TreeDataProvider<BacklinkNode>, vscode.Disposable {
+    public static readonly viewId = 'mdlg.backlinks';
+
+    private readonly changeEmitter = new vscode.EventEmitter<BacklinkNode | undefined>();
+    readonly onDidChangeTreeData: vscode.Event<BacklinkNode | undefined> = this.changeEmitter.event;
+
+    private disposables: { dispose(): unknown }[] = [];
+    private refreshTimer: ReturnType<typeof setTimeout> | undefined;
+    private target: vscode.Uri | undefined;
+
+    /**
+     * Creates a new BacklinksTreeProvider instance.
+     *
+     * @param configManager - Configuration manager for slug strategy
+     * @param vaultIndex - Shared vault index
+     * @param linkResolver - Resolver used to decide which links point at the active note
+     */
+    constructor(
+        private readonly configManager: ConfigurationManager,
+        private readonly vaultIndex: VaultIndex,
+        private readonly linkResolver: WikiLinkResolver
+    ) {
+        this.target = this.getMarkdownUri(vscode.window.activeTextEditor);
+        this.disposables.push(
+            vscode.window.onDidChangeActiveTextEditor(editor => {
+                const uri = this.getMarkdownUri(editor);
+                if (uri && uri.toString() !== this.target?.toString()) {
+                    this.target = uri;
+                    this.refresh();
+                }
+            }),
+            this.vaultIndex.onDidChange(() => this.scheduleRefresh())
+        );
+    }
+
+    /**
+     * Sets the note whose backlinks are displayed.
+     *
+     * @param uri - URI of the target note, or undefined to clear the view
+     */
+    setTarget(uri: vscode.Uri | undefined): void {
+        this.target = uri;
+        this.refresh();
+    }
+
+    /**
+     * Re-renders the whole tree.
+     */
+    refresh(): void {
+        this.changeEmitter.fire(undefined);
+    }
+
+    getTreeItem(node: BacklinkNode): vscode.TreeItem {
+        switch (node.kind) {
+            case 'group': {
+                const item = new vscode.TreeItem(
+                    node.linked ? 'Linked mentions' : 'Unlinked mentions',
+                    node.linked ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed
+                );
+                item.contextValue = node.linked ? 'mdlg.linkedGroup' : 'mdlg.unlinkedGroup';
+                return item;
+            }
+            case 'file': {
+                const item = new vscode.TreeItem(node.note.title, vscode.TreeItemCollapsibleState.Expanded);
+                item.description = `${node.note.relativePath} (${node.mentions.length})`;
+                item.resourceUri = node.note.uri;
+                item.iconPath = vscode.ThemeIcon.File;
+                item.tooltip = node.note.relativePath;
+                return item;
+            }
+            case 'mention': {
+                const { mention } = node;
+                const leading = mention.lineText.length - mention.lineText.trimStart().length;
+                const context = mention.lineText.trim().substring(0, maxContextLength);
+                const start = mention.character - leading;
+                const label: vscode.TreeItemLabel = {
+                    label: context,
+                    highlights: start >= 0 && start + mention.length <= context.length
+                        ? [[start, start + mention.length]]
+                        : []
+                };
+                const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None);
+                item.description = `L${mention.line + 1}`;
+                item.tooltip = mention.lineText;
+                item.contextValue = node.linked ? 'mdlg.linkedMention' : 'mdlg.unlinkedMention';
+                item.command = {
+                    command: 'vscode.open',
+                    title: 'Open',
+                    arguments: [
+                        mention.uri,
+                        {
+                            selection: new vscode.Range(
+                                mention.line, mention.character,
+                                mention.line, mention.character + mention.length
+                            )
+                        }
+                    ]
+                };
+                return item;
+            }
+        }
+    }
+
+    async getChildren(node?: BacklinkNode): Promise<BacklinkNode[]> {
+        if (!this.target) {
+            return [];
+        }
+
+        if (!node) {
+            return [{ kind: 'group', linked: true }, { kind: 'group', linked: false }];
+        }
+
+        if (node.kind === 'group') {
+            return node.linked
+                ? this.getLinkedFiles(this.target)
+                : this.getUnlinkedFiles(this.target);
+        }
+
+        if (node.kind === 'file') {
+            const targetNote = await this.vaultIndex.getNote(this.target);
+            const targetTitle = targetNote?.title ?? '';
+            return node.mentions.map(mention => ({ kind: 'mention', linked: node.linked, targetTitle, mention }));
+        }
+
+        return [];
+    }
+
+    /**
+     * Collects notes containing WikiLinks that resolve to the target, grouped by source.
+     */
+    async getLinkedFiles(target: vscode.Uri): Promise<BacklinkNode[]> {
+        const backlinks = await this.linkResolver.findBacklinks(target);
+        const bySource = new Map<string, { note: IndexedNote; mentions: BacklinkMention[] }>();
+
+        for (const backlink of backlinks) {
+            const key = backlink.source.uri.toString();
+            if (!bySource.has(key)) {
+                bySource.set(key, { note: backlink.source, mentions: [] });
+            }
+            bySource.get(key)!.mentions.push({
+                uri: backlink.source.uri,
+                line: backlink.link.line,
+                character: backlink.link.character,
+                length: backlink.link.length,
+                lineText: '',
+                text: `[[${backlink.link.linkText}]]`
+            });
+        }
+
+        const nodes: BacklinkNode[] = [];
+        for (const { note, mentions } of bySource.values()) {
+            const lines = this.getLines(note.uri);
+            nodes.push({
+                kind: 'file',
+                linked: true,
+                note,
+                mentions: mentions.map(m => ({ ...m, lineText: lines[m.line] ?? m.text }))
+            });
+        }
+        return nodes;
+    }
+
+    /**
+     * Scans every other note for plain-text mentions of the target title.
+     * Runs only when the "Unlinked mentions" group is expanded, since it searches all notes.
+     */
+    async getUnlinkedFiles(target: vscode.Uri): Promise<BacklinkNode[]> {
+        const targetNote = await this.vaultIndex.getNote(target);
+        if (!targetNote) {
+            return [];
+        }
+
+        const terms = this.getMentionTerms(targetNote.title, targetNote.aliases);
+        const notes = (await this.vaultIndex.getAllNotes())
+            .filter(note => note.uri.toString() !== target.toString())
+            .sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+
+        const nodes: BacklinkNode[] = [];
+        for (const note of notes) {
+            const content = this.vaultIndex.getContent(note.uri);
+            if (content === undefined) {
+                continue;
+            }
+            const found = findUnlinkedMentions(content, terms);
+            if (found.length === 0) {
+                continue;
+            }
+            const lines = content.split(/\r?\n/);
+            nodes.push({
+                kind: 'file',
+                linked: false,
+                note,
+                mentions: found.map(m => ({ uri: note.uri, ...m, lineText: lines[m.line] }))
+            });
+        }
+        return nodes;
+    }
+
+    /**
+     * Replaces an unlinked mention with a WikiLink to the target note.
+     * Uses `[[mention]]` when the mention text already resolves to the target,
+     * otherwise `[[Title|mention]]` to keep the original wording.
+     *
+     * @param node - The unlinked mention node
+     * @returns True if the edit was applied
+     */
+    async linkMention(node: BacklinkNode): Promise<boolean> {
+        if (node.kind !== 'mention' || node.linked) {
+            return false;
+        }
+
+        const { mention, targetTitle } = node;
+        const range = new vscode.Range(
+            mention.line, mention.character,
+            mention.line, mention.character + mention.length
+        );
+
+        // ファイルが変更されていないか確認してから置換
+        const document = await vscode.workspace.openTextDocument(mention.uri);
+        if (document.getText(range).toLowerCase() !== mention.text.toLowerCase()) {
+            vscode.window.showWarningMessage('The mention has changed since the backlinks view was refreshed.');
+            this.refresh();
+            return false;
+        }
+
+        const linkText = this.linkResolver.toFileName(mention.text) === targetTitle
+            ? `[[${mention.text}]]`
+            : `[[${targetTitle}|${mention.text}]]`;
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(mention.uri, range, linkText);
+        const applied = await vscode.workspace.applyEdit(edit);
+        this.refresh();
+        return applied;
+    }
+
+    /**
+     * Gets the search terms for unlinked mentions of a title.
+     * With kebab-case/snake_case slugs, the de-slugged form ("my note" for "my-note") is included,
+     * as are the frontmatter aliases of the note.
+     */
+    getMentionTerms(title: string, aliases: string[] = []): string[] {
+        const terms = [title, ...aliases];
+        if (this.configManager.getSlugStrategy() !== 'passthrough' && /[-_]/.test(title)) {
+            terms.push(title.replace(/[-_]+/g, ' '));
+        }
+        return terms;
+    }
+
+    dispose(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+        this.changeEmitter.dispose();
+    }
+
+    private scheduleRefresh(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.refreshTimer = setTimeout(() => {
+            this.refreshTimer = undefined;
+            this.refresh();
+        }, refreshDelayMs);
+    }
+
+    private getLines(uri: vscode.Uri): string[] {
+        return this.vaultIndex.getContent(uri)?.split(/\r?\n/) ?? [];
+    }
+
+    private getMarkdownUri(editor: vscode.TextEditor | undefined): vscode.Uri | undefined {
+        if (!editor || editor.document.languageId !== 'markdown') {
+            return undefined;
+        }
+        return editor.document.uri;
+    }
+}
@@ -0,0 +1,134 @@
+/**
+ * @fileoverview WikiLink support for VS Code's built-in Markdown preview.
+ * The extension contributes `markdown.markdownItPlugins`; VS Code passes its markdown-it
+ * instance to `extendMarkdownIt`, where the shared WikiLink plugin is registered with
+ * command URIs that open links through `mdlg.openOrCreateWikiLink`.
+ *
+ * @author MDloggerForCode Team
+ * @version 1.0.0
+ */
+
+import * as vscode from 'vscode';
+import type MarkdownIt from 'markdown-it';
+import { RenderedWikiLinkTarget, wikiLinkPlugin } from '../processors/WikiLinkMarkdownPlugin';
+import { WikiLinkProcessor } from '../processors/WikiLinkProcessor';
+import { VaultIndex } from '../services/VaultIndex';
+import { WikiLinkResolver } from '../services/WikiLinkResolver';
+
+/** Delay before refreshing previews after notes were created, deleted or renamed. */
+const refreshDelayMs = 300;
+
+/**
+ * Extends the built-in preview's markdown-it instance with WikiLink rendering.
+ *
+ * @class BuiltinPreviewExtension
+ * @implements {vscode.Disposable}
+ */
+export class BuiltinPreviewExtension implements vscode.Disposable {
+    private extended = false;
+    private readonly indexListener: vscode.Disposable;
+    private refreshTimer: ReturnType<typeof setTimeout> | undefined;
+    /** Notes known at the last refresh, to detect created, deleted and renamed notes */
+    private noteKeys: Set<string> | undefined;
+    /** Processor of the current render (recreated per render to follow the slug strategy) */
+    private processor: WikiLinkProcessor | undefined;
+
+    /**
+     * Creates a new BuiltinPreviewExtension instance.
+     *
+     * @param vaultIndex - Shared vault index; changes refresh open previews
+     * @param linkResolver - Resolver applying the vault root, extension and slug settings
+     */
+    constructor(
+        private readonly vaultIndex: VaultIndex,
+        private readonly linkResolver: WikiLinkResolver
+    ) {
+        this.indexListener = vaultIndex.onDidChange(() => {
+            if (this.extended) {
+                this.scheduleRefresh();
+            }
+        });
+    }
+
+    /**
+     * Called by VS Code with the markdown-it instance of the built-in preview.
+     *
+     * @param md - markdown-it instance used by the built-in preview
+     * @returns The same instance with the WikiLink plugin registered
+     */
+    extendMarkdownIt(md: MarkdownIt): MarkdownIt {
+        this.extended = true;
+        void this.getNoteKeys().then(keys => {
+            this.noteKeys = this.noteKeys ?? keys;
+        });
+        // 設定（slugStrategy）の変更を再読み込みなしで反映するため、描画ごとにプロセッサを作り直す
+        md.core.ruler.push('mdlg_wikilink_processor', () => {
+            this.processor = this.linkResolver.getProcessor();
+        });
+        return md.use(wikiLinkPlugin, {
+            processor: () => this.getProcessor(),
+            // 標準プレビューの env.currentDocument はプレビュー中のノートの URI
+            resolve: (linkText: string, env?: unknown) =>
+                this.resolve(linkText, (env as { currentDocument?: vscode.Uri } | undefined)?.currentDocument)
+        });
+    }
+
+    /**
+     * Resolves a link for rendering. The href always targets the open-or-create command so
+     * that clicking reuses the same resolution (and note creation) as the editor links.
+     *
+     * @param linkText - The WikiLink text without [[ ]] brackets
+     * @param source - URI of the previewed note, for relative links and the resolution policy
+     * @returns Command URI and whether the target note exists
+     */
+    resolve(linkText: string, source?: vscode.Uri): RenderedWikiLinkTarget {
+        const args = encodeURIComponent(JSON.stringify(source ? [linkText, source.toString()] : [linkText]));
+        const href = `command:mdlg.openOrCreateWikiLink?${args}`;
+        try {
+            const processor = this.getProcessor();
+            const parsedLink = processor.parseWikiLink(linkText);
+            return { href, exists: this.linkResolver.findTargetNote(parsedLink, source, processor) !== null };
+        } catch {
+            return { href, exists: false };
+        }
+    }
+
+    dispose(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.indexListener.dispose();
+    }
+
+    private getProcessor(): WikiLinkProcessor {
+        return this.processor ?? this.linkResolver.getProcessor();
+    }
+
+    /**
+     * Refreshes open previews once typing settles, and only when notes were created, deleted
+     * or renamed: that is when links start or stop resolving. Edits inside notes do not matter.
+     */
+    private scheduleRefresh(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.refreshTimer = setTimeout(() => {
+            this.refreshTimer = undefined;
+            void this.refreshIfNotesChanged();
+        }, refreshDelayMs);
+    }
+
+    private async refreshIfNotesChanged(): Promise<void> {
+        const keys = await this.getNoteKeys();
+        const previous = this.noteKeys;
+        this.noteKeys = keys;
+        if (previous && previous.size === keys.size && Array.from(keys).every(key => previous.has(key))) {
+            return;
+        }
+        await vscode.commands.executeCommand('markdown.preview.refresh');
+    }
+
+    private async getNoteKeys(): Promise<Set<string>> {
+        return new Set((await this.vaultIndex.getAllNotes()).map(note => note.uri.toString()));
+    }
+}
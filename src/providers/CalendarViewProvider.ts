@@ -0,0 +1,359 @@
+/**
+ * @fileoverview Calendar webview view for daily notes.
+ * Shows a month grid in the Explorer, marks the days that have a daily note with dots
+ * for their word count and open tasks (read from the shared VaultIndex), and opens or
+ * creates the daily note of a day when it is clicked.
+ *
+ * @author MDloggerForCode Team
+ * @version 1.0.0
+ */
+
+import * as vscode from 'vscode';
+import { ConfigurationManager } from '../managers/ConfigurationManager';
+import { DailyNoteManager } from '../managers/DailyNoteManager';
+import { VaultIndex } from '../services/VaultIndex';
+import { buildMonthGrid, countToDots, getWeekdayLabels } from '../utils/Calendar';
+import { getNonce } from '../utils/WebviewUtil';
+
+/** Delay before redrawing after index or editor changes (typing triggers many). */
+const updateDelayMs = 300;
+
+/** Words represented by one word-count dot. */
+const wordsPerDot = 250;
+
+/** Upper bound of dots per indicator. */
+const maxDots = 5;
+
+/**
+ * A day cell sent to the webview.
+ */
+export interface CalendarDayData {
+    /** `YYYY-MM-DD` (local date), used to identify the day in messages */
+    date: string;
+    day: number;
+    inMonth: boolean;
+    isToday: boolean;
+    /** The daily note of the day is open in the active editor */
+    isActive: boolean;
+    hasNote: boolean;
+    words: number;
+    openTasks: number;
+    wordDots: number;
+    taskDots: number;
+}
+
+/**
+ * Month data sent to the webview.
+ */
+export interface CalendarMonthData {
+    year: number;
+    /** Month index (0 = January) */
+    month: number;
+    weekdays: string[];
+    showWeekNumbers: boolean;
+    weeks: { weekNumber: number; days: CalendarDayData[] }[];
+}
+
+type CalendarMessage =
+    | { command: 'ready' }
+    | { command: 'navigate'; offset: number }
+    | { command: 'today' }
+    | { command: 'open'; date: string };
+
+/**
+ * Webview view provider for the `mdlg.calendar` Explorer view.
+ *
+ * @class CalendarViewProvider
+ * @implements {vscode.WebviewViewProvider}
+ */
+export class CalendarViewProvider implements vscode.WebviewViewProvider, vscode.Disposable {
+    public static readonly viewId = 'mdlg.calendar';
+
+    private view?: vscode.WebviewView;
+    private disposables: { dispose(): unknown }[] = [];
+    private updateTimer: ReturnType<typeof setTimeout> | undefined;
+    private year: number;
+    private month: number;
+
+    /**
+     * Creates a new CalendarViewProvider instance.
+     *
+     * @param configManager - Configuration manager for the calendar settings
+     * @param dailyNoteManager - Resolves and opens the daily note of a day
+     * @param vaultIndex - Shared vault index providing word and task counts
+     */
+    constructor(
+        private readonly configManager: ConfigurationManager,
+        private readonly dailyNoteManager: DailyNoteManager,
+        private readonly vaultIndex: VaultIndex
+    ) {
+        const today = new Date();
+        this.year = today.getFullYear();
+        this.month = today.getMonth();
+
+        this.disposables.push(
+            this.vaultIndex.onDidChange(() => this.scheduleUpdate()),
+            vscode.window.onDidChangeActiveTextEditor(() => this.scheduleUpdate()),
+            this.configManager.onConfigurationChanged(() => this.scheduleUpdate())
+        );
+    }
+
+    resolveWebviewView(
+        webviewView: vscode.WebviewView,
+        _context: vscode.WebviewViewResolveContext<unknown>,
+        _token: vscode.CancellationToken
+    ): void {
+        this.view = webviewView;
+        webviewView.webview.options = { enableScripts: true };
+        webviewView.webview.html = this.getHtmlForWebview(webviewView.webview);
+
+        webviewView.webview.onDidReceiveMessage((msg: CalendarMessage) => this.onMessage(msg));
+        // 非表示中に日付が変わっても、表示し直したときに今日を更新する
+        webviewView.onDidChangeVisibility(() => {
+            if (webviewView.visible) {
+                this.scheduleUpdate();
+            }
+        });
+        webviewView.onDidDispose(() => {
+            this.view = undefined;
+        });
+    }
+
+    /**
+     * Builds the grid of a month with the daily note data of each day.
+     *
+     * @param workspaceFolder - Workspace folder the daily notes belong to
+     * @param year - Full year
+     * @param month - Month index (0 = January)
+     * @param today - Reference date for the "today" marker (defaults to now)
+     * @returns Month data for the webview
+     */
+    async buildMonth(workspaceFolder: vscode.WorkspaceFolder, year: number, month: number, today: Date = new Date()): Promise<CalendarMonthData> {
+        const firstDayOfWeek = this.configManager.getCalendarFirstDayOfWeek();
+        const notes = new Map((await this.vaultIndex.getAllNotes()).map(note => [note.uri.toString(), note]));
+        const activeUri = vscode.window.activeTextEditor?.document.uri.toString();
+        const todayKey = toDateKey(today);
+
+        const weeks = buildMonthGrid(year, month, firstDayOfWeek).map(week => ({
+            weekNumber: week.weekNumber,
+            days: week.days.map((day): CalendarDayData => {
+                const uri = this.dailyNoteManager.getDailyNotePath(workspaceFolder, day.date).toString();
+                const note = notes.get(uri);
+                const words = note?.wordCount ?? 0;
+                const openTasks = note?.tasks.length ?? 0;
+                return {
+                    date: toDateKey(day.date),
+                    day: day.date.getDate(),
+                    inMonth: day.inMonth,
+                    isToday: toDateKey(day.date) === todayKey,
+                    isActive: uri === activeUri,
+                    hasNote: note !== undefined,
+                    words,
+                    openTasks,
+                    wordDots: countToDots(words, wordsPerDot, maxDots),
+                    taskDots: countToDots(openTasks, 1, maxDots)
+                };
+            })
+        }));
+
+        return {
+            year,
+            month,
+            weekdays: getWeekdayLabels(firstDayOfWeek),
+            showWeekNumbers: this.configManager.getCalendarShowWeekNumbers(),
+            weeks
+        };
+    }
+
+    dispose(): void {
+        if (this.updateTimer) {
+            clearTimeout(this.updateTimer);
+        }
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+
+    private async onMessage(msg: CalendarMessage): Promise<void> {
+        try {
+            switch (msg.command) {
+                case 'ready':
+                    await this.update();
+                    return;
+                case 'navigate': {
+                    const target = new Date(this.year, this.month + (Number(msg.offset) || 0), 1);
+                    this.year = target.getFullYear();
+                    this.month = target.getMonth();
+                    await this.update();
+                    return;
+                }
+                case 'today': {
+                    const today = new Date();
+                    this.year = today.getFullYear();
+                    this.month = today.getMonth();
+                    await this.update();
+                    return;
+                }
+                case 'open': {
+                    const date = parseDateKey(msg.date);
+                    if (!date) {
+                        return;
+                    }
+                    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+                    if (!workspaceFolder) {
+                        vscode.window.showErrorMessage('No workspace folder found. Please open a folder first.');
+                        return;
+                    }
+                    await this.dailyNoteManager.openOrCreateDailyNote(workspaceFolder, date);
+                    return;
+                }
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Calendar action failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    private async update(): Promise<void> {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (!this.view || !workspaceFolder) {
+            return;
+        }
+        const data = await this.buildMonth(workspaceFolder, this.year, this.month);
+        this.view.webview.postMessage({ command: 'month', data });
+    }
+
+    private scheduleUpdate(): void {
+        if (!this.view) {
+            return;
+        }
+        if (this.updateTimer) {
+            clearTimeout(this.updateTimer);
+        }
+        this.updateTimer = setTimeout(() => {
+            this.updateTimer = undefined;
+            this.update().catch(error => console.warn('[CalendarView] Failed to update calendar:', error));
+        }, updateDelayMs);
+    }
+
+    private getHtmlForWebview(webview: vscode.Webview): string {
+        const nonce = getNonce();
+        return `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>
+    body { font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); color: var(--vscode-foreground); padding: 4px 8px; }
+    #header { display: flex; align-items: center; gap: 4px; margin-bottom: 6px; }
+    #title { flex: 1; font-weight: bold; }
+    button { background: none; border: none; color: var(--vscode-foreground); cursor: pointer; padding: 2px 6px; border-radius: 3px; }
+    button:hover { background: var(--vscode-toolbar-hoverBackground); }
+    table { width: 100%; border-collapse: collapse; table-layout: fixed; }
+    th { font-weight: normal; opacity: 0.7; padding: 2px 0; }
+    td { text-align: center; padding: 1px; }
+    td.week { opacity: 0.5; font-size: 0.85em; }
+    .day { width: 100%; padding: 3px 0; display: flex; flex-direction: column; align-items: center; }
+    .day.outside { opacity: 0.4; }
+    .day.note .num { font-weight: bold; }
+    .day.today .num { color: var(--vscode-textLink-foreground); text-decoration: underline; }
+    .day.active { background: var(--vscode-list-activeSelectionBackground); color: var(--vscode-list-activeSelectionForeground); }
+    .dots { display: flex; gap: 2px; height: 6px; align-items: center; }
+    .dot { display: inline-block; width: 4px; height: 4px; border-radius: 50%; margin: 0 1px; background: var(--vscode-foreground); opacity: 0.6; }
+    .dot.task { background: var(--vscode-charts-orange, #d18616); opacity: 1; }
+  </style>
+</head>
+<body>
+  <div id="header">
+    <button id="prev" title="Previous month">&lsaquo;</button>
+    <span id="title"></span>
+    <button id="today" title="Go to today">Today</button>
+    <button id="next" title="Next month">&rsaquo;</button>
+  </div>
+  <table id="calendar"></table>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const table = document.getElementById('calendar');
+    const title = document.getElementById('title');
+
+    document.getElementById('prev').addEventListener('click', () => vscode.postMessage({ command: 'navigate', offset: -1 }));
+    document.getElementById('next').addEventListener('click', () => vscode.postMessage({ command: 'navigate', offset: 1 }));
+    document.getElementById('today').addEventListener('click', () => vscode.postMessage({ command: 'today' }));
+
+    function dots(count, className) {
+      const span = document.createElement('span');
+      for (let i = 0; i < count; i++) {
+        const dot = document.createElement('span');
+        dot.className = 'dot ' + className;
+        span.appendChild(dot);
+      }
+      return span;
+    }
+
+    function render(data) {
+      title.textContent = new Date(data.year, data.month, 1).toLocaleString(undefined, { month: 'long', year: 'numeric' });
+      table.innerHTML = '';
+
+      const head = document.createElement('tr');
+      if (data.showWeekNumbers) {
+        head.appendChild(document.createElement('th'));
+      }
+      data.weekdays.forEach(name => {
+        const th = document.createElement('th');
+        th.textContent = name;
+        head.appendChild(th);
+      });
+      table.appendChild(head);
+
+      data.weeks.forEach(week => {
+        const row = document.createElement('tr');
+        if (data.showWeekNumbers) {
+          const td = document.createElement('td');
+          td.className = 'week';
+          td.textContent = 'W' + week.weekNumber;
+          row.appendChild(td);
+        }
+        week.days.forEach(day => {
+          const td = document.createElement('td');
+          const button = document.createElement('button');
+          button.className = 'day' + (day.inMonth ? '' : ' outside') + (day.hasNote ? ' note' : '') +
+            (day.isToday ? ' today' : '') + (day.isActive ? ' active' : '');
+          button.title = day.date + (day.hasNote ? ' · ' + day.words + ' words · ' + day.openTasks + ' open tasks' : ' · no note');
+          const num = document.createElement('span');
+          num.className = 'num';
+          num.textContent = String(day.day);
+          const indicators = document.createElement('span');
+          indicators.className = 'dots';
+          indicators.appendChild(dots(day.wordDots, 'words'));
+          indicators.appendChild(dots(day.taskDots, 'task'));
+          button.appendChild(num);
+          button.appendChild(indicators);
+          button.addEventListener('click', () => vscode.postMessage({ command: 'open', date: day.date }));
+          td.appendChild(button);
+          row.appendChild(td);
+        });
+        table.appendChild(row);
+      });
+    }
+
+    window.addEventListener('message', event => {
+      if (event.data.command === 'month') {
+        render(event.data.data);
+      }
+    });
+
+    vscode.postMessage({ command: 'ready' });
+  </script>
+</body>
+</html>`;
+    }
+}
+
+function toDateKey(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function parseDateKey(key: string): Date | undefined {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(String(key));
+    return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : undefined;
+}
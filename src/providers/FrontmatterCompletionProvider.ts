@@ -0,0 +1,152 @@
+/**
+ * @fileoverview Completion of frontmatter property keys and values.
+ * Suggests the keys used across the vault at the start of a frontmatter line, and
+ * the values other notes use for the same key after `key:`, inside `[a, b]` and in
+ * block list items.
+ *
+ * @author MDloggerForCode Team
+ * @version 1.0.0
+ */
+
+import * as vscode from 'vscode';
+import { VaultIndex } from '../services/VaultIndex';
+import { parseFrontmatter, formatFrontmatterValue } from '../utils/Frontmatter';
+
+/** Maximum number of suggestions returned for keys or values. */
+const maxSuggestions = 100;
+
+/**
+ * Provides completion items inside the frontmatter of Markdown notes.
+ *
+ * @class FrontmatterCompletionProvider
+ * @implements {vscode.CompletionItemProvider}
+ */
+export class FrontmatterCompletionProvider implements vscode.CompletionItemProvider {
+    /**
+     * Creates a new FrontmatterCompletionProvider instance.
+     *
+     * @param vaultIndex - Shared vault index providing the properties of every note
+     */
+    constructor(private readonly vaultIndex: VaultIndex) {}
+
+    async provideCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): Promise<vscode.CompletionItem[] | null> {
+        if (position.line === 0 || document.lineAt(0).text.trim() !== '---') {
+            return null;
+        }
+        const frontmatter = parseFrontmatter(document.getText());
+        if (!frontmatter || frontmatter.endLine === -1 || position.line >= frontmatter.endLine) {
+            return null;
+        }
+
+        const lineText = document.lineAt(position.line).text;
+        const prefix = lineText.substring(0, position.character);
+        if (prefix.includes('[[')) {
+            // WikiLink は WikiLinkCompletionProvider に任せる
+            return null;
+        }
+
+        // 行頭でキーを入力中
+        if (/^[^\s:#\-[\]{}"']*$/.test(prefix)) {
+            const present = new Set(frontmatter.properties.filter(p => p.line !== position.line).map(p => p.key));
+            const range = new vscode.Range(position.line, 0, position.line, position.character);
+            const hasColon = lineText.indexOf(':', position.character) !== -1;
+            return this.getKeyItems(present, range, hasColon);
+        }
+
+        const keyValue = prefix.match(/^([^\s#:][^:]*?)\s*:\s*(.*)$/);
+        if (keyValue) {
+            const valueStart = prefix.length - keyValue[2].length;
+            const list = keyValue[2].match(/^\[(?:.*,)?\s*/);
+            if (list) {
+                const start = valueStart + list[0].length;
+                return this.getValueItems(keyValue[1], new vscode.Range(position.line, start, position.line, position.character), true);
+            }
+            return this.getValueItems(keyValue[1], new vscode.Range(position.line, valueStart, position.line, position.character), false);
+        }
+
+        const listItem = prefix.match(/^\s*-\s*/);
+        if (listItem) {
+            const key = this.findListKey(document, position.line);
+            if (key) {
+                const range = new vscode.Range(position.line, listItem[0].length, position.line, position.character);
+                return this.getValueItems(key, range, false);
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * Suggests the property keys used in the vault, most common first.
+     */
+    private async getKeyItems(present: Set<string>, range: vscode.Range, hasColon: boolean): Promise<vscode.CompletionItem[]> {
+        const counts = new Map<string, number>();
+        for (const note of await this.vaultIndex.getAllNotes()) {
+            for (const property of note.properties) {
+                counts.set(property.key, (counts.get(property.key) ?? 0) + 1);
+            }
+        }
+
+        return this.sortByCount(counts)
+            .filter(([key]) => !present.has(key))
+            .map(([key, count], index) => {
+                const item = new vscode.CompletionItem(key, vscode.CompletionItemKind.Property);
+                item.insertText = hasColon ? key : `${key}: `;
+                item.detail = `Used in ${count} note${count === 1 ? '' : 's'}`;
+                item.sortText = String(index).padStart(3, '0');
+                item.range = range;
+                return item;
+            });
+    }
+
+    /**
+     * Suggests the values other notes use for a key, most common first.
+     */
+    private async getValueItems(key: string, range: vscode.Range, inList: boolean): Promise<vscode.CompletionItem[]> {
+        const counts = new Map<string, number>();
+        for (const note of await this.vaultIndex.getAllNotes()) {
+            const property = note.properties.find(p => p.key === key);
+            if (!property) {
+                continue;
+            }
+            const values = Array.isArray(property.value) ? property.value : [property.value];
+            for (const value of new Set(values)) {
+                if (value.trim() !== '' && !value.includes('\n')) {
+                    counts.set(value, (counts.get(value) ?? 0) + 1);
+                }
+            }
+        }
+
+        return this.sortByCount(counts).map(([value, count], index) => {
+            const item = new vscode.CompletionItem(value, vscode.CompletionItemKind.Value);
+            item.insertText = inList ? formatFrontmatterValue([value]).slice(1, -1) : formatFrontmatterValue(value);
+            item.detail = `${key} (${count} note${count === 1 ? '' : 's'})`;
+            item.sortText = String(index).padStart(3, '0');
+            item.range = range;
+            return item;
+        });
+    }
+
+    /**
+     * Finds the key owning a block list item (`key:` followed by `- value` lines).
+     */
+    private findListKey(document: vscode.TextDocument, line: number): string | undefined {
+        for (let i = line - 1; i > 0; i--) {
+            const text = document.lineAt(i).text;
+            if (/^\s*-(\s|$)/.test(text) || text.trim() === '') {
+                continue;
+            }
+            return text.match(/^([^\s#:][^:]*?)\s*:\s*$/)?.[1];
+        }
+        return undefined;
+    }
+
+    private sortByCount(counts: Map<string, number>): [string, number][] {
+        return Array.from(counts.entries())
+            .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+            .slice(0, maxSuggestions);
+    }
+}
@@ -0,0 +1,113 @@
+/**
+ * @fileoverview Frontmatter validation diagnostics for the Problems panel.
+ * Flags malformed YAML in the properties block at the top of a note: unterminated
+ * quotes and lists, lines that are not `key: value`, tab indentation, duplicate keys
+ * and a missing closing `---`.
+ *
+ * @author MDloggerForCode Team
+ * @version 1.0.0
+ */
+
+import * as vscode from 'vscode';
+import { parseFrontmatter } from '../utils/Frontmatter';
+
+/** Delay before re-validating a document while the user is typing. */
+const analyzeDelayMs = 500;
+
+/**
+ * Maintains the frontmatter DiagnosticCollection for open Markdown documents.
+ *
+ * @class FrontmatterDiagnosticsProvider
+ * @implements {vscode.Disposable}
+ */
+export class FrontmatterDiagnosticsProvider implements vscode.Disposable {
+    public static readonly source = 'mdlg';
+    public static readonly code = 'malformed-frontmatter';
+
+    private readonly collection: vscode.DiagnosticCollection;
+    private disposables: { dispose(): unknown }[] = [];
+    private timers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+
+    /**
+     * Creates a new FrontmatterDiagnosticsProvider instance and validates the open documents.
+     */
+    constructor() {
+        this.collection = vscode.languages.createDiagnosticCollection('mdlg-frontmatter');
+        this.disposables.push(
+            this.collection,
+            vscode.workspace.onDidOpenTextDocument(doc => this.schedule(doc)),
+            vscode.workspace.onDidChangeTextDocument(e => this.schedule(e.document)),
+            vscode.workspace.onDidCloseTextDocument(doc => this.clear(doc.uri))
+        );
+        vscode.workspace.textDocuments.forEach(doc => this.schedule(doc));
+    }
+
+    /**
+     * Computes the diagnostics for a document without publishing them.
+     *
+     * @param document - The Markdown document to check
+     * @returns Diagnostics for every syntax problem in the frontmatter
+     */
+    analyze(document: vscode.TextDocument): vscode.Diagnostic[] {
+        const frontmatter = parseFrontmatter(document.getText());
+        if (!frontmatter) {
+            return [];
+        }
+
+        return frontmatter.errors.map(error => {
+            const range = new vscode.Range(error.line, error.character, error.line, error.character + Math.max(error.length, 1));
+            const diagnostic = new vscode.Diagnostic(range, error.message, vscode.DiagnosticSeverity.Error);
+            diagnostic.source = FrontmatterDiagnosticsProvider.source;
+            diagnostic.code = FrontmatterDiagnosticsProvider.code;
+            return diagnostic;
+        });
+    }
+
+    /**
+     * Validates a document and publishes its diagnostics.
+     *
+     * @param document - The document to update
+     */
+    update(document: vscode.TextDocument): void {
+        if (!this.isTarget(document)) {
+            return;
+        }
+        this.collection.set(document.uri, this.analyze(document));
+    }
+
+    dispose(): void {
+        this.timers.forEach(timer => clearTimeout(timer));
+        this.timers.clear();
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+
+    private schedule(document: vscode.TextDocument): void {
+        if (!this.isTarget(document)) {
+            return;
+        }
+        const key = document.uri.toString();
+        const pending = this.timers.get(key);
+        if (pending) {
+            clearTimeout(pending);
+        }
+        this.timers.set(key, setTimeout(() => {
+            this.timers.delete(key);
+            this.update(document);
+        }, analyzeDelayMs));
+    }
+
+    private clear(uri: vscode.Uri): void {
+        const key = uri.toString();
+        const pending = this.timers.get(key);
+        if (pending) {
+            clearTimeout(pending);
+            this.timers.delete(key);
+        }
+        this.collection.delete(uri);
+    }
+
+    private isTarget(document: vscode.TextDocument): boolean {
+        return document.languageId === 'markdown' && document.uri.scheme === 'file';
+    }
+}
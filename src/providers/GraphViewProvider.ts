@@ -0,0 +1,274 @@
+/**
+ * @fileoverview Graph view webview panel (`mdlg.showGraph`).
+ * Builds the note/link graph from the shared VaultIndex and sends it to a webview that
+ * lays it out with a force simulation bundled in `media/graph.js` (no network access).
+ *
+ * @author MDloggerForCode Team
+ * @version 1.0.0
+ */
+
+import * as vscode from 'vscode';
+import { VaultIndex } from '../services/VaultIndex';
+import { WikiLinkResolver } from '../services/WikiLinkResolver';
+import { GraphData, GraphEdge, GraphNode, createGraph, filterGraph } from '../utils/GraphUtil';
+import { getNonce } from '../utils/WebviewUtil';
+
+/** Delay before rebuilding the graph after index or editor changes. */
+const updateDelayMs = 500;
+
+/** Maximum number of hops selectable in local mode. */
+const maxHops = 5;
+
+/**
+ * Display options chosen in the graph view toolbar.
+ */
+interface GraphViewOptions {
+    /** Show only the neighborhood of the active note */
+    local: boolean;
+    hops: number;
+    /** Folder filter ('' for all folders) */
+    folder: string;
+    /** Tag filter ('' for all tags) */
+    tag: string;
+}
+
+type GraphMessage =
+    | { command: 'ready' }
+    | { command: 'setOptions'; options: Partial<GraphViewOptions> }
+    | { command: 'open'; id: string };
+
+/**
+ * Manages the graph webview panel.
+ *
+ * @class GraphViewProvider
+ * @implements {vscode.Disposable}
+ */
+export class GraphViewProvider implements vscode.Disposable {
+    public static readonly viewType = 'mdlg.graph';
+
+    private panel: vscode.WebviewPanel | undefined;
+    private disposables: { dispose(): unknown }[] = [];
+    private updateTimer: ReturnType<typeof setTimeout> | undefined;
+    private options: GraphViewOptions = { local: false, hops: 1, folder: '', tag: '' };
+    private center: vscode.Uri | undefined;
+    private editorColumn: vscode.ViewColumn | undefined;
+    private nodeUris: Map<string, vscode.Uri> = new Map();
+
+    /**
+     * Creates a new GraphViewProvider instance.
+     *
+     * @param extensionUri - Root of the extension, used to load the bundled graph script
+     * @param vaultIndex - Shared vault index providing notes and links
+     * @param linkResolver - Resolver used to turn WikiLinks into edges
+     */
+    constructor(
+        private readonly extensionUri: vscode.Uri,
+        private readonly vaultIndex: VaultIndex,
+        private readonly linkResolver: WikiLinkResolver
+    ) {}
+
+    /**
+     * Opens the graph view, or reveals it if already open.
+     */
+    async show(): Promise<void> {
+        const editor = vscode.window.activeTextEditor;
+        if (editor && editor.document.languageId === 'markdown') {
+            this.center = editor.document.uri;
+            this.editorColumn = editor.viewColumn;
+        }
+
+        if (this.panel) {
+            this.panel.reveal(vscode.ViewColumn.Beside);
+        } else {
+            this.panel = this.createPanel();
+        }
+        await this.update();
+    }
+
+    /**
+     * Builds the graph of every note in the vault. Links to missing notes are not shown.
+     *
+     * @returns Nodes and edges of the whole vault
+     */
+    async buildGraph(): Promise<GraphData> {
+        const notes = await this.vaultIndex.getAllNotes();
+        const processor = this.linkResolver.getProcessor();
+        const nodes: GraphNode[] = [];
+        const edges: GraphEdge[] = [];
+
+        for (const note of notes) {
+            const id = note.uri.toString();
+            nodes.push({
+                id,
+                title: note.title,
+                path: note.relativePath,
+                tags: Array.from(new Set(note.tags.map(t => t.tag))),
+                orphan: false
+            });
+            for (const target of this.linkResolver.getOutgoingTargets(note, processor)) {
+                edges.push({ source: id, target: target.uri.toString() });
+            }
+        }
+
+        return createGraph(nodes, edges);
+    }
+
+    dispose(): void {
+        if (this.updateTimer) {
+            clearTimeout(this.updateTimer);
+        }
+        this.panel?.dispose();
+        this.disposeListeners();
+    }
+
+    private createPanel(): vscode.WebviewPanel {
+        const mediaUri = vscode.Uri.joinPath(this.extensionUri, 'media');
+        const panel = vscode.window.createWebviewPanel(
+            GraphViewProvider.viewType,
+            'Graph',
+            vscode.ViewColumn.Beside,
+            { enableScripts: true, retainContextWhenHidden: true, localResourceRoots: [mediaUri] }
+        );
+        panel.webview.html = this.getHtmlForWebview(panel.webview);
+
+        this.disposables.push(
+            panel.onDidDispose(() => {
+                this.panel = undefined;
+                this.disposeListeners();
+            }),
+            panel.webview.onDidReceiveMessage((msg: GraphMessage) => this.onMessage(msg)),
+            vscode.window.onDidChangeActiveTextEditor(editor => {
+                if (editor && editor.document.languageId === 'markdown') {
+                    this.center = editor.document.uri;
+                    this.editorColumn = editor.viewColumn;
+                    if (this.options.local) {
+                        this.scheduleUpdate();
+                    }
+                }
+            }),
+            this.vaultIndex.onDidChange(() => this.scheduleUpdate())
+        );
+
+        return panel;
+    }
+
+    private async onMessage(msg: GraphMessage): Promise<void> {
+        try {
+            switch (msg.command) {
+                case 'ready':
+                    await this.update();
+                    return;
+                case 'setOptions':
+                    this.setOptions(msg.options);
+                    await this.update();
+                    return;
+                case 'open': {
+                    const uri = this.nodeUris.get(msg.id);
+                    if (uri) {
+                        await vscode.window.showTextDocument(uri, { viewColumn: this.editorColumn ?? vscode.ViewColumn.One });
+                    }
+                    return;
+                }
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Graph view action failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    private setOptions(options: Partial<GraphViewOptions>): void {
+        const hops = Number(options.hops ?? this.options.hops);
+        this.options = {
+            local: typeof options.local === 'boolean' ? options.local : this.options.local,
+            hops: Number.isInteger(hops) ? Math.min(maxHops, Math.max(1, hops)) : this.options.hops,
+            folder: typeof options.folder === 'string' ? options.folder : this.options.folder,
+            tag: typeof options.tag === 'string' ? options.tag : this.options.tag
+        };
+    }
+
+    private async update(): Promise<void> {
+        if (!this.panel) {
+            return;
+        }
+
+        const graph = await this.buildGraph();
+        this.nodeUris = new Map((await this.vaultIndex.getAllNotes()).map(note => [note.uri.toString(), note.uri]));
+
+        const center = this.options.local && this.center ? this.center.toString() : undefined;
+        const visible = filterGraph(graph, {
+            folder: this.options.folder || undefined,
+            tag: this.options.tag || undefined,
+            center: center && this.nodeUris.has(center) ? center : undefined,
+            hops: this.options.hops
+        });
+
+        const folders = new Set<string>();
+        const tags = new Set<string>();
+        for (const node of graph.nodes) {
+            const segments = node.path.split('/').slice(0, -1);
+            segments.forEach((_, i) => folders.add(segments.slice(0, i + 1).join('/')));
+            for (const tag of node.tags) {
+                const parts = tag.split('/');
+                parts.forEach((_, i) => tags.add(parts.slice(0, i + 1).join('/')));
+            }
+        }
+
+        this.panel.webview.postMessage({
+            command: 'graph',
+            nodes: visible.nodes,
+            edges: visible.edges,
+            center: this.center?.toString(),
+            folders: Array.from(folders).sort(),
+            tags: Array.from(tags).sort(),
+            options: this.options
+        });
+    }
+
+    private scheduleUpdate(): void {
+        if (this.updateTimer) {
+            clearTimeout(this.updateTimer);
+        }
+        this.updateTimer = setTimeout(() => {
+            this.updateTimer = undefined;
+            this.update().catch(error => console.warn('[GraphView] Failed to update graph:', error));
+        }, updateDelayMs);
+    }
+
+    private disposeListeners(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+
+    private getHtmlForWebview(webview: vscode.Webview): string {
+        const nonce = getNonce();
+        const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(this.extensionUri, 'media', 'graph.js'));
+        return `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>
+    html, body { height: 100%; margin: 0; padding: 0; overflow: hidden; }
+    body { display: flex; flex-direction: column; font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); color: var(--vscode-foreground); }
+    #toolbar { display: flex; flex-wrap: wrap; gap: 8px; align-items: center; padding: 6px 8px; border-bottom: 1px solid var(--vscode-panel-border); }
+    #toolbar label { display: flex; gap: 4px; align-items: center; }
+    select, input[type=number] { background: var(--vscode-input-background); color: var(--vscode-input-foreground); border: 1px solid var(--vscode-input-border, transparent); }
+    input[type=number] { width: 3em; }
+    #stats { margin-left: auto; opacity: 0.7; }
+    #graph { flex: 1; display: block; width: 100%; cursor: grab; }
+  </style>
+</head>
+<body>
+  <div id="toolbar">
+    <label><input type="checkbox" id="local"> Local graph</label>
+    <label>Depth <input type="number" id="hops" min="1" max="${maxHops}" value="1"></label>
+    <label>Folder <select id="folder"><option value="">All</option></select></label>
+    <label>Tag <select id="tag"><option value="">All</option></select></label>
+    <span id="stats"></span>
+  </div>
+  <canvas id="graph"></canvas>
+  <script nonce="${nonce}" src="${scriptUri}"></script>
+</body>
+</html>`;
+    }
+}
@@ -0,0 +1,659 @@
+/**
+ * @fileoverview WikiLink-aware Markdown preview panel (`mdlg.preview`).
+ * Renders the active note with markdown-it, resolves [[WikiLinks]] through the shared
+ * resolver, expands `![[embeds]]`, renders ```mdlg-query``` blocks, toggles task
+ * checkboxes in the source and keeps scrolling in sync.
+ *
+ * @author MDloggerForCode Team
+ * @version 1.0.0
+ */
+
+import * as vscode from 'vscode';
+import MarkdownIt from 'markdown-it';
+import type StateCore from 'markdown-it/lib/rules_core/state_core';
+import type Token from 'markdown-it/lib/token';
+import { ConfigurationManager } from '../managers/ConfigurationManager';
+import { VaultIndex } from '../services/VaultIndex';
+import { WikiLinkResolver } from '../services/WikiLinkResolver';
+import { IFileWriter, VscodeFileWriter } from '../services/FileWriter';
+import { NoteQueryService } from '../services/NoteQueryService';
+import { ParsedWikiLink, formatLinkAnchor } from '../processors/WikiLinkProcessor';
+import { wikiLinkPlugin } from '../processors/WikiLinkMarkdownPlugin';
+import {
+    markTaskCompleted,
+    markTaskIncomplete,
+    extractWikiLinks,
+    extractSectionLines,
+    extractBlockLines,
+    extractBodyLines
+} from '../utils/NoteParser';
+import { PathUtil } from '../utils/PathUtil';
+import { DateTimeFormatter } from '../utils/DateTimeFormatter';
+import { getNonce } from '../utils/WebviewUtil';
+import { NoteQueryError, findNoteQueryBlocks, noteQueryLanguage } from '../utils/NoteQuery';
+
+/** Delay before re-rendering after edits or index updates. */
+const updateDelayMs = 300;
+
+/** Time during which scroll events caused by our own synchronization are ignored. */
+const scrollEchoMs = 150;
+
+/** Maximum nesting of embedded notes. */
+const maxEmbedDepth = 4;
+
+/**
+ * markdown-it `env` of a render. `embedStack` holds the URIs of the notes being
+ * rendered (outermost first) for cycle detection; `depth` is 0 for the previewed note.
+ * `source` is the note whose content is rendered, so that its links resolve relative to it.
+ */
+interface EmbedEnv {
+    readonly embedStack: readonly string[];
+    readonly depth: number;
+    readonly source?: vscode.Uri;
+    /** Source line of the first rendered line (the frontmatter of the previewed note is skipped) */
+    readonly lineOffset?: number;
+}
+
+/**
+ * Embed targets loaded before rendering, because markdown-it renders synchronously.
+ */
+interface EmbedSources {
+    /** Note contents by note URI */
+    readonly contents: Map<string, string>;
+    /** Attachment URIs by page name (null when not found) */
+    readonly attachments: Map<string, vscode.Uri | null>;
+    /** Markdown results (or error messages) of query blocks by trimmed query text */
+    readonly queries: Map<string, { markdown?: string; error?: string }>;
+}
+
+type PreviewMessage =
+    | { command: 'openLink'; linkText: string; source?: string }
+    | { command: 'toggleTask'; line: number; checked: boolean }
+    | { command: 'revealLine'; line: number };
+
+/**
+ * Manages the preview webview panel. A single panel follows the active Markdown editor.
+ *
+ * @class MarkdownPreviewProvider
+ * @implements {vscode.Disposable}
+ */
+export class MarkdownPreviewProvider implements vscode.Disposable {
+    public static readonly viewType = 'mdlg.preview';
+
+    private panel: vscode.WebviewPanel | undefined;
+    private document: vscode.TextDocument | undefined;
+    private disposables: { dispose(): unknown }[] = [];
+    private updateTimer: ReturnType<typeof setTimeout> | undefined;
+    private ignoreEditorScrollUntil = 0;
+    private renderVersion = 0;
+    private readonly queryService: NoteQueryService;
+
+    /**
+     * Creates a new MarkdownPreviewProvider instance.
+     *
+     * @param configManager - Configuration manager for slug strategy
+     * @param vaultIndex - Shared vault index (re-renders when links start or stop resolving)
+     * @param linkResolver - Resolver used to decide whether link targets exist
+     * @param fileWriter - File reader for embedded notes (mockable for tests)
+     */
+    constructor(
+        private readonly configManager: ConfigurationManager,
+        private readonly vaultIndex: VaultIndex,
+        private readonly linkResolver: WikiLinkResolver,
+        private readonly fileWriter: IFileWriter = new VscodeFileWriter()
+    ) {
+        this.queryService = new NoteQueryService(vaultIndex, linkResolver, fileWriter);
+    }
+
+    /**
+     * Opens the preview beside the active Markdown editor, or reveals it if already open.
+     */
+    async show(): Promise<void> {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || editor.document.languageId !== 'markdown') {
+            vscode.window.showInformationMessage('Open a Markdown file to use preview');
+            return;
+        }
+
+        this.document = editor.document;
+        if (this.panel) {
+            this.panel.reveal(vscode.ViewColumn.Beside, true);
+        } else {
+            this.panel = this.createPanel();
+        }
+
+        await this.vaultIndex.ensureLoaded();
+        await this.render();
+    }
+
+    /**
+     * Renders Markdown to HTML with WikiLinks, embeds, query results, task checkboxes and source line markers.
+     * The frontmatter is not rendered; source line markers still refer to lines of the full text.
+     *
+     * @param text - Markdown source
+     * @param sourceUri - URI of the previewed note, so that it cannot embed itself
+     * @returns HTML body content
+     */
+    async renderMarkdown(text: string, sourceUri?: vscode.Uri): Promise<string> {
+        const lines = extractBodyLines(text);
+        const body = lines.join('\n');
+        const env: EmbedEnv = {
+            embedStack: sourceUri ? [sourceUri.toString()] : [],
+            depth: 0,
+            source: sourceUri,
+            lineOffset: text.split(/\r?\n/).length - lines.length
+        };
+        const sources: EmbedSources = { contents: new Map(), attachments: new Map(), queries: new Map() };
+        await this.loadEmbeds(body, env, sources);
+        await this.loadQueries([body, ...sources.contents.values()], sourceUri, sources);
+        return this.createMarkdownIt(sources).render(body, env);
+    }
+
+    dispose(): void {
+        if (this.updateTimer) {
+            clearTimeout(this.updateTimer);
+        }
+        this.panel?.dispose();
+        this.disposeListeners();
+    }
+
+    private createPanel(): vscode.WebviewPanel {
+        const panel = vscode.window.createWebviewPanel(
+            MarkdownPreviewProvider.viewType,
+            this.getTitle(),
+            { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+            { enableScripts: true }
+        );
+        panel.webview.html = this.getHtmlForWebview(panel.webview);
+
+        this.disposables.push(
+            panel.onDidDispose(() => {
+                this.panel = undefined;
+                this.disposeListeners();
+            }),
+            panel.webview.onDidReceiveMessage((msg: PreviewMessage) => this.onMessage(msg)),
+            vscode.window.onDidChangeActiveTextEditor(editor => {
+                if (editor && editor.document.languageId === 'markdown' &&
+                    editor.document.uri.toString() !== this.document?.uri.toString()) {
+                    this.document = editor.document;
+                    void this.render();
+                }
+            }),
+            vscode.workspace.onDidChangeTextDocument(e => {
+                if (e.document.uri.toString() === this.document?.uri.toString()) {
+                    this.scheduleRender();
+                }
+            }),
+            vscode.window.onDidChangeTextEditorVisibleRanges(e => this.onEditorScrolled(e)),
+            this.vaultIndex.onDidChange(() => this.scheduleRender())
+        );
+
+        return panel;
+    }
+
+    private async render(): Promise<void> {
+        const document = this.document;
+        if (!this.panel || !document) {
+            return;
+        }
+
+        // 埋め込みの読み込み中に次の描画が始まった場合は古い結果を破棄する
+        const version = ++this.renderVersion;
+        let html: string;
+        try {
+            html = await this.renderMarkdown(document.getText(), document.uri);
+        } catch (error) {
+            console.warn('[MarkdownPreview] Failed to render:', document.uri.fsPath, error);
+            return;
+        }
+        if (!this.panel || version !== this.renderVersion) {
+            return;
+        }
+
+        this.panel.title = this.getTitle();
+        this.panel.webview.postMessage({ command: 'update', html });
+    }
+
+    private createMarkdownIt(sources: EmbedSources): MarkdownIt {
+        const md = new MarkdownIt({ html: false, linkify: true });
+        md.use(wikiLinkPlugin, {
+            processor: this.linkResolver.getProcessor(),
+            resolve: (linkText: string, env: unknown) => {
+                // 埋め込み内のリンクは埋め込まれたノートを基準に開くため、その URI も渡す
+                const source = (env as EmbedEnv | undefined)?.source;
+                try {
+                    const parsedLink = this.linkResolver.getProcessor().parseWikiLink(linkText);
+                    if (PathUtil.getAttachmentKind(parsedLink.pageName)) {
+                        const attachment = sources.attachments.get(parsedLink.pageName);
+                        return { href: attachment ? attachment.toString() : '#', exists: !!attachment, source: source?.toString() };
+                    }
+                    const note = this.linkResolver.findTargetNote(parsedLink, source);
+                    return { href: note ? note.uri.toString() : '#', exists: note !== null, source: source?.toString() };
+                } catch {
+                    return { href: '#', exists: false, source: source?.toString() };
+                }
+            },
+            renderEmbed: (linkText: string, env: unknown) => this.renderEmbed(md, linkText, env as EmbedEnv, sources)
+        });
+        const defaultFence = md.renderer.rules.fence!;
+        md.renderer.rules.fence = (tokens, idx, options, env, self) => tokens[idx].info.trim() === noteQueryLanguage
+            ? this.renderQuery(md, tokens[idx], env as EmbedEnv, sources)
+            : defaultFence(tokens, idx, options, env, self);
+        md.core.ruler.push('mdlg_tasks', taskCheckboxRule);
+        md.core.ruler.push('mdlg_source_lines', sourceLineRule);
+        return md;
+    }
+
+    /**
+     * Reads the notes embedded by the given text, recursively up to the depth limit, and
+     * finds the attachments it links to. Notes already being rendered are skipped (cycles).
+     */
+    private async loadEmbeds(text: string, env: EmbedEnv, sources: EmbedSources): Promise<void> {
+        if (env.depth >= maxEmbedDepth) {
+            return;
+        }
+
+        const processor = this.linkResolver.getProcessor();
+        for (const link of extractWikiLinks(text)) {
+            let parsedLink: ParsedWikiLink;
+            try {
+                parsedLink = processor.parseWikiLink(link.linkText, true);
+            } catch {
+                continue;
+            }
+
+            if (PathUtil.getAttachmentKind(parsedLink.pageName)) {
+                if (!sources.attachments.has(parsedLink.pageName)) {
+                    const uri = await this.linkResolver.findAttachment(parsedLink.pageName);
+                    sources.attachments.set(parsedLink.pageName, uri ?? null);
+                }
+                continue;
+            }
+            if (!link.isEmbed) {
+                continue;
+            }
+
+            const note = this.linkResolver.findTargetNote(parsedLink, env.source);
+            const key = note?.uri.toString();
+            if (!note || !key || env.embedStack.includes(key)) {
+                continue;
+            }
+            let content = sources.contents.get(key);
+            if (content === undefined) {
+                try {
+                    content = await this.readContent(note.uri);
+                } catch {
+                    continue;
+                }
+                sources.contents.set(key, content);
+            }
+            await this.loadEmbeds(content, { embedStack: [...env.embedStack, key], depth: env.depth + 1, source: note.uri }, sources);
+        }
+    }
+
+    /**
+     * Evaluates the query blocks of the previewed note and its embeds ahead of rendering.
+     */
+    private async loadQueries(texts: string[], origin: vscode.Uri | undefined, sources: EmbedSources): Promise<void> {
+        for (const text of texts) {
+            for (const block of findNoteQueryBlocks(text)) {
+                const key = block.source.trim();
+                if (sources.queries.has(key)) {
+                    continue;
+                }
+                try {
+                    sources.queries.set(key, { markdown: await this.queryService.run(key, origin) });
+                } catch (error) {
+                    if (!(error instanceof NoteQueryError)) {
+                        throw error;
+                    }
+                    sources.queries.set(key, { error: error.message });
+                }
+            }
+        }
+    }
+
+    /**
+     * Renders the result of a ```mdlg-query``` block. Tasks in the result are read-only.
+     */
+    private renderQuery(md: MarkdownIt, token: Token, env: EmbedEnv, sources: EmbedSources): string {
+        const line = token.attrGet('data-line');
+        const lineAttr = line !== null ? ` data-line="${line}"` : '';
+        const result = sources.queries.get(token.content.trim());
+        if (!result || result.error !== undefined) {
+            const message = md.utils.escapeHtml(result?.error ?? 'Query was not evaluated');
+            return `<div class="mdlg-query mdlg-query-error"${lineAttr}>Query error: ${message}</div>`;
+        }
+        const childEnv: EmbedEnv = { embedStack: env.embedStack, depth: env.depth + 1, source: env.source };
+        return `<div class="mdlg-query"${lineAttr}>${md.render(result.markdown ?? '', childEnv)}</div>`;
+    }
+
+    /**
+     * Renders `![[linkText]]`: the target note (or its section/block) inline, or an attachment.
+     * Missing targets render as links to missing notes so that clicking creates them.
+     */
+    private renderEmbed(md: MarkdownIt, linkText: string, env: EmbedEnv, sources: EmbedSources): string {
+        const escape = md.utils.escapeHtml;
+        const link = md.renderInline(`[[${linkText}]]`);
+
+        let parsedLink: ParsedWikiLink;
+        try {
+            parsedLink = this.linkResolver.getProcessor().parseWikiLink(linkText, true);
+        } catch {
+            return escape(`![[${linkText}]]`);
+        }
+
+        const attachmentKind = PathUtil.getAttachmentKind(parsedLink.pageName);
+        if (attachmentKind) {
+            const uri = sources.attachments.get(parsedLink.pageName);
+            if (!uri) {
+                return link;
+            }
+            const src = escape((this.panel ? this.panel.webview.asWebviewUri(uri) : uri).toString());
+            if (attachmentKind === 'pdf') {
+                return `<object class="mdlg-embed-pdf" type="application/pdf" data="${src}">${link}</object>`;
+            }
+            // ![[image.png|300]] / ![[image.png|300x200]] でサイズ指定
+            const size = parsedLink.displayName?.match(/^(\d+)(?:x(\d+))?$/);
+            const dimensions = size ? ` width="${size[1]}"${size[2] ? ` height="${size[2]}"` : ''}` : '';
+            const alt = escape(size ? parsedLink.pageName : parsedLink.displayName ?? parsedLink.pageName);
+            return `<img class="mdlg-embed-image" src="${src}" alt="${alt}"${dimensions}>`;
+        }
+
+        const note = this.linkResolver.findTargetNote(parsedLink, env.source);
+        const key = note?.uri.toString();
+        if (!note || !key) {
+            return link;
+        }
+        if (env.embedStack.includes(key)) {
+            return embedError(link, 'Circular embed');
+        }
+        if (env.depth >= maxEmbedDepth) {
+            return embedError(link, 'Embed depth limit reached');
+        }
+        const content = sources.contents.get(key);
+        if (content === undefined) {
+            return embedError(link, 'Cannot read note');
+        }
+
+        let lines: string[];
+        const anchor = formatLinkAnchor(parsedLink);
+        if (anchor) {
+            // ブロック参照（#^id）は単一ブロック、見出しはそのセクションを埋め込む
+            const isBlock = parsedLink.blockId !== undefined;
+            const line = this.linkResolver.findAnchorLine(note, anchor);
+            if (line === undefined) {
+                return embedError(link, `${isBlock ? 'Block' : 'Heading'} not found`);
+            }
+            lines = isBlock ? extractBlockLines(content, line) : extractSectionLines(content, line);
+        } else {
+            lines = extractBodyLines(content);
+        }
+
+        const childEnv: EmbedEnv = { embedStack: [...env.embedStack, key], depth: env.depth + 1, source: note.uri };
+        return `<div class="mdlg-embed"><div class="mdlg-embed-title">${link}</div>` +
+            `<div class="mdlg-embed-content">${md.render(lines.join('\n'), childEnv)}</div></div>`;
+    }
+
+    /**
+     * Reads a note, preferring the unsaved content of an open editor.
+     */
+    private async readContent(uri: vscode.Uri): Promise<string> {
+        const open = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri.toString());
+        return open ? open.getText() : this.fileWriter.read(uri);
+    }
+
+    private scheduleRender(): void {
+        if (this.updateTimer) {
+            clearTimeout(this.updateTimer);
+        }
+        this.updateTimer = setTimeout(() => {
+            this.updateTimer = undefined;
+            void this.render();
+        }, updateDelayMs);
+    }
+
+    private async onMessage(msg: PreviewMessage): Promise<void> {
+        const document = this.document;
+        if (!document) {
+            return;
+        }
+
+        try {
+            switch (msg.command) {
+                case 'openLink': {
+                    // 元のエディタにフォーカスを戻してから開く（プレビュー側のグループに開かないように）
+                    const source = this.findEditor(document);
+                    await vscode.window.showTextDocument(document, { viewColumn: source?.viewColumn });
+                    const linkSource = typeof msg.source === 'string' ? msg.source : document.uri.toString();
+                    await vscode.commands.executeCommand('mdlg.openOrCreateWikiLink', msg.linkText, linkSource);
+                    return;
+                }
+                case 'toggleTask':
+                    await this.toggleTask(document, Number(msg.line), msg.checked);
+                    return;
+                case 'revealLine': {
+                    const editor = this.findEditor(document);
+                    if (editor && Number.isInteger(msg.line)) {
+                        this.ignoreEditorScrollUntil = Date.now() + scrollEchoMs;
+                        editor.revealRange(new vscode.Range(msg.line, 0, msg.line, 0), vscode.TextEditorRevealType.AtTop);
+                    }
+                    return;
+                }
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Preview action failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Applies a checkbox toggle from the preview to the source document.
+     */
+    private async toggleTask(document: vscode.TextDocument, line: number, checked: boolean): Promise<void> {
+        if (!Number.isInteger(line) || line < 0 || line >= document.lineCount) {
+            return;
+        }
+
+        const lineText = document.lineAt(line).text;
+        const newLineText = checked
+            ? markTaskCompleted(lineText, 0, new DateTimeFormatter().formatDate(new Date(), 'YYYY-MM-DD'))
+            : markTaskIncomplete(lineText, 0);
+        if (newLineText === lineText) {
+            return;
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(document.uri, new vscode.Range(line, 0, line, lineText.length), newLineText);
+        await vscode.workspace.applyEdit(edit);
+    }
+
+    private onEditorScrolled(e: vscode.TextEditorVisibleRangesChangeEvent): void {
+        if (!this.panel || e.textEditor.document.uri.toString() !== this.document?.uri.toString()) {
+            return;
+        }
+        if (Date.now() < this.ignoreEditorScrollUntil || e.visibleRanges.length === 0) {
+            return;
+        }
+        this.panel.webview.postMessage({ command: 'scrollToLine', line: e.visibleRanges[0].start.line });
+    }
+
+    private findEditor(document: vscode.TextDocument): vscode.TextEditor | undefined {
+        return vscode.window.visibleTextEditors.find(editor => editor.document.uri.toString() === document.uri.toString());
+    }
+
+    private getTitle(): string {
+        const fileName = this.document?.uri.path.split('/').pop() ?? '';
+        return `Preview ${fileName}`;
+    }
+
+    private disposeListeners(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+
+    private getHtmlForWebview(webview: vscode.Webview): string {
+        const nonce = getNonce();
+        return `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${webview.cspSource} https: data:; object-src ${webview.cspSource}; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>
+    body { font-family: var(--vscode-markdown-font-family, var(--vscode-font-family)); font-size: var(--vscode-markdown-font-size, 14px); line-height: 1.6; padding: 0 26px 40vh; }
+    a { color: var(--vscode-textLink-foreground); }
+    a.mdlg-wikilink { text-decoration: none; }
+    a.mdlg-wikilink:hover { text-decoration: underline; }
+    a.mdlg-wikilink-missing { opacity: 0.65; text-decoration: underline dashed; }
+    code { font-family: var(--vscode-editor-font-family); }
+    pre { background: var(--vscode-textCodeBlock-background); padding: 8px 12px; overflow-x: auto; }
+    blockquote { margin: 0; padding: 0 12px; border-left: 4px solid var(--vscode-textBlockQuote-border); }
+    li.mdlg-task-item { list-style: none; }
+    li.mdlg-task-item input { margin: 0 6px 0 -20px; }
+    .mdlg-embed { margin: 8px 0; padding: 4px 12px; border-left: 3px solid var(--vscode-textLink-foreground); background: var(--vscode-textCodeBlock-background); }
+    .mdlg-embed-title { font-size: 0.85em; opacity: 0.8; }
+    .mdlg-embed-error { opacity: 0.65; font-style: italic; }
+    .mdlg-embed-image { max-width: 100%; }
+    .mdlg-embed-pdf { width: 100%; height: 80vh; }
+    .mdlg-query { margin: 8px 0; padding: 4px 12px; border-left: 3px solid var(--vscode-textBlockQuote-border); }
+    .mdlg-query-error { opacity: 0.65; font-style: italic; }
+    table { border-collapse: collapse; }
+    th, td { padding: 2px 8px; border: 1px solid var(--vscode-textBlockQuote-border); }
+  </style>
+</head>
+<body>
+  <div id="content"></div>
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    const content = document.getElementById('content');
+    let ignoreScrollUntil = 0;
+    let scrollTimer;
+
+    content.addEventListener('click', event => {
+      const link = event.target.closest('a[data-wikilink]');
+      if (link) {
+        event.preventDefault();
+        vscode.postMessage({ command: 'openLink', linkText: link.dataset.wikilink, source: link.dataset.source });
+      }
+    });
+
+    content.addEventListener('change', event => {
+      const box = event.target;
+      if (box.classList && box.classList.contains('mdlg-task')) {
+        vscode.postMessage({ command: 'toggleTask', line: Number(box.dataset.line), checked: box.checked });
+      }
+    });
+
+    function lineElements() {
+      return Array.from(content.querySelectorAll('[data-line]'));
+    }
+
+    function scrollToLine(line) {
+      let target;
+      for (const el of lineElements()) {
+        if (Number(el.dataset.line) > line) break;
+        target = el;
+      }
+      ignoreScrollUntil = Date.now() + ${scrollEchoMs};
+      if (target) {
+        target.scrollIntoView({ block: 'start' });
+      } else {
+        window.scrollTo(0, 0);
+      }
+    }
+
+    window.addEventListener('scroll', () => {
+      if (Date.now() < ignoreScrollUntil) return;
+      clearTimeout(scrollTimer);
+      scrollTimer = setTimeout(() => {
+        const first = lineElements().find(el => el.getBoundingClientRect().bottom > 0);
+        if (first) {
+          vscode.postMessage({ command: 'revealLine', line: Number(first.dataset.line) });
+        }
+      }, 50);
+    });
+
+    window.addEventListener('message', event => {
+      const msg = event.data;
+      switch (msg.command) {
+        case 'update': {
+          const y = window.scrollY;
+          content.innerHTML = msg.html;
+          ignoreScrollUntil = Date.now() + ${scrollEchoMs};
+          window.scrollTo(0, y);
+          break;
+        }
+        case 'scrollToLine':
+          scrollToLine(msg.line);
+          break;
+      }
+    });
+  </script>
+</body>
+</html>`;
+    }
+}
+
+/**
+ * Renders an embed that cannot be expanded.
+ */
+function embedError(link: string, message: string): string {
+    return `<div class="mdlg-embed mdlg-embed-error">${message}: ${link}</div>`;
+}
+
+/**
+ * True while rendering the content of an embedded note, whose lines do not belong to
+ * the previewed document.
+ */
+function isEmbedded(env: unknown): boolean {
+    return ((env as Partial<EmbedEnv> | undefined)?.depth ?? 0) > 0;
+}
+
+function getLineOffset(env: unknown): number {
+    return (env as Partial<EmbedEnv> | undefined)?.lineOffset ?? 0;
+}
+
+/**
+ * Turns list items starting with "[ ]" / "[x]" into checkboxes carrying their source line.
+ * Tasks of embedded notes are shown read-only.
+ */
+function taskCheckboxRule(state: StateCore): void {
+    const embedded = isEmbedded(state.env);
+    const offset = getLineOffset(state.env);
+    const tokens = state.tokens;
+    for (let i = 2; i < tokens.length; i++) {
+        const inline = tokens[i];
+        if (inline.type !== 'inline' || tokens[i - 1].type !== 'paragraph_open' || tokens[i - 2].type !== 'list_item_open') {
+            continue;
+        }
+        const first = inline.children?.[0];
+        const m = first?.type === 'text' ? first.content.match(/^\[([ xX])\]\s+/) : null;
+        if (!first || !m || !inline.map) {
+            continue;
+        }
+
+        first.content = first.content.substring(m[0].length);
+        const checkbox = new state.Token('html_inline', '', 0);
+        const checked = m[1] !== ' ' ? ' checked' : '';
+        checkbox.content = embedded
+            ? `<input type="checkbox" class="mdlg-task" disabled${checked}>`
+            : `<input type="checkbox" class="mdlg-task" data-line="${inline.map[0] + offset}"${checked}>`;
+        inline.children!.unshift(checkbox);
+        tokens[i - 2].attrJoin('class', 'mdlg-task-item');
+    }
+}
+
+/**
+ * Adds `data-line` attributes to block tokens for scroll synchronization.
+ */
+function sourceLineRule(state: StateCore): void {
+    if (isEmbedded(state.env)) {
+        return;
+    }
+    const offset = getLineOffset(state.env);
+    for (const token of state.tokens) {
+        if (token.map && token.nesting >= 0 && token.type !== 'inline') {
+            token.attrSet('data-line', String(token.map[0] + offset));
+        }
+    }
+}
@@ -0,0 +1,146 @@
+/**
+ * @fileoverview Properties tree view for the active note.
+ * Shows the frontmatter properties of the active Markdown editor, including
+ * unsaved edits; list properties expand to their items.
+ *
+ * @author MDloggerForCode Team
+ * @version 1.0.0
+ */
+
+import * as vscode from 'vscode';
+import { parseFrontmatter, FrontmatterProperty } from '../utils/Frontmatter';
+
+/** Delay before refreshing the view while the user is typing. */
+const refreshDelayMs = 300;
+
+/**
+ * Node types rendered by the properties tree.
+ */
+export type PropertyNode =
+    | { readonly kind: 'property'; readonly uri: vscode.Uri; readonly property: FrontmatterProperty }
+    | { readonly kind: 'value'; readonly uri: vscode.Uri; readonly property: FrontmatterProperty; readonly value: string };
+
+/**
+ * Tree data provider for the `mdlg.properties` Explorer view.
+ *
+ * @class PropertiesTreeProvider
+ * @implements {vscode.TreeDataProvider<PropertyNode>}
+ */
+export class PropertiesTreeProvider implements vscode.TreeDataProvider<PropertyNode>, vscode.Disposable {
+    public static readonly viewId = 'mdlg.properties';
+
+    private readonly changeEmitter = new vscode.EventEmitter<PropertyNode | undefined>();
+    readonly onDidChangeTreeData: vscode.Event<PropertyNode | undefined> = this.changeEmitter.event;
+
+    private disposables: { dispose(): unknown }[] = [];
+    private refreshTimer: ReturnType<typeof setTimeout> | undefined;
+    private document: vscode.TextDocument | undefined;
+
+    /**
+     * Creates a new PropertiesTreeProvider instance following the active editor.
+     */
+    constructor() {
+        this.document = this.getMarkdownDocument(vscode.window.activeTextEditor);
+        this.disposables.push(
+            vscode.window.onDidChangeActiveTextEditor(editor => {
+                const document = this.getMarkdownDocument(editor);
+                if (document && document !== this.document) {
+                    this.setDocument(document);
+                }
+            }),
+            vscode.workspace.onDidChangeTextDocument(e => {
+                if (e.document === this.document) {
+                    this.scheduleRefresh();
+                }
+            })
+        );
+    }
+
+    /**
+     * Sets the note whose properties are displayed.
+     *
+     * @param document - The note, or undefined to clear the view
+     */
+    setDocument(document: vscode.TextDocument | undefined): void {
+        this.document = document;
+        this.refresh();
+    }
+
+    /**
+     * Re-renders the whole tree.
+     */
+    refresh(): void {
+        this.changeEmitter.fire(undefined);
+    }
+
+    getTreeItem(node: PropertyNode): vscode.TreeItem {
+        const { property } = node;
+        const selection = new vscode.Range(property.line, 0, property.line, 0);
+        const command: vscode.Command = { command: 'vscode.open', title: 'Open', arguments: [node.uri, { selection }] };
+
+        if (node.kind === 'value') {
+            const item = new vscode.TreeItem(node.value, vscode.TreeItemCollapsibleState.None);
+            item.iconPath = new vscode.ThemeIcon('symbol-string');
+            item.command = command;
+            return item;
+        }
+
+        const isList = Array.isArray(property.value);
+        const item = new vscode.TreeItem(
+            property.key,
+            isList && property.value.length > 0 ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None
+        );
+        item.description = isList
+            ? `${property.value.length} item${property.value.length === 1 ? '' : 's'}`
+            : (property.value as string).replace(/\n/g, ' ');
+        item.tooltip = isList ? (property.value as string[]).join(', ') : property.value as string;
+        item.iconPath = new vscode.ThemeIcon(isList ? 'symbol-array' : 'symbol-property');
+        item.contextValue = 'mdlg.property';
+        item.command = command;
+        return item;
+    }
+
+    getChildren(node?: PropertyNode): PropertyNode[] {
+        if (!this.document) {
+            return [];
+        }
+
+        if (!node) {
+            const uri = this.document.uri;
+            const frontmatter = parseFrontmatter(this.document.getText());
+            return (frontmatter?.properties ?? []).map(property => ({ kind: 'property', uri, property }));
+        }
+
+        if (node.kind === 'property' && Array.isArray(node.property.value)) {
+            return node.property.value.map(value => ({ kind: 'value', uri: node.uri, property: node.property, value }));
+        }
+
+        return [];
+    }
+
+    dispose(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+        this.changeEmitter.dispose();
+    }
+
+    private scheduleRefresh(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.refreshTimer = setTimeout(() => {
+            this.refreshTimer = undefined;
+            this.refresh();
+        }, refreshDelayMs);
+    }
+
+    private getMarkdownDocument(editor: vscode.TextEditor | undefined): vscode.TextDocument | undefined {
+        if (!editor || editor.document.languageId !== 'markdown') {
+            return undefined;
+        }
+        return editor.document;
+    }
+}
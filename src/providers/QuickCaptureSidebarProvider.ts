@@ -1,8 +1,13 @@
 import * as vscode from 'vscode';
+import * as path from 'path';
 import { ConfigurationManager } from '../managers/ConfigurationManager';
 import { DailyNoteManager } from '../managers/DailyNoteManager';
 import { TaskService } from '../services/TaskService';
 import { VscodeFileWriter } from '../services/FileWriter';
+import { VaultIndex } from '../services/VaultIndex';
+import { CollectedTask, GroupedTask, groupTasks, toCollectedTask } from '../utils/TaskCollector';
+import { DateTimeFormatter } from '../utils/DateTimeFormatter';
+import { getNonce } from '../utils/WebviewUtil';
 
 export class QuickCaptureSidebarProvider implements vscode.WebviewViewProvider {
     public static readonly viewId = 'mdlg.quickCapture';
@@ -12,9 +17,37 @@ export class QuickCaptureSidebarProvider implements vscode.WebviewViewProvider {
     constructor(
         private readonly context: vscode.ExtensionContext,
         private readonly configManager: ConfigurationManager,
-        private readonly dailyNoteManager: DailyNoteManager
+        private readonly dailyNoteManager: DailyNoteManager,
+        private readonly vaultIndex?: VaultIndex
     ) {}
 
+  /**
+   * Collect open tasks for the task list, sorted by date and priority and grouped
+   * into overdue / today / upcoming / no date.
+   * Uses the shared VaultIndex when available; otherwise falls back to globbing the workspace.
+   */
+  private async collectTasks(workspaceFolder: vscode.WorkspaceFolder): Promise<GroupedTask[]> {
+    const today = this.today();
+    if (this.vaultIndex) {
+      const notes = await this.vaultIndex.getAllNotes();
+      const tasks: CollectedTask[] = [];
+      for (const note of notes) {
+        for (const t of note.tasks) {
+          tasks.push(toCollectedTask(note.uri.fsPath, path.basename(note.uri.fsPath), t));
+        }
+      }
+      return groupTasks(tasks, today);
+    }
+
+    const files = await vscode.workspace.findFiles(new vscode.RelativePattern(workspaceFolder.uri, '**/*.md'), '**/node_modules/**', 200);
+    return groupTasks(await this.taskService.collectTasksFromUris(files), today);
+  }
+
+  /** Today's date (YYYY-MM-DD) in local time */
+  private today(): string {
+    return new DateTimeFormatter().formatDate(new Date(), 'YYYY-MM-DD');
+  }
+
   private get taskService(): TaskService {
     // lazy init with VscodeFileWriter to allow easier testing/mocking
     if (!this.taskServiceInstance) {
@@ -37,7 +70,7 @@ export class QuickCaptureSidebarProvider implements vscode.WebviewViewProvider {
 
         webviewView.webview.html = this.getHtmlForWebview(webviewView.webview);
 
-        type CaptureAddMessage = { command: 'capture:add'; content?: string };
+        type CaptureAddMessage = { command: 'capture:add'; content?: string; target?: 'daily' | 'weekly' };
         type RequestTasksMessage = { command: 'request:tasks' };
         type TaskCompleteMessage = { command: 'task:complete'; payload?: { uri: string; line: number } };
         type QuickCaptureMessage = CaptureAddMessage | RequestTasksMessage | TaskCompleteMessage;
@@ -58,7 +91,10 @@ export class QuickCaptureSidebarProvider implements vscode.WebviewViewProvider {
                             return;
                         }
 
-                        const result = await this.dailyNoteManager.appendToSection(workspaceFolder, text);
+                        // 週次ノートを選んだ場合は今週のノートのセクションに追記
+                        const result = (msg as CaptureAddMessage).target === 'weekly'
+                            ? await this.dailyNoteManager.appendToPeriodicNoteSection(workspaceFolder, 'week', text)
+                            : await this.dailyNoteManager.appendToSection(workspaceFolder, text);
                         webviewView.webview.postMessage({ command: 'capture:ok', timestamp: new Date().toISOString(), uri: result.uri.toString(), line: result.line });
                         return;
                     }
@@ -72,9 +108,7 @@ export class QuickCaptureSidebarProvider implements vscode.WebviewViewProvider {
                 return;
               }
 
-              // Use a simple glob to list markdown files under workspace/dailynotes
-              const files = await vscode.workspace.findFiles(new vscode.RelativePattern(workspaceFolder.uri, '**/*.md'), '**/node_modules/**', 200);
-              const tasks = await this.taskService.collectTasksFromUris(files);
+              const tasks = await this.collectTasks(workspaceFolder);
               webviewView.webview.postMessage({ command: 'tasks:update', tasks });
             } catch (err) {
               webviewView.webview.postMessage({ command: 'tasks:update', tasks: [] });
@@ -92,16 +126,16 @@ export class QuickCaptureSidebarProvider implements vscode.WebviewViewProvider {
                 return;
               }
               const uri = vscode.Uri.file(uriStr);
-              const today = new Date().toISOString().slice(0, 10);
+              const today = this.today();
               await this.taskService.completeTask(uri, line, today);
+              await this.vaultIndex?.refreshNote(uri);
               // refresh tasks
               const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
               if (!workspaceFolder) {
                 webviewView.webview.postMessage({ command: 'tasks:update', tasks: [] });
                 return;
               }
-              const files = await vscode.workspace.findFiles(new vscode.RelativePattern(workspaceFolder.uri, '**/*.md'), '**/node_modules/**', 200);
-              const tasks = await this.taskService.collectTasksFromUris(files);
+              const tasks = await this.collectTasks(workspaceFolder);
               webviewView.webview.postMessage({ command: 'tasks:update', tasks });
             } catch (err) {
               webviewView.webview.postMessage({ command: 'error', message: err instanceof Error ? err.message : String(err) });
@@ -126,10 +160,14 @@ export class QuickCaptureSidebarProvider implements vscode.WebviewViewProvider {
   <style>
     body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; padding: 8px; }
     .capture { display:flex; gap:8px; }
+    .target { margin-top:6px; }
     input[type="text"] { flex:1; padding:6px 8px; }
     button { padding:6px 8px; }
     .tasks { margin-top:12px; }
+    .group { margin:8px 0 2px; font-weight:bold; }
+    .group.overdue { color: var(--vscode-errorForeground); }
     .task { display:flex; align-items:center; gap:8px; padding:4px 0; }
+    .task .meta { opacity:0.7; font-size:0.9em; white-space:nowrap; }
     .task button { margin-left:auto; }
   </style>
 </head>
@@ -139,6 +177,14 @@ export class QuickCaptureSidebarProvider implements vscode.WebviewViewProvider {
       <input id="captureInput" type="text" placeholder="Quick note..." />
       <button id="captureBtn">Add</button>
     </div>
+    <div class="target">
+      <label>Add to
+        <select id="captureTarget">
+          <option value="daily">Today's daily note</option>
+          <option value="weekly">This week's note</option>
+        </select>
+      </label>
+    </div>
 
     <div class="tasks">
       <h4>Open tasks</h4>
@@ -150,11 +196,16 @@ export class QuickCaptureSidebarProvider implements vscode.WebviewViewProvider {
     const input = document.getElementById('captureInput');
     const btn = document.getElementById('captureBtn');
     const tasksList = document.getElementById('tasksList');
+    const target = document.getElementById('captureTarget');
+    const groupLabels = { overdue: 'Overdue', today: 'Today', upcoming: 'Upcoming', noDate: 'No date' };
+    const priorityMarks = { highest: '🔺', high: '⏫', medium: '🔼', low: '🔽', lowest: '⏬' };
+    target.value = (vscode.getState() || {}).target || 'daily';
+    target.addEventListener('change', () => vscode.setState({ target: target.value }));
 
     btn.addEventListener('click', () => {
       const v = input.value.trim();
       if (!v) return;
-      vscode.postMessage({ command: 'capture:add', content: v });
+      vscode.postMessage({ command: 'capture:add', content: v, target: target.value });
       input.value = '';
     });
 
@@ -172,11 +223,28 @@ export class QuickCaptureSidebarProvider implements vscode.WebviewViewProvider {
           } else {
             // Build DOM nodes to avoid nested template/backtick issues
             tasksList.innerHTML = '';
+            let group;
             tasks.forEach(t => {
+              // tasks arrive sorted, so a header starts each group
+              if (t.group !== group) {
+                group = t.group;
+                const header = document.createElement('div');
+                header.className = 'group ' + group;
+                header.textContent = groupLabels[group] || group;
+                tasksList.appendChild(header);
+              }
               const div = document.createElement('div');
               div.className = 'task';
               const span = document.createElement('span');
-              span.textContent = t.text;
+              span.textContent = t.description || t.text;
+              span.title = t.text;
+              const meta = document.createElement('span');
+              meta.className = 'meta';
+              meta.textContent = [
+                priorityMarks[t.priority] || '',
+                t.due ? '📅 ' + t.due : (t.scheduled ? '⏳ ' + t.scheduled : ''),
+                t.recurrence ? '🔁' : ''
+              ].filter(Boolean).join(' ');
               const btn = document.createElement('button');
               btn.textContent = 'Complete';
               btn.dataset.uri = t.uri;
@@ -185,6 +253,7 @@ export class QuickCaptureSidebarProvider implements vscode.WebviewViewProvider {
                 vscode.postMessage({ command: 'task:complete', payload: { uri: t.uri, line: t.line } });
               });
               div.appendChild(span);
+              div.appendChild(meta);
               div.appendChild(btn);
               tasksList.appendChild(div);
             });
@@ -205,12 +274,3 @@ export class QuickCaptureSidebarProvider implements vscode.WebviewViewProvider {
 </html>`;
     }
 }
-
-function getNonce(): string {
-    let text = '';
-    const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-    for (let i = 0; i < 32; i++) {
-        text += possible.charAt(Math.floor(Math.random() * possible.length));
-    }
-    return text;
-}
@@ -0,0 +1,161 @@
+/**
+ * @fileoverview Search results tree view.
+ * Runs vault searches through the `mdlg.search` command and lists the matching
+ * notes with their matching lines, highlighting the matched text. Results are
+ * refreshed when notes change.
+ *
+ * @author MDloggerForCode Team
+ * @version 1.0.0
+ */
+
+import * as vscode from 'vscode';
+import { VaultIndex } from '../services/VaultIndex';
+import { SearchIndex, SearchResult } from '../services/SearchIndex';
+import { SearchLineMatch, SearchQueryError } from '../utils/SearchQuery';
+
+/** Delay before re-running the search after index updates (typing triggers many). */
+const refreshDelayMs = 300;
+
+/**
+ * Node types rendered by the search results tree.
+ */
+export type SearchResultNode =
+    | { readonly kind: 'file'; readonly result: SearchResult }
+    | { readonly kind: 'match'; readonly result: SearchResult; readonly match: SearchLineMatch };
+
+/**
+ * Tree data provider for the `mdlg.searchResults` Explorer view.
+ *
+ * @class SearchResultsTreeProvider
+ * @implements {vscode.TreeDataProvider<SearchResultNode>}
+ */
+export class SearchResultsTreeProvider implements vscode.TreeDataProvider<SearchResultNode>, vscode.Disposable {
+    public static readonly viewId = 'mdlg.searchResults';
+
+    private readonly changeEmitter = new vscode.EventEmitter<SearchResultNode | undefined>();
+    readonly onDidChangeTreeData: vscode.Event<SearchResultNode | undefined> = this.changeEmitter.event;
+
+    private disposables: { dispose(): unknown }[] = [];
+    private refreshTimer: ReturnType<typeof setTimeout> | undefined;
+    private query: string | undefined;
+    private results: SearchResult[] = [];
+
+    /**
+     * Creates a new SearchResultsTreeProvider instance.
+     *
+     * @param searchIndex - Search index evaluating the queries
+     * @param vaultIndex - Shared vault index whose changes trigger a new search
+     */
+    constructor(private readonly searchIndex: SearchIndex, vaultIndex: VaultIndex) {
+        this.disposables.push(vaultIndex.onDidChange(() => this.scheduleRefresh()));
+    }
+
+    /**
+     * Asks for a query (prefilled with the previous one), runs it and shows the results.
+     *
+     * @param query - Query to run (prompted when omitted)
+     * @returns The results, or undefined when cancelled or the query is invalid
+     */
+    async search(query?: string): Promise<SearchResult[] | undefined> {
+        const input = query ?? await vscode.window.showInputBox({
+            prompt: 'Search the vault (tag:, path:, file:, task:, line:(...), "phrase", -exclude, /regex/, OR)',
+            value: this.query
+        });
+        if (input === undefined || input.trim() === '') {
+            return undefined;
+        }
+
+        try {
+            this.results = await this.searchIndex.search(input);
+        } catch (error) {
+            if (error instanceof SearchQueryError) {
+                vscode.window.showErrorMessage(`Invalid search query: ${error.message}`);
+                return undefined;
+            }
+            throw error;
+        }
+        this.query = input;
+        this.refresh();
+        return this.results;
+    }
+
+    /**
+     * Re-renders the whole tree.
+     */
+    refresh(): void {
+        this.changeEmitter.fire(undefined);
+    }
+
+    getTreeItem(node: SearchResultNode): vscode.TreeItem {
+        const { note } = node.result;
+
+        if (node.kind === 'file') {
+            const count = node.result.matches.length;
+            const item = new vscode.TreeItem(
+                note.title,
+                count > 0 ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.None
+            );
+            item.description = count > 0 ? `${note.relativePath} · ${count}` : note.relativePath;
+            item.tooltip = `${note.relativePath} (${count} matching line${count === 1 ? '' : 's'})`;
+            item.resourceUri = note.uri;
+            item.iconPath = vscode.ThemeIcon.File;
+            item.command = { command: 'vscode.open', title: 'Open', arguments: [note.uri] };
+            return item;
+        }
+
+        const { match } = node;
+        // 行頭のインデントを除いて表示し、ハイライト位置もずらす
+        const indent = match.text.length - match.text.trimStart().length;
+        const label: vscode.TreeItemLabel = {
+            label: match.text.trim(),
+            highlights: match.ranges.map(([start, end]): [number, number] => [
+                Math.max(start - indent, 0),
+                Math.max(end - indent, 0)
+            ])
+        };
+        const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None);
+        item.description = `${match.line + 1}`;
+        item.tooltip = match.text;
+        const [start, end] = match.ranges[0] ?? [0, 0];
+        item.command = {
+            command: 'vscode.open',
+            title: 'Open',
+            arguments: [note.uri, { selection: new vscode.Range(match.line, start, match.line, end) }]
+        };
+        return item;
+    }
+
+    getChildren(node?: SearchResultNode): SearchResultNode[] {
+        if (!node) {
+            return this.results.map(result => ({ kind: 'file', result }));
+        }
+        if (node.kind === 'file') {
+            return node.result.matches.map(match => ({ kind: 'match', result: node.result, match }));
+        }
+        return [];
+    }
+
+    dispose(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+        this.changeEmitter.dispose();
+    }
+
+    private scheduleRefresh(): void {
+        if (this.query === undefined) {
+            return;
+        }
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.refreshTimer = setTimeout(() => {
+            this.refreshTimer = undefined;
+            if (this.query !== undefined) {
+                void this.search(this.query).catch(error => console.warn('[SearchResultsTreeProvider] Failed to refresh search:', error));
+            }
+        }, refreshDelayMs);
+    }
+}
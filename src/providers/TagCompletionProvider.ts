@@ -0,0 +1,80 @@
+/**
+ * @fileoverview Tag completion provider.
+ * Suggests the tags used across the vault after `#` in the note body, with the
+ * number of notes using each tag. Headings, WikiLinks, code and the frontmatter
+ * are left alone.
+ *
+ * @author MDloggerForCode Team
+ * @version 1.0.0
+ */
+
+import * as vscode from 'vscode';
+import { VaultIndex } from '../services/VaultIndex';
+
+/**
+ * Provides completion items for `#tag` and `#nested/tag` in Markdown notes.
+ *
+ * @class TagCompletionProvider
+ * @implements {vscode.CompletionItemProvider}
+ */
+export class TagCompletionProvider implements vscode.CompletionItemProvider {
+    /**
+     * Creates a new TagCompletionProvider instance.
+     *
+     * @param vaultIndex - Shared vault index providing the tags of every note
+     */
+    constructor(private readonly vaultIndex: VaultIndex) {}
+
+    async provideCompletionItems(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): Promise<vscode.CompletionItem[] | null> {
+        const prefix = document.lineAt(position.line).text.substring(0, position.character);
+        const match = prefix.match(/(^|\s)#([\p{L}\p{N}_/-]*)$/u);
+        if (!match || !this.isInBody(document, position, prefix, match.index! + match[1].length)) {
+            return null;
+        }
+
+        const typed = match[2];
+        const range = new vscode.Range(position.line, position.character - typed.length, position.line, position.character);
+        const tags = await this.vaultIndex.getTags();
+
+        return Array.from(tags.entries())
+            .sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]))
+            .map(([tag, notes], index) => {
+                const item = new vscode.CompletionItem(tag, vscode.CompletionItemKind.Keyword);
+                item.insertText = tag;
+                item.detail = `${notes.length} note${notes.length === 1 ? '' : 's'}`;
+                item.sortText = String(index).padStart(4, '0');
+                item.range = range;
+                return item;
+            });
+    }
+
+    /**
+     * Checks that the `#` at `hashIndex` starts a tag rather than a heading, a WikiLink
+     * anchor, code or a frontmatter entry.
+     */
+    private isInBody(document: vscode.TextDocument, position: vscode.Position, prefix: string, hashIndex: number): boolean {
+        // 見出し行（"# " で始まる行）ではタグを補完しない
+        if (/^#{1,6}\s/.test(prefix)) {
+            return false;
+        }
+        const before = prefix.substring(0, hashIndex);
+        if (before.lastIndexOf('[[') > before.lastIndexOf(']]') || (before.match(/`/g)?.length ?? 0) % 2 === 1) {
+            return false;
+        }
+
+        let fenced = false;
+        let inFrontmatter = position.line > 0 && document.lineAt(0).text.trim() === '---';
+        for (let i = inFrontmatter ? 1 : 0; i < position.line; i++) {
+            const text = document.lineAt(i).text;
+            if (inFrontmatter) {
+                inFrontmatter = text.trim() !== '---';
+            } else if (/^\s*(```|~~~)/.test(text)) {
+                fenced = !fenced;
+            }
+        }
+        return !fenced && !inFrontmatter;
+    }
+}
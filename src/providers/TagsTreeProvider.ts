@@ -0,0 +1,141 @@
+/**
+ * @fileoverview Tags tree view.
+ * Lists every tag of the vault hierarchically (`project/alpha` below `project`)
+ * with the number of notes using it, and the notes below each tag.
+ *
+ * @author MDloggerForCode Team
+ * @version 1.0.0
+ */
+
+import * as vscode from 'vscode';
+import { VaultIndex, IndexedNote } from '../services/VaultIndex';
+
+/** Delay before refreshing the view after index updates (typing triggers many). */
+const refreshDelayMs = 300;
+
+/**
+ * Node types rendered by the tags tree.
+ */
+export type TagNode =
+    | { readonly kind: 'tag'; readonly tag: string; readonly notes: IndexedNote[] }
+    | { readonly kind: 'note'; readonly tag: string; readonly note: IndexedNote };
+
+/**
+ * Tree data provider for the `mdlg.tags` Explorer view.
+ *
+ * @class TagsTreeProvider
+ * @implements {vscode.TreeDataProvider<TagNode>}
+ */
+export class TagsTreeProvider implements vscode.TreeDataProvider<TagNode>, vscode.Disposable {
+    public static readonly viewId = 'mdlg.tags';
+
+    private readonly changeEmitter = new vscode.EventEmitter<TagNode | undefined>();
+    readonly onDidChangeTreeData: vscode.Event<TagNode | undefined> = this.changeEmitter.event;
+
+    private disposables: { dispose(): unknown }[] = [];
+    private refreshTimer: ReturnType<typeof setTimeout> | undefined;
+
+    /**
+     * Creates a new TagsTreeProvider instance.
+     *
+     * @param vaultIndex - Shared vault index providing the tags
+     */
+    constructor(private readonly vaultIndex: VaultIndex) {
+        this.disposables.push(this.vaultIndex.onDidChange(() => this.scheduleRefresh()));
+    }
+
+    /**
+     * Re-renders the whole tree.
+     */
+    refresh(): void {
+        this.changeEmitter.fire(undefined);
+    }
+
+    getTreeItem(node: TagNode): vscode.TreeItem {
+        if (node.kind === 'note') {
+            const item = new vscode.TreeItem(node.note.title, vscode.TreeItemCollapsibleState.None);
+            item.description = node.note.relativePath;
+            item.resourceUri = node.note.uri;
+            item.iconPath = vscode.ThemeIcon.File;
+            const occurrence = node.note.tags.find(t => t.tag === node.tag);
+            const line = occurrence?.line ?? 0;
+            item.command = {
+                command: 'vscode.open',
+                title: 'Open',
+                arguments: [node.note.uri, { selection: new vscode.Range(line, 0, line, 0) }]
+            };
+            return item;
+        }
+
+        const name = node.tag.substring(node.tag.lastIndexOf('/') + 1);
+        const item = new vscode.TreeItem(`#${name}`, vscode.TreeItemCollapsibleState.Collapsed);
+        item.description = String(node.notes.length);
+        item.tooltip = `#${node.tag} (${node.notes.length} note${node.notes.length === 1 ? '' : 's'})`;
+        item.iconPath = new vscode.ThemeIcon('tag');
+        item.contextValue = 'mdlg.tag';
+        return item;
+    }
+
+    async getChildren(node?: TagNode): Promise<TagNode[]> {
+        if (node?.kind === 'note') {
+            return [];
+        }
+
+        const tags = await this.vaultIndex.getTags();
+        const parent = node?.tag;
+        const children = new Map<string, Map<string, IndexedNote>>();
+        for (const [tag, notes] of tags) {
+            const child = this.getChildTag(tag, parent);
+            if (child === undefined) {
+                continue;
+            }
+            if (!children.has(child)) {
+                children.set(child, new Map());
+            }
+            // 子孫タグを使うノートも親タグの件数に含める
+            notes.forEach(note => children.get(child)!.set(note.uri.toString(), note));
+        }
+
+        const nodes: TagNode[] = Array.from(children.entries())
+            .sort((a, b) => a[0].localeCompare(b[0]))
+            .map(([tag, notes]) => ({ kind: 'tag', tag, notes: Array.from(notes.values()) }));
+
+        if (parent !== undefined) {
+            const direct = (tags.get(parent) ?? []).slice().sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+            nodes.push(...direct.map(note => ({ kind: 'note' as const, tag: parent, note })));
+        }
+        return nodes;
+    }
+
+    dispose(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+        this.changeEmitter.dispose();
+    }
+
+    /**
+     * Returns the tag one level below `parent` on the way to `tag`
+     * (`a/b` for `a/b/c` below `a`), or undefined when `tag` is not below `parent`.
+     */
+    private getChildTag(tag: string, parent: string | undefined): string | undefined {
+        const base = parent === undefined ? '' : `${parent}/`;
+        if (!tag.startsWith(base) || tag === parent) {
+            return undefined;
+        }
+        const next = tag.indexOf('/', base.length);
+        return next === -1 ? tag : tag.substring(0, next);
+    }
+
+    private scheduleRefresh(): void {
+        if (this.refreshTimer) {
+            clearTimeout(this.refreshTimer);
+        }
+        this.refreshTimer = setTimeout(() => {
+            this.refreshTimer = undefined;
+            this.refresh();
+        }, refreshDelayMs);
+    }
+}
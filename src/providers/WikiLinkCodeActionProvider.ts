@@ -0,0 +1,163 @@
+/**
+ * @fileoverview Quick fixes for broken WikiLink diagnostics.
+ * Offers to create the missing note (through `mdlg.openOrCreateWikiLink`), to retarget
+ * the link to the closest existing title, or to replace a missing heading with one that
+ * exists in the target note.
+ *
+ * @author MDloggerForCode Team
+ * @version 1.0.0
+ */
+
+import * as vscode from 'vscode';
+import { ConfigurationManager } from '../managers/ConfigurationManager';
+import { ParsedWikiLink, formatLinkAnchor } from '../processors/WikiLinkProcessor';
+import { VaultIndex } from '../services/VaultIndex';
+import { WikiLinkResolver } from '../services/WikiLinkResolver';
+import { findClosestMatches } from '../utils/FuzzyMatch';
+import { WikiLinkDiagnosticsProvider, WikiLinkDiagnosticCode } from './WikiLinkDiagnosticsProvider';
+
+/** Maximum number of heading suggestions per diagnostic. */
+const maxHeadingSuggestions = 5;
+
+/**
+ * Code action provider attached to the diagnostics of WikiLinkDiagnosticsProvider.
+ *
+ * @class WikiLinkCodeActionProvider
+ * @implements {vscode.CodeActionProvider}
+ */
+export class WikiLinkCodeActionProvider implements vscode.CodeActionProvider {
+    public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    /**
+     * Creates a new WikiLinkCodeActionProvider instance.
+     *
+     * @param configManager - Configuration manager for the search scope
+     * @param vaultIndex - Shared vault index used for title and heading suggestions
+     * @param linkResolver - Resolver used to compute the location of new notes
+     */
+    constructor(
+        private readonly configManager: ConfigurationManager,
+        private readonly vaultIndex: VaultIndex,
+        private readonly linkResolver: WikiLinkResolver
+    ) {}
+
+    async provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): Promise<vscode.CodeAction[]> {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder) {
+            return [];
+        }
+
+        const actions: vscode.CodeAction[] = [];
+        for (const diagnostic of context.diagnostics) {
+            if (diagnostic.source !== WikiLinkDiagnosticsProvider.source) {
+                continue;
+            }
+
+            // 診断範囲は [[...]] 全体を指す
+            const linkText = document.getText(diagnostic.range).slice(2, -2);
+            const code = diagnostic.code as WikiLinkDiagnosticCode;
+            try {
+                if (code === 'missing-note') {
+                    actions.push(...await this.getMissingNoteActions(document, diagnostic, linkText, workspaceFolder));
+                } else if (code === 'missing-heading') {
+                    actions.push(...await this.getMissingHeadingActions(document, diagnostic, linkText, workspaceFolder));
+                }
+            } catch {
+                // リンクが編集されて解析できなくなった場合は候補なし
+            }
+        }
+
+        return actions;
+    }
+
+    private async getMissingNoteActions(
+        document: vscode.TextDocument,
+        diagnostic: vscode.Diagnostic,
+        linkText: string,
+        workspaceFolder: vscode.WorkspaceFolder
+    ): Promise<vscode.CodeAction[]> {
+        const resolved = await this.linkResolver.resolve(linkText, workspaceFolder, document.uri);
+        const actions: vscode.CodeAction[] = [];
+
+        const create = new vscode.CodeAction(`Create note "${resolved.fileName}"`, vscode.CodeActionKind.QuickFix);
+        create.diagnostics = [diagnostic];
+        // リンクを開くコマンドと同じ経路で作成する（テンプレート展開・destination・タイムスタンプ）
+        create.command = {
+            command: 'mdlg.openOrCreateWikiLink',
+            title: 'Create note',
+            arguments: [linkText, document.uri.toString()]
+        };
+        actions.push(create);
+
+        // サブディレクトリ検索が無効な場合はリンクで解決できるルート直下のノートのみ候補にする
+        const searchSubdirectories = this.configManager.getSearchSubdirectories();
+        const titles = (await this.vaultIndex.getAllNotes())
+            .filter(note => searchSubdirectories || !note.relativePath.includes('/'))
+            .map(note => note.title);
+        const matches = findClosestMatches(resolved.fileName, titles);
+        const processor = this.linkResolver.getProcessor();
+        for (const match of matches) {
+            const pageName = processor.pageNameFromFileName(match.value, resolved.parsedLink.pageName);
+            const { offset, length } = processor.replacePageName(linkText, pageName);
+            const action = new vscode.CodeAction(`Change link to "${pageName}"`, vscode.CodeActionKind.QuickFix);
+            action.diagnostics = [diagnostic];
+            action.isPreferred = match === matches[0];
+            action.edit = new vscode.WorkspaceEdit();
+            action.edit.replace(document.uri, this.segmentRange(diagnostic, offset, length), pageName);
+            actions.push(action);
+        }
+
+        return actions;
+    }
+
+    private async getMissingHeadingActions(
+        document: vscode.TextDocument,
+        diagnostic: vscode.Diagnostic,
+        linkText: string,
+        workspaceFolder: vscode.WorkspaceFolder
+    ): Promise<vscode.CodeAction[]> {
+        const resolved = await this.linkResolver.resolve(linkText, workspaceFolder, document.uri);
+        const heading = formatLinkAnchor(resolved.parsedLink);
+        if (!resolved.note || !heading) {
+            return [];
+        }
+
+        // ブロック参照（#^id）の場合はブロックIDを候補にする
+        const candidates = resolved.parsedLink.blockId !== undefined
+            ? resolved.note.blocks.map(block => `^${block.id}`)
+            : resolved.note.headings.map(h => h.text.trim());
+        const headings = Array.from(new Set(candidates.filter(text => text !== '')));
+        const closest = findClosestMatches(heading, headings, maxHeadingSuggestions).map(m => m.value);
+        // 近い見出しを優先し、残りは文書順で補う
+        const suggestions = [...closest, ...headings.filter(text => !closest.includes(text))]
+            .slice(0, maxHeadingSuggestions);
+
+        const { offset, length } = this.findHeadingSegment(linkText, resolved.parsedLink);
+        return suggestions.map((text, i) => {
+            const action = new vscode.CodeAction(`Change heading to "${text}"`, vscode.CodeActionKind.QuickFix);
+            action.diagnostics = [diagnostic];
+            action.isPreferred = i === 0 && closest.length > 0;
+            action.edit = new vscode.WorkspaceEdit();
+            action.edit.replace(document.uri, this.segmentRange(diagnostic, offset, length), text);
+            return action;
+        });
+    }
+
+    /**
+     * Locates the heading part of raw link text (the segment after `#`, before `|`).
+     */
+    private findHeadingSegment(linkText: string, parsedLink: ParsedWikiLink): { offset: number; length: number } {
+        const heading = formatLinkAnchor(parsedLink) ?? '';
+        const hashIndex = linkText.indexOf('#');
+        return { offset: linkText.indexOf(heading, hashIndex + 1), length: heading.length };
+    }
+
+    private segmentRange(diagnostic: vscode.Diagnostic, offset: number, length: number): vscode.Range {
+        const start = diagnostic.range.start.character + 2 + offset;
+        return new vscode.Range(diagnostic.range.start.line, start, diagnostic.range.start.line, start + length);
+    }
+}
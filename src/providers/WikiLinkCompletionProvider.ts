@@ -1,7 +1,8 @@
 /**
  * @fileoverview WikiLink completion provider for VS Code extension.
  * Provides intelligent autocomplete suggestions for WikiLink references
- * based on existing notes in the workspace.
+ * based on the notes known to the shared VaultIndex, including the headings
+ * and block IDs of the target note after `#`, and attachments inside `![[`.
  *
  * @author MDloggerForCode Team
  * @version 1.0.0
@@ -10,106 +11,39 @@
 import * as vscode from 'vscode';
 import { NoteFinder } from '../utils/NoteFinder';
 import { ConfigurationManager } from '../managers/ConfigurationManager';
+import { VaultIndex, IndexedNote } from '../services/VaultIndex';
+import { WikiLinkResolver } from '../services/WikiLinkResolver';
+import { getHeadingPath } from '../utils/NoteParser';
+import { PathUtil } from '../utils/PathUtil';
 
 /**
  * Provides completion items for WikiLink references in Markdown files.
- * Suggests existing note titles when typing inside [[]] brackets.
+ * Suggests existing note titles when typing inside [[]] brackets, and the
+ * headings (`[[Page#`) or block IDs (`[[Page#^`) of the linked note.
  *
  * @class WikiLinkCompletionProvider
  * @implements {vscode.CompletionItemProvider}
  */
 export class WikiLinkCompletionProvider implements vscode.CompletionItemProvider {
     private configManager: ConfigurationManager;
-    private noteCache: Map<string, { title: string; uri: vscode.Uri; relativePath: string }[]> | null = null;
-    private fileWatcher: vscode.FileSystemWatcher | null = null;
-    private watcherKey: string | null = null;
+    private vaultIndex: VaultIndex;
+    private linkResolver: WikiLinkResolver;
 
     /**
      * Creates a new WikiLinkCompletionProvider instance.
      *
      * @param configManager - Configuration manager for accessing extension settings
+     * @param vaultIndex - Shared vault index providing the list of existing notes
+     * @param linkResolver - Resolver used to find the note whose headings are completed
      */
-    constructor(configManager: ConfigurationManager) {
+    constructor(configManager: ConfigurationManager, vaultIndex: VaultIndex, linkResolver?: WikiLinkResolver) {
         this.configManager = configManager;
-        this.setupFileWatcher();
+        this.vaultIndex = vaultIndex;
+        this.linkResolver = linkResolver ?? new WikiLinkResolver(configManager, vaultIndex);
     }
 
     /**
-     * Sets up a file system watcher to invalidate cache when files are created or deleted.
-     * Note: File content changes (onDidChange) do not affect the cache since we only store
-     * file titles, URIs, and paths - not content.
-     */
-    private setupFileWatcher(): void {
-        const extension = this.configManager.getNoteExtension();
-        this.fileWatcher = vscode.workspace.createFileSystemWatcher(`**/*${extension}`);
-
-        // Clear cache only when the file list changes (create/delete)
-        // Content changes don't affect note titles, URIs, or paths
-        this.fileWatcher.onDidCreate(() => this.clearCache());
-        this.fileWatcher.onDidDelete(() => this.clearCache());
-    }
-
-    /**
-     * Clears the note cache.
-     */
-    private clearCache(): void {
-        this.noteCache = null;
-    }
-
-    /**
-     * Gets all notes from cache or loads them if cache is empty.
-     */
-    private async getAllNotesWithCache(
-        workspaceFolder: vscode.WorkspaceFolder,
-        vaultRoot: string | undefined,
-        extension: string
-    ): Promise<{ title: string; uri: vscode.Uri; relativePath: string }[]> {
-        const cacheKey = `${workspaceFolder.uri.fsPath}:${vaultRoot || ''}:${extension}`;
-
-        // ensure cache container exists
-        if (!this.noteCache) {
-            this.noteCache = new Map();
-        }
-
-        // If the key changed (workspace/vault/extension), rebuild watcher and invalidate cache
-        if (!this.fileWatcher || this.watcherKey !== cacheKey) {
-            // clear any cached notes for the old watcher key
-            if (this.watcherKey && this.noteCache.has(this.watcherKey)) {
-                this.noteCache.delete(this.watcherKey);
-            }
-
-            // dispose previous watcher if present
-            if (this.fileWatcher) {
-                try { this.fileWatcher.dispose(); } catch { /* ignore */ }
-                this.fileWatcher = null;
-            }
-
-            // create new watcher using the extension-aware glob
-            const pattern = new vscode.RelativePattern(workspaceFolder, `**/*${extension}`);
-            this.fileWatcher = vscode.workspace.createFileSystemWatcher(pattern);
-            this.fileWatcher.onDidCreate(() => this.clearCache());
-            this.fileWatcher.onDidDelete(() => this.clearCache());
-
-            // set new watcher key
-            this.watcherKey = cacheKey;
-        }
-
-        const notes = this.noteCache.get(cacheKey) || [];
-
-        // Load all notes
-        const allNotes = await NoteFinder.getAllNotes(workspaceFolder, vaultRoot, extension);
-
-        // Cache the results
-        if (!this.noteCache) {
-            this.noteCache = new Map();
-        }
-        this.noteCache.set(cacheKey, allNotes);
-
-        return allNotes;
-    }
-
-    /**
-     * Filters notes by prefix from the cached list.
+     * Filters notes by prefix from the indexed list.
      * Delegates to NoteFinder.filterNotesByPrefix for consistent filtering logic.
      */
     private filterNotesByPrefix(
@@ -120,18 +54,6 @@ export class WikiLinkCompletionProvider implements vscode.CompletionItemProvider
         return NoteFinder.filterNotesByPrefix(allNotes, prefix, maxResults);
     }
 
-    /**
-     * Disposes of resources used by this provider.
-     */
-    dispose(): void {
-        if (this.fileWatcher) {
-            this.fileWatcher.dispose();
-            this.fileWatcher = null;
-            this.watcherKey = null;
-        }
-        this.clearCache();
-    }
-
     /**
      * Provides completion items for WikiLink references.
      * Triggered when typing inside [[]] brackets in a Markdown file.
@@ -167,6 +89,7 @@ export class WikiLinkCompletionProvider implements vscode.CompletionItemProvider
             return null;
         }
 
+        const isEmbed = lastOpenBrackets > 0 && lineText[lastOpenBrackets - 1] === '!';
         const linkContentStart = lastOpenBrackets + 2;
         const cursorOffsetInLink = position.character - linkContentStart;
         if (cursorOffsetInLink < 0) {
@@ -186,6 +109,21 @@ export class WikiLinkCompletionProvider implements vscode.CompletionItemProvider
             return null;
         }
 
+        if (headingIndexBeforeCursor >= 0 && aliasIndexBeforeCursor === -1) {
+            // カーソルが # より後ろにある場合は対象ノートの見出しを補完
+            const headingStart = linkContentStart + headingIndexBeforeCursor + 1;
+            const headingEnd = aliasIndexInLink >= 0 ? linkContentStart + aliasIndexInLink : position.character;
+            return this.provideHeadingItems(
+                textInsideBeforeCursor.substring(0, headingIndexBeforeCursor),
+                textInsideBeforeCursor.substring(headingIndexBeforeCursor + 1),
+                new vscode.Range(
+                    new vscode.Position(position.line, headingStart),
+                    new vscode.Position(position.line, Math.max(headingEnd, position.character))
+                ),
+                document.uri
+            );
+        }
+
         let prefixEndIndex = cursorOffsetInLink;
         if (aliasIndexBeforeCursor >= 0) {
             prefixEndIndex = Math.min(prefixEndIndex, aliasIndexBeforeCursor);
@@ -212,14 +150,21 @@ export class WikiLinkCompletionProvider implements vscode.CompletionItemProvider
             return null;
         }
 
-        // Get configuration
-        const vaultRoot = this.configManager.getVaultRoot();
-        const extension = this.configManager.getNoteExtension();
-
-        // Get all notes from cache and filter by prefix
-        const allNotes = await this.getAllNotesWithCache(workspaceFolder, vaultRoot, extension);
+        // Get all notes from the shared index and filter by prefix
+        const allNotes = await this.vaultIndex.getAllNotes();
         const notes = this.filterNotesByPrefix(allNotes, searchPrefix, 50);
 
+        // 同名ノートがある場合は一意になる最短パスを挿入する（設定で有効な場合）
+        const extension = this.configManager.getNoteExtension();
+        const withoutExtension = (relativePath: string) =>
+            relativePath.endsWith(extension) ? relativePath.slice(0, -extension.length) : relativePath;
+        const allPaths = this.configManager.getCompletionShortestPath()
+            ? allNotes.map(note => withoutExtension(note.relativePath))
+            : undefined;
+        const linkTarget = (note: { title: string; relativePath: string }) => allPaths
+            ? PathUtil.getShortestUniquePath(withoutExtension(note.relativePath), allPaths)
+            : note.title;
+
         // Convert to completion items
         const completionItems: vscode.CompletionItem[] = notes.map((note, index) => {
             const item = new vscode.CompletionItem(
@@ -228,7 +173,7 @@ export class WikiLinkCompletionProvider implements vscode.CompletionItemProvider
             );
 
             // Set the text to be inserted
-            item.insertText = note.title;
+            item.insertText = linkTarget(note);
 
             // Add details about the file location
             item.detail = note.relativePath;
@@ -250,9 +195,168 @@ export class WikiLinkCompletionProvider implements vscode.CompletionItemProvider
             return item;
         });
 
+        // 別名の候補は [[タイトル|別名]] として挿入するため、既存の | や # がない通常リンクのみ対象
+        if (!isEmbed && aliasIndexInLink === -1 && headingIndexInLink === -1) {
+            const range = new vscode.Range(
+                new vscode.Position(position.line, linkContentStart),
+                new vscode.Position(position.line, replacementEnd)
+            );
+            completionItems.push(...this.provideAliasItems(allNotes, searchPrefix, range, completionItems.length, linkTarget));
+        }
+
+        // 埋め込み（![[）では画像/PDFも候補にする
+        if (isEmbed) {
+            const range = new vscode.Range(
+                new vscode.Position(position.line, linkContentStart),
+                new vscode.Position(position.line, replacementEnd)
+            );
+            completionItems.push(...await this.provideAttachmentItems(workspaceFolder, searchPrefix, range, completionItems.length));
+        }
+
         return completionItems;
     }
 
+    /**
+     * Provides completion items for frontmatter aliases. Accepting one inserts
+     * `Title|alias`, so the link resolves by title while displaying the alias.
+     *
+     * @param notes - All indexed notes
+     * @param prefix - Text typed so far
+     * @param range - Range of the page name segment to replace
+     * @param sortOffset - Number of items sorted before the aliases
+     * @param linkTarget - Computes the text linking to a note (title or shortest unique path)
+     * @returns Completion items for matching aliases
+     */
+    private provideAliasItems(
+        notes: IndexedNote[],
+        prefix: string,
+        range: vscode.Range,
+        sortOffset: number,
+        linkTarget: (note: IndexedNote) => string
+    ): vscode.CompletionItem[] {
+        const lowerPrefix = prefix.toLowerCase();
+        const items: vscode.CompletionItem[] = [];
+        for (const note of notes) {
+            for (const alias of note.aliases) {
+                if (!alias.toLowerCase().startsWith(lowerPrefix)) {
+                    continue;
+                }
+                const item = new vscode.CompletionItem(alias, vscode.CompletionItemKind.Reference);
+                item.insertText = `${linkTarget(note)}|${alias}`;
+                item.detail = `${note.title} (${note.relativePath})`;
+                item.documentation = new vscode.MarkdownString(
+                    `Alias of: **${note.title}**\n\nPath: \`${note.relativePath}\``
+                );
+                item.sortText = String(sortOffset + items.length).padStart(3, '0');
+                item.range = range;
+                items.push(item);
+            }
+        }
+        return items.slice(0, 50);
+    }
+
+    /**
+     * Provides completion items for images and PDFs in the workspace.
+     *
+     * @param workspaceFolder - Workspace folder to search
+     * @param prefix - Text typed so far
+     * @param range - Range of the page name segment to replace
+     * @param sortOffset - Number of items sorted before the attachments
+     * @returns Completion items inserting the attachment file name
+     */
+    private async provideAttachmentItems(
+        workspaceFolder: vscode.WorkspaceFolder,
+        prefix: string,
+        range: vscode.Range,
+        sortOffset: number
+    ): Promise<vscode.CompletionItem[]> {
+        const files = await vscode.workspace.findFiles(
+            new vscode.RelativePattern(workspaceFolder, PathUtil.getAttachmentGlob()),
+            '**/node_modules/**'
+        );
+        const attachments = files.map(uri => ({
+            title: uri.path.split('/').pop() ?? '',
+            uri,
+            relativePath: uri.path.substring(workspaceFolder.uri.path.length + 1)
+        }));
+
+        return this.filterNotesByPrefix(attachments, prefix, 50).map((attachment, index) => {
+            const item = new vscode.CompletionItem(attachment.title, vscode.CompletionItemKind.File);
+            item.insertText = attachment.title;
+            item.detail = attachment.relativePath;
+            item.sortText = String(sortOffset + index).padStart(3, '0');
+            item.range = range;
+            return item;
+        });
+    }
+
+    /**
+     * Provides heading or block ID completion items for the note named before `#`.
+     *
+     * @param pageText - The page name part of the link
+     * @param query - Text typed after `#` (a leading `^` switches to block IDs)
+     * @param range - Range of the heading segment to replace
+     * @param source - URI of the document containing the link
+     * @returns Completion items, or null when the page does not resolve to an existing note
+     */
+    private async provideHeadingItems(
+        pageText: string,
+        query: string,
+        range: vscode.Range,
+        source: vscode.Uri
+    ): Promise<vscode.CompletionItem[] | null> {
+        if (pageText.trim() === '') {
+            return null;
+        }
+
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder) {
+            return null;
+        }
+
+        let note: IndexedNote | null;
+        try {
+            note = (await this.linkResolver.resolve(pageText, workspaceFolder, source)).note;
+        } catch {
+            return null;
+        }
+        if (!note) {
+            return null;
+        }
+
+        if (query.startsWith('^')) {
+            return note.blocks.map((block, index) => {
+                const item = new vscode.CompletionItem(`^${block.id}`, vscode.CompletionItemKind.Reference);
+                item.insertText = `^${block.id}`;
+                item.detail = block.text;
+                item.sortText = String(index).padStart(3, '0');
+                item.range = range;
+                return item;
+            });
+        }
+
+        const counts = new Map<string, number>();
+        for (const heading of note.headings) {
+            const key = heading.text.trim().toLowerCase();
+            counts.set(key, (counts.get(key) ?? 0) + 1);
+        }
+
+        return note.headings.map((heading, index) => {
+            const path = getHeadingPath(note!.headings, index);
+            const item = new vscode.CompletionItem(heading.text, vscode.CompletionItemKind.Reference);
+            // 同名の見出しが複数ある場合は親見出しのパスで区別する
+            item.insertText = (counts.get(heading.text.trim().toLowerCase()) ?? 0) > 1
+                ? path.join('#')
+                : heading.text;
+            item.detail = path.join(' > ');
+            item.filterText = path.join(' ');
+            item.documentation = new vscode.MarkdownString(`${'#'.repeat(heading.level)} ${heading.text}\n\nLine ${heading.line + 1} of \`${note!.relativePath}\``);
+            item.sortText = String(index).padStart(3, '0');
+            item.range = range;
+            return item;
+        });
+    }
+
     /**
      * Provides detailed resolution for a completion item.
      * Can be used to compute expensive details only when needed.
@@ -0,0 +1,207 @@
+/**
+ * @fileoverview Broken WikiLink diagnostics for the Problems panel.
+ * Flags links whose target note does not exist, heading links whose heading is
+ * missing from the target note, embedded attachments that cannot be found, and
+ * malformed links rejected by the parser.
+ *
+ * @author MDloggerForCode Team
+ * @version 1.0.0
+ */
+
+import * as vscode from 'vscode';
+import { ConfigurationManager } from '../managers/ConfigurationManager';
+import { WikiLinkError, formatLinkAnchor } from '../processors/WikiLinkProcessor';
+import { VaultIndex } from '../services/VaultIndex';
+import { WikiLinkResolver } from '../services/WikiLinkResolver';
+import { extractWikiLinks } from '../utils/NoteParser';
+import { PathUtil } from '../utils/PathUtil';
+
+/**
+ * Diagnostic codes reported for WikiLinks. Used by the quick fix provider.
+ */
+export type WikiLinkDiagnosticCode = 'missing-note' | 'missing-heading' | 'missing-attachment' | 'malformed-link';
+
+/** Delay before re-analyzing a document while the user is typing. */
+const analyzeDelayMs = 500;
+
+/**
+ * Maintains the `mdlg` DiagnosticCollection for open Markdown documents.
+ * Documents are re-analyzed when edited and whenever the vault index changes,
+ * so creating a missing note clears the warnings of links pointing at it.
+ *
+ * @class WikiLinkDiagnosticsProvider
+ * @implements {vscode.Disposable}
+ */
+export class WikiLinkDiagnosticsProvider implements vscode.Disposable {
+    public static readonly source = 'mdlg';
+
+    private readonly collection: vscode.DiagnosticCollection;
+    private disposables: { dispose(): unknown }[] = [];
+    private timers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+
+    /**
+     * Creates a new WikiLinkDiagnosticsProvider instance.
+     *
+     * @param configManager - Configuration manager for the diagnostics setting
+     * @param vaultIndex - Shared vault index
+     * @param linkResolver - Resolver used to find link targets
+     */
+    constructor(
+        private readonly configManager: ConfigurationManager,
+        private readonly vaultIndex: VaultIndex,
+        private readonly linkResolver: WikiLinkResolver
+    ) {
+        this.collection = vscode.languages.createDiagnosticCollection(WikiLinkDiagnosticsProvider.source);
+        this.disposables.push(
+            this.collection,
+            vscode.workspace.onDidOpenTextDocument(doc => this.schedule(doc)),
+            vscode.workspace.onDidChangeTextDocument(e => this.schedule(e.document)),
+            vscode.workspace.onDidCloseTextDocument(doc => this.clear(doc.uri)),
+            this.vaultIndex.onDidChange(() => this.scheduleAll()),
+            this.configManager.onConfigurationChanged(() => this.scheduleAll())
+        );
+        this.scheduleAll();
+    }
+
+    /**
+     * Computes the diagnostics for a document without publishing them.
+     *
+     * @param document - The Markdown document to check
+     * @returns Diagnostics for every broken WikiLink in the document
+     */
+    async analyze(document: vscode.TextDocument): Promise<vscode.Diagnostic[]> {
+        await this.vaultIndex.ensureLoaded();
+        const processor = this.linkResolver.getProcessor();
+        const diagnostics: vscode.Diagnostic[] = [];
+
+        for (const link of extractWikiLinks(document.getText())) {
+            const range = new vscode.Range(link.line, link.character, link.line, link.character + link.length);
+
+            let parsedLink;
+            try {
+                parsedLink = processor.parseWikiLink(link.linkText, link.isEmbed);
+            } catch (error) {
+                if (!(error instanceof WikiLinkError)) {
+                    throw error;
+                }
+                diagnostics.push(this.createDiagnostic(
+                    range,
+                    `Malformed WikiLink: ${error.message}`,
+                    vscode.DiagnosticSeverity.Error,
+                    'malformed-link'
+                ));
+                continue;
+            }
+
+            // 画像/PDFはノートではなく添付ファイルとして存在を確認する
+            if (PathUtil.getAttachmentKind(parsedLink.pageName)) {
+                if (!await this.linkResolver.findAttachment(parsedLink.pageName)) {
+                    diagnostics.push(this.createDiagnostic(
+                        range,
+                        `Cannot find attachment "${parsedLink.pageName}"`,
+                        vscode.DiagnosticSeverity.Warning,
+                        'missing-attachment'
+                    ));
+                }
+                continue;
+            }
+
+            const note = this.linkResolver.findTargetNote(parsedLink, document.uri);
+            if (!note) {
+                diagnostics.push(this.createDiagnostic(
+                    range,
+                    `Cannot resolve WikiLink target "${parsedLink.pageName}"`,
+                    vscode.DiagnosticSeverity.Warning,
+                    'missing-note'
+                ));
+                continue;
+            }
+
+            const anchor = formatLinkAnchor(parsedLink);
+            if (anchor && this.linkResolver.findAnchorLine(note, anchor) === undefined) {
+                const isBlock = parsedLink.blockId !== undefined;
+                diagnostics.push(this.createDiagnostic(
+                    range,
+                    `${isBlock ? 'Block' : 'Heading'} "${anchor}" not found in "${note.title}"`,
+                    vscode.DiagnosticSeverity.Warning,
+                    'missing-heading'
+                ));
+            }
+        }
+
+        return diagnostics;
+    }
+
+    /**
+     * Analyzes a document and publishes its diagnostics.
+     *
+     * @param document - The document to update
+     */
+    async update(document: vscode.TextDocument): Promise<void> {
+        if (!this.isTarget(document)) {
+            return;
+        }
+        if (!this.configManager.getLinkDiagnosticsEnabled()) {
+            this.collection.delete(document.uri);
+            return;
+        }
+
+        try {
+            this.collection.set(document.uri, await this.analyze(document));
+        } catch (error) {
+            console.warn('[WikiLinkDiagnostics] Failed to analyze document:', document.uri.fsPath, error);
+        }
+    }
+
+    dispose(): void {
+        this.timers.forEach(timer => clearTimeout(timer));
+        this.timers.clear();
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+
+    private createDiagnostic(
+        range: vscode.Range,
+        message: string,
+        severity: vscode.DiagnosticSeverity,
+        code: WikiLinkDiagnosticCode
+    ): vscode.Diagnostic {
+        const diagnostic = new vscode.Diagnostic(range, message, severity);
+        diagnostic.source = WikiLinkDiagnosticsProvider.source;
+        diagnostic.code = code;
+        return diagnostic;
+    }
+
+    private schedule(document: vscode.TextDocument): void {
+        if (!this.isTarget(document)) {
+            return;
+        }
+        const key = document.uri.toString();
+        const pending = this.timers.get(key);
+        if (pending) {
+            clearTimeout(pending);
+        }
+        this.timers.set(key, setTimeout(() => {
+            this.timers.delete(key);
+            void this.update(document);
+        }, analyzeDelayMs));
+    }
+
+    private scheduleAll(): void {
+        vscode.workspace.textDocuments.forEach(doc => this.schedule(doc));
+    }
+
+    private clear(uri: vscode.Uri): void {
+        const key = uri.toString();
+        const pending = this.timers.get(key);
+        if (pending) {
+            clearTimeout(pending);
+            this.timers.delete(key);
+        }
+        this.collection.delete(uri);
+    }
+
+    private isTarget(document: vscode.TextDocument): boolean {
+        return document.languageId === 'markdown' && document.uri.scheme === 'file';
+    }
+}
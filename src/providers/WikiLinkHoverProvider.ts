@@ -0,0 +1,183 @@
+/**
+ * @fileoverview Hover preview for WikiLinks.
+ * Shows the beginning of the target note (or the linked section/block) together with
+ * its path, last-modified time and backlink count, and offers to create missing notes.
+ * Links to images show the image; links to other attachments show their path.
+ *
+ * @author MDloggerForCode Team
+ * @version 1.0.0
+ */
+
+import * as vscode from 'vscode';
+import { ConfigurationManager } from '../managers/ConfigurationManager';
+import { WikiLinkResolver, ResolvedWikiLink } from '../services/WikiLinkResolver';
+import { IFileWriter, VscodeFileWriter } from '../services/FileWriter';
+import { formatLinkAnchor } from '../processors/WikiLinkProcessor';
+import { extractSectionLines, extractBlockLines, extractBodyLines } from '../utils/NoteParser';
+import { PathUtil } from '../utils/PathUtil';
+
+/**
+ * Hover provider rendering a preview of the note a WikiLink points at.
+ *
+ * @class WikiLinkHoverProvider
+ * @implements {vscode.HoverProvider}
+ */
+export class WikiLinkHoverProvider implements vscode.HoverProvider {
+    /**
+     * Creates a new WikiLinkHoverProvider instance.
+     *
+     * @param configManager - Configuration manager for the preview length
+     * @param linkResolver - Resolver used to find the target note and its backlinks
+     * @param fileWriter - File reader for note contents (mockable for tests)
+     */
+    constructor(
+        private readonly configManager: ConfigurationManager,
+        private readonly linkResolver: WikiLinkResolver,
+        private readonly fileWriter: IFileWriter = new VscodeFileWriter()
+    ) {}
+
+    async provideHover(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover | null> {
+        const lineText = document.lineAt(position.line).text;
+        const regex = /\[\[([^\]]+)\]\]/g;
+        let match;
+        while ((match = regex.exec(lineText)) !== null) {
+            const start = match.index;
+            const end = start + match[0].length;
+            if (position.character < start || position.character > end) {
+                continue;
+            }
+
+            const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri) || vscode.workspace.workspaceFolders?.[0];
+            if (!workspaceFolder) {
+                return null;
+            }
+
+            const range = new vscode.Range(position.line, start, position.line, end);
+            const attachmentHover = await this.renderAttachment(match[1], workspaceFolder, range);
+            if (attachmentHover !== undefined) {
+                return attachmentHover;
+            }
+
+            let resolved: ResolvedWikiLink;
+            try {
+                resolved = await this.linkResolver.resolve(match[1], workspaceFolder, document.uri);
+            } catch {
+                return null;
+            }
+
+            const contents = resolved.note
+                ? await this.renderPreview(resolved)
+                : this.renderMissing(match[1], resolved);
+            return new vscode.Hover(contents, range);
+        }
+
+        return null;
+    }
+
+    /**
+     * Renders the hover of a link to an image or PDF.
+     *
+     * @returns The hover (null when the attachment is missing), or undefined for note links
+     */
+    private async renderAttachment(
+        linkText: string,
+        workspaceFolder: vscode.WorkspaceFolder,
+        range: vscode.Range
+    ): Promise<vscode.Hover | null | undefined> {
+        let pageName: string;
+        try {
+            pageName = this.linkResolver.getProcessor().parseWikiLink(linkText).pageName;
+        } catch {
+            return undefined;
+        }
+        const kind = PathUtil.getAttachmentKind(pageName);
+        if (!kind) {
+            return undefined;
+        }
+
+        const uri = await this.linkResolver.findAttachment(pageName);
+        if (!uri) {
+            return null;
+        }
+        const markdown = new vscode.MarkdownString();
+        if (kind === 'image') {
+            markdown.appendMarkdown(`![${pageName}](${uri.toString()})\n\n`);
+        }
+        markdown.appendMarkdown(`\`${uri.path.substring(workspaceFolder.uri.path.length + 1)}\``);
+        return new vscode.Hover(markdown, range);
+    }
+
+    private async renderPreview(resolved: ResolvedWikiLink): Promise<vscode.MarkdownString> {
+        const note = resolved.note!;
+        const markdown = new vscode.MarkdownString();
+
+        let content = '';
+        try {
+            content = await this.readContent(note.uri);
+        } catch {
+            // 読み込めない場合はメタ情報のみ表示
+        }
+
+        const anchor = formatLinkAnchor(resolved.parsedLink);
+        if (anchor && resolved.line === undefined) {
+            const kind = resolved.parsedLink.blockId !== undefined ? 'Block' : 'Heading';
+            markdown.appendMarkdown(`*${kind} \`${anchor}\` not found*\n\n`);
+        }
+
+        const lines = this.getPreviewLines(content, resolved);
+        const maxLines = Math.max(1, this.configManager.getHoverPreviewLines());
+        if (lines.length > 0) {
+            markdown.appendMarkdown(lines.slice(0, maxLines).join('\n'));
+            if (lines.length > maxLines) {
+                markdown.appendMarkdown('\n\n…');
+            }
+            markdown.appendMarkdown('\n\n---\n\n');
+        }
+
+        const details = [`\`${note.relativePath}\``];
+        try {
+            const stat = await vscode.workspace.fs.stat(note.uri);
+            if (stat.mtime) {
+                details.push(`Modified ${new Date(stat.mtime).toLocaleString()}`);
+            }
+        } catch {
+            // 更新日時が取得できない場合は省略
+        }
+        const backlinks = await this.linkResolver.findBacklinks(note.uri);
+        details.push(`${backlinks.length} backlink${backlinks.length === 1 ? '' : 's'}`);
+        markdown.appendMarkdown(details.join(' · '));
+
+        return markdown;
+    }
+
+    private renderMissing(linkText: string, resolved: ResolvedWikiLink): vscode.MarkdownString {
+        const args = encodeURIComponent(JSON.stringify([linkText]));
+        const markdown = new vscode.MarkdownString();
+        markdown.isTrusted = { enabledCommands: ['mdlg.openOrCreateWikiLink'] };
+        markdown.appendMarkdown(`**${resolved.parsedLink.pageName}** does not exist yet.\n\n`);
+        markdown.appendMarkdown(`[Create note](command:mdlg.openOrCreateWikiLink?${args} "Create ${resolved.fileName}")`);
+        return markdown;
+    }
+
+    /**
+     * Selects the lines to preview: the linked section or block, otherwise the
+     * beginning of the note without its frontmatter.
+     */
+    private getPreviewLines(content: string, resolved: ResolvedWikiLink): string[] {
+        if (resolved.line !== undefined) {
+            return resolved.parsedLink.blockId !== undefined
+                ? extractBlockLines(content, resolved.line)
+                : extractSectionLines(content, resolved.line);
+        }
+
+        return extractBodyLines(content);
+    }
+
+    /**
+     * Reads the note, preferring the unsaved content of an open editor.
+     */
+    private async readContent(uri: vscode.Uri): Promise<string> {
+        const open = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri.toString());
+        return open ? open.getText() : this.fileWriter.read(uri);
+    }
+}
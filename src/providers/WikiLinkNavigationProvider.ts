@@ -0,0 +1,177 @@
+/**
+ * @fileoverview Go to Definition and Find All References for WikiLinks.
+ * F12 on a link jumps to the target note (or heading/block); Shift+F12 on a link,
+ * a heading, a block ID or the note title lists every WikiLink pointing there.
+ *
+ * @author MDloggerForCode Team
+ * @version 1.0.0
+ */
+
+import * as vscode from 'vscode';
+import { VaultIndex, IndexedNote } from '../services/VaultIndex';
+import { WikiLinkResolver } from '../services/WikiLinkResolver';
+import { formatLinkAnchor, type ParsedWikiLink } from '../processors/WikiLinkProcessor';
+import { PathUtil } from '../utils/PathUtil';
+import { WikiLinkOccurrence, extractWikiLinks, extractHeadings, extractBlockIds } from '../utils/NoteParser';
+
+/**
+ * The note, and optionally the heading or block inside it, that references point at.
+ */
+interface ReferenceTarget {
+    readonly note: IndexedNote;
+    /** Anchor as written after `#` (`Heading` or `^block-id`); undefined for the whole note */
+    readonly anchor?: string;
+    /** Zero-based line of the anchor, or 0 for the whole note */
+    readonly line: number;
+}
+
+/**
+ * Definition and reference provider for WikiLinks in Markdown documents.
+ *
+ * @class WikiLinkNavigationProvider
+ * @implements {vscode.DefinitionProvider}
+ * @implements {vscode.ReferenceProvider}
+ */
+export class WikiLinkNavigationProvider implements vscode.DefinitionProvider, vscode.ReferenceProvider {
+    /**
+     * Creates a new WikiLinkNavigationProvider instance.
+     *
+     * @param vaultIndex - Shared vault index used to look up the current note
+     * @param linkResolver - Resolver used to find link targets and backlinks
+     */
+    constructor(
+        private readonly vaultIndex: VaultIndex,
+        private readonly linkResolver: WikiLinkResolver
+    ) {}
+
+    async provideDefinition(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.DefinitionLink[] | null> {
+        const link = this.getLinkAt(document, position);
+        if (!link) {
+            return null;
+        }
+
+        const workspaceFolder = vscode.workspace.getWorkspaceFolder(document.uri) || vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder) {
+            return null;
+        }
+        const originSelectionRange = this.getLinkRange(link);
+
+        let parsedPageName: string;
+        try {
+            parsedPageName = this.linkResolver.getProcessor().parseWikiLink(link.linkText).pageName;
+        } catch {
+            return null;
+        }
+
+        // 画像/PDF へのリンクは添付ファイル自体を定義とする
+        if (PathUtil.getAttachmentKind(parsedPageName)) {
+            const attachment = await this.linkResolver.findAttachment(parsedPageName);
+            if (!attachment) {
+                return null;
+            }
+            const start = new vscode.Range(0, 0, 0, 0);
+            return [{ originSelectionRange, targetUri: attachment, targetRange: start, targetSelectionRange: start }];
+        }
+
+        const resolved = await this.linkResolver.resolve(link.linkText, workspaceFolder, document.uri);
+        if (!resolved.note) {
+            return null;
+        }
+        const line = resolved.line ?? 0;
+        const targetRange = new vscode.Range(line, 0, line, 0);
+        return [{ originSelectionRange, targetUri: resolved.note.uri, targetRange, targetSelectionRange: targetRange }];
+    }
+
+    async provideReferences(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        context: vscode.ReferenceContext
+    ): Promise<vscode.Location[] | null> {
+        const target = await this.getReferenceTarget(document, position);
+        if (!target) {
+            return null;
+        }
+
+        const locations: vscode.Location[] = [];
+        if (context.includeDeclaration) {
+            locations.push(new vscode.Location(target.note.uri, new vscode.Range(target.line, 0, target.line, 0)));
+        }
+
+        for (const backlink of await this.linkResolver.findBacklinks(target.note.uri)) {
+            if (target.anchor !== undefined) {
+                const anchor = formatLinkAnchor(backlink.parsedLink);
+                if (!anchor || this.linkResolver.findAnchorLine(target.note, anchor) !== target.line) {
+                    continue;
+                }
+            }
+            locations.push(new vscode.Location(backlink.source.uri, this.getLinkRange(backlink.link)));
+        }
+
+        return locations;
+    }
+
+    /**
+     * Determines what the cursor refers to: the target of a link, a heading or block of
+     * the current note, or the whole note when the cursor is on its title.
+     */
+    private async getReferenceTarget(document: vscode.TextDocument, position: vscode.Position): Promise<ReferenceTarget | null> {
+        const link = this.getLinkAt(document, position);
+        if (link) {
+            let parsedLink: ParsedWikiLink;
+            try {
+                parsedLink = this.linkResolver.getProcessor().parseWikiLink(link.linkText);
+            } catch {
+                return null;
+            }
+            await this.vaultIndex.ensureLoaded();
+            const note = this.linkResolver.findTargetNote(parsedLink, document.uri);
+            if (!note) {
+                return null;
+            }
+            const anchor = formatLinkAnchor(parsedLink);
+            const line = anchor ? this.linkResolver.findAnchorLine(note, anchor) : undefined;
+            // 存在しない見出しへのリンクはノート全体の参照として扱う
+            return line === undefined ? { note, line: 0 } : { note, anchor, line };
+        }
+
+        const indexed = await this.vaultIndex.getNote(document.uri);
+        if (!indexed) {
+            return null;
+        }
+        // 未保存の編集を反映するため見出しとブロックはエディタの内容から取得する
+        const text = document.getText();
+        const note: IndexedNote = { ...indexed, headings: extractHeadings(text), blocks: extractBlockIds(text) };
+
+        const block = note.blocks.find(b => b.line === position.line);
+        if (block) {
+            return { note, anchor: `^${block.id}`, line: block.line };
+        }
+
+        const heading = note.headings.find(h => h.line === position.line);
+        if (!heading) {
+            return null;
+        }
+        const title = note.headings.find(h => h.level === 1);
+        if (heading === title) {
+            return { note, line: heading.line };
+        }
+        return { note, anchor: heading.text, line: heading.line };
+    }
+
+    /**
+     * Finds the WikiLink (including a leading `!`) under the cursor.
+     */
+    private getLinkAt(document: vscode.TextDocument, position: vscode.Position): WikiLinkOccurrence | undefined {
+        return extractWikiLinks(document.getText()).find(link => {
+            const range = this.getLinkRange(link);
+            return link.line === position.line &&
+                position.character >= range.start.character &&
+                position.character <= range.end.character;
+        });
+    }
+
+    private getLinkRange(link: WikiLinkOccurrence): vscode.Range {
+        const start = link.isEmbed ? link.character - 1 : link.character;
+        return new vscode.Range(link.line, start, link.line, link.character + link.length);
+    }
+}
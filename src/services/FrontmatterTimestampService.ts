@@ -0,0 +1,103 @@
+/**
+ * @fileoverview Automatic `created`/`updated` frontmatter timestamps.
+ * New notes get both properties when the extension creates them; saving a modified
+ * Markdown note refreshes `updated`. Disabled unless `mdlg.frontmatterTimestamps` is set.
+ *
+ * @author MDloggerForCode Team
+ * @version 1.0.0
+ */
+
+import * as vscode from 'vscode';
+import { ConfigurationManager } from '../managers/ConfigurationManager';
+import { VaultIndex } from './VaultIndex';
+import { DateTimeFormatter } from '../utils/DateTimeFormatter';
+import { computePropertyEdit, getFrontmatterProperty, setFrontmatterProperty } from '../utils/Frontmatter';
+
+/**
+ * Writes the `created` and `updated` frontmatter properties.
+ *
+ * @class FrontmatterTimestampService
+ */
+export class FrontmatterTimestampService {
+    public static readonly createdKey = 'created';
+    public static readonly updatedKey = 'updated';
+
+    /**
+     * Creates a new FrontmatterTimestampService instance.
+     *
+     * @param configManager - Configuration manager for the timestamp settings
+     * @param dateTimeFormatter - Formatter for the timestamp values
+     */
+    constructor(
+        private readonly configManager: ConfigurationManager,
+        private readonly dateTimeFormatter: DateTimeFormatter
+    ) {}
+
+    /**
+     * Adds `created` and `updated` to the content of a note about to be created.
+     * Properties already set by the template are kept.
+     *
+     * @param content - Initial note content (e.g. the rendered template)
+     * @param date - Creation time
+     * @returns The content with timestamps, or the content unchanged when disabled
+     */
+    stampNewNote(content: string, date: Date = new Date()): string {
+        if (!this.configManager.getFrontmatterTimestamps()) {
+            return content;
+        }
+        const timestamp = this.format(date);
+        let stamped = content;
+        for (const key of [FrontmatterTimestampService.createdKey, FrontmatterTimestampService.updatedKey]) {
+            if (getFrontmatterProperty(stamped, key) === undefined) {
+                stamped = setFrontmatterProperty(stamped, key, timestamp);
+            }
+        }
+        return stamped;
+    }
+
+    /**
+     * Computes the edit that refreshes `updated` before a document is saved.
+     *
+     * @param document - The document being saved
+     * @param date - Save time
+     * @returns Text edits to apply (empty when disabled or already up to date)
+     */
+    computeSaveEdits(document: vscode.TextDocument, date: Date = new Date()): vscode.TextEdit[] {
+        if (!this.configManager.getFrontmatterTimestamps() || document.languageId !== 'markdown') {
+            return [];
+        }
+
+        const edit = computePropertyEdit(document.getText(), FrontmatterTimestampService.updatedKey, this.format(date));
+        if (!edit) {
+            return [];
+        }
+
+        const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+        const text = edit.lines.join(eol);
+        if (edit.deleteCount === 0) {
+            return [vscode.TextEdit.insert(new vscode.Position(edit.startLine, 0), text + eol)];
+        }
+        const lastLine = edit.startLine + edit.deleteCount - 1;
+        const range = new vscode.Range(edit.startLine, 0, lastLine, document.lineAt(lastLine).text.length);
+        return [vscode.TextEdit.replace(range, text)];
+    }
+
+    /**
+     * Starts refreshing `updated` whenever a modified note inside the vault is saved.
+     *
+     * @param vaultIndex - Vault index used to skip Markdown files outside the vault
+     * @returns Disposable that stops listening
+     */
+    register(vaultIndex: VaultIndex): vscode.Disposable {
+        return vscode.workspace.onWillSaveTextDocument(event => {
+            // 変更のない保存ではタイムスタンプを更新しない
+            if (event.document.isDirty && vaultIndex.getRelativePath(event.document.uri) !== undefined) {
+                event.waitUntil(Promise.resolve(this.computeSaveEdits(event.document)));
+            }
+        });
+    }
+
+    private format(date: Date): string {
+        return this.dateTimeFormatter.formatDate(date, this.configManager.getFrontmatterTimestampFormat());
+    }
+}
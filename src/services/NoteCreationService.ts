@@ -0,0 +1,186 @@
+/**
+ * @fileoverview Opening WikiLink targets and creating missing notes from templates.
+ * Shared by the `mdlg.openOrCreateWikiLink` command (editor, hovers, previews and quick fixes)
+ * and "New note from template", so every new note gets the same template rendering,
+ * `destination` folder, `{{cursor}}` placement and frontmatter timestamps.
+ *
+ * @author MDloggerForCode Team
+ * @version 1.0.0
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConfigurationManager } from '../managers/ConfigurationManager';
+import { PathUtil } from '../utils/PathUtil';
+import { formatLinkAnchor } from '../processors/WikiLinkProcessor';
+import { extractCursor } from '../utils/TemplateEngine';
+import { IndexedNote } from './VaultIndex';
+import { WikiLinkResolver } from './WikiLinkResolver';
+import { FrontmatterTimestampService } from './FrontmatterTimestampService';
+import { TemplateService, NoteTemplate } from './TemplateService';
+
+/**
+ * Opens notes and attachments referenced by WikiLinks and creates missing notes.
+ *
+ * @class NoteCreationService
+ */
+export class NoteCreationService {
+    /**
+     * Creates a new NoteCreationService instance.
+     *
+     * @param configManager - Configuration manager for the template, vault root and resolution settings
+     * @param linkResolver - Shared resolver used to locate existing notes
+     * @param templateService - Renders the template of a new note
+     * @param timestampService - Adds `created`/`updated` frontmatter to a new note
+     */
+    constructor(
+        private readonly configManager: ConfigurationManager,
+        private readonly linkResolver: WikiLinkResolver,
+        private readonly templateService: TemplateService,
+        private readonly timestampService: FrontmatterTimestampService
+    ) {}
+
+    /**
+     * Opens the target of a WikiLink, or creates the note with the configured template
+     * when it does not exist. Links to images and PDFs open the attachment instead.
+     *
+     * @param linkText - The WikiLink text without [[ ]] brackets
+     * @param source - Note containing the link, for relative links and the resolution policy
+     */
+    async openOrCreateWikiLink(linkText: string, source?: vscode.Uri): Promise<void> {
+        try {
+            // ワークスペースフォルダーの確認
+            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+            if (!workspaceFolder) {
+                vscode.window.showErrorMessage('No workspace folder found. Please open a folder first.');
+                return;
+            }
+
+            // 画像/PDFへのリンクは添付ファイルを開く（ノートは作成しない）
+            const pageName = this.linkResolver.getProcessor().parseWikiLink(linkText).pageName;
+            if (PathUtil.getAttachmentKind(pageName)) {
+                const attachment = await this.linkResolver.findAttachment(pageName);
+                if (attachment) {
+                    await vscode.commands.executeCommand('vscode.open', attachment);
+                } else {
+                    vscode.window.showWarningMessage(`Attachment not found: ${pageName}`);
+                }
+                return;
+            }
+
+            // Resolve via the shared index (honors slugStrategy and searchSubdirectories)
+            const resolved = await this.linkResolver.resolve(linkText, workspaceFolder, source);
+
+            if (resolved.note) {
+                let note = resolved.note;
+                let line = resolved.line;
+                if (resolved.candidates.length > 1 && this.configManager.getLinkResolution() === 'prompt') {
+                    const picked = await pickNote(resolved.candidates, resolved.parsedLink.pageName);
+                    if (!picked) {
+                        return;
+                    }
+                    note = picked;
+                    const anchor = formatLinkAnchor(resolved.parsedLink);
+                    line = anchor ? this.linkResolver.findAnchorLine(note, anchor) : undefined;
+                }
+
+                // If found, open the existing file at the referenced heading or block
+                const options: vscode.TextDocumentShowOptions = {};
+                if (line !== undefined) {
+                    options.selection = new vscode.Range(line, 0, line, 0);
+                }
+                await vscode.window.showTextDocument(note.uri, options);
+                return;
+            }
+
+            // If not found, create a new file in the default location
+            const uri = resolved.uri;
+
+            // ファイル存在チェックと作成処理
+            try {
+                await vscode.workspace.fs.stat(uri);
+                await vscode.window.showTextDocument(uri);
+            } catch {
+                // ファイルが存在しない場合は新規作成
+                try {
+                    let template: NoteTemplate | undefined = {
+                        name: this.configManager.getTemplate() ? 'Default template' : 'Blank note',
+                        content: this.configManager.getTemplate()
+                    };
+                    if (this.configManager.getPromptForTemplate()) {
+                        template = await this.templateService.pickTemplate(workspaceFolder, template);
+                        if (!template) {
+                            return;
+                        }
+                    }
+
+                    const title = resolved.parsedLink.pageName.split('/').pop() ?? resolved.parsedLink.pageName;
+                    const rendered = await this.templateService.render(template.content, workspaceFolder, { title });
+                    const { content, destination } = this.templateService.extractDestination(rendered);
+                    // リンクにフォルダの指定がなければ、テンプレートの destination に作成
+                    const target = destination && !resolved.parsedLink.pageName.includes('/')
+                        ? PathUtil.createSafeUri(
+                            this.configManager.getVaultRoot(),
+                            resolved.fileName,
+                            this.configManager.getNoteExtension(),
+                            workspaceFolder,
+                            destination
+                        )
+                        : uri;
+                    await this.openOrCreateNote(target, content);
+                } catch (createError) {
+                    vscode.window.showErrorMessage(
+                        `Failed to create file: ${createError instanceof Error ? createError.message : String(createError)}`
+                    );
+                }
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(
+                `WikiLink operation failed: ${error instanceof Error ? error.message : String(error)}`
+            );
+        }
+    }
+
+    /**
+     * Opens a note, or creates it (and its folder) with rendered template content when it does not exist.
+     * The cursor of a new note is placed at the template's `{{cursor}}`, if any.
+     *
+     * @param uri - URI of the note
+     * @param content - Rendered template for a new note
+     */
+    async openOrCreateNote(uri: vscode.Uri, content: string): Promise<void> {
+        try {
+            await vscode.workspace.fs.stat(uri);
+            await vscode.window.showTextDocument(uri);
+            return;
+        } catch {
+            // ファイルが存在しない場合は新規作成
+        }
+
+        await vscode.workspace.fs.createDirectory(uri.with({ path: path.posix.dirname(uri.path) }));
+        const { content: noteContent, cursor } = extractCursor(this.timestampService.stampNewNote(content));
+        await vscode.workspace.fs.writeFile(uri, new TextEncoder().encode(noteContent));
+
+        const options: vscode.TextDocumentShowOptions = {};
+        if (cursor) {
+            const position = new vscode.Position(cursor.line, cursor.character);
+            options.selection = new vscode.Range(position, position);
+        }
+        await vscode.window.showTextDocument(uri, options);
+    }
+}
+
+/**
+ * Asks which note to open when a link matches several notes with the same title.
+ *
+ * @param candidates - Matching notes, best match first
+ * @param pageName - Page name of the link, shown in the placeholder
+ * @returns The chosen note, or undefined when the picker was dismissed
+ */
+async function pickNote(candidates: IndexedNote[], pageName: string): Promise<IndexedNote | undefined> {
+    const picked = await vscode.window.showQuickPick(
+        candidates.map(note => ({ label: note.title, description: note.relativePath, note })),
+        { placeHolder: `Several notes match "${pageName}". Select the note to open` }
+    );
+    return picked?.note;
+}
@@ -0,0 +1,148 @@
+/**
+ * @fileoverview Evaluation of ```mdlg-query``` code blocks against the vault.
+ * Builds the query data of every note from the shared VaultIndex (frontmatter,
+ * tags, resolved links, and tasks read on demand for TASK queries), and replaces
+ * query blocks with their static Markdown result through `mdlg.materializeQuery`.
+ *
+ * @author MDloggerForCode Team
+ * @version 1.0.0
+ */
+
+import * as vscode from 'vscode';
+import { VaultIndex, IndexedNote } from './VaultIndex';
+import { WikiLinkResolver } from './WikiLinkResolver';
+import { IFileWriter, VscodeFileWriter } from './FileWriter';
+import { extractTasks } from '../utils/NoteParser';
+import { FrontmatterValue } from '../utils/Frontmatter';
+import {
+    QueryPage,
+    NoteQueryError,
+    parseNoteQuery,
+    selectQueryPages,
+    executeNoteQuery,
+    renderNoteQueryResult,
+    findNoteQueryBlocks
+} from '../utils/NoteQuery';
+
+/**
+ * Runs note queries and materializes their results.
+ *
+ * @class NoteQueryService
+ */
+export class NoteQueryService {
+    /**
+     * Creates a new NoteQueryService instance.
+     *
+     * @param vaultIndex - Shared vault index providing the notes
+     * @param linkResolver - Resolver for the links of the notes and of FROM [[link]] sources
+     * @param fileWriter - File reader used to collect tasks (mockable for tests)
+     */
+    constructor(
+        private readonly vaultIndex: VaultIndex,
+        private readonly linkResolver: WikiLinkResolver,
+        private readonly fileWriter: IFileWriter = new VscodeFileWriter()
+    ) {}
+
+    /**
+     * Evaluates a query and renders its result as Markdown.
+     *
+     * @param source - Query text (the content of the code block)
+     * @param origin - URI of the note containing the query, used to resolve relative links
+     * @returns Markdown list, table or task list
+     * @throws {NoteQueryError} When the query is malformed
+     */
+    async run(source: string, origin?: vscode.Uri): Promise<string> {
+        const query = parseNoteQuery(source);
+        const notes = await this.vaultIndex.getAllNotes();
+        const pages = notes.map(note => this.toPage(note));
+        const resolveLink = (linkText: string) => this.resolveLink(linkText, origin);
+
+        if (query.type === 'TASK') {
+            // 完了済みタスクはインデックスにないため、対象ノートだけ読み直す
+            const selected = new Set(selectQueryPages(query, pages, resolveLink).map(page => page.id));
+            await Promise.all(pages.map(async (page, i) => {
+                if (selected.has(page.id)) {
+                    pages[i] = { ...page, tasks: extractTasks(await this.readContent(notes[i].uri), true) };
+                }
+            }));
+        }
+
+        return renderNoteQueryResult(executeNoteQuery(query, pages, resolveLink));
+    }
+
+    /**
+     * Replaces the query block at the cursor of the active editor with its result.
+     *
+     * @returns True if the block was replaced
+     */
+    async materializeQuery(): Promise<boolean> {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor || editor.document.languageId !== 'markdown') {
+            vscode.window.showInformationMessage('Open a Markdown note to materialize a query');
+            return false;
+        }
+
+        const { document } = editor;
+        const line = editor.selection.active.line;
+        const block = findNoteQueryBlocks(document.getText()).find(b => b.startLine <= line && line <= b.endLine);
+        if (!block) {
+            vscode.window.showInformationMessage('Place the cursor inside an mdlg-query code block');
+            return false;
+        }
+
+        let markdown: string;
+        try {
+            markdown = await this.run(block.source, document.uri);
+        } catch (error) {
+            if (error instanceof NoteQueryError) {
+                vscode.window.showErrorMessage(`Query error: ${error.message}`);
+                return false;
+            }
+            throw error;
+        }
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(
+            document.uri,
+            new vscode.Range(block.startLine, 0, block.endLine, document.lineAt(block.endLine).text.length),
+            markdown
+        );
+        return vscode.workspace.applyEdit(edit);
+    }
+
+    private toPage(note: IndexedNote): QueryPage {
+        const outlinks = this.linkResolver.getOutgoingTargets(note).map(target => target.uri.toString());
+
+        const properties: Record<string, FrontmatterValue> = {};
+        note.properties.forEach(property => {
+            properties[property.key] = property.value;
+        });
+
+        return {
+            id: note.uri.toString(),
+            title: note.title,
+            path: note.relativePath,
+            tags: Array.from(new Set(note.tags.map(t => t.tag))),
+            outlinks,
+            properties,
+            tasks: note.tasks
+        };
+    }
+
+    private resolveLink(linkText: string, origin: vscode.Uri | undefined): string | undefined {
+        try {
+            const parsedLink = this.linkResolver.getProcessor().parseWikiLink(linkText);
+            return this.linkResolver.findTargetNote(parsedLink, origin)?.uri.toString();
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Reads a note, preferring the unsaved content of an open editor.
+     */
+    private async readContent(uri: vscode.Uri): Promise<string> {
+        const open = vscode.workspace.textDocuments.find(doc => doc.uri.toString() === uri.toString());
+        return open ? open.getText() : this.fileWriter.read(uri);
+    }
+}
@@ -0,0 +1,334 @@
+/**
+ * @fileoverview Note renaming with WikiLink refactoring.
+ * Computes WorkspaceEdits that rewrite every incoming [[link]] when a note is renamed,
+ * either through the `mdlg.renameNote` command or a rename or move (of notes or folders) in the Explorer.
+ *
+ * @author MDloggerForCode Team
+ * @version 1.0.0
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConfigurationManager } from '../managers/ConfigurationManager';
+import { PathUtil } from '../utils/PathUtil';
+import { VaultIndex, IndexedNote } from './VaultIndex';
+import { WikiLinkResolver } from './WikiLinkResolver';
+
+/**
+ * A note renamed or moved to another folder.
+ */
+interface NoteMove {
+    readonly oldUri: vscode.Uri;
+    /** File name after the rename (without extension) */
+    readonly newTitle: string;
+    /** Vault-relative folder after the move ('' for the vault root) */
+    readonly newFolder: string;
+}
+
+/**
+ * Rewrites incoming WikiLinks when notes are renamed or moved.
+ * Heading and alias parts of links are preserved; only the page name segment is replaced.
+ * Links written in page-name form (e.g. `[[My Note]]` for `my-note.md`) keep that form,
+ * links written in file-name form keep the file-name form.
+ *
+ * @class NoteRenameService
+ */
+export class NoteRenameService implements vscode.Disposable {
+    private disposables: vscode.Disposable[] = [];
+    /** Set while our own rename is applied so the Explorer hook does not edit twice */
+    private applyingOwnRename = false;
+
+    /**
+     * Creates a new NoteRenameService instance.
+     *
+     * @param configManager - Configuration manager for note extension and rename settings
+     * @param vaultIndex - Shared vault index
+     * @param linkResolver - Resolver used to find links pointing at the renamed note
+     */
+    constructor(
+        private readonly configManager: ConfigurationManager,
+        private readonly vaultIndex: VaultIndex,
+        private readonly linkResolver: WikiLinkResolver
+    ) {
+        this.disposables.push(
+            vscode.workspace.onWillRenameFiles(e => this.onWillRenameFiles(e))
+        );
+    }
+
+    /**
+     * Computes the edits updating every link to `oldUri` so that it points at `newTitle`.
+     *
+     * @param oldUri - URI of the note before the rename
+     * @param newTitle - New file name of the note (without extension)
+     * @param newPageName - Page name entered by the user; derived from newTitle when omitted
+     * @param edit - Existing edit to add the replacements to
+     * @returns WorkspaceEdit with one confirmable replacement per link
+     */
+    async computeLinkUpdates(
+        oldUri: vscode.Uri,
+        newTitle: string,
+        newPageName?: string,
+        edit: vscode.WorkspaceEdit = new vscode.WorkspaceEdit()
+    ): Promise<vscode.WorkspaceEdit> {
+        const oldNote = await this.vaultIndex.getNote(oldUri);
+        if (!oldNote || oldNote.title === newTitle) {
+            return edit;
+        }
+        return this.addLinkUpdates([{ oldUri, newTitle, newFolder: getFolder(oldNote.relativePath) }], edit, newPageName);
+    }
+
+    /**
+     * Computes the edits for notes and folders renamed or moved to another folder.
+     * The page name of incoming links follows the new title, and the folder part of
+     * path-qualified links (`[[folder/Note]]`, `[[/folder/Note]]`, `[[../Note]]`) is
+     * recomputed from the new location. Relative links inside moved notes are updated too.
+     *
+     * @param files - Old and new URIs of the renamed files or folders
+     * @param edit - Existing edit to add the replacements to
+     * @returns WorkspaceEdit with one confirmable replacement per link
+     */
+    async computeRenameUpdates(
+        files: readonly { readonly oldUri: vscode.Uri; readonly newUri: vscode.Uri }[],
+        edit: vscode.WorkspaceEdit = new vscode.WorkspaceEdit()
+    ): Promise<vscode.WorkspaceEdit> {
+        const extension = this.configManager.getNoteExtension();
+        const notes = await this.vaultIndex.getAllNotes();
+        const moves: NoteMove[] = [];
+
+        const addMove = (oldUri: vscode.Uri, newUri: vscode.Uri) => {
+            const newPath = this.vaultIndex.getRelativePath(newUri);
+            if (newPath !== undefined) {
+                moves.push({ oldUri, newTitle: path.posix.basename(newPath, extension), newFolder: getFolder(newPath) });
+            }
+        };
+
+        for (const { oldUri, newUri } of files) {
+            const oldKey = oldUri.toString();
+            if (notes.some(note => note.uri.toString() === oldKey)) {
+                addMove(oldUri, newUri);
+                continue;
+            }
+            // フォルダのリネーム/移動では配下のノートすべてが移動する
+            for (const note of notes) {
+                const relative = path.relative(oldUri.fsPath, note.uri.fsPath);
+                if (relative !== '' && !relative.startsWith('..') && !path.isAbsolute(relative)) {
+                    addMove(note.uri, vscode.Uri.joinPath(newUri, ...relative.split(path.sep)));
+                }
+            }
+        }
+
+        return this.addLinkUpdates(moves, edit);
+    }
+
+    /**
+     * Adds the replacements for a set of moved notes. Targets are the moved notes and the
+     * notes the moved notes link to with a relative path (`./`, `../`).
+     */
+    private async addLinkUpdates(moves: NoteMove[], edit: vscode.WorkspaceEdit, newPageName?: string): Promise<vscode.WorkspaceEdit> {
+        const processor = this.linkResolver.getProcessor();
+        const moved = new Map(moves.map(move => [move.oldUri.toString(), move]));
+        const newFolderOf = (note: IndexedNote) => moved.get(note.uri.toString())?.newFolder ?? getFolder(note.relativePath);
+
+        const targets = new Map<string, IndexedNote>();
+        for (const move of moves) {
+            const note = await this.vaultIndex.getNote(move.oldUri);
+            if (!note) {
+                continue;
+            }
+            targets.set(note.uri.toString(), note);
+            for (const link of note.links) {
+                try {
+                    const parsedLink = processor.parseWikiLink(link.linkText);
+                    const target = isRelativeFolder(parsedLink.pageName)
+                        ? this.linkResolver.findTargetNote(parsedLink, note.uri, processor)
+                        : null;
+                    if (target) {
+                        targets.set(target.uri.toString(), target);
+                    }
+                } catch {
+                    // 不正なリンクは対象外
+                }
+            }
+        }
+
+        for (const target of targets.values()) {
+            const move = moved.get(target.uri.toString());
+            const newTitle = move?.newTitle ?? target.title;
+            const newFolder = newFolderOf(target);
+            const targetMoved = newFolder !== getFolder(target.relativePath);
+            const metadata: vscode.WorkspaceEditEntryMetadata = {
+                label: `Update links to "${target.title}"`,
+                needsConfirmation: true
+            };
+
+            for (const { source, link, parsedLink } of await this.linkResolver.findBacklinks(target.uri)) {
+                // パス付きリンク（[[folder/Note]]）はフォルダ部分とノート名を分けて更新する
+                const folderLength = parsedLink.pageName.lastIndexOf('/') + 1;
+                const oldFolderPart = parsedLink.pageName.substring(0, folderLength);
+                const oldName = parsedLink.pageName.substring(folderLength);
+
+                let name = oldName;
+                // frontmatter の別名で張られたリンクはリネーム後も有効なので名前はそのまま
+                if (newTitle !== target.title && this.linkResolver.toFileName(oldName, processor) === target.title) {
+                    if (oldName === target.title) {
+                        // ファイル名形式で書かれたリンクはファイル名形式を維持
+                        name = newTitle;
+                    } else {
+                        name = newPageName ?? processor.pageNameFromFileName(newTitle, oldName);
+                    }
+                    if (this.linkResolver.toFileName(name, processor) !== newTitle) {
+                        name = newTitle;
+                    }
+                }
+
+                let folderPart = oldFolderPart;
+                const sourceMoved = newFolderOf(source) !== getFolder(source.relativePath);
+                if (oldFolderPart !== '' && (targetMoved || (sourceMoved && isRelativeFolder(oldFolderPart)))) {
+                    folderPart = formatLinkFolder(oldFolderPart, newFolder, newFolderOf(source));
+                }
+
+                if (name === oldName && folderPart === oldFolderPart) {
+                    continue;
+                }
+
+                const { offset } = processor.replacePageName(link.linkText, parsedLink.pageName);
+                const start = link.character + 2 + offset + (folderPart === oldFolderPart ? folderLength : 0);
+                const length = oldName.length + (folderPart === oldFolderPart ? 0 : folderLength);
+                edit.replace(
+                    source.uri,
+                    new vscode.Range(link.line, start, link.line, start + length),
+                    folderPart === oldFolderPart ? name : folderPart + name,
+                    metadata
+                );
+            }
+        }
+
+        return edit;
+    }
+
+    /**
+     * Prompts for a new name and renames the note, updating all incoming links.
+     * The refactor preview is shown before anything is applied.
+     *
+     * @param uri - Note to rename (defaults to the active editor's document)
+     * @returns True if the rename was applied
+     */
+    async renameNote(uri?: vscode.Uri): Promise<boolean> {
+        const target = uri ?? vscode.window.activeTextEditor?.document.uri;
+        const extension = this.configManager.getNoteExtension();
+        if (!target || !target.fsPath.endsWith(extension)) {
+            vscode.window.showInformationMessage('Open a note to rename it');
+            return false;
+        }
+
+        const oldTitle = path.basename(target.fsPath, extension);
+        const processor = this.linkResolver.getProcessor();
+        const input = await vscode.window.showInputBox({
+            prompt: 'New note name',
+            value: processor.pageNameFromFileName(oldTitle),
+            validateInput: value => {
+                if (!value || value.trim() === '') {
+                    return 'Note name cannot be empty';
+                }
+                return undefined;
+            }
+        });
+        if (input === undefined) {
+            return false;
+        }
+
+        const newPageName = input.trim();
+        const newTitle = this.linkResolver.toFileName(newPageName);
+        if (newTitle === oldTitle) {
+            return false;
+        }
+
+        const dirUri = target.with({ path: path.posix.dirname(target.path) });
+        const newUri = vscode.Uri.joinPath(dirUri, `${newTitle}${extension}`);
+        try {
+            await vscode.workspace.fs.stat(newUri);
+            vscode.window.showErrorMessage(`A note named "${newTitle}" already exists`);
+            return false;
+        } catch {
+            // 同名ファイルが存在しない場合のみリネームを続行
+        }
+
+        const edit = await this.computeLinkUpdates(target, newTitle, newPageName);
+        // テキスト編集の後にリネーム（旧URIへの編集を先に適用するため）
+        edit.renameFile(target, newUri, undefined, {
+            label: `Rename "${oldTitle}" to "${newTitle}"`,
+            needsConfirmation: true
+        });
+
+        this.applyingOwnRename = true;
+        try {
+            return await vscode.workspace.applyEdit(edit);
+        } finally {
+            this.applyingOwnRename = false;
+        }
+    }
+
+    /**
+     * Adds link updates to renames performed outside the extension (e.g. in the Explorer).
+     */
+    private onWillRenameFiles(event: vscode.FileWillRenameEvent): void {
+        if (this.applyingOwnRename || !this.configManager.getUpdateLinksOnRename()) {
+            return;
+        }
+
+        // ノート以外のファイル（拡張子が異なる）は対象外。フォルダは配下のノートを更新する
+        const extension = this.configManager.getNoteExtension();
+        const renames = event.files.filter(({ oldUri, newUri }) =>
+            oldUri.fsPath.endsWith(extension) === newUri.fsPath.endsWith(extension) &&
+            PathUtil.getAttachmentKind(oldUri.fsPath) === undefined
+        );
+        if (renames.length === 0) {
+            return;
+        }
+
+        event.waitUntil(this.computeRenameUpdates(renames));
+    }
+
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+}
+
+function getFolder(relativePath: string): string {
+    const folder = path.posix.dirname(relativePath);
+    return folder === '.' ? '' : folder;
+}
+
+/**
+ * True when a page name or its folder part is relative to the linking note (`./`, `../`).
+ */
+function isRelativeFolder(pageName: string): boolean {
+    return /^\.\.?\//.test(pageName.trim());
+}
+
+/**
+ * Writes the folder part of a path-qualified link for a new target folder, keeping the style
+ * of the original: relative to the linking note, anchored at the vault root, or the same
+ * number of trailing folders.
+ *
+ * @param oldFolderPart - Folder part of the link including the trailing `/`
+ * @param targetFolder - Vault-relative folder of the target after the move
+ * @param sourceFolder - Vault-relative folder of the linking note after the move
+ * @returns The new folder part including the trailing `/`
+ */
+function formatLinkFolder(oldFolderPart: string, targetFolder: string, sourceFolder: string): string {
+    const trimmed = oldFolderPart.trim();
+    if (isRelativeFolder(trimmed)) {
+        const relative = path.posix.relative(sourceFolder, targetFolder);
+        if (relative === '') {
+            return './';
+        }
+        return relative.startsWith('..') ? `${relative}/` : `./${relative}/`;
+    }
+    if (trimmed.startsWith('/') || targetFolder === '') {
+        return targetFolder === '' ? '/' : `/${targetFolder}/`;
+    }
+    const depth = trimmed.split('/').filter(segment => segment !== '').length;
+    return `${targetFolder.split('/').slice(-depth).join('/')}/`;
+}
@@ -0,0 +1,224 @@
+/**
+ * @fileoverview Full-text search over the vault.
+ * Keeps the text of every note together with an inverted index (token → notes)
+ * that is updated incrementally from VaultIndex change events, and evaluates
+ * search queries (see SearchQuery) against it.
+ *
+ * @author MDloggerForCode Team
+ * @version 1.0.0
+ */
+
+import * as vscode from 'vscode';
+import { VaultIndex, IndexedNote } from './VaultIndex';
+import { IFileWriter, VscodeFileWriter } from './FileWriter';
+import {
+    SearchNode,
+    SearchLineMatch,
+    parseSearchQuery,
+    matchSearchDocument,
+    getRequiredWords,
+    tokenize
+} from '../utils/SearchQuery';
+
+/** Number of files read in parallel while building the index. */
+const readBatchSize = 32;
+
+/**
+ * A note matching a search query.
+ */
+export interface SearchResult {
+    note: IndexedNote;
+    matches: SearchLineMatch[];
+}
+
+interface SearchEntry {
+    uri: vscode.Uri;
+    lines: string[];
+    tokens: Set<string>;
+}
+
+/**
+ * Inverted index of the vault contents.
+ *
+ * @class SearchIndex
+ */
+export class SearchIndex implements vscode.Disposable {
+    private entries: Map<string, SearchEntry> = new Map();
+    private postings: Map<string, Set<string>> = new Map();
+    private dirty: Map<string, vscode.Uri> = new Map();
+    private needsRebuild = true;
+    private updating: Promise<void> = Promise.resolve();
+    private disposables: { dispose(): unknown }[] = [];
+
+    /**
+     * Creates a new SearchIndex instance.
+     *
+     * @param vaultIndex - Shared vault index providing the notes and change events
+     * @param fileWriter - File reader used for notes that are not open in an editor
+     */
+    constructor(
+        private readonly vaultIndex: VaultIndex,
+        private readonly fileWriter: IFileWriter = new VscodeFileWriter()
+    ) {
+        this.disposables.push(this.vaultIndex.onDidChange(uri => {
+            if (uri) {
+                this.dirty.set(uri.toString(), uri);
+            } else {
+                this.needsRebuild = true;
+            }
+        }));
+    }
+
+    /**
+     * Searches the vault.
+     *
+     * @param query - Query text or an already parsed query
+     * @returns Matching notes sorted by path, each with its matching lines
+     * @throws {SearchQueryError} When the query text cannot be parsed
+     */
+    async search(query: string | SearchNode): Promise<SearchResult[]> {
+        const parsed = typeof query === 'string' ? parseSearchQuery(query) : query;
+        await this.update();
+
+        const results: SearchResult[] = [];
+        for (const key of this.getCandidates(parsed)) {
+            const entry = this.entries.get(key)!;
+            const note = await this.vaultIndex.getNote(entry.uri);
+            if (!note) {
+                continue;
+            }
+            const matches = matchSearchDocument(parsed, {
+                title: note.title,
+                relativePath: note.relativePath,
+                lines: entry.lines,
+                tags: note.tags
+            });
+            if (matches) {
+                results.push({ note, matches });
+            }
+        }
+
+        return results.sort((a, b) => a.note.relativePath.localeCompare(b.note.relativePath));
+    }
+
+    /**
+     * Disposes of listeners and indexed data.
+     */
+    dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+        this.entries.clear();
+        this.postings.clear();
+        this.dirty.clear();
+    }
+
+    /**
+     * Narrows the notes to evaluate using the words the query requires.
+     * A query word matches any indexed token containing it, as content terms are substrings.
+     */
+    private getCandidates(query: SearchNode): string[] {
+        let candidates: Set<string> | undefined;
+        for (const word of new Set(getRequiredWords(query))) {
+            const notes = new Set<string>();
+            for (const [token, keys] of this.postings) {
+                if (token.includes(word)) {
+                    keys.forEach(key => notes.add(key));
+                }
+            }
+            candidates = candidates
+                ? new Set(Array.from(candidates).filter(key => notes.has(key)))
+                : notes;
+            if (candidates.size === 0) {
+                break;
+            }
+        }
+        return Array.from(candidates ?? this.entries.keys());
+    }
+
+    /**
+     * Applies pending changes. Calls are serialized so concurrent searches share one update.
+     */
+    private update(): Promise<void> {
+        this.updating = this.updating.then(() => this.applyChanges());
+        return this.updating;
+    }
+
+    private async applyChanges(): Promise<void> {
+        await this.vaultIndex.ensureLoaded();
+
+        if (this.needsRebuild) {
+            this.needsRebuild = false;
+            this.dirty.clear();
+            this.entries.clear();
+            this.postings.clear();
+            const notes = await this.vaultIndex.getAllNotes();
+            for (let i = 0; i < notes.length; i += readBatchSize) {
+                await Promise.all(notes.slice(i, i + readBatchSize).map(note => this.indexNote(note.uri)));
+            }
+            return;
+        }
+
+        const uris = Array.from(this.dirty.values());
+        this.dirty.clear();
+        for (let i = 0; i < uris.length; i += readBatchSize) {
+            await Promise.all(uris.slice(i, i + readBatchSize).map(uri => this.indexNote(uri)));
+        }
+    }
+
+    /**
+     * (Re)indexes a note, or drops it when it is no longer part of the vault.
+     */
+    private async indexNote(uri: vscode.Uri): Promise<void> {
+        const key = uri.toString();
+        this.removeEntry(key);
+        if (!await this.vaultIndex.getNote(uri)) {
+            return;
+        }
+
+        const content = await this.readContent(uri);
+        if (content === undefined) {
+            return;
+        }
+        const entry: SearchEntry = { uri, lines: content.split(/\r?\n/), tokens: new Set(tokenize(content)) };
+        this.entries.set(key, entry);
+        entry.tokens.forEach(token => {
+            const keys = this.postings.get(token);
+            if (keys) {
+                keys.add(key);
+            } else {
+                this.postings.set(token, new Set([key]));
+            }
+        });
+    }
+
+    private removeEntry(key: string): void {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            return;
+        }
+        this.entries.delete(key);
+        entry.tokens.forEach(token => {
+            const keys = this.postings.get(token);
+            keys?.delete(key);
+            if (keys?.size === 0) {
+                this.postings.delete(token);
+            }
+        });
+    }
+
+    /**
+     * Reads a note, preferring the text of an open editor so unsaved edits are searchable.
+     */
+    private async readContent(uri: vscode.Uri): Promise<string | undefined> {
+        const open = vscode.workspace.textDocuments.find(d => d.uri.toString() === uri.toString());
+        if (open) {
+            return open.getText();
+        }
+        try {
+            return await this.fileWriter.read(uri);
+        } catch (error) {
+            console.warn('[SearchIndex] Failed to read note:', uri.fsPath, error);
+            return undefined;
+        }
+    }
+}
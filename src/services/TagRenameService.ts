@@ -0,0 +1,105 @@
+/**
+ * @fileoverview Vault-wide tag renaming.
+ * Rewrites every inline `#tag` and frontmatter `tags:` entry, including nested
+ * tags below the renamed one (`#project/alpha` when renaming `project`), in a
+ * single WorkspaceEdit through the `mdlg.renameTag` command.
+ *
+ * @author MDloggerForCode Team
+ * @version 1.0.0
+ */
+
+import * as vscode from 'vscode';
+import { VaultIndex } from './VaultIndex';
+import { isValidTag } from '../utils/NoteParser';
+
+/**
+ * Renames tags across all notes of the vault.
+ *
+ * @class TagRenameService
+ */
+export class TagRenameService {
+    /**
+     * Creates a new TagRenameService instance.
+     *
+     * @param vaultIndex - Shared vault index providing the tag occurrences
+     */
+    constructor(private readonly vaultIndex: VaultIndex) {}
+
+    /**
+     * Computes the edits renaming `oldTag` (and the tags nested below it) to `newTag`.
+     *
+     * @param oldTag - Tag to rename, without `#`
+     * @param newTag - New tag name, without `#`
+     * @returns WorkspaceEdit with one replacement per occurrence
+     */
+    async computeTagRename(oldTag: string, newTag: string): Promise<vscode.WorkspaceEdit> {
+        const edit = new vscode.WorkspaceEdit();
+        if (oldTag === newTag) {
+            return edit;
+        }
+
+        for (const note of await this.vaultIndex.getAllNotes()) {
+            for (const occurrence of note.tags) {
+                if (occurrence.tag !== oldTag && !occurrence.tag.startsWith(`${oldTag}/`)) {
+                    continue;
+                }
+                // インラインタグの範囲は先頭の # を含む
+                const start = occurrence.inFrontmatter ? occurrence.character : occurrence.character + 1;
+                edit.replace(
+                    note.uri,
+                    new vscode.Range(occurrence.line, start, occurrence.line, start + oldTag.length),
+                    newTag
+                );
+            }
+        }
+
+        return edit;
+    }
+
+    /**
+     * Asks for the tag to rename (unless given) and its new name, then applies the edit.
+     *
+     * @param tag - Tag to rename, without `#` (prompted when omitted)
+     * @returns True if the rename was applied
+     */
+    async renameTag(tag?: string): Promise<boolean> {
+        let oldTag = tag;
+        if (oldTag === undefined) {
+            const tags = await this.vaultIndex.getTags();
+            if (tags.size === 0) {
+                vscode.window.showInformationMessage('No tags found in the vault');
+                return false;
+            }
+            const picked = await vscode.window.showQuickPick(
+                Array.from(tags.entries()).map(([name, notes]) => ({
+                    label: `#${name}`,
+                    description: `${notes.length} note${notes.length === 1 ? '' : 's'}`,
+                    tag: name
+                })),
+                { placeHolder: 'Select a tag to rename' }
+            );
+            if (!picked) {
+                return false;
+            }
+            oldTag = picked.tag;
+        }
+
+        const input = await vscode.window.showInputBox({
+            prompt: `Rename #${oldTag} (nested tags are renamed too)`,
+            value: oldTag,
+            validateInput: value => isValidTag(value.trim().replace(/^#/, ''))
+                ? undefined
+                : 'Tags may contain letters, digits, "_", "-" and "/" and must not be only digits'
+        });
+        if (input === undefined) {
+            return false;
+        }
+
+        const newTag = input.trim().replace(/^#/, '');
+        const edit = await this.computeTagRename(oldTag, newTag);
+        if (edit.size === 0) {
+            return false;
+        }
+        return vscode.workspace.applyEdit(edit);
+    }
+}
@@ -0,0 +1,179 @@
+/**
+ * @fileoverview Renders note templates with the configured date/time formats.
+ * Connects the template engine to VS Code: `{{prompt:...}}` asks with an input box and
+ * `{{include:...}}` reads template files relative to the vault root. Also lists the
+ * templates of the templates folder for the "New note from template" picker.
+ *
+ * @author MDloggerForCode Team
+ * @version 1.0.0
+ */
+
+import * as vscode from 'vscode';
+import { ConfigurationManager } from '../managers/ConfigurationManager';
+import { DateTimeFormatter } from '../utils/DateTimeFormatter';
+import { PathUtil } from '../utils/PathUtil';
+import { getFrontmatterProperty, removeFrontmatterProperty } from '../utils/Frontmatter';
+import { renderTemplate } from '../utils/TemplateEngine';
+
+/**
+ * Note-specific values of a template.
+ */
+export interface TemplateTarget {
+    /** Title of the new note (file name without extension) */
+    title: string;
+    /** Date of the note; defaults to now */
+    date?: Date;
+}
+
+/**
+ * A template of the templates folder.
+ */
+export interface NoteTemplate {
+    /** Path below the templates folder, without extension */
+    name: string;
+    /** Template text */
+    content: string;
+}
+
+/**
+ * Reads and renders note templates.
+ *
+ * @class TemplateService
+ */
+export class TemplateService {
+    /** Frontmatter property of a template naming the folder of the notes created from it */
+    public static readonly destinationKey = 'destination';
+
+    /**
+     * Creates a new TemplateService instance.
+     *
+     * @param configManager - Configuration manager for the vault root and date/time formats
+     * @param dateTimeFormatter - Formatter for the date and time placeholders
+     */
+    constructor(
+        private readonly configManager: ConfigurationManager,
+        private readonly dateTimeFormatter: DateTimeFormatter
+    ) {}
+
+    /**
+     * Renders a template for a new note. The `{{cursor}}` placeholder is kept;
+     * remove it with `extractCursor` before writing the note.
+     *
+     * @param template - Template text
+     * @param workspaceFolder - Workspace folder used to resolve included templates
+     * @param target - Title and date of the new note
+     * @returns The rendered text
+     */
+    async render(template: string, workspaceFolder: vscode.WorkspaceFolder, target: TemplateTarget): Promise<string> {
+        const now = new Date();
+        return renderTemplate(template, {
+            title: target.title,
+            date: target.date ?? now,
+            now,
+            dateFormat: this.configManager.getDateFormat(),
+            timeFormat: this.configManager.getTimeFormat(),
+            formatter: this.dateTimeFormatter,
+            prompt: label => Promise.resolve(vscode.window.showInputBox({ prompt: label, placeHolder: label })),
+            include: templatePath => this.readFile(workspaceFolder, templatePath)
+        });
+    }
+
+    /**
+     * Reads a template file relative to the vault root.
+     * Returns empty string if the template is not configured or cannot be read.
+     *
+     * @param workspaceFolder - The VS Code workspace folder
+     * @param templatePath - Path of the template below the vault root
+     * @returns Promise resolving to template content or empty string
+     */
+    async readTemplate(workspaceFolder: vscode.WorkspaceFolder, templatePath: string): Promise<string> {
+        if (!templatePath || templatePath.trim() === '') {
+            return '';
+        }
+        // テンプレートファイルが見つからない場合は空文字列を返す
+        return (await this.readFile(workspaceFolder, templatePath)) ?? '';
+    }
+
+    /**
+     * Lists the templates of the configured templates folder, sorted by name.
+     *
+     * @param workspaceFolder - The VS Code workspace folder
+     * @returns The templates, or an empty list when the folder does not exist
+     */
+    async listTemplates(workspaceFolder: vscode.WorkspaceFolder): Promise<NoteTemplate[]> {
+        const folder = this.configManager.getTemplatesFolder();
+        if (!folder || folder.trim() === '') {
+            return [];
+        }
+        const extension = this.configManager.getNoteExtension();
+        const folderUri = PathUtil.resolveVaultUri(this.configManager.getVaultRoot(), workspaceFolder, folder);
+        const uris = await vscode.workspace.findFiles(new vscode.RelativePattern(folderUri, `**/*${extension}`));
+
+        const folderPath = (folderUri.path || folderUri.fsPath).replace(/\/+$/, '');
+
+        const templates: NoteTemplate[] = [];
+        for (const uri of uris) {
+            const relativePath = (uri.path || uri.fsPath).substring(folderPath.length + 1);
+            try {
+                const content = new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+                templates.push({ name: relativePath.slice(0, -extension.length), content });
+            } catch {
+                // 読み込めないテンプレートは一覧に含めない
+            }
+        }
+        return templates.sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    /**
+     * Asks which template of the templates folder to use.
+     *
+     * @param workspaceFolder - The VS Code workspace folder
+     * @param fallback - Template offered as the first choice (e.g. `mdlg.template`); returned
+     *                   without asking when the templates folder is empty
+     * @returns The chosen template, or undefined when the picker was dismissed or there is no template
+     */
+    async pickTemplate(workspaceFolder: vscode.WorkspaceFolder, fallback?: NoteTemplate): Promise<NoteTemplate | undefined> {
+        const templates = await this.listTemplates(workspaceFolder);
+        if (templates.length === 0) {
+            if (!fallback) {
+                vscode.window.showInformationMessage(`No templates found in "${this.configManager.getTemplatesFolder()}"`);
+            }
+            return fallback;
+        }
+
+        const items = [...(fallback ? [fallback] : []), ...templates].map(template => ({
+            label: template.name,
+            description: getDestination(template.content),
+            template
+        }));
+        const picked = await vscode.window.showQuickPick(items, { placeHolder: 'Select a template for the new note' });
+        return picked?.template;
+    }
+
+    /**
+     * Separates the destination folder declared by a rendered template from the note content.
+     *
+     * @param content - Rendered template
+     * @returns The content without the `destination` property, and the folder (relative to the vault root) if declared
+     */
+    extractDestination(content: string): { content: string; destination?: string } {
+        const destination = getDestination(content);
+        const stripped = removeFrontmatterProperty(content, TemplateService.destinationKey);
+        return destination === undefined ? { content: stripped } : { content: stripped, destination };
+    }
+
+    private async readFile(workspaceFolder: vscode.WorkspaceFolder, templatePath: string): Promise<string | undefined> {
+        try {
+            const uri = PathUtil.resolveVaultUri(this.configManager.getVaultRoot(), workspaceFolder, templatePath);
+            return new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+        } catch {
+            return undefined;
+        }
+    }
+}
+
+function getDestination(content: string): string | undefined {
+    const value = getFrontmatterProperty(content, TemplateService.destinationKey);
+    const destination = typeof value === 'string' ? value.trim().replace(/^\/+|\/+$/g, '') : '';
+    return destination === '' ? undefined : destination;
+}
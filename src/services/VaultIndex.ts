@@ -0,0 +1,709 @@
+/**
+ * @fileoverview Workspace-wide note index shared by all WikiLink features.
+ * Scans the vault once, keeps title/alias→URI lookup, outgoing links, headings, block IDs,
+ * tasks, tags, frontmatter properties and word count per note, the content of every note, which notes
+ * link to a page name and the attachments (images, PDFs) of the vault, and updates incrementally from
+ * file system and document change events.
+ *
+ * @author MDloggerForCode Team
+ * @version 1.0.0
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ConfigurationManager } from '../managers/ConfigurationManager';
+import { IFileWriter, VscodeFileWriter } from './FileWriter';
+import { NoteFinder } from '../utils/NoteFinder';
+import { PathUtil } from '../utils/PathUtil';
+import { WikiLinkProcessor } from '../processors/WikiLinkProcessor';
+import {
+    extractWikiLinks,
+    extractHeadings,
+    extractTasks,
+    extractBlockIds,
+    extractTags,
+    extractAliases,
+    countWords,
+    WikiLinkOccurrence,
+    HeadingItem,
+    TaskItem,
+    BlockIdItem,
+    TagOccurrence
+} from '../utils/NoteParser';
+import { parseFrontmatter, FrontmatterProperty } from '../utils/Frontmatter';
+
+/**
+ * A note known to the index together with the data parsed from its content.
+ */
+export interface IndexedNote {
+    readonly title: string;
+    readonly uri: vscode.Uri;
+    readonly relativePath: string;
+    readonly links: WikiLinkOccurrence[];
+    readonly headings: HeadingItem[];
+    readonly tasks: TaskItem[];
+    readonly blocks: BlockIdItem[];
+    readonly tags: TagOccurrence[];
+    /** Alternative names declared in the frontmatter `aliases:` property */
+    readonly aliases: string[];
+    /** Top-level frontmatter properties */
+    readonly properties: FrontmatterProperty[];
+    /** Number of words in the note body */
+    readonly wordCount: number;
+}
+
+/**
+ * An image or PDF inside the vault.
+ */
+export interface IndexedAttachment {
+    readonly uri: vscode.Uri;
+    /** Vault-relative path with `/` separators */
+    readonly relativePath: string;
+}
+
+/** Number of files read in parallel during the initial scan. */
+const scanBatchSize = 32;
+
+/** Delay before unsaved edits are re-parsed, so typing is coalesced into one update. */
+const documentUpdateDelayMs = 300;
+
+/**
+ * Long-lived index of every note inside the vault.
+ * The first query triggers a full scan; afterwards the index is kept up to date
+ * by a FileSystemWatcher (saved files) and text document events (unsaved edits),
+ * so providers never need to glob the workspace themselves.
+ *
+ * @class VaultIndex
+ * @implements {vscode.Disposable}
+ */
+export class VaultIndex implements vscode.Disposable {
+    private notes: Map<string, IndexedNote> = new Map();
+    private titleMap: Map<string, Set<string>> = new Map();
+    private aliasMap: Map<string, Set<string>> = new Map();
+    /** Page name (as written and as file name) → notes containing a link to it */
+    private linkNameMap: Map<string, Set<string>> = new Map();
+    private linkNames: Map<string, string[]> = new Map();
+    private contents: Map<string, string> = new Map();
+    private attachments: Map<string, IndexedAttachment> = new Map();
+    /** Attachment file name → attachments with that name */
+    private attachmentNames: Map<string, Set<string>> = new Map();
+    private loading: Promise<void> | null = null;
+    private generation = 0;
+    /** Keys of notes (or folders) updated by events while the scan runs; the scan must not overwrite them */
+    private changedDuringScan: Set<string> | null = null;
+    private workspaceFolder: vscode.WorkspaceFolder | undefined;
+    private fileWatcher: vscode.FileSystemWatcher | null = null;
+    private disposables: { dispose(): unknown }[] = [];
+    private pendingDocuments: Map<string, vscode.TextDocument> = new Map();
+    private documentTimer: ReturnType<typeof setTimeout> | undefined;
+    private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri | undefined>();
+
+    /**
+     * Fires after the index changed. The URI of the updated note is passed for
+     * incremental updates, `undefined` after a full rebuild or when several notes changed at once.
+     * Unsaved edits are coalesced, so this does not fire on every keystroke.
+     */
+    readonly onDidChange: vscode.Event<vscode.Uri | undefined> = this.changeEmitter.event;
+
+    /**
+     * Creates a new VaultIndex instance.
+     *
+     * @param configManager - Configuration manager for vault root and note extension
+     * @param fileWriter - File reader used to load note contents (mockable for tests)
+     */
+    constructor(
+        private readonly configManager: ConfigurationManager,
+        private readonly fileWriter: IFileWriter = new VscodeFileWriter()
+    ) {
+        this.disposables.push(
+            vscode.workspace.onDidChangeTextDocument(e => this.onDocumentChanged(e.document)),
+            vscode.workspace.onDidCloseTextDocument(doc => {
+                // 保存せずに閉じた場合に備えてディスク上の内容で再インデックス
+                this.pendingDocuments.delete(doc.uri.toString());
+                if (this.isIndexed(doc.uri)) {
+                    void this.reindexFile(doc.uri);
+                }
+            }),
+            this.configManager.onConfigurationChanged(() => this.invalidate())
+        );
+    }
+
+    /**
+     * Waits until the initial scan has completed, starting it if necessary.
+     */
+    async ensureLoaded(): Promise<void> {
+        if (!this.loading) {
+            const loading: Promise<void> = this.scan().catch(error => {
+                // 失敗したスキャンは保持せず、次の問い合わせで再試行する
+                if (this.loading === loading) {
+                    this.loading = null;
+                }
+                throw error;
+            });
+            this.loading = loading;
+        }
+        await this.loading;
+        this.flushPendingDocuments();
+    }
+
+    /**
+     * Drops all indexed data. The next query rebuilds the index from disk.
+     */
+    invalidate(): void {
+        this.clearPendingDocuments();
+        this.clearNotes();
+        this.loading = null;
+        this.generation++;
+        this.disposeWatcher();
+        this.changeEmitter.fire(undefined);
+    }
+
+    /**
+     * Gets all indexed notes.
+     *
+     * @returns Promise resolving to every note within the vault
+     */
+    async getAllNotes(): Promise<IndexedNote[]> {
+        await this.ensureLoaded();
+        return Array.from(this.notes.values());
+    }
+
+    /**
+     * Gets the indexed data of a single note.
+     *
+     * @param uri - URI of the note
+     * @returns The indexed note, or undefined when the file is not part of the vault
+     */
+    async getNote(uri: vscode.Uri): Promise<IndexedNote | undefined> {
+        await this.ensureLoaded();
+        return this.notes.get(uri.toString());
+    }
+
+    /**
+     * Finds a note by exact title (file name without extension).
+     * When several notes share the title, the shallowest path wins, mirroring
+     * NoteFinder.findNoteByTitle.
+     *
+     * @param title - The exact note title to look up
+     * @returns Promise resolving to the matching note, or null if none exists
+     */
+    async findNoteByTitle(title: string): Promise<IndexedNote | null> {
+        await this.ensureLoaded();
+        const candidates = this.getNotesByTitle(title);
+        return candidates.length > 0 ? candidates[0] : null;
+    }
+
+    /**
+     * Gets all notes sharing the given title, sorted shallowest path first.
+     *
+     * @param title - The exact note title to look up
+     * @returns Matching notes (empty when none exist or the index is not loaded yet)
+     */
+    getNotesByTitle(title: string): IndexedNote[] {
+        this.flushPendingDocuments();
+        return this.getNotesByKeys(this.titleMap.get(title));
+    }
+
+    /**
+     * Gets all notes declaring the given alias in their frontmatter, sorted shallowest path first.
+     *
+     * @param alias - The exact alias to look up
+     * @returns Matching notes (empty when none exist or the index is not loaded yet)
+     */
+    getNotesByAlias(alias: string): IndexedNote[] {
+        this.flushPendingDocuments();
+        return this.getNotesByKeys(this.aliasMap.get(alias));
+    }
+
+    /**
+     * Gets the notes containing a link whose page name (without folders) is one of the given names,
+     * either as written or after the slug strategy and file name sanitization. The links are not
+     * resolved, so the result may include notes linking to another note of the same name.
+     *
+     * @param names - Titles or aliases of the target note
+     * @returns Notes that may link to the target, sorted shallowest path first
+     */
+    getNotesLinkingTo(names: string[]): IndexedNote[] {
+        this.flushPendingDocuments();
+        const keys = new Set<string>();
+        for (const name of names) {
+            this.linkNameMap.get(name)?.forEach(key => keys.add(key));
+        }
+        return this.getNotesByKeys(keys);
+    }
+
+    /**
+     * Gets the indexed content of a note, including unsaved edits.
+     *
+     * @param uri - URI of the note
+     * @returns The content, or undefined when the note is not indexed
+     */
+    getContent(uri: vscode.Uri): string | undefined {
+        this.flushPendingDocuments();
+        return this.contents.get(uri.toString());
+    }
+
+    /**
+     * Gets every image and PDF inside the vault.
+     *
+     * @returns Promise resolving to the indexed attachments
+     */
+    async getAttachments(): Promise<IndexedAttachment[]> {
+        await this.ensureLoaded();
+        return Array.from(this.attachments.values());
+    }
+
+    /**
+     * Finds an attachment referenced by a WikiLink such as `![[image.png]]` or `![[assets/image.png]]`.
+     * The name matches the end of the vault-relative path; when several attachments match,
+     * the one with the shortest path wins.
+     *
+     * @param pageName - Page name as written inside the WikiLink (may contain folders)
+     * @returns URI of the attachment, or undefined when it does not exist
+     */
+    async findAttachment(pageName: string): Promise<vscode.Uri | undefined> {
+        await this.ensureLoaded();
+        const name = pageName.trim().replace(/^\/+/, '');
+        const keys = this.attachmentNames.get(name.split('/').pop() ?? name);
+        if (!name || !keys) {
+            return undefined;
+        }
+        return Array.from(keys, key => this.attachments.get(key)!)
+            .filter(attachment => attachment.relativePath === name || attachment.relativePath.endsWith(`/${name}`))
+            .sort((a, b) => a.uri.path.length - b.uri.path.length)[0]?.uri;
+    }
+
+    private getNotesByKeys(keys: Set<string> | undefined): IndexedNote[] {
+        if (!keys) {
+            return [];
+        }
+
+        const candidates: IndexedNote[] = [];
+        for (const key of keys) {
+            const note = this.notes.get(key);
+            if (note) {
+                candidates.push(note);
+            }
+        }
+
+        return candidates.sort((a, b) => {
+            const aDepth = a.relativePath.split('/').length;
+            const bDepth = b.relativePath.split('/').length;
+            if (aDepth !== bDepth) {
+                return aDepth - bDepth;
+            }
+            return a.relativePath.localeCompare(b.relativePath);
+        });
+    }
+
+    /**
+     * Gets every tag used in the vault (inline `#tag` and frontmatter `tags:`).
+     *
+     * @returns Map from tag (without `#`) to the notes using it, ordered by tag
+     */
+    async getTags(): Promise<Map<string, IndexedNote[]>> {
+        await this.ensureLoaded();
+        const tags = new Map<string, IndexedNote[]>();
+        for (const note of this.notes.values()) {
+            for (const tag of new Set(note.tags.map(t => t.tag))) {
+                if (!tags.has(tag)) {
+                    tags.set(tag, []);
+                }
+                tags.get(tag)!.push(note);
+            }
+        }
+        return new Map(Array.from(tags.entries()).sort((a, b) => a[0].localeCompare(b[0])));
+    }
+
+    /**
+     * Computes the vault-relative path of a note file, whether or not it is indexed yet.
+     *
+     * @param uri - URI of the note
+     * @returns Path with `/` separators (e.g. `folder/Note.md`), or undefined when the
+     *          file is outside the vault or the index is not loaded yet
+     */
+    getRelativePath(uri: vscode.Uri): string | undefined {
+        return this.locate(uri)?.relativePath;
+    }
+
+    /**
+     * Re-reads a single note from disk right away, without waiting for the file watcher.
+     * Useful after the extension itself wrote to the file.
+     *
+     * @param uri - URI of the note to refresh
+     */
+    async refreshNote(uri: vscode.Uri): Promise<void> {
+        await this.ensureLoaded();
+        await this.reindexFile(uri);
+    }
+
+    /**
+     * Disposes of watchers, listeners and indexed data.
+     */
+    dispose(): void {
+        this.clearPendingDocuments();
+        this.disposeWatcher();
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+        this.changeEmitter.dispose();
+        this.clearNotes();
+    }
+
+    /**
+     * Performs the full vault scan and starts the file watcher.
+     */
+    private async scan(): Promise<void> {
+        const generation = this.generation;
+        this.workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (!this.workspaceFolder) {
+            return;
+        }
+
+        const vaultRoot = this.configManager.getVaultRoot();
+        const extension = this.configManager.getNoteExtension();
+        this.setupFileWatcher(this.workspaceFolder, extension);
+        // スキャン中にイベントで更新/削除されたノートは、先に読んだ古い内容で上書きしない
+        const changed = new Set<string>();
+        this.changedDuringScan = changed;
+        try {
+            const files = (await NoteFinder.getAllNotes(this.workspaceFolder, vaultRoot, extension))
+                .filter(file => !this.isExcluded(file.relativePath));
+            for (let i = 0; i < files.length; i += scanBatchSize) {
+                const batch = files.slice(i, i + scanBatchSize);
+                const contents = await Promise.all(batch.map(async file => {
+                    try {
+                        return await this.fileWriter.read(file.uri);
+                    } catch (error) {
+                        console.warn('[VaultIndex] Failed to read note:', file.uri.fsPath, error);
+                        return '';
+                    }
+                }));
+                if (generation !== this.generation) {
+                    // スキャン中に設定が変わった場合は古い結果を破棄
+                    return;
+                }
+                batch.forEach((file, idx) => {
+                    if (!isChangedDuringScan(file.uri, changed)) {
+                        this.setNote(file.uri, file.title, file.relativePath, contents[idx]);
+                    }
+                });
+            }
+
+            const attachments = await vscode.workspace.findFiles(
+                new vscode.RelativePattern(this.getSearchBase(this.workspaceFolder).split(path.sep).join('/'), PathUtil.getAttachmentGlob()),
+                '**/node_modules/**'
+            );
+            if (generation !== this.generation) {
+                return;
+            }
+            attachments.filter(uri => !isChangedDuringScan(uri, changed)).forEach(uri => this.addAttachment(uri));
+        } finally {
+            if (this.changedDuringScan === changed) {
+                this.changedDuringScan = null;
+            }
+        }
+
+        this.changeEmitter.fire(undefined);
+    }
+
+    /**
+     * Creates the file system watcher that keeps the index in sync with saved files.
+     */
+    private setupFileWatcher(workspaceFolder: vscode.WorkspaceFolder, extension: string): void {
+        this.disposeWatcher();
+        const pattern = new vscode.RelativePattern(workspaceFolder, PathUtil.getAttachmentGlob([extension.replace(/^\./, '')]));
+        this.fileWatcher = vscode.workspace.createFileSystemWatcher(pattern);
+        this.fileWatcher.onDidCreate(uri => {
+            if (PathUtil.getAttachmentKind(uri.path)) {
+                this.changedDuringScan?.add(uri.toString());
+                if (this.addAttachment(uri)) {
+                    this.changeEmitter.fire(uri);
+                }
+            } else {
+                void this.reindexFile(uri);
+            }
+        });
+        this.fileWatcher.onDidChange(uri => void this.reindexFile(uri));
+        this.fileWatcher.onDidDelete(uri => this.removeNotes(uri));
+    }
+
+    private disposeWatcher(): void {
+        if (this.fileWatcher) {
+            try { this.fileWatcher.dispose(); } catch { /* ignore */ }
+            this.fileWatcher = null;
+        }
+    }
+
+    /**
+     * Schedules re-parsing an open document so that unsaved edits are reflected.
+     * Edits arriving within the delay are coalesced; queries flush pending edits first.
+     */
+    private onDocumentChanged(document: vscode.TextDocument): void {
+        if (!this.loading || !this.locate(document.uri)) {
+            return;
+        }
+        this.pendingDocuments.set(document.uri.toString(), document);
+        if (this.documentTimer) {
+            clearTimeout(this.documentTimer);
+        }
+        this.documentTimer = setTimeout(() => {
+            this.documentTimer = undefined;
+            this.flushPendingDocuments();
+        }, documentUpdateDelayMs);
+    }
+
+    /**
+     * Re-parses the documents edited since the last update.
+     */
+    private flushPendingDocuments(): void {
+        if (this.pendingDocuments.size === 0) {
+            return;
+        }
+        const documents = Array.from(this.pendingDocuments.values());
+        this.clearPendingDocuments();
+        for (const document of documents) {
+            const location = this.locate(document.uri);
+            if (location) {
+                this.changedDuringScan?.add(document.uri.toString());
+                this.setNote(document.uri, location.title, location.relativePath, document.getText());
+                this.changeEmitter.fire(document.uri);
+            }
+        }
+    }
+
+    private clearPendingDocuments(): void {
+        if (this.documentTimer) {
+            clearTimeout(this.documentTimer);
+            this.documentTimer = undefined;
+        }
+        this.pendingDocuments.clear();
+    }
+
+    /**
+     * Reads a file from disk and (re)indexes it.
+     */
+    private async reindexFile(uri: vscode.Uri): Promise<void> {
+        const location = this.locate(uri);
+        if (!location) {
+            return;
+        }
+        try {
+            const content = await this.fileWriter.read(uri);
+            this.changedDuringScan?.add(uri.toString());
+            this.setNote(uri, location.title, location.relativePath, content);
+            this.changeEmitter.fire(uri);
+        } catch (error) {
+            console.warn('[VaultIndex] Failed to reindex note:', uri.fsPath, error);
+        }
+    }
+
+    private setNote(uri: vscode.Uri, title: string, relativePath: string, content: string): void {
+        const key = uri.toString();
+        const previous = this.notes.get(key);
+        if (previous) {
+            this.unmapNote(key, previous);
+        }
+
+        this.notes.set(key, {
+            title,
+            uri,
+            relativePath,
+            links: extractWikiLinks(content),
+            headings: extractHeadings(content),
+            tasks: extractTasks(content),
+            blocks: extractBlockIds(content),
+            tags: extractTags(content),
+            aliases: extractAliases(content),
+            properties: parseFrontmatter(content)?.properties ?? [],
+            wordCount: countWords(content)
+        });
+
+        const note = this.notes.get(key)!;
+        const processor = new WikiLinkProcessor({ slugStrategy: this.configManager.getSlugStrategy() });
+        const linkNames = getLinkNames(note.links, processor);
+        this.contents.set(key, content);
+        this.linkNames.set(key, linkNames);
+        addToMap(this.titleMap, note.title, key);
+        note.aliases.forEach(alias => addToMap(this.aliasMap, alias, key));
+        linkNames.forEach(name => addToMap(this.linkNameMap, name, key));
+    }
+
+    /**
+     * Removes a note from the title, alias and link lookups.
+     */
+    private unmapNote(key: string, note: IndexedNote): void {
+        removeFromMap(this.titleMap, note.title, key);
+        note.aliases.forEach(alias => removeFromMap(this.aliasMap, alias, key));
+        this.linkNames.get(key)?.forEach(name => removeFromMap(this.linkNameMap, name, key));
+        this.linkNames.delete(key);
+        this.contents.delete(key);
+    }
+
+    private clearNotes(): void {
+        this.notes.clear();
+        this.titleMap.clear();
+        this.aliasMap.clear();
+        this.linkNameMap.clear();
+        this.linkNames.clear();
+        this.contents.clear();
+        this.attachments.clear();
+        this.attachmentNames.clear();
+    }
+
+    /**
+     * Adds an image or PDF to the index.
+     *
+     * @returns True when the file is an attachment inside the vault
+     */
+    private addAttachment(uri: vscode.Uri): boolean {
+        const relativePath = this.getVaultRelativePath(uri);
+        if (!relativePath || !PathUtil.getAttachmentKind(relativePath)) {
+            return false;
+        }
+        const key = uri.toString();
+        this.attachments.set(key, { uri, relativePath });
+        const name = relativePath.split('/').pop()!;
+        if (!this.attachmentNames.has(name)) {
+            this.attachmentNames.set(name, new Set());
+        }
+        this.attachmentNames.get(name)!.add(key);
+        return true;
+    }
+
+    /**
+     * Removes a deleted note, or every note below a deleted folder.
+     */
+    private removeNotes(uri: vscode.Uri): void {
+        const key = uri.toString();
+        this.changedDuringScan?.add(key);
+        const folderPrefix = `${key.replace(/\/+$/, '')}/`;
+        const removed = Array.from(this.notes.keys()).filter(k => k === key || k.startsWith(folderPrefix));
+        for (const k of removed) {
+            this.unmapNote(k, this.notes.get(k)!);
+            this.notes.delete(k);
+            this.pendingDocuments.delete(k);
+        }
+        for (const k of Array.from(this.attachments.keys()).filter(k => k === key || k.startsWith(folderPrefix))) {
+            const name = this.attachments.get(k)!.relativePath.split('/').pop()!;
+            this.attachmentNames.get(name)?.delete(k);
+            if (this.attachmentNames.get(name)?.size === 0) {
+                this.attachmentNames.delete(name);
+            }
+            this.attachments.delete(k);
+            removed.push(k);
+        }
+        if (removed.length > 0) {
+            // フォルダの削除では複数のノートが消えるため全体の変更として通知
+            this.changeEmitter.fire(removed.length === 1 && removed[0] === key ? uri : undefined);
+        }
+    }
+
+    private isIndexed(uri: vscode.Uri): boolean {
+        return this.notes.has(uri.toString());
+    }
+
+    /**
+     * Determines whether a URI belongs to the vault and computes its title and relative path.
+     *
+     * @returns Title and vault-relative path, or null when the file is outside the vault
+     */
+    private locate(uri: vscode.Uri): { title: string; relativePath: string } | null {
+        if (!this.workspaceFolder) {
+            return null;
+        }
+
+        const extension = this.configManager.getNoteExtension();
+        if (!uri.fsPath.endsWith(extension)) {
+            return null;
+        }
+
+        const relativePath = this.getVaultRelativePath(uri);
+        if (!relativePath || this.isExcluded(relativePath)) {
+            return null;
+        }
+
+        return { title: path.basename(uri.fsPath, extension), relativePath };
+    }
+
+    /**
+     * Computes the path of a file relative to the vault root.
+     *
+     * @returns Path with `/` separators, or null when the file is outside the vault or in `node_modules`
+     */
+    private getVaultRelativePath(uri: vscode.Uri): string | null {
+        if (!this.workspaceFolder) {
+            return null;
+        }
+        const relative = path.relative(this.getSearchBase(this.workspaceFolder), uri.fsPath);
+        if (relative.startsWith('..') || path.isAbsolute(relative)) {
+            return null;
+        }
+        const relativePath = relative.split(path.sep).join('/');
+        return relativePath.split('/').includes('node_modules') ? null : relativePath;
+    }
+
+    private getSearchBase(workspaceFolder: vscode.WorkspaceFolder): string {
+        const vaultRoot = this.configManager.getVaultRoot();
+        return vaultRoot && vaultRoot.trim() !== ''
+            ? path.join(workspaceFolder.uri.fsPath, vaultRoot)
+            : workspaceFolder.uri.fsPath;
+    }
+
+    /**
+     * Files in `node_modules` and in the templates folder are not notes of the vault.
+     * Templates hold placeholder links and checklists that would otherwise show up as
+     * broken links, open tasks and search results.
+     *
+     * @param relativePath - Vault-relative path with `/` separators
+     */
+    private isExcluded(relativePath: string): boolean {
+        if (relativePath.split('/').includes('node_modules')) {
+            return true;
+        }
+        const templatesFolder = this.configManager.getTemplatesFolder().trim().replace(/\\/g, '/').replace(/^\/+|\/+$/g, '');
+        return templatesFolder !== '' && relativePath.startsWith(`${templatesFolder}/`);
+    }
+}
+
+/**
+ * Checks whether a file, or a folder containing it, was updated or deleted by an event while the scan ran.
+ */
+function isChangedDuringScan(uri: vscode.Uri, changed: Set<string>): boolean {
+    const key = uri.toString();
+    return Array.from(changed).some(k => key === k || key.startsWith(`${k.replace(/\/+$/, '')}/`));
+}
+
+/**
+ * Gets the page names the links of a note may resolve through: the last path segment as
+ * written (for aliases) and its file name form (for titles). Malformed links are skipped.
+ */
+function getLinkNames(links: WikiLinkOccurrence[], processor: WikiLinkProcessor): string[] {
+    const names = new Set<string>();
+    for (const link of links) {
+        let pageName: string;
+        try {
+            pageName = processor.parseWikiLink(link.linkText).pageName;
+        } catch {
+            continue;
+        }
+        const name = (pageName.trim().split('/').pop() ?? '').trim();
+        names.add(name);
+        names.add(PathUtil.sanitizeFileName(processor.transformFileName(name)));
+    }
+    return Array.from(names);
+}
+
+function addToMap(map: Map<string, Set<string>>, name: string, key: string): void {
+    if (!map.has(name)) {
+        map.set(name, new Set());
+    }
+    map.get(name)!.add(key);
+}
+
+function removeFromMap(map: Map<string, Set<string>>, name: string, key: string): void {
+    const keys = map.get(name);
+    keys?.delete(key);
+    if (keys && keys.size === 0) {
+        map.delete(name);
+    }
+}
@@ -0,0 +1,336 @@
+/**
+ * @fileoverview WikiLink target resolution shared by navigation, link and backlink features.
+ * Applies the configured slug strategy and file name sanitization, then looks the
+ * result up in the VaultIndex, falling back to the default creation location.
+ * Path-qualified links restrict the lookup to a folder, and the configured resolution
+ * policy orders notes that share a title.
+ *
+ * @author MDloggerForCode Team
+ * @version 1.0.0
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { WikiLinkProcessor, formatLinkAnchor, type ParsedWikiLink } from '../processors/WikiLinkProcessor';
+import { ConfigurationManager } from '../managers/ConfigurationManager';
+import { PathUtil } from '../utils/PathUtil';
+import { WikiLinkOccurrence, findHeading } from '../utils/NoteParser';
+import { VaultIndex, IndexedNote } from './VaultIndex';
+
+/**
+ * Result of resolving a WikiLink to a file.
+ */
+export interface ResolvedWikiLink {
+    readonly parsedLink: ParsedWikiLink;
+    /** Page name after slug transformation and sanitization (without extension) */
+    readonly fileName: string;
+    /** URI of the existing note, or the location where a new note would be created */
+    readonly uri: vscode.Uri;
+    /** The existing note, or null when the target does not exist in the vault */
+    readonly note: IndexedNote | null;
+    /** Every note the link may point at, best match first (more than one when ambiguous) */
+    readonly candidates: IndexedNote[];
+    /** Zero-based line of the referenced heading or block, when it exists in the note */
+    readonly line: number | undefined;
+}
+
+/**
+ * A WikiLink in another note that points at a given target note.
+ */
+export interface Backlink {
+    readonly source: IndexedNote;
+    readonly link: WikiLinkOccurrence;
+    readonly parsedLink: ParsedWikiLink;
+}
+
+/**
+ * Folder part of a path-qualified page name such as `folder/Note` or `../Note`.
+ */
+interface LinkPath {
+    /** Page name without folders */
+    readonly name: string;
+    /** Vault-relative folder ('' for the vault root), or undefined when not path-qualified */
+    readonly folder?: string;
+    /** True when the folder is anchored (`/folder/Note`, `./Note`, `../Note`), false when it is a path suffix */
+    readonly exact: boolean;
+}
+
+/**
+ * Resolves WikiLink text to notes using the same rules everywhere:
+ * `parseWikiLink` → `transformFileName` → `PathUtil.sanitizeFileName` → index lookup.
+ *
+ * @class WikiLinkResolver
+ */
+export class WikiLinkResolver {
+    /**
+     * Creates a new WikiLinkResolver instance.
+     *
+     * @param configManager - Configuration manager for slug strategy and vault settings
+     * @param vaultIndex - Shared vault index used to look up existing notes
+     */
+    constructor(
+        private readonly configManager: ConfigurationManager,
+        private readonly vaultIndex: VaultIndex
+    ) {}
+
+    /**
+     * Creates a WikiLinkProcessor for the current slug strategy.
+     * Created on demand so that configuration changes take effect immediately.
+     */
+    getProcessor(): WikiLinkProcessor {
+        return new WikiLinkProcessor({ slugStrategy: this.configManager.getSlugStrategy() });
+    }
+
+    /**
+     * Converts a page name into the file name (without extension) used on disk.
+     *
+     * @param pageName - Page name as written inside the WikiLink
+     * @param processor - Processor to reuse when converting many names
+     * @returns Slug-transformed, file-system safe name
+     */
+    toFileName(pageName: string, processor: WikiLinkProcessor = this.getProcessor()): string {
+        return PathUtil.sanitizeFileName(processor.transformFileName(pageName));
+    }
+
+    /**
+     * Finds the existing note a parsed link points at.
+     * Requires the index to be loaded (see VaultIndex.ensureLoaded).
+     *
+     * @param parsedLink - The parsed WikiLink
+     * @param source - URI of the note containing the link, used for relative paths and the resolution policy
+     * @param processor - Processor to reuse when resolving many links
+     * @returns The target note, or null when it does not exist
+     */
+    findTargetNote(parsedLink: ParsedWikiLink, source?: vscode.Uri, processor?: WikiLinkProcessor): IndexedNote | null {
+        return this.findCandidates(parsedLink, source, processor)[0] ?? null;
+    }
+
+    /**
+     * Resolves every WikiLink of a note to its target note, skipping broken and malformed links.
+     * Requires the index to be loaded (see VaultIndex.ensureLoaded).
+     *
+     * @param note - The linking note
+     * @param processor - Processor to reuse when resolving many notes
+     * @returns The target of each resolvable link, in link order
+     */
+    getOutgoingTargets(note: IndexedNote, processor: WikiLinkProcessor = this.getProcessor()): IndexedNote[] {
+        const targets: IndexedNote[] = [];
+        for (const link of note.links) {
+            try {
+                const target = this.findTargetNote(processor.parseWikiLink(link.linkText, link.isEmbed), note.uri, processor);
+                if (target) {
+                    targets.push(target);
+                }
+            } catch {
+                // 不正なリンクは無視
+            }
+        }
+        return targets;
+    }
+
+    /**
+     * Finds every existing note a parsed link may point at, best match first.
+     * `[[folder/Note]]` matches notes whose folder ends with `folder`, `[[/folder/Note]]`
+     * is relative to the vault root and `[[./Note]]` / `[[../Note]]` to the linking note.
+     * When no note has the title, notes declaring it as a frontmatter alias match instead.
+     * Notes sharing the title are ordered by the configured resolution policy.
+     * Requires the index to be loaded (see VaultIndex.ensureLoaded).
+     *
+     * @param parsedLink - The parsed WikiLink
+     * @param source - URI of the note containing the link, used for relative paths and the resolution policy
+     * @param processor - Processor to reuse when resolving many links
+     * @returns Matching notes (empty when the target does not exist)
+     */
+    findCandidates(parsedLink: ParsedWikiLink, source?: vscode.Uri, processor: WikiLinkProcessor = this.getProcessor()): IndexedNote[] {
+        const sourceFolder = this.getSourceFolder(source);
+        const linkPath = this.parseLinkPath(parsedLink.pageName, sourceFolder);
+        if (!linkPath) {
+            return [];
+        }
+
+        let notes = this.vaultIndex.getNotesByTitle(this.toFileName(linkPath.name, processor));
+        if (notes.length === 0) {
+            // タイトルが一致しない場合のみ frontmatter の aliases で解決する
+            notes = this.vaultIndex.getNotesByAlias(linkPath.name);
+        }
+
+        const candidates = notes.filter(note => {
+            const folder = this.getFolder(note.relativePath);
+            if (linkPath.folder === undefined) {
+                // サブディレクトリ検索が無効な場合はVaultルート直下のノートのみ対象
+                return this.configManager.getSearchSubdirectories() || folder === '';
+            }
+            if (linkPath.exact || linkPath.folder === '') {
+                return folder === linkPath.folder;
+            }
+            return folder === linkPath.folder || folder.endsWith(`/${linkPath.folder}`);
+        });
+
+        if (candidates.length < 2 || sourceFolder === undefined) {
+            return candidates;
+        }
+
+        // getNotesByTitle は浅い順なので、安定ソートで同順位は浅い方が先になる
+        switch (this.configManager.getLinkResolution()) {
+            case 'sameFolder':
+                return candidates.sort((a, b) =>
+                    Number(this.getFolder(b.relativePath) === sourceFolder) - Number(this.getFolder(a.relativePath) === sourceFolder));
+            case 'closest':
+            case 'prompt':
+                return candidates.sort((a, b) =>
+                    this.getFolderDistance(sourceFolder, this.getFolder(a.relativePath)) -
+                    this.getFolderDistance(sourceFolder, this.getFolder(b.relativePath)));
+            default:
+                return candidates;
+        }
+    }
+
+    /**
+     * Finds an attachment (image or PDF) referenced by a WikiLink such as `![[image.png]]`.
+     * When several files match, the one with the shortest path wins.
+     *
+     * @param pageName - Page name as written inside the WikiLink (may contain folders)
+     * @returns URI of the attachment, or undefined when it does not exist
+     */
+    async findAttachment(pageName: string): Promise<vscode.Uri | undefined> {
+        return this.vaultIndex.findAttachment(pageName);
+    }
+
+    /**
+     * Resolves WikiLink text to a target URI.
+     *
+     * @param linkText - The WikiLink text without [[ ]] brackets
+     * @param workspaceFolder - Workspace folder used for the default creation location
+     * @param source - URI of the note containing the link, used for relative paths and the resolution policy
+     * @returns Resolution result with the existing note or the default location
+     * @throws {WikiLinkError} When the link text is malformed
+     */
+    async resolve(linkText: string, workspaceFolder: vscode.WorkspaceFolder, source?: vscode.Uri): Promise<ResolvedWikiLink> {
+        const parsedLink = this.getProcessor().parseWikiLink(linkText);
+
+        await this.vaultIndex.ensureLoaded();
+        const candidates = this.findCandidates(parsedLink, source);
+        const note = candidates[0] ?? null;
+        const linkPath = this.parseLinkPath(parsedLink.pageName, this.getSourceFolder(source));
+        const fileName = this.toFileName(linkPath?.name ?? parsedLink.pageName);
+        const uri = note
+            ? note.uri
+            : PathUtil.createSafeUri(
+                this.configManager.getVaultRoot(),
+                fileName,
+                this.configManager.getNoteExtension(),
+                workspaceFolder,
+                linkPath?.folder
+            );
+
+        const anchor = formatLinkAnchor(parsedLink);
+        const line = note && anchor ? this.findAnchorLine(note, anchor) : undefined;
+
+        return { parsedLink, fileName, uri, note, candidates, line };
+    }
+
+    /**
+     * Finds the line a heading reference (`Heading`, `Parent#Child` or `^block-id`) points at.
+     *
+     * @param note - The target note
+     * @param anchor - The part of the link after the first `#`
+     * @returns Zero-based line number, or undefined when the heading or block does not exist
+     */
+    findAnchorLine(note: IndexedNote, anchor: string): number | undefined {
+        if (anchor.startsWith('^')) {
+            return note.blocks.find(block => block.id === anchor.substring(1))?.line;
+        }
+        return findHeading(note.headings, anchor)?.line;
+    }
+
+    /**
+     * Finds every WikiLink in the vault that resolves to the given note.
+     * Only the notes the index lists as linking to the title or an alias of the note are resolved.
+     *
+     * @param target - URI of the target note
+     * @returns Backlinks in source order (by note path, then by position)
+     */
+    async findBacklinks(target: vscode.Uri): Promise<Backlink[]> {
+        const targetNote = await this.vaultIndex.getNote(target);
+        if (!targetNote) {
+            return [];
+        }
+        const processor = this.getProcessor();
+        const targetKey = target.toString();
+        const results: Backlink[] = [];
+
+        const sources = this.vaultIndex.getNotesLinkingTo([targetNote.title, ...targetNote.aliases])
+            .sort((a, b) => a.relativePath.localeCompare(b.relativePath));
+        for (const source of sources) {
+            for (const link of source.links) {
+                let parsedLink: ParsedWikiLink;
+                try {
+                    parsedLink = processor.parseWikiLink(link.linkText);
+                } catch {
+                    continue;
+                }
+                const note = this.findTargetNote(parsedLink, source.uri, processor);
+                if (note && note.uri.toString() === targetKey) {
+                    results.push({ source, link, parsedLink });
+                }
+            }
+        }
+
+        return results;
+    }
+
+    /**
+     * Splits a page name into its folder and name parts.
+     *
+     * @param pageName - Page name as written inside the WikiLink
+     * @param sourceFolder - Vault-relative folder of the linking note, for `./` and `../`
+     * @returns The link path, or null when a relative path leaves the vault
+     */
+    private parseLinkPath(pageName: string, sourceFolder: string | undefined): LinkPath | null {
+        const segments = pageName.trim().split('/').map(segment => segment.trim());
+        const name = segments.pop() ?? '';
+        if (segments.length === 0) {
+            return { name, exact: false };
+        }
+
+        if (segments[0] === '') {
+            return { name, folder: segments.filter(segment => segment !== '').join('/'), exact: true };
+        }
+
+        if (segments[0] === '.' || segments[0] === '..') {
+            const folder = path.posix.normalize(path.posix.join(sourceFolder ?? '', ...segments));
+            if (folder === '..' || folder.startsWith('../')) {
+                return null;
+            }
+            return { name, folder: folder === '.' ? '' : folder.replace(/\/$/, ''), exact: true };
+        }
+
+        return { name, folder: segments.filter(segment => segment !== '').join('/'), exact: false };
+    }
+
+    /**
+     * Gets the vault-relative folder of the linking note.
+     */
+    private getSourceFolder(source: vscode.Uri | undefined): string | undefined {
+        const relativePath = source ? this.vaultIndex.getRelativePath(source) : undefined;
+        return relativePath === undefined ? undefined : this.getFolder(relativePath);
+    }
+
+    private getFolder(relativePath: string): string {
+        const folder = path.posix.dirname(relativePath);
+        return folder === '.' ? '' : folder;
+    }
+
+    /**
+     * Counts the folder steps (up and down) between two vault-relative folders.
+     */
+    private getFolderDistance(from: string, to: string): number {
+        const fromSegments = from === '' ? [] : from.split('/');
+        const toSegments = to === '' ? [] : to.split('/');
+        let common = 0;
+        while (common < fromSegments.length && common < toSegments.length && fromSegments[common] === toSegments[common]) {
+            common++;
+        }
+        return (fromSegments.length - common) + (toSegments.length - common);
+    }
+}
@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Month grid calculations for the calendar view.
+ * Lays out the weeks of a month starting on a configurable weekday, with ISO 8601
+ * week numbers, and converts word/task counts into indicator dots.
+ * Pure functions (no VS Code API) so they are easy to unit test.
+ *
+ * @author MDloggerForCode Team
+ * @version 1.0.0
+ */
+
+/** Short English weekday names, indexed like `Date.getDay()` (0 = Sunday). */
+const weekdayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * A day cell of the month grid.
+ */
+export interface CalendarDay {
+    /** Local midnight of the day */
+    date: Date;
+    /** False for the days of the previous/next month that fill the first and last weeks */
+    inMonth: boolean;
+}
+
+/**
+ * A row of the month grid.
+ */
+export interface CalendarWeek {
+    /** ISO 8601 week number of the row (the week containing its Thursday) */
+    weekNumber: number;
+    /** Seven days, starting on the configured first day of the week */
+    days: CalendarDay[];
+}
+
+/**
+ * Lays out the weeks of a month.
+ *
+ * @param year - Full year
+ * @param month - Month index (0 = January)
+ * @param firstDayOfWeek - Weekday the rows start on (0 = Sunday ... 6 = Saturday)
+ * @returns The rows covering every day of the month (4 to 6 weeks)
+ */
+export function buildMonthGrid(year: number, month: number, firstDayOfWeek: number): CalendarWeek[] {
+    const first = new Date(year, month, 1);
+    const lead = (first.getDay() - firstDayOfWeek + 7) % 7;
+    const weeks: CalendarWeek[] = [];
+
+    for (let start = 1 - lead; start <= daysInMonth(year, month); start += 7) {
+        const days: CalendarDay[] = [];
+        for (let i = 0; i < 7; i++) {
+            const date = new Date(year, month, start + i);
+            days.push({ date, inMonth: date.getMonth() === first.getMonth() });
+        }
+        // 7日間には木曜日がちょうど1日含まれ、その日の ISO 週番号が行の週番号になる
+        const thursday = days.find(day => day.date.getDay() === 4)!;
+        weeks.push({ weekNumber: getIsoWeek(thursday.date).week, days });
+    }
+
+    return weeks;
+}
+
+/**
+ * Gets the ISO 8601 week of a date (weeks start on Monday; week 1 contains the first Thursday).
+ *
+ * @param date - The date
+ * @returns The week-numbering year (may differ from the calendar year around New Year) and the week number
+ */
+export function getIsoWeek(date: Date): { year: number; week: number } {
+    // 同じ週の木曜日が属する年の、何番目の木曜日かで週番号が決まる
+    const thursday = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 3 - (date.getDay() + 6) % 7);
+    const dayOfYear = Math.round((thursday.getTime() - new Date(thursday.getFullYear(), 0, 1).getTime()) / 86400000);
+    return { year: thursday.getFullYear(), week: Math.floor(dayOfYear / 7) + 1 };
+}
+
+/**
+ * Gets the weekday header labels in display order.
+ *
+ * @param firstDayOfWeek - Weekday the rows start on (0 = Sunday ... 6 = Saturday)
+ * @returns Seven short weekday names
+ */
+export function getWeekdayLabels(firstDayOfWeek: number): string[] {
+    return weekdayNames.map((_, i) => weekdayNames[(firstDayOfWeek + i) % 7]);
+}
+
+/**
+ * Converts a count into a number of indicator dots.
+ * Any non-zero count shows at least one dot.
+ *
+ * @param count - Words, tasks, ...
+ * @param perDot - Count represented by one dot
+ * @param maxDots - Upper bound of dots
+ * @returns Number of dots to draw (0 to maxDots)
+ */
+export function countToDots(count: number, perDot: number, maxDots: number): number {
+    if (count <= 0) {
+        return 0;
+    }
+    return Math.min(maxDots, Math.max(1, Math.round(count / perDot)));
+}
+
+function daysInMonth(year: number, month: number): number {
+    return new Date(year, month + 1, 0).getDate();
+}
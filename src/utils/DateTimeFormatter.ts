@@ -2,11 +2,14 @@
  * @fileoverview Date and time formatting utilities for MDloggerForCode extension.
  * Provides flexible date/time formatting with custom token support, validation,
  * and extensible formatter registration for various output formats.
+ * Text inside square brackets is kept literally (e.g. `GGGG-[W]WW` → `2025-W38`).
  *
  * @author MDloggerForCode Team
  * @version 1.0.0
  */
 
+import { getIsoWeek } from './Calendar';
+
 /**
  * Result of format string validation.
  * Contains validation status and error information if validation fails.
@@ -24,7 +27,8 @@ export type CustomFormatterFunction = (date: Date) => string;
 
 /**
  * Flexible date and time formatter with custom token support.
- * Supports standard date/time tokens (YYYY, MM, DD, HH, mm, ss, etc.)
+ * Supports standard date/time tokens (YYYY, MM, DD, HH, mm, ss, etc.), ISO week tokens
+ * (GGGG week-numbering year, WW/W week number), the quarter token (Q)
  * and allows registration of custom formatting functions for specialized needs.
  *
  * @class DateTimeFormatter
@@ -56,6 +60,86 @@ export class DateTimeFormatter {
         return this.applyFormatTokens(date, format);
     }
 
+    /**
+     * Parses a date formatted with the given format string (the inverse of formatDate).
+     * The format must contain a year token, or an ISO week-year and week token (parsed to the
+     * Monday of the week). A missing day defaults to the 1st and a missing month to the first
+     * month of the quarter (Q) or January, so period names such as `2025-09` or `2025-Q3` parse
+     * to the first day of the period. Time tokens are matched but ignored, and custom tokens match any text.
+     *
+     * @param text - The formatted date (e.g., '2025-09-18')
+     * @param format - Format string the text was produced with (e.g., 'YYYY-MM-DD')
+     * @returns The date at local midnight, or undefined when the text does not match the format
+     */
+    parseDate(text: string, format: string): Date | undefined {
+        const patterns: Record<string, string> = {
+            YYYY: '(\\d{4})', YY: '(\\d{2})', MM: '(\\d{2})', M: '(\\d{1,2})', DD: '(\\d{2})', D: '(\\d{1,2})',
+            GGGG: '(\\d{4})', WW: '(\\d{2})', W: '(\\d{1,2})', Q: '([1-4])',
+            HH: '(\\d{2})', hh: '(\\d{2})', mm: '(\\d{2})', ss: '(\\d{2})',
+            H: '(\\d{1,2})', h: '(\\d{1,2})', m: '(\\d{1,2})', s: '(\\d{1,2})', A: '(AM|PM)', a: '(am|pm)'
+        };
+        for (const token of this.customFormatters.keys()) {
+            patterns[token] = '(.+?)';
+        }
+        const tokens = Object.keys(patterns).sort((a, b) => b.length - a.length);
+
+        let source = '';
+        const groups: string[] = [];
+        let i = 0;
+        while (i < format.length) {
+            const literal = this.matchLiteral(format, i);
+            if (literal) {
+                source += literal.text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+                i += literal.length;
+                continue;
+            }
+            const token = tokens.find(t => format.startsWith(t, i));
+            if (token) {
+                source += patterns[token];
+                groups.push(token);
+                i += token.length;
+            } else {
+                source += format[i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+                i++;
+            }
+        }
+
+        const match = text.match(new RegExp(`^${source}$`));
+        if (!match) {
+            return undefined;
+        }
+        const value = (token: string) => {
+            const index = groups.indexOf(token);
+            return index === -1 ? undefined : Number(match[index + 1]);
+        };
+
+        const weekYear = value('GGGG');
+        const week = value('WW') ?? value('W');
+        if (weekYear !== undefined && week !== undefined) {
+            // 1月4日を含む週が第1週
+            const jan4 = new Date(weekYear, 0, 4);
+            const monday = new Date(weekYear, 0, 4 - (jan4.getDay() + 6) % 7 + (week - 1) * 7);
+            const iso = getIsoWeek(monday);
+            return iso.year === weekYear && iso.week === week ? monday : undefined;
+        }
+
+        const shortYear = value('YY');
+        const year = value('YYYY') ?? (shortYear !== undefined ? 2000 + shortYear : undefined);
+        const quarter = value('Q');
+        const month = value('MM') ?? value('M') ?? (quarter !== undefined ? quarter * 3 - 2 : 1);
+        const day = value('DD') ?? value('D') ?? 1;
+        if (year === undefined) {
+            return undefined;
+        }
+
+        const date = new Date(year, month - 1, day);
+        // 2月30日のような存在しない日付は繰り上がるため不一致になる
+        if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) {
+            return undefined;
+        }
+        return date;
+    }
+
     /**
      * Registers a custom formatter for a specific token.
      *
@@ -81,8 +165,8 @@ export class DateTimeFormatter {
             };
         }
 
-        const tokens = format.match(/[A-Z]+/g) || [];
-        const validTokens = ['YYYY', 'YY', 'MM', 'M', 'DD', 'D', 'HH', 'H', 'hh', 'h', 'mm', 'm', 'ss', 's', 'A', 'a'];
+        const tokens = format.replace(/\[[^\]]*\]/g, '').match(/[A-Z]+/g) || [];
+        const validTokens = ['YYYY', 'YY', 'MM', 'M', 'DD', 'D', 'HH', 'H', 'hh', 'h', 'mm', 'm', 'ss', 's', 'A', 'a', 'GGGG', 'WW', 'W', 'Q'];
         
         for (const token of tokens) {
             if (!validTokens.includes(token) && !this.customFormatters.has(token)) {
@@ -132,6 +216,7 @@ export class DateTimeFormatter {
      * @returns Array of standard token mappings
      */
     private getStandardTokens(date: Date): Array<{ token: string; value: string }> {
+        const isoWeek = getIsoWeek(date);
         return [
             { token: 'YYYY', value: date.getFullYear().toString() },
             { token: 'MM', value: this.padZero(date.getMonth() + 1, 2) },
@@ -148,7 +233,11 @@ export class DateTimeFormatter {
             { token: 'm', value: date.getMinutes().toString() },
             { token: 's', value: date.getSeconds().toString() },
             { token: 'A', value: date.getHours() >= 12 ? 'PM' : 'AM' },
-            { token: 'a', value: date.getHours() >= 12 ? 'pm' : 'am' }
+            { token: 'a', value: date.getHours() >= 12 ? 'pm' : 'am' },
+            { token: 'GGGG', value: isoWeek.year.toString() },
+            { token: 'WW', value: this.padZero(isoWeek.week, 2) },
+            { token: 'W', value: isoWeek.week.toString() },
+            { token: 'Q', value: (Math.floor(date.getMonth() / 3) + 1).toString() }
         ];
     }
 
@@ -182,6 +271,13 @@ export class DateTimeFormatter {
         let i = 0;
 
         while (i < chars.length) {
+            const literal = this.matchLiteral(format, i);
+            if (literal) {
+                result.push(literal.text);
+                i += literal.length;
+                continue;
+            }
+
             const matchedToken = this.findMatchingToken(chars, i, tokenMappings);
             
             if (matchedToken) {
@@ -196,6 +292,24 @@ export class DateTimeFormatter {
         return result.join('');
     }
 
+    /**
+     * Matches a bracketed literal (e.g. `[W]`) at the specified position of the format string.
+     *
+     * @param format - The format string
+     * @param position - Current position in the format string
+     * @returns The literal text and the length of the bracketed part, or null if none starts here
+     */
+    private matchLiteral(format: string, position: number): { text: string; length: number } | null {
+        if (format[position] !== '[') {
+            return null;
+        }
+        const end = format.indexOf(']', position + 1);
+        if (end === -1) {
+            return null;
+        }
+        return { text: format.slice(position + 1, end), length: end - position + 1 };
+    }
+
     /**
      * Finds a matching token at the specified position in the character array.
      *
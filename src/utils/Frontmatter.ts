@@ -0,0 +1,504 @@
+/**
+ * @fileoverview Frontmatter (YAML properties) parsing and editing.
+ * Understands the YAML subset used for note properties: scalars, quoted strings,
+ * inline and block lists, block scalars and nested values (kept as raw text).
+ * Edits only touch the lines of the changed property, so the rest of the
+ * frontmatter round-trips byte for byte.
+ *
+ * @author MDloggerForCode Team
+ * @version 1.0.0
+ */
+
+/**
+ * Value of a property: a scalar string or a list of strings.
+ * Nested mappings are returned as their raw (indented) text.
+ */
+export type FrontmatterValue = string | string[];
+
+/**
+ * A top-level property of the frontmatter.
+ */
+export interface FrontmatterProperty {
+    key: string;
+    value: FrontmatterValue;
+    /** Line of the `key:` entry */
+    line: number;
+    /** Last line belonging to the property (block list items, block scalars) */
+    endLine: number;
+    /** Character offset of the value on the key line (after `key: `) */
+    valueCharacter: number;
+    /** True for lists written as `- item` lines below the key */
+    isBlockList: boolean;
+}
+
+/**
+ * An entry of a list property, with the position of its text in the note.
+ */
+export interface FrontmatterListItem {
+    value: string;
+    line: number;
+    /** Character offset of the entry text (inside the quotes of quoted entries) */
+    character: number;
+}
+
+/**
+ * A syntax problem found while parsing the frontmatter.
+ */
+export interface FrontmatterError {
+    line: number;
+    character: number;
+    length: number;
+    message: string;
+}
+
+/**
+ * The parsed frontmatter of a note.
+ */
+export interface Frontmatter {
+    /** Line of the closing `---`, or -1 when the frontmatter is not closed */
+    endLine: number;
+    properties: FrontmatterProperty[];
+    errors: FrontmatterError[];
+}
+
+/**
+ * Replacement of whole lines that applies a frontmatter change to a note.
+ * `deleteCount` lines starting at `startLine` are replaced by `lines`.
+ */
+export interface FrontmatterEdit {
+    startLine: number;
+    deleteCount: number;
+    lines: string[];
+}
+
+const keyLineRegex = /^([^\s#:\-[\]{}"'][^:]*?)\s*:(?:[ \t]+(.*)|)$/;
+const listItemRegex = /^(\s*)-(?:\s+(.*)|)$/;
+
+/**
+ * Parses the frontmatter at the top of a note.
+ *
+ * @param content - Full note content
+ * @returns The parsed frontmatter, or undefined when the note does not start with `---`
+ */
+export function parseFrontmatter(content: string): Frontmatter | undefined {
+    const lines = content.split(/\r?\n/);
+    if (lines[0]?.trim() !== '---') {
+        return undefined;
+    }
+
+    const endLine = lines.findIndex((line, i) => i > 0 && /^(---|\.\.\.)\s*$/.test(line));
+    if (endLine === -1) {
+        return {
+            endLine,
+            properties: [],
+            errors: [{ line: 0, character: 0, length: lines[0].length, message: 'Frontmatter is not closed with "---"' }]
+        };
+    }
+
+    const properties: FrontmatterProperty[] = [];
+    const errors: FrontmatterError[] = [];
+    const seen = new Set<string>();
+
+    let i = 1;
+    while (i < endLine) {
+        const line = lines[i];
+        if (line.trim() === '' || /^\s*#/.test(line)) {
+            i++;
+            continue;
+        }
+
+        const tab = line.match(/^ *\t/);
+        if (tab) {
+            errors.push({ line: i, character: 0, length: tab[0].length, message: 'Tabs are not allowed for indentation' });
+            i++;
+            continue;
+        }
+
+        const keyMatch = line.match(keyLineRegex);
+        if (!keyMatch) {
+            const indent = line.length - line.trimStart().length;
+            errors.push({
+                line: i,
+                character: indent,
+                length: line.length - indent,
+                message: indent > 0 || line.trimStart().startsWith('-')
+                    ? 'Unexpected indentation: the line does not belong to a property'
+                    : 'Expected "key: value"'
+            });
+            i++;
+            continue;
+        }
+
+        const key = keyMatch[1];
+        const rawValue = keyMatch[2] ?? '';
+        const valueCharacter = rawValue === '' ? line.length : line.length - rawValue.length;
+        if (seen.has(key)) {
+            errors.push({ line: i, character: 0, length: key.length, message: `Duplicate property "${key}"` });
+        }
+        seen.add(key);
+
+        // キー行に続くインデント行/リスト項目はこのプロパティに属する
+        let end = i;
+        while (end + 1 < endLine && (/^\s/.test(lines[end + 1]) || listItemRegex.test(lines[end + 1]) || lines[end + 1].trim() === '')) {
+            end++;
+        }
+        while (end > i && lines[end].trim() === '') {
+            end--;
+        }
+        const body = lines.slice(i + 1, end + 1);
+
+        const property: FrontmatterProperty = { key, value: '', line: i, endLine: end, valueCharacter, isBlockList: false };
+        const value = stripComment(rawValue).trim();
+        if (value === '' && body.length > 0 && listItemRegex.test(body[0])) {
+            property.isBlockList = true;
+            property.value = parseBlockList(body, i + 1, errors);
+        } else if (/^[|>][+-]?\d*$/.test(value)) {
+            property.value = parseBlockScalar(body, value.startsWith('|'));
+        } else if (value === '' && body.length > 0) {
+            property.value = body.join('\n');
+        } else if (body.length > 0 && !/^["'[{]/.test(value)) {
+            // 複数行にまたがるプレーンスカラーは空白で連結する
+            property.value = [value, ...body.map(l => l.trim()).filter(l => l !== '')].join(' ');
+        } else {
+            property.value = parseInlineValue(value, i, valueCharacter, errors);
+            body.forEach((text, j) => {
+                if (text.trim() !== '') {
+                    errors.push({
+                        line: i + 1 + j,
+                        character: 0,
+                        length: text.length,
+                        message: 'Unexpected indentation: the line does not belong to a property'
+                    });
+                }
+            });
+        }
+
+        properties.push(property);
+        i = end + 1;
+    }
+
+    return { endLine, properties, errors };
+}
+
+/**
+ * Gets the value of a property.
+ *
+ * @param content - Full note content
+ * @param key - Property key
+ * @returns The value, or undefined when the property does not exist
+ */
+export function getFrontmatterProperty(content: string, key: string): FrontmatterValue | undefined {
+    return parseFrontmatter(content)?.properties.find(p => p.key === key)?.value;
+}
+
+/**
+ * Gets the entries of list properties with their positions. Inline lists (`[a, "b"]`)
+ * and block lists (`- a`) are read as YAML; a plain scalar is read as a comma-separated
+ * list (`key: a, b`), as Obsidian does for tags and aliases.
+ *
+ * @param content - Full note content
+ * @param keys - Keys of the properties to read (e.g. `tags` and `tag`)
+ * @param splitOnSpaces - Also split plain scalars on whitespace (`tags: a b`)
+ * @returns The entries of all matching properties, in document order
+ */
+export function getFrontmatterListItems(content: string, keys: string[], splitOnSpaces = false): FrontmatterListItem[] {
+    const frontmatter = parseFrontmatter(content);
+    if (!frontmatter) {
+        return [];
+    }
+
+    const lines = content.split(/\r?\n/);
+    const results: FrontmatterListItem[] = [];
+    const push = (raw: string, line: number, character: number) => {
+        const quoted = /^["']/.test(raw) && isClosedQuote(raw);
+        const value = quoted ? unquoteScalar(raw) : raw;
+        if (value.trim() !== '') {
+            results.push({ value, line, character: character + (quoted ? 1 : 0) });
+        }
+    };
+
+    for (const property of frontmatter.properties.filter(p => keys.includes(p.key))) {
+        if (property.isBlockList) {
+            for (let i = property.line + 1; i <= property.endLine; i++) {
+                const item = lines[i].match(listItemRegex);
+                const raw = stripComment(item?.[2] ?? '').trim();
+                if (raw !== '') {
+                    push(raw, i, lines[i].indexOf(raw, item![1].length + 1));
+                }
+            }
+            continue;
+        }
+
+        // インライン形式はキー行の値だけを読む
+        const text = stripComment(lines[property.line].substring(property.valueCharacter)).trimEnd();
+        if (Array.isArray(property.value)) {
+            const open = text.indexOf('[') + 1;
+            for (const item of splitFlowList(text.slice(open, -1)) ?? []) {
+                push(item.text, property.line, property.valueCharacter + open + item.offset);
+            }
+        } else if (text !== '' && !/^[[{|>]/.test(text)) {
+            for (const item of splitFlowList(text) ?? []) {
+                const parts = splitOnSpaces && !/^["']/.test(item.text)
+                    ? Array.from(item.text.matchAll(/\S+/g), m => ({ text: m[0], offset: item.offset + m.index! }))
+                    : [item];
+                for (const part of parts) {
+                    push(part.text, property.line, property.valueCharacter + part.offset);
+                }
+            }
+        }
+    }
+
+    return results;
+}
+
+/**
+ * Formats a value as it is written after `key: `. Strings are quoted only when plain
+ * YAML would read them differently; lists use the inline `[a, b]` form.
+ *
+ * @param value - The value to format
+ * @returns The YAML text of the value
+ */
+export function formatFrontmatterValue(value: FrontmatterValue): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(item => formatScalar(item, true)).join(', ')}]`;
+    }
+    return formatScalar(value, false);
+}
+
+/**
+ * Computes the line edit that sets a property, creating the frontmatter when the note
+ * has none. Block lists stay block lists and the key keeps its position.
+ *
+ * @param content - Full note content
+ * @param key - Property key
+ * @param value - New value
+ * @returns The edit, or undefined when the value is unchanged or the frontmatter is not closed
+ */
+export function computePropertyEdit(content: string, key: string, value: FrontmatterValue): FrontmatterEdit | undefined {
+    const frontmatter = parseFrontmatter(content);
+    if (!frontmatter) {
+        return { startLine: 0, deleteCount: 0, lines: ['---', ...formatProperty(key, value, false, '  '), '---'] };
+    }
+    if (frontmatter.endLine === -1) {
+        return undefined;
+    }
+
+    const existing = frontmatter.properties.find(p => p.key === key);
+    if (!existing) {
+        return { startLine: frontmatter.endLine, deleteCount: 0, lines: formatProperty(key, value, false, '  ') };
+    }
+    if (valuesEqual(existing.value, value)) {
+        return undefined;
+    }
+
+    const lines = content.split(/\r?\n/);
+    const indent = existing.isBlockList ? lines[existing.line + 1].match(/^\s*/)![0] : '  ';
+    const prefix = lines[existing.line].substring(0, lines[existing.line].indexOf(':') + 1);
+    const formatted = formatProperty(key, value, existing.isBlockList, indent);
+    formatted[0] = prefix + formatted[0].substring(formatted[0].indexOf(':') + 1);
+    return { startLine: existing.line, deleteCount: existing.endLine - existing.line + 1, lines: formatted };
+}
+
+/**
+ * Sets a property and returns the updated note. Everything except the lines of the
+ * changed property is preserved, including comments, quoting and line endings.
+ *
+ * @param content - Full note content
+ * @param key - Property key
+ * @param value - New value
+ * @returns The updated content (unchanged when the value already matches)
+ */
+export function setFrontmatterProperty(content: string, key: string, value: FrontmatterValue): string {
+    const edit = computePropertyEdit(content, key, value);
+    if (!edit) {
+        return content;
+    }
+    const eol = content.includes('\r\n') ? '\r\n' : '\n';
+    const lines = content.split(/\r?\n/);
+    lines.splice(edit.startLine, edit.deleteCount, ...edit.lines);
+    return lines.join(eol);
+}
+
+/**
+ * Removes a property and returns the updated note. The frontmatter itself is removed
+ * when no other property (or comment) is left in it.
+ *
+ * @param content - Full note content
+ * @param key - Property key
+ * @returns The updated content (unchanged when the property does not exist or the frontmatter is not closed)
+ */
+export function removeFrontmatterProperty(content: string, key: string): string {
+    const frontmatter = parseFrontmatter(content);
+    const property = frontmatter?.properties.find(p => p.key === key);
+    if (!frontmatter || frontmatter.endLine === -1 || !property) {
+        return content;
+    }
+    const eol = content.includes('\r\n') ? '\r\n' : '\n';
+    const lines = content.split(/\r?\n/);
+    lines.splice(property.line, property.endLine - property.line + 1);
+    const endLine = frontmatter.endLine - (property.endLine - property.line + 1);
+    if (lines.slice(1, endLine).every(line => line.trim() === '')) {
+        lines.splice(0, endLine + 1);
+    }
+    return lines.join(eol);
+}
+
+function formatProperty(key: string, value: FrontmatterValue, blockList: boolean, indent: string): string[] {
+    if (Array.isArray(value) && blockList) {
+        return [`${key}:`, ...value.map(item => `${indent}- ${formatScalar(item, false)}`)];
+    }
+    return [`${key}: ${formatFrontmatterValue(value)}`];
+}
+
+function formatScalar(value: string, inList: boolean): string {
+    const needsQuotes = value === '' ||
+        value !== value.trim() ||
+        /^[-?:,[\]{}#&*!|>'"%@`]/.test(value) ||
+        /: | #|:$/.test(value) ||
+        (inList && /[,[\]{}]/.test(value)) ||
+        /^(true|false|yes|no|on|off|null|~)$/i.test(value) ||
+        /^[-+]?(\d[\d_]*)?\.?\d+([eE][-+]?\d+)?$/.test(value) ||
+        /[\n\r\t]/.test(value);
+    if (!needsQuotes) {
+        return value;
+    }
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n').replace(/\r/g, '\\r').replace(/\t/g, '\\t')}"`;
+}
+
+function valuesEqual(a: FrontmatterValue, b: FrontmatterValue): boolean {
+    if (Array.isArray(a) || Array.isArray(b)) {
+        return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((item, i) => item === b[i]);
+    }
+    return a === b;
+}
+
+/**
+ * Removes a trailing ` # comment` outside of quotes.
+ */
+function stripComment(value: string): string {
+    let quote: string | undefined;
+    for (let i = 0; i < value.length; i++) {
+        const ch = value[i];
+        if (quote) {
+            if (ch === '\\' && quote === '"') {
+                i++;
+            } else if (ch === quote) {
+                quote = undefined;
+            }
+        } else if (ch === '"' || ch === '\'') {
+            quote = ch;
+        } else if (ch === '#' && (i === 0 || /\s/.test(value[i - 1]))) {
+            return value.substring(0, i);
+        }
+    }
+    return value;
+}
+
+function parseInlineValue(value: string, line: number, character: number, errors: FrontmatterError[]): FrontmatterValue {
+    const report = (message: string) => errors.push({ line, character, length: value.length, message });
+
+    if (value.startsWith('[')) {
+        if (!value.endsWith(']')) {
+            report('Unclosed list: expected "]"');
+            return value;
+        }
+        const items = splitFlowList(value.slice(1, -1));
+        if (!items) {
+            report('Unterminated quoted string in list');
+            return value;
+        }
+        return items.map(item => unquoteScalar(item.text)).filter(item => item !== '');
+    }
+    if (value.startsWith('{') && !value.endsWith('}')) {
+        report('Unclosed mapping: expected "}"');
+        return value;
+    }
+    if (/^["']/.test(value)) {
+        if (!isClosedQuote(value)) {
+            report('Unterminated quoted string');
+            return value;
+        }
+        return unquoteScalar(value);
+    }
+    if (/:\s/.test(value)) {
+        report('Nested mappings must be on their own lines; quote values containing ": "');
+    }
+    return value;
+}
+
+function parseBlockList(body: string[], firstLine: number, errors: FrontmatterError[]): string[] {
+    const items: string[] = [];
+    body.forEach((text, j) => {
+        const item = text.match(listItemRegex);
+        if (!item) {
+            // ネストしたリスト/マップの続き行は前の項目の一部として扱う
+            if (text.trim() !== '' && items.length === 0) {
+                errors.push({ line: firstLine + j, character: 0, length: text.length, message: 'Expected a list item ("- value")' });
+            }
+            return;
+        }
+        const raw = stripComment(item[2] ?? '').trim();
+        if (/^["']/.test(raw) && !isClosedQuote(raw)) {
+            errors.push({ line: firstLine + j, character: item[1].length + 2, length: raw.length, message: 'Unterminated quoted string' });
+            return;
+        }
+        items.push(unquoteScalar(raw));
+    });
+    return items.filter(item => item !== '');
+}
+
+function parseBlockScalar(body: string[], literal: boolean): string {
+    const indent = Math.min(...body.filter(l => l.trim() !== '').map(l => l.length - l.trimStart().length));
+    const text = body.map(l => l.substring(Number.isFinite(indent) ? indent : 0));
+    return literal ? text.join('\n') : text.join(' ').replace(/ {2,}/g, ' ').trim();
+}
+
+/**
+ * Splits the inside of `[a, "b, c"]` on commas outside of quotes. Items are trimmed;
+ * `offset` is the position of each item in `inner`.
+ * Returns undefined when a quoted item is not terminated.
+ */
+function splitFlowList(inner: string): { text: string; offset: number }[] | undefined {
+    const items: { text: string; offset: number }[] = [];
+    let start = 0;
+    let quote: string | undefined;
+    const push = (end: number) => {
+        const raw = inner.substring(start, end);
+        items.push({ text: raw.trim(), offset: start + raw.length - raw.trimStart().length });
+    };
+    for (let i = 0; i < inner.length; i++) {
+        const ch = inner[i];
+        if (quote) {
+            if (ch === '\\' && quote === '"' && i + 1 < inner.length) {
+                i++;
+            } else if (ch === quote) {
+                quote = undefined;
+            }
+        } else if (ch === ',') {
+            push(i);
+            start = i + 1;
+        } else if ((ch === '"' || ch === '\'') && inner.substring(start, i).trim() === '') {
+            quote = ch;
+        }
+    }
+    if (quote) {
+        return undefined;
+    }
+    push(inner.length);
+    return items;
+}
+
+function isClosedQuote(raw: string): boolean {
+    return /^"(?:[^"\\]|\\.)*"$/.test(raw) || /^'(?:[^']|'')*'$/.test(raw);
+}
+
+function unquoteScalar(raw: string): string {
+    if (/^"(?:[^"\\]|\\.)*"$/.test(raw)) {
+        return raw.slice(1, -1).replace(/\\(.)/g, (_, ch: string) =>
+            ({ n: '\n', r: '\r', t: '\t' } as Record<string, string>)[ch] ?? ch);
+    }
+    if (/^'(?:[^']|'')*'$/.test(raw)) {
+        return raw.slice(1, -1).replace(/''/g, '\'');
+    }
+    return raw;
+}
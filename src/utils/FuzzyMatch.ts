@@ -0,0 +1,82 @@
+/**
+ * @fileoverview Fuzzy string matching helpers used to suggest corrections for
+ * mistyped note titles and headings. Pure functions without VS Code dependencies.
+ *
+ * @author MDloggerForCode Team
+ * @version 1.0.0
+ */
+
+/**
+ * A candidate string together with its edit distance to the query.
+ */
+export interface FuzzyMatch {
+    value: string;
+    distance: number;
+}
+
+/**
+ * Computes the Levenshtein edit distance between two strings.
+ *
+ * @param a - First string
+ * @param b - Second string
+ * @returns Number of single-character insertions, deletions and substitutions
+ */
+export function levenshteinDistance(a: string, b: string): number {
+    if (a === b) {
+        return 0;
+    }
+    if (a.length === 0) {
+        return b.length;
+    }
+    if (b.length === 0) {
+        return a.length;
+    }
+
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + cost
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+/**
+ * Finds the candidates closest to the query, ignoring case.
+ * Candidates further away than roughly a third of the query length are dropped
+ * so that unrelated titles are not suggested.
+ *
+ * @param query - The mistyped string
+ * @param candidates - Strings to choose from (duplicates are ignored)
+ * @param limit - Maximum number of results
+ * @returns Matches sorted by distance, then alphabetically
+ */
+export function findClosestMatches(query: string, candidates: Iterable<string>, limit = 3): FuzzyMatch[] {
+    const normalizedQuery = query.toLowerCase();
+    const maxDistance = Math.max(2, Math.ceil(normalizedQuery.length / 3));
+    const seen = new Set<string>();
+    const matches: FuzzyMatch[] = [];
+
+    for (const value of candidates) {
+        if (seen.has(value)) {
+            continue;
+        }
+        seen.add(value);
+
+        const distance = levenshteinDistance(normalizedQuery, value.toLowerCase());
+        if (distance <= maxDistance) {
+            matches.push({ value, distance });
+        }
+    }
+
+    return matches
+        .sort((a, b) => a.distance - b.distance || a.value.localeCompare(b.value))
+        .slice(0, limit);
+}
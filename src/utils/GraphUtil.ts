@@ -0,0 +1,144 @@
+/**
+ * @fileoverview Graph model of the vault used by the graph view.
+ * Nodes are notes and edges are resolved WikiLinks; helpers restrict the graph to
+ * a folder, a tag, or the neighborhood of a note.
+ *
+ * @author MDloggerForCode Team
+ * @version 1.0.0
+ */
+
+/**
+ * A note in the graph.
+ */
+export interface GraphNode {
+    /** Note URI string */
+    readonly id: string;
+    readonly title: string;
+    /** Path relative to the vault root */
+    readonly path: string;
+    /** Tags of the note without "#" */
+    readonly tags: string[];
+    /** True when the note neither links to nor is linked from another note */
+    orphan: boolean;
+}
+
+/**
+ * A WikiLink between two notes. Parallel links are merged into one edge.
+ */
+export interface GraphEdge {
+    readonly source: string;
+    readonly target: string;
+}
+
+/**
+ * Nodes and edges of the vault graph.
+ */
+export interface GraphData {
+    readonly nodes: GraphNode[];
+    readonly edges: GraphEdge[];
+}
+
+/**
+ * Options restricting the displayed graph.
+ */
+export interface GraphFilter {
+    /** Only notes in this folder (relative to the vault root) or its subfolders */
+    readonly folder?: string;
+    /** Only notes with this tag or one of its nested tags */
+    readonly tag?: string;
+    /** Center of the local graph (node ID); the whole vault when omitted */
+    readonly center?: string;
+    /** Number of links to follow from the center in local mode */
+    readonly hops?: number;
+}
+
+/**
+ * Creates graph data from nodes and raw edges: removes self-links, duplicate edges and
+ * edges to unknown nodes, and marks orphan nodes.
+ *
+ * @param nodes - Graph nodes (the orphan flag is overwritten)
+ * @param edges - Links between node IDs, in any order and possibly repeated
+ * @returns Normalized graph data
+ */
+export function createGraph(nodes: GraphNode[], edges: GraphEdge[]): GraphData {
+    const ids = new Set(nodes.map(node => node.id));
+    const seen = new Set<string>();
+    const connected = new Set<string>();
+    const uniqueEdges: GraphEdge[] = [];
+
+    for (const edge of edges) {
+        const key = `${edge.source}\n${edge.target}`;
+        if (edge.source === edge.target || !ids.has(edge.source) || !ids.has(edge.target) || seen.has(key)) {
+            continue;
+        }
+        seen.add(key);
+        connected.add(edge.source);
+        connected.add(edge.target);
+        uniqueEdges.push(edge);
+    }
+
+    nodes.forEach(node => { node.orphan = !connected.has(node.id); });
+    return { nodes, edges: uniqueEdges };
+}
+
+/**
+ * Restricts a graph to the local neighborhood of a note and/or to a folder or tag.
+ * The local neighborhood follows links in both directions. The center note is kept
+ * even when it does not match the folder or tag filter.
+ *
+ * @param graph - The full vault graph
+ * @param filter - Filter options
+ * @returns The subgraph (orphan flags refer to the full graph)
+ */
+export function filterGraph(graph: GraphData, filter: GraphFilter): GraphData {
+    let visible = new Set(graph.nodes.map(node => node.id));
+
+    if (filter.center !== undefined) {
+        visible = collectNeighborhood(graph, filter.center, Math.max(0, filter.hops ?? 1));
+    }
+
+    const folder = filter.folder?.replace(/^\/+|\/+$/g, '');
+    const tag = filter.tag?.replace(/^#/, '').toLowerCase();
+    const matches = (node: GraphNode) =>
+        (!folder || node.path.startsWith(`${folder}/`)) &&
+        (!tag || node.tags.some(t => t.toLowerCase() === tag || t.toLowerCase().startsWith(`${tag}/`)));
+
+    const nodes = graph.nodes.filter(node => visible.has(node.id) && (node.id === filter.center || matches(node)));
+    const ids = new Set(nodes.map(node => node.id));
+    return {
+        nodes,
+        edges: graph.edges.filter(edge => ids.has(edge.source) && ids.has(edge.target))
+    };
+}
+
+/**
+ * Collects the IDs of the nodes within `hops` links of the center (undirected).
+ */
+function collectNeighborhood(graph: GraphData, center: string, hops: number): Set<string> {
+    const neighbors = new Map<string, string[]>();
+    const addNeighbor = (from: string, to: string) => {
+        const list = neighbors.get(from) ?? [];
+        list.push(to);
+        neighbors.set(from, list);
+    };
+    graph.edges.forEach(edge => {
+        addNeighbor(edge.source, edge.target);
+        addNeighbor(edge.target, edge.source);
+    });
+
+    const visited = new Set<string>([center]);
+    let frontier = [center];
+    for (let depth = 0; depth < hops && frontier.length > 0; depth++) {
+        const next: string[] = [];
+        for (const id of frontier) {
+            for (const neighbor of neighbors.get(id) ?? []) {
+                if (!visited.has(neighbor)) {
+                    visited.add(neighbor);
+                    next.push(neighbor);
+                }
+            }
+        }
+        frontier = next;
+    }
+    return visited;
+}
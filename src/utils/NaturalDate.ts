@@ -0,0 +1,103 @@
+/**
+ * @fileoverview Parsing of dates typed by the user.
+ * Accepts ISO dates (`2025-09-18`, `2025/9/18`), relative words (`today`, `yesterday`,
+ * `tomorrow`, `今日`, `昨日`, `明日`), offsets (`+3d`, `-2w`, `1m`, `3 days ago`, `in 2 weeks`),
+ * weekdays (`friday`, `last friday`, `next mon`) and `last/next week|month|year`.
+ * Pure functions (no VS Code API) so they are easy to unit test.
+ *
+ * @author MDloggerForCode Team
+ * @version 1.0.0
+ */
+
+const weekdays = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const dayWords = new Map<string, number>([
+    ['today', 0], ['yesterday', -1], ['tomorrow', 1],
+    ['今日', 0], ['昨日', -1], ['明日', 1], ['一昨日', -2], ['明後日', 2]
+]);
+type Unit = 'd' | 'w' | 'm' | 'y';
+const units = new Map<string, Unit>([
+    ['d', 'd'], ['day', 'd'], ['days', 'd'],
+    ['w', 'w'], ['week', 'w'], ['weeks', 'w'],
+    ['m', 'm'], ['month', 'm'], ['months', 'm'],
+    ['y', 'y'], ['year', 'y'], ['years', 'y']
+]);
+
+/**
+ * Parses a date typed by the user.
+ *
+ * @param input - The text to parse (case-insensitive)
+ * @param today - Reference date for relative expressions (defaults to now)
+ * @returns The date at local midnight, or undefined when the text is not understood
+ */
+export function parseNaturalDate(input: string, today: Date = new Date()): Date | undefined {
+    const text = input.trim().toLowerCase().replace(/\s+/g, ' ');
+    const base = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+
+    const iso = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+    if (iso) {
+        const [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+        const date = new Date(year, month - 1, day);
+        return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day ? date : undefined;
+    }
+
+    const days = dayWords.get(text);
+    if (days !== undefined) {
+        return addDays(base, days);
+    }
+
+    const offset = text.match(/^([+-]?)(\d+) ?([a-z]+)$/);
+    if (offset && units.has(offset[3])) {
+        return addUnits(base, offset[1] === '-' ? -Number(offset[2]) : Number(offset[2]), units.get(offset[3])!);
+    }
+    const later = text.match(/^in (\d+) ([a-z]+)$/);
+    if (later && units.has(later[2])) {
+        return addUnits(base, Number(later[1]), units.get(later[2])!);
+    }
+    const ago = text.match(/^(\d+) ([a-z]+) ago$/);
+    if (ago && units.has(ago[2])) {
+        return addUnits(base, -Number(ago[1]), units.get(ago[2])!);
+    }
+
+    const relative = text.match(/^(last|next|this)? ?([a-z]+)$/);
+    if (relative) {
+        const [, modifier, word] = relative;
+        if (modifier && modifier !== 'this' && units.has(word) && word.length > 1) {
+            return addUnits(base, modifier === 'last' ? -1 : 1, units.get(word)!);
+        }
+        const weekday = weekdays.findIndex(name => word.length >= 3 && name.startsWith(word));
+        if (weekday !== -1) {
+            const ahead = (weekday - base.getDay() + 7) % 7;
+            switch (modifier) {
+                case 'last':
+                    return addDays(base, ahead === 0 ? -7 : ahead - 7);
+                case 'next':
+                    return addDays(base, ahead === 0 ? 7 : ahead);
+                default:
+                    return addDays(base, ahead);
+            }
+        }
+    }
+
+    return undefined;
+}
+
+function addDays(date: Date, days: number): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function addUnits(date: Date, amount: number, unit: Unit): Date {
+    switch (unit) {
+        case 'd':
+            return addDays(date, amount);
+        case 'w':
+            return addDays(date, amount * 7);
+        case 'm':
+        case 'y': {
+            const months = unit === 'm' ? amount : amount * 12;
+            const target = new Date(date.getFullYear(), date.getMonth() + months, 1);
+            // 月末を超える日は月末に丸める（1/31 + 1m = 2/28）
+            const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+            return new Date(target.getFullYear(), target.getMonth(), Math.min(date.getDate(), lastDay));
+        }
+    }
+}
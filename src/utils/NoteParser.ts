@@ -2,25 +2,37 @@
  * Utilities for parsing and editing checklist tasks inside Markdown notes.
  * Pure text operations (no VS Code API) so they are easy to unit test.
  */
-export interface TaskItem {
+import { TaskMetadata, parseTaskMetadata, createNextOccurrence } from './TaskMetadata';
+import { parseFrontmatter, getFrontmatterListItems } from './Frontmatter';
+
+/**
+ * A checklist item, with the inline fields (due date, priority, ...) parsed from its text.
+ */
+export interface TaskItem extends TaskMetadata {
     line: number;
     text: string;
     raw: string;
+    /** True for checked items ("- [x]") */
+    completed: boolean;
 }
 
 /**
  * Extract unchecked checklist items from the given Markdown content.
  * Matches lines like: "- [ ] Task text" (allowing indentation and other list markers)
+ *
+ * @param content - Markdown content
+ * @param includeCompleted - Also return checked items ("- [x] Task text")
  */
-export function extractTasks(content: string): TaskItem[] {
+export function extractTasks(content: string, includeCompleted = false): TaskItem[] {
     const lines = content.split(/\r?\n/);
-    const regex = /^(\s*[-*+]\s+)\[\s*\]\s+(.*)$/;
+    const regex = /^(\s*[-*+]\s+)\[(\s*|[xX])\]\s+(.*)$/;
     const results: TaskItem[] = [];
 
     for (let i = 0; i < lines.length; i++) {
         const m = lines[i].match(regex);
-        if (m) {
-            results.push({ line: i, text: m[2], raw: lines[i] });
+        const completed = m !== null && m[2].trim() !== '';
+        if (m && (includeCompleted || !completed)) {
+            results.push({ line: i, text: m[3], raw: lines[i], completed, ...parseTaskMetadata(m[3]) });
         }
     }
 
@@ -32,6 +44,8 @@ export function extractTasks(content: string): TaskItem[] {
  * - If the target line is an unchecked task (- [ ] ...), it becomes - [x] ... [completion: YYYY-MM-DD]
  * - If it's already checked but missing completion tag, the tag is appended.
  * - If completion tag already exists, the line is left unchanged.
+ * - If an unchecked task recurs ("🔁 every week", "[repeat: every week]"), its next occurrence
+ *   is inserted above the completed line, with the due/scheduled dates moved.
  * Returns the new content.
  */
 export function markTaskCompleted(content: string, lineIndex: number, completionDate: string): string {
@@ -63,6 +77,55 @@ export function markTaskCompleted(content: string, lineIndex: number, completion
     const newLine = `${prefix}[x] ${rest} [completion: ${completionDate}]`;
     lines[lineIndex] = newLine;
 
+    const next = m[3] === 'x' || m[3] === 'X' ? undefined : createNextOccurrence(rest, completionDate);
+    if (next !== undefined) {
+        lines.splice(lineIndex, 0, `${prefix}[ ] ${next}`);
+    }
+
+    return lines.join(newline);
+}
+
+/**
+ * Reopen a completed task: "- [x] ... [completion: YYYY-MM-DD]" becomes "- [ ] ...".
+ * Lines that are not checked tasks are left unchanged. Returns the new content.
+ */
+export function markTaskIncomplete(content: string, lineIndex: number): string {
+    const newline = content.includes('\r\n') ? '\r\n' : '\n';
+    const lines = content.split(/\r?\n/);
+    if (lineIndex < 0 || lineIndex >= lines.length) {
+        return content;
+    }
+
+    const m = lines[lineIndex].match(/^(\s*[-*+]\s+)\[[xX]\]\s*(.*)$/);
+    if (!m) {
+        return content;
+    }
+
+    const rest = m[2].replace(/\s*\[completion:\s*\d{4}-\d{2}-\d{2}\]/i, '');
+    lines[lineIndex] = `${m[1]}[ ] ${rest}`;
+
+    return lines.join(newline);
+}
+
+/**
+ * Mark an unchecked task as migrated to another note: "- [ ] ..." becomes "- [>] ...".
+ * Migrated tasks are no longer returned by extractTasks. Lines that are not unchecked
+ * tasks are left unchanged. Returns the new content.
+ */
+export function markTaskMigrated(content: string, lineIndex: number): string {
+    const newline = content.includes('\r\n') ? '\r\n' : '\n';
+    const lines = content.split(/\r?\n/);
+    if (lineIndex < 0 || lineIndex >= lines.length) {
+        return content;
+    }
+
+    const m = lines[lineIndex].match(/^(\s*[-*+]\s+)\[\s*\](\s+.*)$/);
+    if (!m) {
+        return content;
+    }
+
+    lines[lineIndex] = `${m[1]}[>]${m[2]}`;
+
     return lines.join(newline);
 }
 
@@ -115,3 +178,455 @@ export function insertIntoSection(content: string, sectionName: string, lineText
 
     return { newContent: lines.join(newline), line: insertLine };
 }
+
+/**
+ * A single [[WikiLink]] occurrence inside a note.
+ * `linkText` is the raw text between the brackets; positions are zero-based.
+ */
+export interface WikiLinkOccurrence {
+    line: number;
+    /** Start of the `[[` (the `!` of an embed is at character - 1) */
+    character: number;
+    length: number;
+    linkText: string;
+    /** True for embeds written as `![[...]]` */
+    isEmbed: boolean;
+}
+
+/**
+ * A Markdown ATX heading (# ... ######) inside a note.
+ */
+export interface HeadingItem {
+    line: number;
+    level: number;
+    text: string;
+}
+
+/**
+ * Returns a per-line flag telling whether the line belongs to a fenced code block
+ * (including the fence lines themselves). Links and headings inside code are ignored.
+ */
+function computeFencedLines(lines: string[]): boolean[] {
+    const fenced: boolean[] = new Array(lines.length).fill(false);
+    let fence: string | null = null;
+
+    for (let i = 0; i < lines.length; i++) {
+        const m = lines[i].match(/^\s*(`{3,}|~{3,})/);
+        if (fence) {
+            fenced[i] = true;
+            if (m && m[1][0] === fence[0] && m[1].length >= fence.length) {
+                fence = null;
+            }
+        } else if (m) {
+            fence = m[1];
+            fenced[i] = true;
+        }
+    }
+
+    return fenced;
+}
+
+/**
+ * Extract every [[WikiLink]] occurrence from the given Markdown content.
+ * Links inside fenced code blocks are skipped.
+ */
+export function extractWikiLinks(content: string): WikiLinkOccurrence[] {
+    const lines = content.split(/\r?\n/);
+    const fenced = computeFencedLines(lines);
+    const results: WikiLinkOccurrence[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+        if (fenced[i]) {
+            continue;
+        }
+        const regex = /\[\[([^\]]+)\]\]/g;
+        let m: RegExpExecArray | null;
+        while ((m = regex.exec(lines[i])) !== null) {
+            const isEmbed = m.index > 0 && lines[i][m.index - 1] === '!';
+            results.push({ line: i, character: m.index, length: m[0].length, linkText: m[1], isEmbed });
+        }
+    }
+
+    return results;
+}
+
+/**
+ * Extract Markdown ATX headings from the given content.
+ * Trailing closing hashes ("## Title ##") are removed; fenced code blocks are skipped.
+ */
+export function extractHeadings(content: string): HeadingItem[] {
+    const lines = content.split(/\r?\n/);
+    const fenced = computeFencedLines(lines);
+    const results: HeadingItem[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+        if (fenced[i]) {
+            continue;
+        }
+        const m = lines[i].match(/^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/);
+        if (m && m[2] !== '') {
+            results.push({ line: i, level: m[1].length, text: m[2] });
+        }
+    }
+
+    return results;
+}
+
+/**
+ * Build the heading path (ancestor headings followed by the heading itself)
+ * for the heading at the given index, e.g. ["Project", "Tasks", "Open"].
+ */
+export function getHeadingPath(headings: HeadingItem[], index: number): string[] {
+    const path = [headings[index].text];
+    let level = headings[index].level;
+
+    for (let i = index - 1; i >= 0 && level > 1; i--) {
+        if (headings[i].level < level) {
+            path.unshift(headings[i].text);
+            level = headings[i].level;
+        }
+    }
+
+    return path;
+}
+
+/**
+ * Find the heading referenced by the part after "#" in a WikiLink.
+ * Accepts a plain heading ("Open") or a "#"-separated path ("Tasks#Open");
+ * path segments only need to appear in order among the ancestors.
+ * Matching is case-insensitive. Returns the heading, or undefined if none matches.
+ */
+export function findHeading(headings: HeadingItem[], reference: string): HeadingItem | undefined {
+    const segments = reference.split('#').map(s => s.trim().toLowerCase()).filter(s => s !== '');
+    if (segments.length === 0) {
+        return undefined;
+    }
+
+    const last = segments[segments.length - 1];
+    for (let i = 0; i < headings.length; i++) {
+        if (headings[i].text.trim().toLowerCase() !== last) {
+            continue;
+        }
+        const ancestors = getHeadingPath(headings, i).slice(0, -1).map(t => t.trim().toLowerCase());
+        let j = 0;
+        for (const ancestor of ancestors) {
+            if (j < segments.length - 1 && ancestor === segments[j]) {
+                j++;
+            }
+        }
+        if (j === segments.length - 1) {
+            return headings[i];
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * A block identifier ("^id" at the end of a line) that can be referenced as [[Note#^id]].
+ */
+export interface BlockIdItem {
+    line: number;
+    id: string;
+    /** The line text without the block identifier */
+    text: string;
+}
+
+/**
+ * Extract block identifiers (Obsidian-style "text ^block-id") outside fenced code blocks.
+ */
+export function extractBlockIds(content: string): BlockIdItem[] {
+    const lines = content.split(/\r?\n/);
+    const fenced = computeFencedLines(lines);
+    const results: BlockIdItem[] = [];
+
+    for (let i = 0; i < lines.length; i++) {
+        if (fenced[i]) {
+            continue;
+        }
+        const m = lines[i].match(/(^|\s)\^([A-Za-z0-9-]+)\s*$/);
+        if (m) {
+            results.push({ line: i, id: m[2], text: lines[i].substring(0, m.index).trim() });
+        }
+    }
+
+    return results;
+}
+
+/**
+ * Find the line a block ID for the block at the given line belongs on: the list item
+ * itself, or the last line of the paragraph. Returns undefined for blank lines,
+ * headings, frontmatter and fenced code.
+ */
+export function findBlockEndLine(content: string, line: number): number | undefined {
+    const lines = content.split(/\r?\n/);
+    if (line < 0 || line >= lines.length) {
+        return undefined;
+    }
+
+    const fenced = computeFencedLines(lines);
+    const isHeading = (text: string) => /^#{1,6}\s/.test(text);
+    const isListItem = (text: string) => /^\s*([-*+]|\d+[.)])\s/.test(text);
+    if (lines[line].trim() === '' || isHeading(lines[line]) || fenced[line]) {
+        return undefined;
+    }
+    if (lines[0]?.trim() === '---') {
+        const close = lines.findIndex((text, i) => i > 0 && text.trim() === '---');
+        if (close !== -1 && line <= close) {
+            return undefined;
+        }
+    }
+    if (isListItem(lines[line])) {
+        return line;
+    }
+
+    let end = line;
+    while (end + 1 < lines.length && lines[end + 1].trim() !== '' && !isHeading(lines[end + 1]) &&
+        !isListItem(lines[end + 1]) && !fenced[end + 1]) {
+        end++;
+    }
+    return end;
+}
+
+/**
+ * Generate a short random block ID ("a1b2c3") that is not in the given set.
+ */
+export function createBlockId(existingIds: ReadonlySet<string>, random: () => number = Math.random): string {
+    let id: string;
+    do {
+        id = '';
+        for (let i = 0; i < 6; i++) {
+            id += Math.floor(random() * 36).toString(36);
+        }
+    } while (existingIds.has(id));
+    return id;
+}
+
+/**
+ * Get the lines of the section starting at the given heading line: the heading itself
+ * and everything up to the next heading of the same or a higher level.
+ */
+export function extractSectionLines(content: string, headingLine: number): string[] {
+    const lines = content.split(/\r?\n/);
+    const headings = extractHeadings(content);
+    const heading = headings.find(h => h.line === headingLine);
+    if (!heading) {
+        return [];
+    }
+
+    const next = headings.find(h => h.line > headingLine && h.level <= heading.level);
+    return lines.slice(headingLine, next ? next.line : lines.length);
+}
+
+/**
+ * Get the lines of the block ending at the given line (a list item, or the paragraph
+ * the line belongs to), with the trailing "^block-id" removed.
+ */
+export function extractBlockLines(content: string, blockLine: number): string[] {
+    const lines = content.split(/\r?\n/);
+    if (blockLine < 0 || blockLine >= lines.length) {
+        return [];
+    }
+
+    let start = blockLine;
+    if (!/^\s*([-*+]|\d+[.)])\s/.test(lines[blockLine])) {
+        // 段落の先頭（空行または見出しの直後）まで遡る
+        while (start > 0 && lines[start - 1].trim() !== '' && !/^#{1,6}\s/.test(lines[start - 1])) {
+            start--;
+        }
+    }
+
+    const block = lines.slice(start, blockLine + 1);
+    block[block.length - 1] = block[block.length - 1].replace(/\s*\^[A-Za-z0-9-]+\s*$/, '');
+    return block;
+}
+
+/**
+ * Get the lines of the note body: everything after the YAML frontmatter,
+ * with leading blank lines removed.
+ */
+export function extractBodyLines(content: string): string[] {
+    const lines = content.split(/\r?\n/);
+    let start = 0;
+    if (lines[0]?.trim() === '---') {
+        const close = lines.findIndex((line, i) => i > 0 && line.trim() === '---');
+        start = close === -1 ? 0 : close + 1;
+    }
+    while (start < lines.length && lines[start].trim() === '') {
+        start++;
+    }
+    return lines.slice(start);
+}
+
+/**
+ * Count the words of the note body (frontmatter excluded).
+ * Each CJK character counts as one word, since those scripts do not separate words with spaces.
+ */
+export function countWords(content: string): number {
+    const body = extractBodyLines(content).join('\n');
+    const cjk = body.match(/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu) ?? [];
+    const words = body
+        .replace(/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu, ' ')
+        .match(/[\p{L}\p{N}][\p{L}\p{N}'’_-]*/gu) ?? [];
+    return cjk.length + words.length;
+}
+
+/**
+ * A plain-text occurrence of a term inside a note.
+ */
+export interface TextMention {
+    line: number;
+    character: number;
+    length: number;
+    text: string;
+}
+
+/**
+ * Find plain-text mentions of any of the given terms that are not already linked.
+ * Matching is case-insensitive; occurrences inside [[WikiLinks]], inline code and
+ * fenced code blocks are skipped. ASCII terms must match on word boundaries.
+ */
+export function findUnlinkedMentions(content: string, terms: string[]): TextMention[] {
+    const lines = content.split(/\r?\n/);
+    const fenced = computeFencedLines(lines);
+    const needles = Array.from(new Set(terms.filter(t => t.trim() !== '').map(t => t.toLowerCase())))
+        .sort((a, b) => b.length - a.length);
+    const isWordChar = (ch: string | undefined) => !!ch && /[A-Za-z0-9_]/.test(ch);
+    const results: TextMention[] = [];
+
+    if (needles.length === 0) {
+        return results;
+    }
+
+    for (let i = 0; i < lines.length; i++) {
+        if (fenced[i]) {
+            continue;
+        }
+        const line = lines[i];
+        const lower = line.toLowerCase();
+
+        // リンク・インラインコードの範囲は対象外
+        const excluded: [number, number][] = [];
+        const excludeRegex = /\[\[[^\]]*\]\]|`[^`]*`/g;
+        let m: RegExpExecArray | null;
+        while ((m = excludeRegex.exec(line)) !== null) {
+            excluded.push([m.index, m.index + m[0].length]);
+        }
+        const overlaps = (start: number, end: number) =>
+            excluded.some(([s, e]) => start < e && end > s);
+
+        for (const needle of needles) {
+            let from = 0;
+            let idx: number;
+            while ((idx = lower.indexOf(needle, from)) !== -1) {
+                const end = idx + needle.length;
+                from = end;
+                if (isWordChar(needle[0]) && isWordChar(line[idx - 1])) {
+                    continue;
+                }
+                if (isWordChar(needle[needle.length - 1]) && isWordChar(line[end])) {
+                    continue;
+                }
+                if (overlaps(idx, end)) {
+                    continue;
+                }
+                excluded.push([idx, end]);
+                results.push({ line: i, character: idx, length: needle.length, text: line.substring(idx, end) });
+            }
+        }
+    }
+
+    return results.sort((a, b) => a.line - b.line || a.character - b.character);
+}
+
+/**
+ * A tag inside a note: an inline "#tag" / "#nested/tag", or an entry of the
+ * frontmatter "tags:" property. `tag` has no leading "#"; the range covers the
+ * tag text as written (including "#" for inline tags).
+ */
+export interface TagOccurrence {
+    line: number;
+    character: number;
+    length: number;
+    tag: string;
+    inFrontmatter: boolean;
+}
+
+/**
+ * Extract inline tags and frontmatter tags. Inline tags must start at the beginning
+ * of a line or after whitespace and contain at least one non-digit; tags inside
+ * fenced code, inline code and [[WikiLinks]] are skipped.
+ */
+export function extractTags(content: string): TagOccurrence[] {
+    const lines = content.split(/\r?\n/);
+    const results: TagOccurrence[] = [];
+
+    let bodyStart = 0;
+    const close = parseFrontmatter(content)?.endLine ?? -1;
+    if (close !== -1) {
+        results.push(...extractFrontmatterTags(content));
+        bodyStart = close + 1;
+    }
+
+    const fenced = computeFencedLines(lines);
+    for (let i = bodyStart; i < lines.length; i++) {
+        if (fenced[i]) {
+            continue;
+        }
+        const line = lines[i];
+        const excluded: [number, number][] = [];
+        const excludeRegex = /\[\[[^\]]*\]\]|`[^`]*`/g;
+        let m: RegExpExecArray | null;
+        while ((m = excludeRegex.exec(line)) !== null) {
+            excluded.push([m.index, m.index + m[0].length]);
+        }
+
+        const tagRegex = /(^|\s)#([\p{L}\p{N}_/-]+)/gu;
+        while ((m = tagRegex.exec(line)) !== null) {
+            const start = m.index + m[1].length;
+            const tag = m[2].replace(/\/+$/, '');
+            if (!/[^\d/]/.test(tag) || excluded.some(([s, e]) => start >= s && start < e)) {
+                continue;
+            }
+            results.push({ line: i, character: start, length: tag.length + 1, tag, inFrontmatter: false });
+        }
+    }
+
+    return results;
+}
+
+/**
+ * Check whether a string can be used as a tag name (without the leading "#"):
+ * letters, digits, "_", "-" and "/" for nesting, with at least one non-digit
+ * and no empty nesting levels.
+ */
+export function isValidTag(tag: string): boolean {
+    return /^[\p{L}\p{N}_-]+(\/[\p{L}\p{N}_-]+)*$/u.test(tag) && /[^\d/]/.test(tag);
+}
+
+/**
+ * Extract the aliases declared in the frontmatter "aliases:" (or "alias:") property.
+ * Supports "aliases: a, b", "aliases: [a, "b c"]" and block lists ("- a"); aliases may contain spaces.
+ */
+export function extractAliases(content: string): string[] {
+    return getFrontmatterListItems(content, ['aliases', 'alias'])
+        .map(item => item.value.trim())
+        .filter(alias => alias !== '');
+}
+
+/**
+ * Extract the entries of "tags:" (or "tag:") from the frontmatter.
+ * Supports "tags: a, b", "tags: a b", "tags: [a, b]" and block lists ("- a").
+ */
+function extractFrontmatterTags(content: string): TagOccurrence[] {
+    const results: TagOccurrence[] = [];
+    for (const { line, character, value } of getFrontmatterListItems(content, ['tags', 'tag'], true)) {
+        // 先頭の # は取り除く
+        const offset = value.startsWith('#') ? 1 : 0;
+        const tag = value.substring(offset).trim();
+        if (tag !== '') {
+            results.push({ line, character: character + offset, length: tag.length, tag, inFrontmatter: true });
+        }
+    }
+    return results;
+}
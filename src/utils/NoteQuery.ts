@@ -0,0 +1,821 @@
+/**
+ * @fileoverview Query language of ```mdlg-query``` code blocks.
+ * Parses Dataview-style queries such as
+ * `TABLE status, updated FROM #project AND "work" WHERE status = "active" SORT updated DESC LIMIT 10`,
+ * evaluates them against plain note data and renders the result as Markdown.
+ * Pure functions (no VS Code API) so they are easy to unit test.
+ *
+ * @author MDloggerForCode Team
+ * @version 1.0.0
+ */
+
+import { FrontmatterValue } from './Frontmatter';
+
+/** Info string of the fenced code blocks holding a query. */
+export const noteQueryLanguage = 'mdlg-query';
+
+/**
+ * A link to a note, rendered as `[[link]]`.
+ */
+export interface QueryLink {
+    readonly link: string;
+}
+
+/**
+ * Value of a field or expression.
+ */
+export type QueryValue = string | number | boolean | null | QueryLink | QueryValue[];
+
+/**
+ * A checklist item of a note.
+ */
+export interface QueryTask {
+    readonly line: number;
+    readonly text: string;
+    readonly completed: boolean;
+}
+
+/**
+ * The data of a note a query is evaluated against.
+ */
+export interface QueryPage {
+    /** Unique ID of the note (URI string) */
+    readonly id: string;
+    readonly title: string;
+    /** Path relative to the vault root */
+    readonly path: string;
+    /** Tags without "#" */
+    readonly tags: string[];
+    /** IDs of the notes this note links to */
+    readonly outlinks: string[];
+    /** Frontmatter properties */
+    readonly properties: Record<string, FrontmatterValue>;
+    /** Tasks of the note; only needed for TASK queries */
+    readonly tasks: QueryTask[];
+}
+
+/**
+ * Expression of a query (WHERE conditions, TABLE columns, SORT keys).
+ */
+export type QueryExpression =
+    | { readonly type: 'literal'; readonly value: QueryValue }
+    | { readonly type: 'field'; readonly path: string[] }
+    | { readonly type: 'not'; readonly operand: QueryExpression }
+    | { readonly type: 'binary'; readonly operator: string; readonly left: QueryExpression; readonly right: QueryExpression }
+    | { readonly type: 'call'; readonly name: string; readonly args: QueryExpression[] };
+
+/**
+ * Note selection of the FROM clause.
+ */
+export type QuerySource =
+    | { readonly type: 'tag'; readonly tag: string }
+    | { readonly type: 'folder'; readonly folder: string }
+    | { readonly type: 'inlinks'; readonly linkText: string }
+    | { readonly type: 'outlinks'; readonly linkText: string }
+    | { readonly type: 'not'; readonly source: QuerySource }
+    | { readonly type: 'and' | 'or'; readonly left: QuerySource; readonly right: QuerySource };
+
+/**
+ * A parsed query.
+ */
+export interface NoteQuery {
+    readonly type: 'LIST' | 'TABLE' | 'TASK';
+    /** TABLE columns, or the value shown next to each LIST item */
+    readonly columns: { readonly expression: QueryExpression; readonly name: string }[];
+    readonly from?: QuerySource;
+    readonly where?: QueryExpression;
+    readonly sort: { readonly expression: QueryExpression; readonly descending: boolean }[];
+    readonly limit?: number;
+}
+
+/**
+ * Result rows of a query. LIST and TABLE rows are notes; TASK rows are tasks.
+ */
+export interface NoteQueryResult {
+    readonly query: NoteQuery;
+    readonly rows: { readonly page: QueryPage; readonly task?: QueryTask; readonly values: QueryValue[] }[];
+}
+
+/**
+ * A ```mdlg-query``` block of a note.
+ */
+export interface NoteQueryBlock {
+    /** Line of the opening fence */
+    readonly startLine: number;
+    /** Line of the closing fence (the last line of the note when unclosed) */
+    readonly endLine: number;
+    readonly source: string;
+}
+
+/**
+ * Error thrown for queries that cannot be parsed or evaluated.
+ */
+export class NoteQueryError extends Error {
+    /**
+     * Creates a new NoteQueryError instance.
+     *
+     * @param message - Error description
+     */
+    constructor(message: string) {
+        super(message);
+        this.name = 'NoteQueryError';
+    }
+}
+
+type Token =
+    | { readonly kind: 'string' | 'tag' | 'link' | 'word' | 'symbol'; readonly text: string }
+    | { readonly kind: 'number'; readonly text: string; readonly value: number };
+
+const clauseKeywords = ['FROM', 'WHERE', 'SORT', 'LIMIT'];
+const comparisonOperators = ['=', '!=', '<', '<=', '>', '>='];
+const functions: Record<string, (args: QueryValue[]) => QueryValue> = {
+    contains: ([haystack, needle]) => Array.isArray(haystack)
+        ? haystack.some(item => compareValues(item, needle) === 0)
+        : valueToString(haystack).toLowerCase().includes(valueToString(needle).toLowerCase()),
+    length: ([value]) => Array.isArray(value) ? value.length : valueToString(value).length,
+    lower: ([value]) => valueToString(value).toLowerCase(),
+    upper: ([value]) => valueToString(value).toUpperCase(),
+    default: ([value, fallback]) => value === null || (Array.isArray(value) && value.length === 0) ? fallback ?? null : value,
+    date: ([value]) => resolveDate(valueToString(value))
+};
+
+/**
+ * Finds the ```mdlg-query``` blocks of a note.
+ *
+ * @param content - Note content
+ * @returns The blocks in order of appearance
+ */
+export function findNoteQueryBlocks(content: string): NoteQueryBlock[] {
+    const lines = content.split(/\r?\n/);
+    const blocks: NoteQueryBlock[] = [];
+    let fence: { marker: string; startLine: number; isQuery: boolean } | undefined;
+
+    for (let i = 0; i < lines.length; i++) {
+        const m = lines[i].match(/^\s*(`{3,}|~{3,})\s*([^\s`]*)/);
+        if (!fence) {
+            if (m) {
+                fence = { marker: m[1], startLine: i, isQuery: m[2] === noteQueryLanguage };
+            }
+            continue;
+        }
+        if (m && m[1][0] === fence.marker[0] && m[1].length >= fence.marker.length && m[2] === '') {
+            if (fence.isQuery) {
+                blocks.push({ startLine: fence.startLine, endLine: i, source: lines.slice(fence.startLine + 1, i).join('\n') });
+            }
+            fence = undefined;
+        }
+    }
+    if (fence?.isQuery) {
+        blocks.push({ startLine: fence.startLine, endLine: lines.length - 1, source: lines.slice(fence.startLine + 1).join('\n') });
+    }
+    return blocks;
+}
+
+/**
+ * Parses a query.
+ *
+ * @param source - Query text
+ * @returns The parsed query
+ * @throws {NoteQueryError} When the query is malformed
+ */
+export function parseNoteQuery(source: string): NoteQuery {
+    return new QueryParser(tokenizeQuery(source)).parseQuery();
+}
+
+/**
+ * Selects the notes matching the FROM clause of a query.
+ *
+ * @param query - Parsed query
+ * @param pages - All notes of the vault
+ * @param resolveLink - Returns the ID of the note a link text points to
+ * @returns The notes in their original order
+ */
+export function selectQueryPages(
+    query: NoteQuery,
+    pages: QueryPage[],
+    resolveLink: (linkText: string) => string | undefined
+): QueryPage[] {
+    if (!query.from) {
+        return pages;
+    }
+    const byId = new Map(pages.map(page => [page.id, page]));
+    return pages.filter(page => matchesSource(query.from!, page, byId, resolveLink));
+}
+
+/**
+ * Evaluates a query.
+ *
+ * @param query - Parsed query
+ * @param pages - All notes of the vault (with tasks for TASK queries)
+ * @param resolveLink - Returns the ID of the note a link text points to
+ * @returns Result rows, sorted and limited
+ */
+export function executeNoteQuery(
+    query: NoteQuery,
+    pages: QueryPage[],
+    resolveLink: (linkText: string) => string | undefined
+): NoteQueryResult {
+    const inlinks = new Map<string, QueryPage[]>();
+    for (const page of pages) {
+        for (const target of new Set(page.outlinks)) {
+            inlinks.set(target, [...(inlinks.get(target) ?? []), page]);
+        }
+    }
+    const byId = new Map(pages.map(page => [page.id, page]));
+    const context = { byId, inlinks };
+
+    const selected = selectQueryPages(query, pages, resolveLink)
+        .slice()
+        .sort((a, b) => a.path.localeCompare(b.path));
+    const rows = query.type === 'TASK'
+        ? selected.flatMap(page => page.tasks.map(task => ({ page, task })))
+        : selected.map(page => ({ page, task: undefined as QueryTask | undefined }));
+
+    const filtered = query.where
+        ? rows.filter(row => isTruthy(evaluate(query.where!, row.page, row.task, context)))
+        : rows;
+
+    const keyed = filtered.map(row => ({
+        row,
+        keys: query.sort.map(s => evaluate(s.expression, row.page, row.task, context))
+    }));
+    keyed.sort((a, b) => {
+        for (let i = 0; i < query.sort.length; i++) {
+            const result = compareValues(a.keys[i], b.keys[i]);
+            if (result !== 0) {
+                return query.sort[i].descending ? -result : result;
+            }
+        }
+        return 0;
+    });
+
+    const limited = query.limit === undefined ? keyed : keyed.slice(0, query.limit);
+    return {
+        query,
+        rows: limited.map(({ row }) => ({
+            page: row.page,
+            task: row.task,
+            values: query.columns.map(column => evaluate(column.expression, row.page, row.task, context))
+        }))
+    };
+}
+
+/**
+ * Renders a query result as Markdown: a list of links (LIST), a table (TABLE),
+ * or tasks grouped by note (TASK).
+ *
+ * @param result - Query result
+ * @returns Markdown text without a trailing newline
+ */
+export function renderNoteQueryResult(result: NoteQueryResult): string {
+    const { query, rows } = result;
+    if (rows.length === 0) {
+        return '_No results_';
+    }
+
+    switch (query.type) {
+        case 'LIST':
+            return rows.map(row => {
+                const value = row.values.length > 0 ? formatValue(row.values[0]) : '';
+                return `- [[${row.page.title}]]${value ? `: ${value}` : ''}`;
+            }).join('\n');
+        case 'TABLE': {
+            const header = ['File', ...query.columns.map(c => c.name)].map(escapeCell);
+            const lines = [
+                `| ${header.join(' | ')} |`,
+                `| ${header.map(() => '---').join(' | ')} |`,
+                ...rows.map(row => `| ${[`[[${row.page.title}]]`, ...row.values.map(formatValue)].map(escapeCell).join(' | ')} |`)
+            ];
+            return lines.join('\n');
+        }
+        case 'TASK': {
+            const lines: string[] = [];
+            let current: QueryPage | undefined;
+            for (const row of rows) {
+                if (row.page !== current) {
+                    current = row.page;
+                    lines.push(`- [[${row.page.title}]]`);
+                }
+                lines.push(`    - [${row.task!.completed ? 'x' : ' '}] ${row.task!.text}`);
+            }
+            return lines.join('\n');
+        }
+    }
+}
+
+/**
+ * Converts a frontmatter value to a query value: `true`/`false` become booleans,
+ * numbers become numbers and lists are converted item by item.
+ *
+ * @param value - Frontmatter value
+ * @returns The typed value
+ */
+export function toQueryValue(value: FrontmatterValue): QueryValue {
+    if (Array.isArray(value)) {
+        return value.map(toQueryValue);
+    }
+    if (value === '' || value === 'null' || value === '~') {
+        return null;
+    }
+    if (value === 'true' || value === 'false') {
+        return value === 'true';
+    }
+    if (/^-?\d+(\.\d+)?$/.test(value)) {
+        return Number(value);
+    }
+    return value;
+}
+
+function tokenizeQuery(source: string): Token[] {
+    const tokens: Token[] = [];
+    const patterns: [Token['kind'], RegExp][] = [
+        ['string', /^"((?:[^"\\]|\\.)*)"/],
+        ['link', /^\[\[([^\]]+)\]\]/],
+        ['tag', /^#([\p{L}\p{N}_/-]+)/u],
+        ['number', /^-?\d+(\.\d+)?(?![\p{L}_])/u],
+        ['word', /^[\p{L}_][\p{L}\p{N}_-]*(\.[\p{L}_][\p{L}\p{N}_-]*)*/u],
+        ['symbol', /^(==|!=|<=|>=|&&|\|\||[=<>!(),-])/]
+    ];
+
+    let rest = source;
+    while ((rest = rest.replace(/^\s+/, '')).length > 0) {
+        const match = patterns
+            .map(([kind, regex]) => ({ kind, m: rest.match(regex) }))
+            .find(({ m }) => m !== null);
+        if (!match) {
+            if (rest[0] === '"') {
+                throw new NoteQueryError('Unterminated string');
+            }
+            throw new NoteQueryError(`Unexpected "${rest[0]}"`);
+        }
+        const m = match.m!;
+        rest = rest.substring(m[0].length);
+        switch (match.kind) {
+            case 'string':
+                tokens.push({ kind: 'string', text: m[1].replace(/\\(.)/g, '$1') });
+                break;
+            case 'number':
+                tokens.push({ kind: 'number', text: m[0], value: Number(m[0]) });
+                break;
+            case 'link':
+            case 'tag':
+                tokens.push({ kind: match.kind, text: m[1] });
+                break;
+            default:
+                tokens.push({ kind: match.kind, text: m[0] === '==' ? '=' : m[0] });
+        }
+    }
+    return tokens;
+}
+
+class QueryParser {
+    private pos = 0;
+
+    constructor(private readonly tokens: Token[]) {}
+
+    parseQuery(): NoteQuery {
+        const typeToken = this.next();
+        const type = typeToken?.kind === 'word' ? typeToken.text.toUpperCase() : '';
+        if (type !== 'LIST' && type !== 'TABLE' && type !== 'TASK') {
+            throw new NoteQueryError('A query must start with LIST, TABLE or TASK');
+        }
+
+        const columns: NoteQuery['columns'] = [];
+        if (type === 'TABLE' || (type === 'LIST' && !this.atClause())) {
+            do {
+                const start = this.pos;
+                const expression = this.parseExpression();
+                let name = this.describe(start);
+                if (this.acceptWord('AS')) {
+                    const alias = this.next();
+                    if (!alias || (alias.kind !== 'string' && alias.kind !== 'word')) {
+                        throw new NoteQueryError('Expected a column name after AS');
+                    }
+                    name = alias.text;
+                }
+                columns.push({ expression, name });
+            } while (type === 'TABLE' && this.acceptSymbol(','));
+        }
+
+        let from: QuerySource | undefined;
+        let where: QueryExpression | undefined;
+        const sort: NoteQuery['sort'] = [];
+        let limit: number | undefined;
+
+        while (this.pos < this.tokens.length) {
+            const clause = this.next()!;
+            const keyword = clause.kind === 'word' ? clause.text.toUpperCase() : '';
+            switch (keyword) {
+                case 'FROM':
+                    from = this.parseSourceOr();
+                    break;
+                case 'WHERE':
+                    where = this.parseExpression();
+                    break;
+                case 'SORT':
+                    do {
+                        const expression = this.parseExpression();
+                        const descending = this.acceptWord('DESC');
+                        if (!descending) {
+                            this.acceptWord('ASC');
+                        }
+                        sort.push({ expression, descending });
+                    } while (this.acceptSymbol(','));
+                    break;
+                case 'LIMIT': {
+                    const count = this.next();
+                    if (count?.kind !== 'number' || !Number.isInteger(count.value) || count.value < 0) {
+                        throw new NoteQueryError('LIMIT expects a positive whole number');
+                    }
+                    limit = count.value;
+                    break;
+                }
+                default:
+                    throw new NoteQueryError(`Unexpected "${clause.text}", expected FROM, WHERE, SORT or LIMIT`);
+            }
+        }
+
+        return { type, columns, from, where, sort, limit };
+    }
+
+    private parseSourceOr(): QuerySource {
+        let left = this.parseSourceAnd();
+        while (this.acceptWord('OR')) {
+            left = { type: 'or', left, right: this.parseSourceAnd() };
+        }
+        return left;
+    }
+
+    private parseSourceAnd(): QuerySource {
+        let left = this.parseSourceUnary();
+        while (this.acceptWord('AND')) {
+            left = { type: 'and', left, right: this.parseSourceUnary() };
+        }
+        return left;
+    }
+
+    private parseSourceUnary(): QuerySource {
+        if (this.acceptSymbol('-') || this.acceptSymbol('!')) {
+            return { type: 'not', source: this.parseSourceUnary() };
+        }
+        const token = this.next();
+        switch (token?.kind) {
+            case 'tag':
+                return { type: 'tag', tag: token.text.toLowerCase() };
+            case 'string':
+                return { type: 'folder', folder: token.text.replace(/^\/+|\/+$/g, '') };
+            case 'link':
+                return { type: 'inlinks', linkText: token.text };
+            case 'word':
+                if (token.text.toLowerCase() === 'outgoing' && this.acceptSymbol('(')) {
+                    const link = this.next();
+                    if (link?.kind !== 'link') {
+                        throw new NoteQueryError('outgoing() expects a [[link]]');
+                    }
+                    this.expectSymbol(')');
+                    return { type: 'outlinks', linkText: link.text };
+                }
+                break;
+            case 'symbol':
+                if (token.text === '(') {
+                    const source = this.parseSourceOr();
+                    this.expectSymbol(')');
+                    return source;
+                }
+                break;
+        }
+        throw new NoteQueryError(`FROM expects #tag, "folder", [[link]] or outgoing([[link]])${token ? `, found "${token.text}"` : ''}`);
+    }
+
+    private parseExpression(): QueryExpression {
+        let left = this.parseAnd();
+        while (this.acceptWord('OR') || this.acceptSymbol('||')) {
+            left = { type: 'binary', operator: 'or', left, right: this.parseAnd() };
+        }
+        return left;
+    }
+
+    private parseAnd(): QueryExpression {
+        let left = this.parseNot();
+        while (this.acceptWord('AND') || this.acceptSymbol('&&')) {
+            left = { type: 'binary', operator: 'and', left, right: this.parseNot() };
+        }
+        return left;
+    }
+
+    private parseNot(): QueryExpression {
+        if (this.acceptSymbol('!') || this.acceptWord('NOT')) {
+            return { type: 'not', operand: this.parseNot() };
+        }
+        const left = this.parsePrimary();
+        const token = this.peek();
+        if (token?.kind === 'symbol' && comparisonOperators.includes(token.text)) {
+            this.pos++;
+            return { type: 'binary', operator: token.text, left, right: this.parsePrimary() };
+        }
+        return left;
+    }
+
+    private parsePrimary(): QueryExpression {
+        const token = this.next();
+        switch (token?.kind) {
+            case 'string':
+                return { type: 'literal', value: token.text };
+            case 'number':
+                return { type: 'literal', value: token.value };
+            case 'link':
+                return { type: 'literal', value: { link: token.text } };
+            case 'tag':
+                return { type: 'literal', value: `#${token.text}` };
+            case 'word': {
+                const lower = token.text.toLowerCase();
+                if (lower === 'true' || lower === 'false') {
+                    return { type: 'literal', value: lower === 'true' };
+                }
+                if (lower === 'null') {
+                    return { type: 'literal', value: null };
+                }
+                if (this.acceptSymbol('(')) {
+                    if (!Object.prototype.hasOwnProperty.call(functions, lower)) {
+                        throw new NoteQueryError(`Unknown function "${token.text}"`);
+                    }
+                    const args: QueryExpression[] = [];
+                    if (!this.acceptSymbol(')')) {
+                        do {
+                            args.push(this.parseExpression());
+                        } while (this.acceptSymbol(','));
+                        this.expectSymbol(')');
+                    }
+                    // date(today) のように引数を裸の単語で書けるようにする
+                    if (lower === 'date' && args[0]?.type === 'field' && args[0].path.length === 1) {
+                        args[0] = { type: 'literal', value: args[0].path[0] };
+                    }
+                    return { type: 'call', name: lower, args };
+                }
+                return { type: 'field', path: token.text.split('.') };
+            }
+            case 'symbol':
+                if (token.text === '(') {
+                    const expression = this.parseExpression();
+                    this.expectSymbol(')');
+                    return expression;
+                }
+                break;
+        }
+        throw new NoteQueryError(token ? `Unexpected "${token.text}"` : 'Unexpected end of query');
+    }
+
+    /**
+     * Text of the tokens since `start`, used as default column name.
+     */
+    private describe(start: number): string {
+        return this.tokens.slice(start, this.pos).map(token => {
+            switch (token.kind) {
+                case 'string': return `"${token.text}"`;
+                case 'link': return `[[${token.text}]]`;
+                case 'tag': return `#${token.text}`;
+                default: return token.text;
+            }
+        }).join(' ').replace(/ ([(),])/g, '$1').replace(/\( /g, '(').replace(/,(?! )/g, ', ');
+    }
+
+    private atClause(): boolean {
+        const token = this.peek();
+        return !token || (token.kind === 'word' && clauseKeywords.includes(token.text.toUpperCase()));
+    }
+
+    private peek(): Token | undefined {
+        return this.tokens[this.pos];
+    }
+
+    private next(): Token | undefined {
+        return this.tokens[this.pos++];
+    }
+
+    private acceptWord(word: string): boolean {
+        const token = this.peek();
+        if (token?.kind === 'word' && token.text.toUpperCase() === word) {
+            this.pos++;
+            return true;
+        }
+        return false;
+    }
+
+    private acceptSymbol(symbol: string): boolean {
+        const token = this.peek();
+        if (token?.kind === 'symbol' && token.text === symbol) {
+            this.pos++;
+            return true;
+        }
+        return false;
+    }
+
+    private expectSymbol(symbol: string): void {
+        if (!this.acceptSymbol(symbol)) {
+            const token = this.peek();
+            throw new NoteQueryError(`Expected "${symbol}"${token ? `, found "${token.text}"` : ''}`);
+        }
+    }
+}
+
+interface EvaluationContext {
+    readonly byId: Map<string, QueryPage>;
+    readonly inlinks: Map<string, QueryPage[]>;
+}
+
+function matchesSource(
+    source: QuerySource,
+    page: QueryPage,
+    byId: Map<string, QueryPage>,
+    resolveLink: (linkText: string) => string | undefined
+): boolean {
+    switch (source.type) {
+        case 'tag':
+            return page.tags.some(tag => {
+                const lower = tag.toLowerCase();
+                return lower === source.tag || lower.startsWith(`${source.tag}/`);
+            });
+        case 'folder':
+            return source.folder === '' || page.path === source.folder || page.path.startsWith(`${source.folder}/`);
+        case 'inlinks': {
+            const target = resolveLink(source.linkText);
+            return target !== undefined && page.outlinks.includes(target);
+        }
+        case 'outlinks': {
+            const origin = byId.get(resolveLink(source.linkText) ?? '');
+            return origin !== undefined && origin.outlinks.includes(page.id);
+        }
+        case 'not':
+            return !matchesSource(source.source, page, byId, resolveLink);
+        case 'and':
+            return matchesSource(source.left, page, byId, resolveLink) && matchesSource(source.right, page, byId, resolveLink);
+        case 'or':
+            return matchesSource(source.left, page, byId, resolveLink) || matchesSource(source.right, page, byId, resolveLink);
+    }
+}
+
+function evaluate(expression: QueryExpression, page: QueryPage, task: QueryTask | undefined, context: EvaluationContext): QueryValue {
+    switch (expression.type) {
+        case 'literal':
+            return expression.value;
+        case 'field':
+            return resolveField(expression.path, page, task, context);
+        case 'not':
+            return !isTruthy(evaluate(expression.operand, page, task, context));
+        case 'call':
+            return functions[expression.name](expression.args.map(arg => evaluate(arg, page, task, context)));
+        case 'binary': {
+            const left = evaluate(expression.left, page, task, context);
+            if (expression.operator === 'and') {
+                return isTruthy(left) && isTruthy(evaluate(expression.right, page, task, context));
+            }
+            if (expression.operator === 'or') {
+                return isTruthy(left) || isTruthy(evaluate(expression.right, page, task, context));
+            }
+            const right = evaluate(expression.right, page, task, context);
+            if (expression.operator === '=' || expression.operator === '!=') {
+                return (compareValues(left, right) === 0) === (expression.operator === '=');
+            }
+            // null との大小比較は常に偽
+            if (left === null || right === null) {
+                return false;
+            }
+            const result = compareValues(left, right);
+            switch (expression.operator) {
+                case '<': return result < 0;
+                case '<=': return result <= 0;
+                case '>': return result > 0;
+                default: return result >= 0;
+            }
+        }
+    }
+}
+
+/**
+ * Resolves `file.*` fields, task fields (`text` and `completed` in TASK queries)
+ * and frontmatter properties (case-insensitive). Unknown fields are null.
+ */
+function resolveField(path: string[], page: QueryPage, task: QueryTask | undefined, context: EvaluationContext): QueryValue {
+    const [head, ...rest] = path.map(part => part.toLowerCase());
+    if (head === 'file' && rest.length === 1) {
+        switch (rest[0]) {
+            case 'name': return page.title;
+            case 'path': return page.path;
+            case 'folder': return page.path.includes('/') ? page.path.substring(0, page.path.lastIndexOf('/')) : '';
+            case 'link': return { link: page.title };
+            case 'tags': return page.tags.map(tag => `#${tag}`);
+            case 'outlinks':
+                return page.outlinks
+                    .map(id => context.byId.get(id))
+                    .filter((p): p is QueryPage => p !== undefined)
+                    .map(p => ({ link: p.title }));
+            case 'inlinks': return (context.inlinks.get(page.id) ?? []).map(p => ({ link: p.title }));
+            case 'tasks': return page.tasks.map(t => t.text);
+        }
+        return null;
+    }
+    if (task && rest.length === 0) {
+        switch (head) {
+            case 'text': return task.text;
+            case 'completed': return task.completed;
+        }
+    }
+
+    // frontmatter はトップレベルのプロパティのみ扱うため、ネストしたフィールドは null
+    const key = Object.keys(page.properties).find(k => k.toLowerCase() === head);
+    return key === undefined || rest.length > 0 ? null : toQueryValue(page.properties[key]);
+}
+
+function isTruthy(value: QueryValue): boolean {
+    if (Array.isArray(value)) {
+        return value.length > 0;
+    }
+    return value !== null && value !== false && value !== '' && value !== 0;
+}
+
+/**
+ * Compares two values: numbers numerically (also when given as numeric strings),
+ * links by target, lists item by item and everything else as case-sensitive text.
+ */
+function compareValues(a: QueryValue, b: QueryValue): number {
+    if (a === null || b === null) {
+        return a === b ? 0 : a === null ? -1 : 1;
+    }
+    if (Array.isArray(a) || Array.isArray(b)) {
+        const left = Array.isArray(a) ? a : [a];
+        const right = Array.isArray(b) ? b : [b];
+        for (let i = 0; i < Math.min(left.length, right.length); i++) {
+            const result = compareValues(left[i], right[i]);
+            if (result !== 0) {
+                return result;
+            }
+        }
+        return left.length - right.length;
+    }
+    const left = toComparable(a);
+    const right = toComparable(b);
+    if (typeof left === 'number' && typeof right === 'number') {
+        return left - right;
+    }
+    const leftText = String(left);
+    const rightText = String(right);
+    return leftText < rightText ? -1 : leftText > rightText ? 1 : 0;
+}
+
+function toComparable(value: Exclude<QueryValue, null | QueryValue[]>): string | number {
+    if (typeof value === 'number') {
+        return value;
+    }
+    if (typeof value === 'boolean') {
+        return value ? 1 : 0;
+    }
+    if (typeof value === 'object') {
+        return value.link;
+    }
+    return /^-?\d+(\.\d+)?$/.test(value) ? Number(value) : value;
+}
+
+function valueToString(value: QueryValue): string {
+    if (value === null) {
+        return '';
+    }
+    if (Array.isArray(value)) {
+        return value.map(valueToString).join(', ');
+    }
+    if (typeof value === 'object') {
+        return value.link;
+    }
+    return String(value);
+}
+
+function formatValue(value: QueryValue): string {
+    if (value === null) {
+        return '';
+    }
+    if (Array.isArray(value)) {
+        return value.map(formatValue).join(', ');
+    }
+    if (typeof value === 'object') {
+        return `[[${value.link}]]`;
+    }
+    return String(value).replace(/\n/g, ' ');
+}
+
+function escapeCell(text: string): string {
+    // WikiLink の表示名区切り "|" もテーブルの区切りと衝突するためエスケープする
+    return text.replace(/\|/g, '\\|');
+}
+
+/**
+ * Resolves `today`, `yesterday`, `tomorrow` or an ISO date to `YYYY-MM-DD`.
+ */
+function resolveDate(value: string, now: Date = new Date()): string | null {
+    const offsets: Record<string, number> = { today: 0, yesterday: -1, tomorrow: 1 };
+    if (value.toLowerCase() in offsets) {
+        const date = new Date(now.getFullYear(), now.getMonth(), now.getDate() + offsets[value.toLowerCase()]);
+        const pad = (n: number) => String(n).padStart(2, '0');
+        return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+    }
+    const m = value.match(/^(\d{4}-\d{2}-\d{2})/);
+    return m ? m[1] : null;
+}
@@ -10,6 +10,23 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 
+/**
+ * Kind of non-note file that can be embedded with `![[file]]`.
+ */
+export type AttachmentKind = 'image' | 'pdf';
+
+/** File extensions (without the dot) rendered as attachments instead of notes. */
+const attachmentExtensions = new Map<string, AttachmentKind>([
+    ['png', 'image'],
+    ['jpg', 'image'],
+    ['jpeg', 'image'],
+    ['gif', 'image'],
+    ['svg', 'image'],
+    ['webp', 'image'],
+    ['bmp', 'image'],
+    ['pdf', 'pdf']
+]);
+
 /**
  * Utility class for cross-platform path handling and file system operations.
  * Ensures compatibility across Windows, Linux, and macOS by providing safe
@@ -109,6 +126,26 @@ export class PathUtil {
         return sanitized.trim();
     }
 
+    /**
+     * リンク先が添付ファイル（画像/PDF）かどうかを拡張子で判定します。
+     *
+     * @param fileName - WikiLink のページ名またはファイル名。
+     * @returns 添付ファイルの種類。ノートの場合は`undefined`。
+     */
+    static getAttachmentKind(fileName: string): AttachmentKind | undefined {
+        return attachmentExtensions.get(path.extname(fileName).slice(1).toLowerCase());
+    }
+
+    /**
+     * 添付ファイル（画像/PDF）を検索するための glob パターンを返します。
+     *
+     * @param extraExtensions - 添付ファイルと一緒に検索する拡張子（ドットなし、例: ノートの `md`）。
+     * @returns `**\/*.{png,jpg,...}` 形式の glob パターン。
+     */
+    static getAttachmentGlob(extraExtensions: string[] = []): string {
+        return `**/*.{${[...extraExtensions, ...attachmentExtensions.keys()].join(',')}}`;
+    }
+
     /**
      * ファイルの保存先URIを安全に生成します。
      *
@@ -121,15 +158,18 @@ export class PathUtil {
      * @param fileName - 作成するファイルの名前。
      * @param extension - ファイルの拡張子。
      * @param workspaceFolder - 現在のワークスペースフォルダ。
+     * @param folder - 保管庫ルートからのサブフォルダ（`a/b` 形式、各階層もサニタイズされます）。
      * @returns 生成された`vscode.Uri`オブジェクト。
      */
     static createSafeUri(
         vaultRoot: string,
         fileName: string,
         extension: string,
-        workspaceFolder: vscode.WorkspaceFolder
+        workspaceFolder: vscode.WorkspaceFolder,
+        folder: string = ''
     ): vscode.Uri {
-        const sanitizedFileName = this.sanitizeFileName(fileName) + extension;
+        const folderSegments = folder.split('/').filter(segment => segment !== '').map(segment => this.sanitizeFileName(segment));
+        const sanitizedFileName = [...folderSegments, this.sanitizeFileName(fileName) + extension].join('/');
 
         if (vaultRoot && vaultRoot.trim() !== '') {
             if (this.isAbsolutePath(vaultRoot)) {
@@ -145,4 +185,67 @@ export class PathUtil {
             return vscode.Uri.joinPath(workspaceFolder.uri, sanitizedFileName);
         }
     }
+
+    /**
+     * 保管庫ルートからの相対パスをURIに変換します。
+     *
+     * 絶対パスの`vaultRoot`ではワークスペースURIのスキーム（`file://`、`vscode-remote://` など）を保持するため、
+     * リモート環境でも正しく動作します。
+     *
+     * @param vaultRoot - 設定で指定された保管庫のルートパス（空の場合はワークスペースルート）。
+     * @param workspaceFolder - 現在のワークスペースフォルダ。
+     * @param segments - 保管庫ルートからのパス（サニタイズされません）。
+     * @returns 生成された`vscode.Uri`オブジェクト。
+     */
+    static resolveVaultUri(vaultRoot: string, workspaceFolder: vscode.WorkspaceFolder, ...segments: string[]): vscode.Uri {
+        if (!vaultRoot || vaultRoot.trim() === '') {
+            return vscode.Uri.joinPath(workspaceFolder.uri, ...segments);
+        }
+        if (!vaultRoot.startsWith('/') && !vaultRoot.match(/^[A-Za-z]:/)) {
+            return vscode.Uri.joinPath(workspaceFolder.uri, vaultRoot, ...segments);
+        }
+        if (workspaceFolder.uri.scheme === 'file') {
+            return vscode.Uri.file([vaultRoot, ...segments].join('/'));
+        }
+        // リモート環境の場合、正規化されたパスでURIを構築
+        return workspaceFolder.uri.with({ path: [normalizeAbsolutePath(vaultRoot), ...segments].join('/') });
+    }
+
+    /**
+     * 同名のノートと区別できる最短のパス（末尾からのフォルダ階層 + ファイル名）を返します。
+     *
+     * @param relativePath - 対象ノートの保管庫ルートからの相対パス（`/` 区切り、拡張子なし）。
+     * @param allPaths - 保管庫内の全ノートの相対パス（同じ形式、対象自身を含んでもよい）。
+     * @returns 一意になる最短パス。同名ノートがなければファイル名のみ、
+     *          他のノートのパスの末尾と一致してしまう場合は `/` から始まるルートからのパス。
+     * @example
+     * ```typescript
+     * PathUtil.getShortestUniquePath('work/projects/Meeting', ['Meeting', 'work/projects/Meeting'])  // 'projects/Meeting'
+     * ```
+     */
+    static getShortestUniquePath(relativePath: string, allPaths: string[]): string {
+        const segments = relativePath.split('/');
+        const others = allPaths.filter(other => other !== relativePath).map(other => other.split('/'));
+
+        for (let length = 1; length <= segments.length; length++) {
+            const suffix = segments.slice(-length);
+            const ambiguous = others.some(other =>
+                other.length >= length && other.slice(-length).every((segment, i) => segment === suffix[i])
+            );
+            if (!ambiguous) {
+                return suffix.join('/');
+            }
+        }
+        return `/${relativePath}`;
+    }
+}
+
+/**
+ * Normalizes an absolute path for safe URI construction in remote environments.
+ * Converts Windows backslashes to forward slashes and ensures proper URI path format.
+ */
+function normalizeAbsolutePath(absolutePath: string): string {
+    // Convert Windows backslashes to forward slashes, ensure a single leading slash
+    // and remove duplicate slashes
+    return `/${absolutePath.replace(/\\/g, '/')}`.replace(/\/+/g, '/');
 }
@@ -0,0 +1,69 @@
+/**
+ * @fileoverview Date arithmetic for periodic notes (weekly, monthly, quarterly, yearly).
+ * Weeks follow ISO 8601 and start on Monday, matching the GGGG/WW format tokens.
+ * Pure functions (no VS Code API) so they are easy to unit test.
+ *
+ * @author MDloggerForCode Team
+ * @version 1.0.0
+ */
+
+/**
+ * Period covered by a periodic note.
+ */
+export type NotePeriod = 'week' | 'month' | 'quarter' | 'year';
+
+/** Every period, from the shortest to the longest. */
+export const notePeriods: readonly NotePeriod[] = ['week', 'month', 'quarter', 'year'];
+
+/**
+ * Gets the first day of the period containing a date.
+ *
+ * @param date - Any date inside the period
+ * @param period - The period
+ * @returns Local midnight of the Monday / first day of the month, quarter or year
+ */
+export function getPeriodStart(date: Date, period: NotePeriod): Date {
+    switch (period) {
+        case 'week':
+            return new Date(date.getFullYear(), date.getMonth(), date.getDate() - (date.getDay() + 6) % 7);
+        case 'month':
+            return new Date(date.getFullYear(), date.getMonth(), 1);
+        case 'quarter':
+            return new Date(date.getFullYear(), date.getMonth() - date.getMonth() % 3, 1);
+        case 'year':
+            return new Date(date.getFullYear(), 0, 1);
+    }
+}
+
+/**
+ * Moves a date by whole periods and returns the start of the resulting period.
+ *
+ * @param date - Any date inside the starting period
+ * @param period - The period
+ * @param amount - Number of periods to move (negative to go back)
+ * @returns First day of the target period
+ */
+export function addPeriods(date: Date, period: NotePeriod, amount: number): Date {
+    const start = getPeriodStart(date, period);
+    switch (period) {
+        case 'week':
+            return new Date(start.getFullYear(), start.getMonth(), start.getDate() + amount * 7);
+        case 'month':
+            return new Date(start.getFullYear(), start.getMonth() + amount, 1);
+        case 'quarter':
+            return new Date(start.getFullYear(), start.getMonth() + amount * 3, 1);
+        case 'year':
+            return new Date(start.getFullYear() + amount, 0, 1);
+    }
+}
+
+/**
+ * Gets the days of the week containing a date.
+ *
+ * @param date - Any date inside the week
+ * @returns The seven days from Monday to Sunday
+ */
+export function getWeekDays(date: Date): Date[] {
+    const monday = getPeriodStart(date, 'week');
+    return Array.from({ length: 7 }, (_, i) => new Date(monday.getFullYear(), monday.getMonth(), monday.getDate() + i));
+}
@@ -0,0 +1,461 @@
+/**
+ * @fileoverview Search query parsing and matching.
+ * Parses queries such as `meeting tag:#work -draft "next step" /todo\d+/ line:(alpha beta)`
+ * into a tree, and matches that tree against the lines, tags and path of a note.
+ * Pure functions (no VS Code API) so they are easy to unit test.
+ *
+ * @author MDloggerForCode Team
+ * @version 1.0.0
+ */
+
+/**
+ * Fields a search term can be restricted to with `field:value`.
+ * `content` is the default; `task` matches any task, `task-todo`/`task-done` open or completed ones.
+ */
+export type SearchField = 'content' | 'tag' | 'path' | 'file' | 'task' | 'task-todo' | 'task-done';
+
+/**
+ * Text matcher of a single term: a case-insensitive substring (word or "quoted phrase")
+ * or a `/regular expression/`.
+ */
+export type SearchMatcher =
+    | { readonly kind: 'text'; readonly text: string }
+    | { readonly kind: 'regex'; readonly regex: RegExp };
+
+/**
+ * Parsed search query. Terms separated by spaces are combined with `and`,
+ * `OR` combines alternatives and a leading `-` negates a term or group.
+ */
+export type SearchNode =
+    | { readonly type: 'and'; readonly children: SearchNode[] }
+    | { readonly type: 'or'; readonly children: SearchNode[] }
+    | { readonly type: 'not'; readonly child: SearchNode }
+    | { readonly type: 'line'; readonly child: SearchNode }
+    | { readonly type: 'term'; readonly field: SearchField; readonly matcher: SearchMatcher };
+
+/**
+ * The parts of a note a query is matched against.
+ */
+export interface SearchDocument {
+    readonly title: string;
+    readonly relativePath: string;
+    readonly lines: string[];
+    readonly tags: { readonly line: number; readonly character: number; readonly length: number; readonly tag: string }[];
+}
+
+/**
+ * A matching line with the character ranges to highlight.
+ */
+export interface SearchLineMatch {
+    readonly line: number;
+    readonly text: string;
+    readonly ranges: [number, number][];
+}
+
+/**
+ * Error thrown for queries that cannot be parsed (unbalanced parentheses,
+ * unterminated phrases, invalid regular expressions).
+ */
+export class SearchQueryError extends Error {
+    /**
+     * Creates a new SearchQueryError instance.
+     *
+     * @param message - Error description
+     * @param position - Character offset in the query where the problem was found
+     */
+    constructor(message: string, public readonly position: number) {
+        super(message);
+        this.name = 'SearchQueryError';
+    }
+}
+
+const fields: readonly string[] = ['content', 'tag', 'path', 'file', 'task', 'task-todo', 'task-done', 'line'];
+const taskRegex = /^(\s*[-*+]\s+)\[([ xX])\]\s+(.*)$/;
+
+type LineRanges = Map<number, [number, number][]>;
+
+/**
+ * Parses a search query.
+ *
+ * @param query - Query text as typed by the user
+ * @returns The parsed query tree
+ * @throws {SearchQueryError} When the query is empty or malformed
+ */
+export function parseSearchQuery(query: string): SearchNode {
+    const parser = new QueryParser(query);
+    return parser.parse();
+}
+
+/**
+ * Matches a parsed query against a note.
+ *
+ * @param query - Parsed query
+ * @param document - The note to match
+ * @returns Matching lines sorted by line number (empty when the note matches without
+ *          specific lines, e.g. `path:`), or undefined when the note does not match
+ */
+export function matchSearchDocument(query: SearchNode, document: SearchDocument): SearchLineMatch[] | undefined {
+    const result = evaluate(query, document);
+    if (!result) {
+        return undefined;
+    }
+    return Array.from(result.entries())
+        .sort((a, b) => a[0] - b[0])
+        .map(([line, ranges]) => ({ line, text: document.lines[line], ranges: mergeRanges(ranges) }));
+}
+
+/**
+ * Collects the plain words a note must contain for the query to match, used to
+ * narrow down candidates with the inverted index. Words inside `OR`, negations
+ * and regular expressions are not required and therefore skipped.
+ *
+ * @param query - Parsed query
+ * @returns Lower-cased required words
+ */
+export function getRequiredWords(query: SearchNode): string[] {
+    switch (query.type) {
+        case 'and':
+            return query.children.flatMap(getRequiredWords);
+        case 'line':
+            return getRequiredWords(query.child);
+        case 'term':
+            return query.field === 'content' && query.matcher.kind === 'text' ? tokenize(query.matcher.text) : [];
+        default:
+            return [];
+    }
+}
+
+/**
+ * Splits text into lower-cased index tokens (runs of letters, digits and `_`).
+ *
+ * @param text - Text to tokenize
+ * @returns Tokens in order of appearance
+ */
+export function tokenize(text: string): string[] {
+    return text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+}
+
+class QueryParser {
+    private pos = 0;
+
+    constructor(private readonly query: string) {}
+
+    parse(): SearchNode {
+        this.skipSpaces();
+        if (this.pos >= this.query.length) {
+            throw new SearchQueryError('Enter a search query', 0);
+        }
+        const node = this.parseOr('content');
+        this.skipSpaces();
+        if (this.pos < this.query.length) {
+            throw new SearchQueryError(`Unexpected "${this.query[this.pos]}"`, this.pos);
+        }
+        return node;
+    }
+
+    private parseOr(field: SearchField): SearchNode {
+        const children = [this.parseAnd(field)];
+        while (this.peekWord() === 'OR') {
+            this.pos += 2;
+            children.push(this.parseAnd(field));
+        }
+        return children.length === 1 ? children[0] : { type: 'or', children };
+    }
+
+    private parseAnd(field: SearchField): SearchNode {
+        const children: SearchNode[] = [];
+        for (;;) {
+            this.skipSpaces();
+            if (this.pos >= this.query.length || this.query[this.pos] === ')' || this.peekWord() === 'OR') {
+                break;
+            }
+            children.push(this.parseUnary(field));
+        }
+        if (children.length === 0) {
+            throw new SearchQueryError('Expected a search term', this.pos);
+        }
+        return children.length === 1 ? children[0] : { type: 'and', children };
+    }
+
+    private parseUnary(field: SearchField): SearchNode {
+        if (this.query[this.pos] === '-' && /[^\s)]/.test(this.query[this.pos + 1] ?? ' ')) {
+            this.pos++;
+            return { type: 'not', child: this.parseUnary(field) };
+        }
+        return this.parsePrimary(field);
+    }
+
+    private parsePrimary(field: SearchField): SearchNode {
+        const start = this.pos;
+        if (this.query[this.pos] === '(') {
+            return this.parseGroup(field);
+        }
+
+        const fieldMatch = this.query.substring(this.pos).match(/^([a-z-]+):/);
+        if (fieldMatch && fields.includes(fieldMatch[1])) {
+            this.pos += fieldMatch[0].length;
+            if (fieldMatch[1] === 'line') {
+                const child = this.query[this.pos] === '(' ? this.parseGroup('content') : this.parsePrimary('content');
+                return { type: 'line', child };
+            }
+            const inner = fieldMatch[1] as SearchField;
+            if (this.query[this.pos] === '(') {
+                return this.parseGroup(inner);
+            }
+            if (this.pos >= this.query.length || /\s/.test(this.query[this.pos])) {
+                throw new SearchQueryError(`Expected a value after "${fieldMatch[0]}"`, start);
+            }
+            return this.parseTerm(inner);
+        }
+
+        return this.parseTerm(field);
+    }
+
+    private parseGroup(field: SearchField): SearchNode {
+        const open = this.pos;
+        this.pos++;
+        const node = this.parseOr(field);
+        this.skipSpaces();
+        if (this.query[this.pos] !== ')') {
+            throw new SearchQueryError('Missing ")"', open);
+        }
+        this.pos++;
+        return node;
+    }
+
+    private parseTerm(field: SearchField): SearchNode {
+        const start = this.pos;
+        const ch = this.query[this.pos];
+
+        if (ch === '"') {
+            const end = this.query.indexOf('"', this.pos + 1);
+            if (end === -1) {
+                throw new SearchQueryError('Unterminated quoted phrase', start);
+            }
+            this.pos = end + 1;
+            return this.createTerm(field, { kind: 'text', text: this.query.substring(start + 1, end).toLowerCase() });
+        }
+
+        if (ch === '/') {
+            const regex = this.query.substring(this.pos).match(/^\/((?:[^/\\]|\\.)+)\/([a-z]*)/);
+            if (regex) {
+                this.pos += regex[0].length;
+                try {
+                    const flags = regex[2].replace(/g/g, '');
+                    return this.createTerm(field, { kind: 'regex', regex: new RegExp(regex[1], flags.includes('i') ? flags : `${flags}i`) });
+                } catch (error) {
+                    throw new SearchQueryError(`Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`, start);
+                }
+            }
+        }
+
+        const word = this.query.substring(this.pos).match(/^[^\s()"]+/);
+        if (!word) {
+            throw new SearchQueryError(`Unexpected "${ch}"`, start);
+        }
+        this.pos += word[0].length;
+        return this.createTerm(field, { kind: 'text', text: word[0].toLowerCase() });
+    }
+
+    private createTerm(field: SearchField, matcher: SearchMatcher): SearchNode {
+        if (field === 'tag' && matcher.kind === 'text') {
+            return { type: 'term', field, matcher: { kind: 'text', text: matcher.text.replace(/^#/, '') } };
+        }
+        return { type: 'term', field, matcher };
+    }
+
+    private peekWord(): string | undefined {
+        this.skipSpaces();
+        return this.query.substring(this.pos).match(/^[^\s()]+(?=[\s()]|$)/)?.[0];
+    }
+
+    private skipSpaces(): void {
+        while (this.pos < this.query.length && /\s/.test(this.query[this.pos])) {
+            this.pos++;
+        }
+    }
+}
+
+function evaluate(node: SearchNode, document: SearchDocument): LineRanges | undefined {
+    switch (node.type) {
+        case 'and': {
+            const merged: LineRanges = new Map();
+            for (const child of node.children) {
+                const result = evaluate(child, document);
+                if (!result) {
+                    return undefined;
+                }
+                mergeInto(merged, result);
+            }
+            return merged;
+        }
+        case 'or': {
+            let merged: LineRanges | undefined;
+            for (const child of node.children) {
+                const result = evaluate(child, document);
+                if (result) {
+                    merged = merged ?? new Map();
+                    mergeInto(merged, result);
+                }
+            }
+            return merged;
+        }
+        case 'not':
+            return evaluate(node.child, document) ? undefined : new Map();
+        case 'line': {
+            const result: LineRanges = new Map();
+            document.lines.forEach((_, line) => {
+                const ranges = evaluateLine(node.child, document, line);
+                if (ranges) {
+                    result.set(line, ranges);
+                }
+            });
+            return result.size > 0 ? result : undefined;
+        }
+        case 'term': {
+            if (node.field === 'path' || node.field === 'file') {
+                return matchesDocument(node, document) ? new Map() : undefined;
+            }
+            const result: LineRanges = new Map();
+            document.lines.forEach((_, line) => {
+                const ranges = evaluateLine(node, document, line);
+                if (ranges) {
+                    result.set(line, ranges);
+                }
+            });
+            return result.size > 0 ? result : undefined;
+        }
+    }
+}
+
+/**
+ * Evaluates a node against a single line. Path and file terms apply to the whole note.
+ */
+function evaluateLine(node: SearchNode, document: SearchDocument, line: number): [number, number][] | undefined {
+    switch (node.type) {
+        case 'and': {
+            const ranges: [number, number][] = [];
+            for (const child of node.children) {
+                const result = evaluateLine(child, document, line);
+                if (!result) {
+                    return undefined;
+                }
+                ranges.push(...result);
+            }
+            return ranges;
+        }
+        case 'or': {
+            let ranges: [number, number][] | undefined;
+            for (const child of node.children) {
+                const result = evaluateLine(child, document, line);
+                if (result) {
+                    ranges = [...(ranges ?? []), ...result];
+                }
+            }
+            return ranges;
+        }
+        case 'not':
+            return evaluateLine(node.child, document, line) ? undefined : [];
+        case 'line':
+            return evaluateLine(node.child, document, line);
+        case 'term':
+            return matchTermOnLine(node, document, line);
+    }
+}
+
+function matchTermOnLine(
+    term: Extract<SearchNode, { type: 'term' }>,
+    document: SearchDocument,
+    line: number
+): [number, number][] | undefined {
+    const text = document.lines[line];
+    switch (term.field) {
+        case 'content': {
+            const ranges = findMatches(term.matcher, text, 0);
+            return ranges.length > 0 ? ranges : undefined;
+        }
+        case 'tag': {
+            const ranges = document.tags
+                .filter(t => t.line === line && matchesTag(term.matcher, t.tag))
+                .map((t): [number, number] => [t.character, t.character + t.length]);
+            return ranges.length > 0 ? ranges : undefined;
+        }
+        case 'task':
+        case 'task-todo':
+        case 'task-done': {
+            const task = text.match(taskRegex);
+            if (!task) {
+                return undefined;
+            }
+            const done = task[2] !== ' ';
+            if ((term.field === 'task-todo' && done) || (term.field === 'task-done' && !done)) {
+                return undefined;
+            }
+            const offset = text.length - task[3].length;
+            const ranges = findMatches(term.matcher, task[3], offset);
+            return ranges.length > 0 ? ranges : undefined;
+        }
+        default:
+            return matchesDocument(term, document) ? [] : undefined;
+    }
+}
+
+function matchesDocument(term: Extract<SearchNode, { type: 'term' }>, document: SearchDocument): boolean {
+    const target = term.field === 'file' ? document.title : document.relativePath;
+    return findMatches(term.matcher, target, 0).length > 0;
+}
+
+function matchesTag(matcher: SearchMatcher, tag: string): boolean {
+    if (matcher.kind === 'regex') {
+        return matcher.regex.test(tag);
+    }
+    const lower = tag.toLowerCase();
+    return lower === matcher.text || lower.startsWith(`${matcher.text}/`);
+}
+
+function findMatches(matcher: SearchMatcher, text: string, offset: number): [number, number][] {
+    const ranges: [number, number][] = [];
+    if (matcher.kind === 'regex') {
+        const regex = new RegExp(matcher.regex.source, `${matcher.regex.flags}g`);
+        let m: RegExpExecArray | null;
+        while ((m = regex.exec(text)) !== null) {
+            if (m[0].length === 0) {
+                regex.lastIndex++;
+                continue;
+            }
+            ranges.push([offset + m.index, offset + m.index + m[0].length]);
+        }
+        return ranges;
+    }
+
+    if (matcher.text === '') {
+        return [[offset, offset]];
+    }
+    const lower = text.toLowerCase();
+    let index = lower.indexOf(matcher.text);
+    while (index !== -1) {
+        ranges.push([offset + index, offset + index + matcher.text.length]);
+        index = lower.indexOf(matcher.text, index + matcher.text.length);
+    }
+    return ranges;
+}
+
+function mergeInto(target: LineRanges, source: LineRanges): void {
+    for (const [line, ranges] of source) {
+        target.set(line, [...(target.get(line) ?? []), ...ranges]);
+    }
+}
+
+function mergeRanges(ranges: [number, number][]): [number, number][] {
+    const sorted = ranges.filter(([start, end]) => end > start).sort((a, b) => a[0] - b[0]);
+    const merged: [number, number][] = [];
+    for (const range of sorted) {
+        const last = merged[merged.length - 1];
+        if (last && range[0] <= last[1]) {
+            last[1] = Math.max(last[1], range[1]);
+        } else {
+            merged.push([range[0], range[1]]);
+        }
+    }
+    return merged;
+}
@@ -1,12 +1,38 @@
 import { TaskItem, extractTasks, markTaskCompleted } from './NoteParser';
+import { TaskGroup, TaskMetadata, compareTasks, getTaskGroup } from './TaskMetadata';
 
-export interface CollectedTask {
+export interface CollectedTask extends TaskMetadata {
     uri: string;
     file: string;
     line: number;
     text: string;
 }
 
+/**
+ * A collected task with the section of the task list it belongs to.
+ */
+export interface GroupedTask extends CollectedTask {
+    group: TaskGroup;
+}
+
+/**
+ * Build a collected task from a task of a file.
+ */
+export function toCollectedTask(uri: string, file: string, task: TaskItem): CollectedTask {
+    return {
+        uri,
+        file,
+        line: task.line,
+        text: task.text,
+        due: task.due,
+        scheduled: task.scheduled,
+        priority: task.priority,
+        recurrence: task.recurrence,
+        tags: task.tags,
+        description: task.description
+    };
+}
+
 /**
  * Collect open (unchecked) tasks from multiple file contents.
  * files: array of { uri, file, content }
@@ -17,7 +43,7 @@ export function collectOpenTasksFromFiles(files: { uri: string; file: string; co
     for (const f of files) {
         const tasks = extractTasks(f.content);
         for (const t of tasks) {
-            results.push({ uri: f.uri, file: f.file, line: t.line, text: t.text });
+            results.push(toCollectedTask(f.uri, f.file, t));
         }
     }
 
@@ -31,3 +57,15 @@ export function collectOpenTasksFromFiles(files: { uri: string; file: string; co
 export function applyTaskCompletionToContent(content: string, lineIndex: number, completionDate: string): string {
     return markTaskCompleted(content, lineIndex, completionDate);
 }
+
+/**
+ * Sort tasks by date and priority and assign their group (overdue, today, upcoming, no date).
+ * Groups follow each other in display order because they are derived from the same date.
+ * today: YYYY-MM-DD
+ */
+export function groupTasks(tasks: CollectedTask[], today: string): GroupedTask[] {
+    return tasks
+        .slice()
+        .sort(compareTasks)
+        .map(task => ({ ...task, group: getTaskGroup(task, today) }));
+}
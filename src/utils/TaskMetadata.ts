@@ -0,0 +1,276 @@
+/**
+ * @fileoverview Inline task fields: due/scheduled/completion dates, priority, recurrence and tags.
+ * Understands both the emoji notation (`📅 2026-11-01`, `⏳ ...`, `✅ ...`, `⏫`, `🔁 every week`)
+ * and bracketed fields (`[due: 2026-11-01]`, `[scheduled: ...]`, `[completion: ...]`,
+ * `[priority: high]`, `[repeat: every week]`; `::` is accepted as well).
+ * Pure functions (no VS Code API) so they are easy to unit test.
+ *
+ * @author MDloggerForCode Team
+ * @version 1.0.0
+ */
+
+/**
+ * Priority of a task, from the most to the least urgent.
+ */
+export type TaskPriority = 'highest' | 'high' | 'medium' | 'low' | 'lowest';
+
+/**
+ * Date field of a task.
+ */
+export type TaskDateField = 'due' | 'scheduled' | 'completion';
+
+/**
+ * Section of the task list a task is shown in, by its due (or scheduled) date.
+ */
+export type TaskGroup = 'overdue' | 'today' | 'upcoming' | 'noDate';
+
+/** Groups in display order. */
+export const taskGroups: readonly TaskGroup[] = ['overdue', 'today', 'upcoming', 'noDate'];
+
+/**
+ * Fields written inline in the text of a task.
+ */
+export interface TaskMetadata {
+    /** Due date (YYYY-MM-DD) */
+    due?: string;
+    /** Date the task is planned to be worked on (YYYY-MM-DD) */
+    scheduled?: string;
+    /** Date the task was completed (YYYY-MM-DD) */
+    completion?: string;
+    priority?: TaskPriority;
+    /** Recurrence rule such as "every week" or "every 2 days when done" */
+    recurrence?: string;
+    /** Tags without the leading "#" */
+    tags: string[];
+    /** Task text without the date, priority and recurrence fields */
+    description: string;
+}
+
+const priorities: readonly TaskPriority[] = ['highest', 'high', 'medium', 'low', 'lowest'];
+
+const priorityEmojis = new Map<string, TaskPriority>([
+    ['🔺', 'highest'],
+    ['⏫', 'high'],
+    ['🔼', 'medium'],
+    ['🔽', 'low'],
+    ['⏬', 'lowest']
+]);
+
+const dateEmojis: Record<TaskDateField, string> = {
+    due: '📅',
+    scheduled: '⏳',
+    completion: '✅'
+};
+
+const weekdays = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const dateValue = '(\\d{4}-\\d{2}-\\d{2})';
+const bracketFieldRegex = /\[(due|scheduled|completion|priority|repeat|recurrence)::?\s*([^\]]*)\]/gi;
+const emojiDateRegex = new RegExp(`(📅|⏳|✅)\\uFE0F?\\s*${dateValue}`, 'gu');
+const priorityEmojiRegex = /(🔺|⏫|🔼|🔽|⏬)\uFE0F?/gu;
+// 🔁 の後ろは次のフィールドか行末までが繰り返しのルール
+const recurrenceEmojiRegex = /🔁\uFE0F?\s*([^📅⏳✅🔺⏫🔼🔽⏬#[]*)/u;
+const tagRegex = /(^|\s)#([\p{L}\p{N}_/-]+)/gu;
+
+/**
+ * Parses the inline fields of a task.
+ *
+ * @param text - Task text (after the checkbox)
+ * @returns The fields found in the text
+ */
+export function parseTaskMetadata(text: string): TaskMetadata {
+    const metadata: TaskMetadata = { tags: [], description: '' };
+    let description = text;
+
+    for (const match of text.matchAll(bracketFieldRegex)) {
+        const key = match[1].toLowerCase();
+        const value = match[2].trim();
+        if (key === 'priority') {
+            const priority = priorities.find(p => p === value.toLowerCase());
+            metadata.priority = metadata.priority ?? priority;
+        } else if (key === 'repeat' || key === 'recurrence') {
+            metadata.recurrence = metadata.recurrence ?? (value || undefined);
+        } else if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+            const field = key as TaskDateField;
+            metadata[field] = metadata[field] ?? value;
+        }
+        description = description.replace(match[0], '');
+    }
+
+    for (const match of text.matchAll(emojiDateRegex)) {
+        const field = (Object.keys(dateEmojis) as TaskDateField[]).find(key => dateEmojis[key] === match[1])!;
+        metadata[field] = metadata[field] ?? match[2];
+        description = description.replace(match[0], '');
+    }
+
+    for (const match of text.matchAll(priorityEmojiRegex)) {
+        metadata.priority = metadata.priority ?? priorityEmojis.get(match[1]);
+        description = description.replace(match[0], '');
+    }
+
+    const recurrence = recurrenceEmojiRegex.exec(description);
+    if (recurrence) {
+        metadata.recurrence = metadata.recurrence ?? (recurrence[1].trim() || undefined);
+        description = description.replace(recurrence[0], '');
+    }
+
+    for (const match of text.matchAll(tagRegex)) {
+        const tag = match[2].replace(/\/+$/, '');
+        if (/[^\d/]/.test(tag) && !metadata.tags.includes(tag)) {
+            metadata.tags.push(tag);
+        }
+    }
+
+    metadata.description = description.replace(/\s+/g, ' ').trim();
+    return metadata;
+}
+
+/**
+ * Gets the group of a task by its due date, or its scheduled date when it has no due date.
+ *
+ * @param metadata - Fields of the task
+ * @param today - Today's date (YYYY-MM-DD)
+ * @returns The group the task is listed in
+ */
+export function getTaskGroup(metadata: Pick<TaskMetadata, 'due' | 'scheduled'>, today: string): TaskGroup {
+    const date = metadata.due ?? metadata.scheduled;
+    if (!date) {
+        return 'noDate';
+    }
+    return date < today ? 'overdue' : date === today ? 'today' : 'upcoming';
+}
+
+/**
+ * Orders tasks by date (due, then scheduled; undated last), then priority, then description.
+ * Tasks without a priority rank between `medium` and `low`.
+ */
+export function compareTasks(a: TaskMetadata, b: TaskMetadata): number {
+    const dateA = a.due ?? a.scheduled;
+    const dateB = b.due ?? b.scheduled;
+    if (dateA !== dateB) {
+        return dateA === undefined ? 1 : dateB === undefined ? -1 : dateA.localeCompare(dateB);
+    }
+    return priorityRank(a.priority) - priorityRank(b.priority) || a.description.localeCompare(b.description);
+}
+
+/**
+ * Computes the date of the next occurrence of a recurring task.
+ * Supports "every [N] day(s)/week(s)/month(s)/year(s)" and "every monday" ... "every sunday",
+ * optionally followed by "when done".
+ *
+ * @param recurrence - Recurrence rule
+ * @param from - Date of the current occurrence
+ * @returns The next date, or undefined when the rule is not understood
+ */
+export function getNextOccurrence(recurrence: string, from: Date): Date | undefined {
+    const rule = recurrence.trim().toLowerCase().replace(/\s+when done$/, '');
+    const weekday = /^every\s+(\w+)$/.exec(rule);
+    if (weekday && weekdays.includes(weekday[1])) {
+        const offset = (weekdays.indexOf(weekday[1]) - from.getDay() + 7) % 7 || 7;
+        return new Date(from.getFullYear(), from.getMonth(), from.getDate() + offset);
+    }
+
+    const interval = /^every\s+(?:(\d+)\s+)?(day|week|month|year)s?$/.exec(rule);
+    if (!interval) {
+        return undefined;
+    }
+    const amount = interval[1] ? Number(interval[1]) : 1;
+    switch (interval[2]) {
+        case 'day':
+            return new Date(from.getFullYear(), from.getMonth(), from.getDate() + amount);
+        case 'week':
+            return new Date(from.getFullYear(), from.getMonth(), from.getDate() + amount * 7);
+        case 'month':
+            return addMonths(from, amount);
+        default:
+            return addMonths(from, amount * 12);
+    }
+}
+
+/**
+ * Creates the text of the next occurrence of a recurring task. Due and scheduled dates move
+ * by the recurrence interval; with "when done" the interval is counted from the completion date.
+ * A task without dates gets the next due date. The completion field is removed.
+ *
+ * @param text - Task text (after the checkbox), before completion
+ * @param completionDate - Date the task was completed (YYYY-MM-DD)
+ * @returns The text of the next occurrence, or undefined when the task does not recur
+ */
+export function createNextOccurrence(text: string, completionDate: string): string | undefined {
+    const metadata = parseTaskMetadata(text);
+    if (!metadata.recurrence) {
+        return undefined;
+    }
+
+    const reference = metadata.due ?? metadata.scheduled;
+    const anchor = parseDateKey(reference ?? completionDate);
+    const base = /\swhen done$/i.test(metadata.recurrence) ? parseDateKey(completionDate) : anchor;
+    const next = base && getNextOccurrence(metadata.recurrence, base);
+    if (!anchor || !next) {
+        return undefined;
+    }
+
+    // 期日（なければ予定日）が次の日付になり、他の日付はそこからの間隔を保つ
+    const shift = (date: string) => {
+        const current = parseDateKey(date)!;
+        const days = Math.round((current.getTime() - anchor.getTime()) / 86400000);
+        return toDateKey(new Date(next.getFullYear(), next.getMonth(), next.getDate() + days));
+    };
+
+    let result = removeTaskField(text, 'completion');
+    for (const field of ['due', 'scheduled'] as const) {
+        const date = metadata[field];
+        if (date) {
+            result = setTaskDate(result, field, shift(date));
+        }
+    }
+    // 日付のない繰り返しタスクには次の期日を付ける
+    if (!reference) {
+        result = `${result.trimEnd()} ${dateEmojis.due} ${toDateKey(next)}`;
+    }
+    return result;
+}
+
+/**
+ * Replaces the value of a date field, keeping its notation. Text without the field is unchanged.
+ *
+ * @param text - Task text
+ * @param field - Date field to change
+ * @param date - New date (YYYY-MM-DD)
+ * @returns The updated text
+ */
+export function setTaskDate(text: string, field: TaskDateField, date: string): string {
+    const bracket = new RegExp(`(\\[${field}::?\\s*)\\d{4}-\\d{2}-\\d{2}(\\s*\\])`, 'i');
+    if (bracket.test(text)) {
+        return text.replace(bracket, `$1${date}$2`);
+    }
+    const emoji = new RegExp(`(${dateEmojis[field]}\\uFE0F?\\s*)\\d{4}-\\d{2}-\\d{2}`, 'u');
+    return text.replace(emoji, `$1${date}`);
+}
+
+function removeTaskField(text: string, field: TaskDateField): string {
+    return text
+        .replace(new RegExp(`\\s*\\[${field}::?\\s*[^\\]]*\\]`, 'gi'), '')
+        .replace(new RegExp(`\\s*${dateEmojis[field]}\\uFE0F?\\s*\\d{4}-\\d{2}-\\d{2}`, 'gu'), '');
+}
+
+function priorityRank(priority: TaskPriority | undefined): number {
+    // 優先度なしは medium と low の間
+    return priority === undefined ? 2.5 : priorities.indexOf(priority);
+}
+
+function addMonths(date: Date, months: number): Date {
+    const target = new Date(date.getFullYear(), date.getMonth() + months, 1);
+    const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+    return new Date(target.getFullYear(), target.getMonth(), Math.min(date.getDate(), lastDay));
+}
+
+function toDateKey(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function parseDateKey(key: string): Date | undefined {
+    const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(key);
+    return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : undefined;
+}
@@ -0,0 +1,125 @@
+/**
+ * @fileoverview Template rendering for new notes.
+ * Expands `{{title}}`, `{{date}}` / `{{date:FORMAT}}`, `{{time}}` / `{{time:FORMAT}}`,
+ * `{{yesterday}}` / `{{tomorrow}}` (links to the adjacent daily notes), `{{prompt:Label}}`
+ * and `{{include:path}}`. `{{cursor}}` is kept in the output and removed by `extractCursor`
+ * once the note is ready to be written, so later edits (frontmatter timestamps, links)
+ * do not shift the cursor position. Unknown placeholders are left as they are.
+ *
+ * @author MDloggerForCode Team
+ * @version 1.0.0
+ */
+
+import { DateTimeFormatter } from './DateTimeFormatter';
+
+/** Maximum nesting of `{{include:...}}`; deeper includes (or cycles) are left unexpanded. */
+const maxIncludeDepth = 5;
+
+const placeholderRegex = /\{\{\s*([A-Za-z]+)(?:\s*:([^}]*))?\s*\}\}/g;
+
+const cursorRegex = /\{\{\s*cursor\s*\}\}/;
+
+/**
+ * Values and callbacks available while rendering a template.
+ */
+export interface TemplateContext {
+    /** Title of the new note (file name without extension) */
+    title: string;
+    /** Date of the note: the day of a daily note, otherwise the creation date */
+    date: Date;
+    /** Current time for `{{time}}` (defaults to now) */
+    now?: Date;
+    dateFormat: string;
+    timeFormat: string;
+    formatter: DateTimeFormatter;
+    /** Asks the user for the value of `{{prompt:Label}}`; undefined (cancelled) renders as empty text */
+    prompt?: (label: string) => Promise<string | undefined>;
+    /** Reads the template of `{{include:path}}`; undefined leaves the placeholder as is */
+    include?: (path: string) => Promise<string | undefined>;
+}
+
+/**
+ * Renders a template. Each `{{prompt:Label}}` is asked once per render, in order of appearance.
+ *
+ * @param template - Template text
+ * @param context - Values and callbacks for the placeholders
+ * @returns The rendered text, still containing `{{cursor}}` if present
+ */
+export async function renderTemplate(template: string, context: TemplateContext): Promise<string> {
+    return render(template, context, new Map(), 0);
+}
+
+/**
+ * Removes the `{{cursor}}` placeholders from rendered text.
+ *
+ * @param content - Rendered text
+ * @returns The text without the placeholders, and the position of the first one (zero-based)
+ */
+export function extractCursor(content: string): { content: string; cursor?: { line: number; character: number } } {
+    const match = cursorRegex.exec(content);
+    if (!match) {
+        return { content };
+    }
+    const before = content.slice(0, match.index).split(/\r?\n/);
+    return {
+        content: content.replace(new RegExp(cursorRegex.source, 'g'), ''),
+        cursor: { line: before.length - 1, character: before[before.length - 1].length }
+    };
+}
+
+async function render(template: string, context: TemplateContext, answers: Map<string, string>, depth: number): Promise<string> {
+    let result = '';
+    let last = 0;
+    for (const match of template.matchAll(placeholderRegex)) {
+        const value = await expand(match[1].toLowerCase(), match[2]?.trim(), context, answers, depth);
+        result += template.slice(last, match.index) + (value ?? match[0]);
+        last = match.index! + match[0].length;
+    }
+    return result + template.slice(last);
+}
+
+async function expand(
+    name: string,
+    argument: string | undefined,
+    context: TemplateContext,
+    answers: Map<string, string>,
+    depth: number
+): Promise<string | undefined> {
+    const format = (date: Date, defaultFormat: string) => context.formatter.formatDate(date, argument || defaultFormat);
+    const dayLink = (offset: number) => {
+        const day = new Date(context.date.getFullYear(), context.date.getMonth(), context.date.getDate() + offset);
+        return `[[${format(day, context.dateFormat)}]]`;
+    };
+
+    switch (name) {
+        case 'title':
+            return context.title;
+        case 'date':
+            return format(context.date, context.dateFormat);
+        case 'time':
+            return format(context.now ?? new Date(), context.timeFormat);
+        case 'yesterday':
+            return dayLink(-1);
+        case 'tomorrow':
+            return dayLink(1);
+        case 'prompt': {
+            if (!argument || !context.prompt) {
+                return undefined;
+            }
+            if (!answers.has(argument)) {
+                answers.set(argument, (await context.prompt(argument)) ?? '');
+            }
+            return answers.get(argument);
+        }
+        case 'include': {
+            if (!argument || !context.include || depth >= maxIncludeDepth) {
+                return undefined;
+            }
+            const included = await context.include(argument);
+            return included === undefined ? undefined : render(included, context, answers, depth + 1);
+        }
+        default:
+            // {{cursor}} と未知のプレースホルダーはそのまま残す
+            return undefined;
+    }
+}
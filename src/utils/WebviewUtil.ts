@@ -0,0 +1,20 @@
+/**
+ * @fileoverview Helpers shared by the extension's webviews.
+ *
+ * @author MDloggerForCode Team
+ * @version 1.0.0
+ */
+
+/**
+ * Generates a random nonce for the Content-Security-Policy of a webview.
+ *
+ * @returns 32 character alphanumeric string
+ */
+export function getNonce(): string {
+    let text = '';
+    const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    for (let i = 0; i < 32; i++) {
+        text += possible.charAt(Math.floor(Math.random() * possible.length));
+    }
+    return text;
+}
@@ -76,6 +76,7 @@ const vscode = {
             readFile: async () => new Uint8Array(),
             writeFile: async () => {},
             createDirectory: async () => {},
+            readDirectory: async () => [],
             delete: async () => {}
         },
         findFiles: async () => [],
@@ -91,6 +92,12 @@ const vscode = {
             })
         }),
         applyEdit: async () => true,
+        openTextDocument: async () => ({ getText: () => '' }),
+        onDidChangeTextDocument: () => ({ dispose: () => {} }),
+        onDidCloseTextDocument: () => ({ dispose: () => {} }),
+        onWillRenameFiles: () => ({ dispose: () => {} }),
+        onDidOpenTextDocument: () => ({ dispose: () => {} }),
+        textDocuments: [],
         createFileSystemWatcher: () => ({
             onDidCreate: () => ({ dispose: () => {} }),
             onDidDelete: () => ({ dispose: () => {} }),
@@ -102,6 +109,8 @@ const vscode = {
         showTextDocument: async () => ({}),
         showErrorMessage: () => {},
         showInformationMessage: () => {},
+        showInputBox: async () => undefined,
+        showQuickPick: async () => undefined,
         onDidChangeTextEditorSelection: () => ({ dispose: () => {} }),
         onDidChangeActiveTextEditor: () => ({ dispose: () => {} })
     },
@@ -110,11 +119,45 @@ const vscode = {
         registerCommand: () => ({ dispose: () => {} })
     },
     languages: {
-        registerDocumentLinkProvider: () => ({ dispose: () => {} })
+        registerDocumentLinkProvider: () => ({ dispose: () => {} }),
+        registerCodeActionsProvider: () => ({ dispose: () => {} }),
+        registerHoverProvider: () => ({ dispose: () => {} }),
+        createDiagnosticCollection: () => {
+            const entries = new Map<string, any[]>();
+            return {
+                set: (uri: any, diagnostics: any[]) => entries.set(uri.toString(), diagnostics),
+                get: (uri: any) => entries.get(uri.toString()),
+                delete: (uri: any) => entries.delete(uri.toString()),
+                clear: () => entries.clear(),
+                dispose: () => entries.clear()
+            };
+        }
+    },
+    DiagnosticSeverity: {
+        Error: 0,
+        Warning: 1,
+        Information: 2,
+        Hint: 3
+    },
+    Diagnostic: class Diagnostic {
+        source?: string;
+        code?: string | number;
+        constructor(public range: any, public message: string, public severity: number = 0) {}
+    },
+    CodeActionKind: {
+        QuickFix: { value: 'quickfix' }
+    },
+    CodeAction: class CodeAction {
+        diagnostics?: any[];
+        edit?: any;
+        command?: any;
+        isPreferred?: boolean;
+        constructor(public title: string, public kind?: any) {}
     },
     Uri: {
         file: (path: string) => ({
             fsPath: path,
+            path,
             toString: () => path,
             with: (change: any) => ({
                 fsPath: change.path || path,
@@ -123,6 +166,7 @@ const vscode = {
         }),
         joinPath: (base: any, ...paths: string[]) => ({
             fsPath: `${base.fsPath}/${paths.join('/')}`,
+            path: `${base.fsPath}/${paths.join('/')}`,
             toString: () => `${base.fsPath}/${paths.join('/')}`,
             with: (change: any) => ({
                 fsPath: change.path || `${base.fsPath}/${paths.join('/')}`,
@@ -130,15 +174,73 @@ const vscode = {
             })
         })
     },
+    EventEmitter: class EventEmitter<T> {
+        private listeners: ((e: T) => any)[] = [];
+        event = (listener: (e: T) => any) => {
+            this.listeners.push(listener);
+            return {
+                dispose: () => {
+                    this.listeners = this.listeners.filter(l => l !== listener);
+                }
+            };
+        };
+        fire(data: T): void {
+            this.listeners.slice().forEach(l => l(data));
+        }
+        dispose(): void {
+            this.listeners = [];
+        }
+    },
+    TreeItem: class TreeItem {
+        description?: string;
+        tooltip?: any;
+        contextValue?: string;
+        command?: any;
+        resourceUri?: any;
+        iconPath?: any;
+        constructor(public label: any, public collapsibleState?: number) {}
+    },
+    TreeItemCollapsibleState: {
+        None: 0,
+        Collapsed: 1,
+        Expanded: 2
+    },
+    ThemeIcon: class ThemeIcon {
+        static File = new (class { id = 'file'; })();
+        static Folder = new (class { id = 'folder'; })();
+        constructor(public id: string) {}
+    },
     RelativePattern: class RelativePattern {
         constructor(public base: any, public pattern: string) {}
     },
     Range: class Range {
-        constructor(public start: any, public end: any) {}
+        start: any;
+        end: any;
+        constructor(startOrLine: any, endOrCharacter: any, endLine?: number, endCharacter?: number) {
+            if (typeof startOrLine === 'number') {
+                this.start = { line: startOrLine, character: endOrCharacter };
+                this.end = { line: endLine, character: endCharacter };
+            } else {
+                this.start = startOrLine;
+                this.end = endOrCharacter;
+            }
+        }
     },
     Position: class Position {
         constructor(public line: number, public character: number) {}
     },
+    Location: class Location {
+        constructor(public uri: any, public range: any) {}
+    },
+    TextEdit: class TextEdit {
+        constructor(public range: any, public newText: string) {}
+        static replace(range: any, newText: string) {
+            return new TextEdit(range, newText);
+        }
+        static insert(position: any, newText: string) {
+            return new TextEdit({ start: position, end: position }, newText);
+        }
+    },
     Selection: class Selection {
         constructor(public anchor: any, public active: any) {}
         get isEmpty(): boolean {
@@ -221,9 +323,12 @@ const vscode = {
     CompletionItem: class CompletionItem {
         constructor(public label: string, public kind?: number) {}
     },
+    Hover: class Hover {
+        constructor(public contents: any, public range?: any) {}
+    },
     MarkdownString: class MarkdownString {
         value: string;
-        isTrusted?: boolean;
+        isTrusted?: boolean | { enabledCommands: string[] };
         constructor(value?: string, supportThemeIcons?: boolean) {
             this.value = value || '';
         }
@@ -260,6 +365,24 @@ const vscode = {
             }
             this._edits.get(uri.toString())!.push({ type: 'delete', range });
         }
+        createFile(uri: any, options?: any): void {
+            if (!this._edits.has(uri.toString())) {
+                this._edits.set(uri.toString(), []);
+            }
+            this._edits.get(uri.toString())!.push({ type: 'create', options });
+        }
+        renameFile(oldUri: any, newUri: any): void {
+            if (!this._edits.has(oldUri.toString())) {
+                this._edits.set(oldUri.toString(), []);
+            }
+            this._edits.get(oldUri.toString())!.push({ type: 'rename', newUri });
+        }
+        get(uri: any): any[] {
+            return this._edits.get(uri.toString()) || [];
+        }
+        get size(): number {
+            return this._edits.size;
+        }
     }
 };
 
@@ -12,6 +12,7 @@ import * as sinon from 'sinon';
 import { WikiLinkCompletionProvider } from '../../src/providers/WikiLinkCompletionProvider';
 import { ConfigurationManager } from '../../src/managers/ConfigurationManager';
 import { NoteFinder } from '../../src/utils/NoteFinder';
+import { VaultIndex } from '../../src/services/VaultIndex';
 
 /**
  * Helper to create a mock TextDocument with proper offsetAt/positionAt implementation
@@ -77,6 +78,7 @@ function createMockDocument(lines: string[], uri: vscode.Uri = vscode.Uri.file('
 
 describe('WikiLinkCompletionProvider', () => {
     let provider: WikiLinkCompletionProvider;
+    let vaultIndex: VaultIndex;
     let mockConfig: any;
     let findFilesStub: sinon.SinonStub;
     let filterNotesByPrefixStub: sinon.SinonStub;
@@ -102,7 +104,10 @@ describe('WikiLinkCompletionProvider', () => {
         };
 
         const configManager = new ConfigurationManager(mockConfig);
-        provider = new WikiLinkCompletionProvider(configManager);
+        vaultIndex = new VaultIndex(configManager, { read: async () => '', write: async () => {} });
+        provider = new WikiLinkCompletionProvider(configManager, vaultIndex);
+
+        sinon.stub(vscode.workspace, 'workspaceFolders').value([mockWorkspaceFolder]);
 
         // Stub vscode.workspace.getWorkspaceFolder
         getWorkspaceFolderStub = sinon.stub(vscode.workspace, 'getWorkspaceFolder')
@@ -117,6 +122,7 @@ describe('WikiLinkCompletionProvider', () => {
     });
 
     afterEach(() => {
+        vaultIndex.dispose();
         sinon.restore();
     });
 
@@ -330,7 +336,7 @@ describe('WikiLinkCompletionProvider', () => {
 
             const line = '[[My Note#Heading';
             const doc = createMockDocument([line]);
-            const position = new vscode.Position(0, line.length);
+            const position = new vscode.Position(0, line.indexOf('#'));
             const token = new vscode.CancellationTokenSource().token;
             const context: vscode.CompletionContext = { triggerKind: vscode.CompletionTriggerKind.Invoke, triggerCharacter: undefined };
 
@@ -383,6 +389,160 @@ describe('WikiLinkCompletionProvider', () => {
             expect(result).to.be.null;
             expect(filterNotesByPrefixStub.called).to.be.false;
         });
+
+        it('should offer attachments only inside embeds', async () => {
+            const attachment = vscode.Uri.file('/test/workspace/assets/diagram.png');
+            findFilesStub.callsFake(async (include: any) =>
+                include instanceof vscode.RelativePattern && (include as any).pattern.includes('png') ? [attachment] : []
+            );
+            const token = new vscode.CancellationTokenSource().token;
+            const context: vscode.CompletionContext = { triggerKind: vscode.CompletionTriggerKind.Invoke, triggerCharacter: undefined };
+
+            const embed = await provider.provideCompletionItems(createMockDocument(['![[dia']), new vscode.Position(0, 6), token, context);
+            expect(embed!.map(item => item.label)).to.deep.equal(['diagram.png']);
+            expect(embed![0].detail).to.equal('assets/diagram.png');
+            expect(embed![0].range).to.deep.equal(new vscode.Range(new vscode.Position(0, 3), new vscode.Position(0, 6)));
+
+            const link = await provider.provideCompletionItems(createMockDocument(['[[dia']), new vscode.Position(0, 5), token, context);
+            expect(link).to.deep.equal([]);
+        });
+    });
+
+    describe('shortest unique path', () => {
+        beforeEach(() => {
+            findFilesStub.resolves([
+                vscode.Uri.file('/test/workspace/notes/Meeting.md'),
+                vscode.Uri.file('/test/workspace/notes/work/projects/Meeting.md'),
+                vscode.Uri.file('/test/workspace/notes/archive/Meeting.md'),
+                vscode.Uri.file('/test/workspace/notes/Unique.md')
+            ]);
+        });
+
+        async function complete(): Promise<Record<string, string>> {
+            const token = new vscode.CancellationTokenSource().token;
+            const context: vscode.CompletionContext = { triggerKind: vscode.CompletionTriggerKind.Invoke, triggerCharacter: undefined };
+            const items = await provider.provideCompletionItems(createMockDocument(['[[']), new vscode.Position(0, 2), token, context);
+            return Object.fromEntries(items!.map(item => [item.detail, item.insertText as string]));
+        }
+
+        it('inserts the title when the option is disabled', async () => {
+            expect(Object.values(await complete())).to.deep.equal(['Meeting', 'Meeting', 'Meeting', 'Unique']);
+        });
+
+        it('inserts the shortest path that identifies notes sharing a title', async () => {
+            const get = mockConfig.get;
+            mockConfig.get = (key: string, defaultValue?: any) => key === 'completionShortestPath' ? true : get(key, defaultValue);
+
+            expect(await complete()).to.deep.equal({
+                'Meeting.md': '/Meeting',
+                'work/projects/Meeting.md': 'projects/Meeting',
+                'archive/Meeting.md': 'archive/Meeting',
+                'Unique.md': 'Unique'
+            });
+        });
+    });
+
+    describe('alias completion', () => {
+        const noteUri = vscode.Uri.file('/test/workspace/notes/Goals.md');
+        let aliasProvider: WikiLinkCompletionProvider;
+        let aliasIndex: VaultIndex;
+
+        beforeEach(() => {
+            findFilesStub.resolves([noteUri]);
+            const configManager = new ConfigurationManager(mockConfig);
+            aliasIndex = new VaultIndex(configManager, {
+                read: async () => '---\naliases: [OKR, Objectives]\n---\n# Goals',
+                write: async () => {}
+            });
+            aliasProvider = new WikiLinkCompletionProvider(configManager, aliasIndex);
+        });
+
+        afterEach(() => {
+            aliasIndex.dispose();
+        });
+
+        async function complete(line: string, character = line.length) {
+            const token = new vscode.CancellationTokenSource().token;
+            const context: vscode.CompletionContext = { triggerKind: vscode.CompletionTriggerKind.Invoke, triggerCharacter: undefined };
+            return aliasProvider.provideCompletionItems(createMockDocument([line]), new vscode.Position(0, character), token, context);
+        }
+
+        it('should suggest matching aliases after the notes and insert the title with the alias', async () => {
+            const result = await complete('[[ok');
+
+            expect(result!.map(item => item.label)).to.deep.equal(['Goals', 'OKR']);
+            expect(result![1].insertText).to.equal('Goals|OKR');
+            expect(result![1].detail).to.equal('Goals (Goals.md)');
+        });
+
+        it('should not suggest aliases when the link already has an alias', async () => {
+            const result = await complete('[[ok|shown]]', 4);
+            expect(result!.map(item => item.label)).to.deep.equal(['Goals']);
+        });
+    });
+
+    describe('heading completion', () => {
+        const noteUri = vscode.Uri.file('/test/workspace/notes/Project.md');
+        const content = '# Project\n## Tasks\n### Open\n## Archive\n### Open\nDone item ^done-1';
+        let headingProvider: WikiLinkCompletionProvider;
+        let headingIndex: VaultIndex;
+
+        beforeEach(() => {
+            findFilesStub.resolves([noteUri]);
+            const configManager = new ConfigurationManager(mockConfig);
+            headingIndex = new VaultIndex(configManager, {
+                read: async (uri: vscode.Uri) => uri.fsPath === noteUri.fsPath ? content : '',
+                write: async () => {}
+            });
+            headingProvider = new WikiLinkCompletionProvider(configManager, headingIndex);
+        });
+
+        afterEach(() => {
+            headingIndex.dispose();
+        });
+
+        async function complete(line: string, character = line.length) {
+            const doc = createMockDocument([line]);
+            const token = new vscode.CancellationTokenSource().token;
+            const context: vscode.CompletionContext = { triggerKind: vscode.CompletionTriggerKind.TriggerCharacter, triggerCharacter: '#' };
+            return headingProvider.provideCompletionItems(doc, new vscode.Position(0, character), token, context);
+        }
+
+        it('should complete headings of the target note with their path', async () => {
+            const result = await complete('[[Project#');
+
+            expect(result!.map(item => item.label)).to.deep.equal(['Project', 'Tasks', 'Open', 'Archive', 'Open']);
+            expect(result![2].detail).to.equal('Project > Tasks > Open');
+            expect(filterNotesByPrefixStub.called).to.be.false;
+        });
+
+        it('should insert the heading path only for ambiguous headings', async () => {
+            const result = await complete('[[Project#');
+
+            expect(result![1].insertText).to.equal('Tasks');
+            expect(result![2].insertText).to.equal('Project#Tasks#Open');
+            expect(result![4].insertText).to.equal('Project#Archive#Open');
+        });
+
+        it('should replace only the heading segment and keep the alias', async () => {
+            const line = '[[Project#Ta|alias]]';
+            const result = await complete(line, line.indexOf('|'));
+
+            const range = result![0].range as vscode.Range;
+            expect(range.start.character).to.equal(line.indexOf('#') + 1);
+            expect(range.end.character).to.equal(line.indexOf('|'));
+        });
+
+        it('should complete block IDs after #^', async () => {
+            const result = await complete('[[Project#^');
+
+            expect(result!.map(item => item.label)).to.deep.equal(['^done-1']);
+            expect(result![0].detail).to.equal('Done item');
+        });
+
+        it('should return null when the page does not exist', async () => {
+            expect(await complete('[[Missing#')).to.be.null;
+        });
     });
 
     describe('resolveCompletionItem', () => {
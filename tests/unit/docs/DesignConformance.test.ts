@@ -17,10 +17,27 @@ describe('Design Conformance (Public Surface)', () => {
       'mdlg.handleEnterKey',
       'mdlg.insertDate',
       'mdlg.insertTime',
+      'mdlg.linkUnlinkedMention',
       'mdlg.openDailyNote',
+      'mdlg.openPreviousDailyNote',
+      'mdlg.openNextDailyNote',
+      'mdlg.openDailyNoteForDate',
+      'mdlg.openWeeklyNote',
+      'mdlg.openMonthlyNote',
+      'mdlg.openQuarterlyNote',
+      'mdlg.openYearlyNote',
+      'mdlg.openPreviousPeriodicNote',
+      'mdlg.openNextPeriodicNote',
       'mdlg.openOrCreateWikiLink',
       'mdlg.openQuickCapture',
       'mdlg.preview',
+      'mdlg.renameNote',
+      'mdlg.copyBlockReference',
+      'mdlg.showGraph',
+      'mdlg.renameTag',
+      'mdlg.search',
+      'mdlg.materializeQuery',
+      'mdlg.newNoteFromTemplate',
     ].sort();
 
     const actual: string[] = (pkg.contributes?.commands || []).map((c: any) => c.command).sort();
@@ -36,7 +53,24 @@ describe('Design Conformance (Public Surface)', () => {
       'onCommand:mdlg.openQuickCapture',
       'onCommand:mdlg.preview',
       'onCommand:mdlg.openDailyNote',
+      'onCommand:mdlg.openPreviousDailyNote',
+      'onCommand:mdlg.openNextDailyNote',
+      'onCommand:mdlg.openDailyNoteForDate',
+      'onCommand:mdlg.openWeeklyNote',
+      'onCommand:mdlg.openMonthlyNote',
+      'onCommand:mdlg.openQuarterlyNote',
+      'onCommand:mdlg.openYearlyNote',
+      'onCommand:mdlg.openPreviousPeriodicNote',
+      'onCommand:mdlg.openNextPeriodicNote',
       'onCommand:mdlg.handleEnterKey',
+      'onCommand:mdlg.linkUnlinkedMention',
+      'onCommand:mdlg.renameNote',
+      'onCommand:mdlg.copyBlockReference',
+      'onCommand:mdlg.showGraph',
+      'onCommand:mdlg.renameTag',
+      'onCommand:mdlg.search',
+      'onCommand:mdlg.materializeQuery',
+      'onCommand:mdlg.newNoteFromTemplate',
     ].sort();
     const actual: string[] = (pkg.activationEvents || []).slice().sort();
     expect(actual).to.deep.equal(expected);
@@ -74,15 +108,41 @@ describe('Design Conformance (Public Surface)', () => {
       'mdlg.dateFormat',
       'mdlg.timeFormat',
       'mdlg.template',
+      'mdlg.templatesFolder',
+      'mdlg.promptForTemplate',
       'mdlg.dailyNoteTemplate',
       'mdlg.dailyNotePath',
       'mdlg.dailyNoteEnabled',
       'mdlg.notesFolder',
       'mdlg.dailyNoteFormat',
       'mdlg.captureSectionName',
+      'mdlg.taskRollover',
+      'mdlg.taskRolloverSectionName',
       'mdlg.listContinuationEnabled',
       'mdlg.searchSubdirectories',
       'mdlg.dailyNoteKeybindingGuide',
+      'mdlg.updateLinksOnRename',
+      'mdlg.linkDiagnosticsEnabled',
+      'mdlg.hoverPreviewLines',
+      'mdlg.linkResolution',
+      'mdlg.completionShortestPath',
+      'mdlg.frontmatterTimestamps',
+      'mdlg.frontmatterTimestampFormat',
+      'mdlg.calendarFirstDayOfWeek',
+      'mdlg.calendarShowWeekNumbers',
+      'mdlg.weeklyNotePath',
+      'mdlg.weeklyNoteFormat',
+      'mdlg.weeklyNoteTemplate',
+      'mdlg.monthlyNotePath',
+      'mdlg.monthlyNoteFormat',
+      'mdlg.monthlyNoteTemplate',
+      'mdlg.quarterlyNotePath',
+      'mdlg.quarterlyNoteFormat',
+      'mdlg.quarterlyNoteTemplate',
+      'mdlg.yearlyNotePath',
+      'mdlg.yearlyNoteFormat',
+      'mdlg.yearlyNoteTemplate',
+      'mdlg.periodicNoteLinks',
     ].sort();
     expect(keys).to.deep.equal(expectedKeys);
 
@@ -98,12 +158,23 @@ describe('Design Conformance (Public Surface)', () => {
   });
 
   it('views match the documented set', () => {
-    // Quick Capture view is contributed to the Explorer view container
+    // Quick Capture, Calendar, Backlinks, Properties, Tags and Search Results views are contributed to the Explorer view container
     const views = pkg.contributes?.views;
     expect(views).to.exist;
-    expect(views?.explorer).to.be.an('array').with.lengthOf(1);
+    expect(views?.explorer).to.be.an('array').with.lengthOf(6);
     expect(views.explorer[0].id).to.equal('mdlg.quickCapture');
     expect(views.explorer[0].name).to.equal('Quick Capture');
     expect(views.explorer[0].type).to.equal('webview');
+    expect(views.explorer[1].id).to.equal('mdlg.calendar');
+    expect(views.explorer[1].name).to.equal('Calendar');
+    expect(views.explorer[1].type).to.equal('webview');
+    expect(views.explorer[2].id).to.equal('mdlg.backlinks');
+    expect(views.explorer[2].name).to.equal('Backlinks');
+    expect(views.explorer[3].id).to.equal('mdlg.properties');
+    expect(views.explorer[3].name).to.equal('Properties');
+    expect(views.explorer[4].id).to.equal('mdlg.tags');
+    expect(views.explorer[4].name).to.equal('Tags');
+    expect(views.explorer[5].id).to.equal('mdlg.searchResults');
+    expect(views.explorer[5].name).to.equal('Search Results');
   });
 });
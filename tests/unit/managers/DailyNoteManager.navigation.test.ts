@@ -0,0 +1,85 @@
+import { expect } from 'chai';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { DailyNoteManager } from '../../../src/managers/DailyNoteManager';
+import { ConfigurationManager } from '../../../src/managers/ConfigurationManager';
+import { DateTimeFormatter } from '../../../src/utils/DateTimeFormatter';
+
+describe('DailyNoteManager navigation', () => {
+    const workspaceFolder = { uri: vscode.Uri.file('/ws'), name: 'ws', index: 0 };
+    let manager: DailyNoteManager;
+    let opened: Date[];
+
+    beforeEach(() => {
+        const configManager = new ConfigurationManager({
+            get: (_key: string, defaultValue?: any) => defaultValue,
+            has: () => false,
+            update: async () => {}
+        });
+        manager = new DailyNoteManager(configManager, new DateTimeFormatter());
+        opened = [];
+        sinon.stub(manager, 'openOrCreateDailyNote').callsFake(async (_folder, date) => {
+            opened.push(date!);
+        });
+        sinon.stub(vscode.workspace.fs, 'readDirectory').resolves([
+            ['2025-09-10.md', vscode.FileType.File],
+            ['2025-09-15.md', vscode.FileType.File],
+            ['2025-09-20.md', vscode.FileType.File],
+            ['2025-09-21.txt', vscode.FileType.File],
+            ['2025-09-16 notes.md', vscode.FileType.File],
+            ['2025-09-17.md', vscode.FileType.Directory]
+        ] as [string, vscode.FileType][]);
+    });
+
+    afterEach(() => {
+        sinon.restore();
+    });
+
+    const day = (date: Date | undefined) => date && [date.getFullYear(), date.getMonth() + 1, date.getDate()];
+
+    it('reads the date of daily notes from their path', () => {
+        expect(day(manager.getDailyNoteDate(workspaceFolder, vscode.Uri.joinPath(workspaceFolder.uri, 'dailynotes', '2025-09-15.md'))))
+            .to.deep.equal([2025, 9, 15]);
+        expect(manager.getDailyNoteDate(workspaceFolder, vscode.Uri.joinPath(workspaceFolder.uri, 'other', '2025-09-15.md'))).to.be.undefined;
+        expect(manager.getDailyNoteDate(workspaceFolder, vscode.Uri.joinPath(workspaceFolder.uri, 'dailynotes', 'Ideas.md'))).to.be.undefined;
+    });
+
+    it('finds the closest existing note in each direction, skipping gaps', async () => {
+        const reference = new Date(2025, 8, 15);
+
+        expect(day(await manager.findAdjacentDailyNote(workspaceFolder, reference, -1))).to.deep.equal([2025, 9, 10]);
+        expect(day(await manager.findAdjacentDailyNote(workspaceFolder, reference, 1))).to.deep.equal([2025, 9, 20]);
+        expect(await manager.findAdjacentDailyNote(workspaceFolder, new Date(2025, 8, 20), 1)).to.be.undefined;
+    });
+
+    it('navigates from the daily note of the active editor', async () => {
+        sinon.stub(vscode.window, 'activeTextEditor').value({
+            document: { uri: vscode.Uri.joinPath(workspaceFolder.uri, 'dailynotes', '2025-09-20.md') }
+        });
+
+        expect(await manager.openAdjacentDailyNote(workspaceFolder, -1)).to.be.true;
+        expect(opened.map(day)).to.deep.equal([[2025, 9, 15]]);
+    });
+
+    it('reports when there is no adjacent note', async () => {
+        sinon.stub(vscode.window, 'activeTextEditor').value({
+            document: { uri: vscode.Uri.joinPath(workspaceFolder.uri, 'dailynotes', '2025-09-10.md') }
+        });
+        const showInformationMessage = sinon.stub(vscode.window, 'showInformationMessage');
+
+        expect(await manager.openAdjacentDailyNote(workspaceFolder, -1)).to.be.false;
+        expect(showInformationMessage.firstCall.args[0]).to.equal('No previous daily note found');
+    });
+
+    it('opens the daily note of a date typed by the user', async () => {
+        const showInputBox = sinon.stub(vscode.window, 'showInputBox').resolves('2025-09-18');
+
+        expect(await manager.openDailyNoteForDate(workspaceFolder)).to.be.true;
+        expect(opened.map(day)).to.deep.equal([[2025, 9, 18]]);
+
+        const validate = showInputBox.firstCall.args[0]!.validateInput!;
+        expect(validate('last friday')).to.be.undefined;
+        expect(validate('someday')).to.be.a('string');
+    });
+});
@@ -0,0 +1,129 @@
+import { expect } from 'chai';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { DailyNoteManager } from '../../../src/managers/DailyNoteManager';
+import { ConfigurationManager } from '../../../src/managers/ConfigurationManager';
+import { DateTimeFormatter } from '../../../src/utils/DateTimeFormatter';
+
+describe('DailyNoteManager periodic notes', () => {
+    const workspaceFolder = { uri: vscode.Uri.file('/ws'), name: 'ws', index: 0 };
+    let settings: Record<string, unknown>;
+    let files: Map<string, string>;
+    let manager: DailyNoteManager;
+
+    beforeEach(() => {
+        settings = {};
+        files = new Map();
+        const configManager = new ConfigurationManager({
+            get: (key: string, defaultValue?: any) => key in settings ? settings[key] : defaultValue,
+            has: () => false,
+            update: async () => {}
+        });
+        manager = new DailyNoteManager(configManager, new DateTimeFormatter());
+
+        sinon.stub(vscode.workspace.fs, 'stat').callsFake(async (uri: vscode.Uri) => {
+            if (!files.has(uri.toString())) {
+                throw new Error('FileNotFound');
+            }
+            return { type: vscode.FileType.File } as vscode.FileStat;
+        });
+        sinon.stub(vscode.workspace.fs, 'readFile').callsFake(async (uri: vscode.Uri) => {
+            const content = files.get(uri.toString());
+            if (content === undefined) {
+                throw new Error('FileNotFound');
+            }
+            return new TextEncoder().encode(content);
+        });
+        sinon.stub(vscode.workspace.fs, 'writeFile').callsFake(async (uri: vscode.Uri, data: Uint8Array) => {
+            files.set(uri.toString(), new TextDecoder().decode(data));
+        });
+        sinon.stub(vscode.window, 'showTextDocument').resolves();
+    });
+
+    afterEach(() => {
+        sinon.restore();
+    });
+
+    it('names periodic notes with the configured formats', () => {
+        const date = new Date(2025, 8, 18);
+
+        expect(manager.getPeriodicNoteFileName('week', date)).to.equal('2025-W38.md');
+        expect(manager.getPeriodicNoteFileName('month', date)).to.equal('2025-09.md');
+        expect(manager.getPeriodicNoteFileName('quarter', date)).to.equal('2025-Q3.md');
+        expect(manager.getPeriodicNoteFileName('year', date)).to.equal('2025.md');
+        expect(manager.getPeriodicNotePath(workspaceFolder, 'week', date).toString()).to.equal('/ws/weeklynotes/2025-W38.md');
+
+        settings['weeklyNotePath'] = 'journal/weeks';
+        settings['weeklyNoteFormat'] = '[Week] W, GGGG';
+        expect(manager.getPeriodicNotePath(workspaceFolder, 'week', date).toString()).to.equal('/ws/journal/weeks/Week 38, 2025.md');
+    });
+
+    it('recognizes periodic notes from their path', () => {
+        const note = manager.getPeriodicNote(workspaceFolder, vscode.Uri.joinPath(workspaceFolder.uri, 'weeklynotes', '2025-W38.md'));
+        expect(note?.period).to.equal('week');
+        expect(note?.date.getDate()).to.equal(15);
+
+        expect(manager.getPeriodicNote(workspaceFolder, vscode.Uri.joinPath(workspaceFolder.uri, 'quarterlynotes', '2025-Q3.md'))?.period)
+            .to.equal('quarter');
+        expect(manager.getPeriodicNote(workspaceFolder, vscode.Uri.joinPath(workspaceFolder.uri, 'monthlynotes', '2025-W38.md'))).to.be.undefined;
+        expect(manager.getPeriodicNote(workspaceFolder, vscode.Uri.joinPath(workspaceFolder.uri, 'dailynotes', '2025-09-18.md'))).to.be.undefined;
+    });
+
+    it('creates periodic notes from their template', async () => {
+        settings['monthlyNoteTemplate'] = 'templates/month.md';
+        files.set('/ws/templates/month.md', '# Month\n');
+
+        await manager.openOrCreatePeriodicNote(workspaceFolder, 'month', new Date(2025, 8, 18));
+
+        expect(files.get('/ws/monthlynotes/2025-09.md')).to.equal('# Month\n');
+    });
+
+    it('links daily notes and weekly notes when enabled', async () => {
+        settings['periodicNoteLinks'] = true;
+        settings['dailyNoteTemplate'] = 'templates/day.md';
+        files.set('/ws/templates/day.md', '---\ntags: daily\n---\n# Today\n');
+
+        await manager.openOrCreateDailyNote(workspaceFolder, new Date(2025, 8, 18));
+        await manager.openOrCreatePeriodicNote(workspaceFolder, 'week', new Date(2025, 8, 18));
+
+        expect(files.get('/ws/dailynotes/2025-09-18.md')).to.equal('---\ntags: daily\n---\nWeek: [[2025-W38]]\n\n# Today\n');
+        const weekly = files.get('/ws/weeklynotes/2025-W38.md')!;
+        expect(weekly.startsWith('## Days\n- [[2025-09-15]]\n')).to.be.true;
+        expect(weekly.trimEnd().endsWith('- [[2025-09-21]]')).to.be.true;
+    });
+
+    it('does not add links by default', async () => {
+        await manager.openOrCreateDailyNote(workspaceFolder, new Date(2025, 8, 18));
+        await manager.openOrCreatePeriodicNote(workspaceFolder, 'week', new Date(2025, 8, 18));
+
+        expect(files.get('/ws/dailynotes/2025-09-18.md')).to.equal('');
+        expect(files.get('/ws/weeklynotes/2025-W38.md')).to.equal('');
+    });
+
+    it('opens the adjacent note of the active periodic note', async () => {
+        sinon.stub(vscode.window, 'activeTextEditor').value({
+            document: { uri: vscode.Uri.joinPath(workspaceFolder.uri, 'monthlynotes', '2025-01.md') }
+        });
+
+        expect(await manager.openAdjacentPeriodicNote(workspaceFolder, -1)).to.be.true;
+        expect(files.has('/ws/monthlynotes/2024-12.md')).to.be.true;
+    });
+
+    it('asks for the period when the active editor is not a periodic note', async () => {
+        const showQuickPick = sinon.stub(vscode.window, 'showQuickPick').callsFake(async (items: any) => (await items)[3]);
+
+        expect(await manager.openAdjacentPeriodicNote(workspaceFolder, 1)).to.be.true;
+        expect(showQuickPick.calledOnce).to.be.true;
+        expect(files.has(`/ws/yearlynotes/${new Date().getFullYear() + 1}.md`)).to.be.true;
+    });
+
+    it('appends captures to a section of the periodic note', async () => {
+        const result = await manager.appendToPeriodicNoteSection(workspaceFolder, 'week', 'Plan the sprint', 'Inbox', new Date(2025, 8, 18));
+
+        expect(result.uri.toString()).to.equal('/ws/weeklynotes/2025-W38.md');
+        const lines = files.get('/ws/weeklynotes/2025-W38.md')!.split('\n');
+        expect(lines).to.include('## Inbox');
+        expect(lines[result.line]).to.match(/^- \[ \] \d{2}:\d{2} — Plan the sprint$/);
+    });
+});
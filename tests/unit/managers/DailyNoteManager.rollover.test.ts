@@ -0,0 +1,96 @@
+import { expect } from 'chai';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { DailyNoteManager } from '../../../src/managers/DailyNoteManager';
+import { ConfigurationManager } from '../../../src/managers/ConfigurationManager';
+import { DateTimeFormatter } from '../../../src/utils/DateTimeFormatter';
+
+describe('DailyNoteManager task rollover', () => {
+    const workspaceFolder = { uri: vscode.Uri.file('/ws'), name: 'ws', index: 0 };
+    const previousNote = '/ws/dailynotes/2025-09-16.md';
+    const todayNote = '/ws/dailynotes/2025-09-18.md';
+    let settings: Record<string, unknown>;
+    let files: Map<string, string>;
+    let manager: DailyNoteManager;
+
+    beforeEach(() => {
+        // 2025-09-18 を「今日」とする
+        sinon.useFakeTimers({ now: new Date(2025, 8, 18, 9, 0), toFake: ['Date'] });
+        settings = { taskRollover: 'move' };
+        files = new Map([
+            ['/ws/dailynotes/2025-09-10.md', '- [ ] old task\n'],
+            [previousNote, '# 2025-09-16\n- [x] done\n- [ ] write report\n  - [ ] attach figures\n- plain item\n']
+        ]);
+        const configManager = new ConfigurationManager({
+            get: (key: string, defaultValue?: any) => key in settings ? settings[key] : defaultValue,
+            has: () => false,
+            update: async () => {}
+        });
+        manager = new DailyNoteManager(configManager, new DateTimeFormatter());
+
+        sinon.stub(vscode.workspace.fs, 'readDirectory').callsFake(async () =>
+            Array.from(files.keys()).map(key => [key.split('/').pop()!, vscode.FileType.File] as [string, vscode.FileType])
+        );
+        sinon.stub(vscode.workspace.fs, 'stat').callsFake(async (uri: vscode.Uri) => {
+            if (!files.has(uri.toString())) {
+                throw new Error('FileNotFound');
+            }
+            return { type: vscode.FileType.File } as vscode.FileStat;
+        });
+        sinon.stub(vscode.workspace.fs, 'readFile').callsFake(async (uri: vscode.Uri) => {
+            const content = files.get(uri.toString());
+            if (content === undefined) {
+                throw new Error('FileNotFound');
+            }
+            return new TextEncoder().encode(content);
+        });
+        sinon.stub(vscode.workspace.fs, 'writeFile').callsFake(async (uri: vscode.Uri, data: Uint8Array) => {
+            files.set(uri.toString(), new TextDecoder().decode(data));
+        });
+        sinon.stub(vscode.window, 'showTextDocument').resolves();
+    });
+
+    afterEach(() => {
+        sinon.restore();
+    });
+
+    it('moves the unfinished tasks of the most recent daily note into today\'s note', async () => {
+        await manager.openOrCreateDailyNote(workspaceFolder);
+
+        expect(files.get(todayNote)).to.equal(
+            '## Unfinished Tasks\nFrom [[2025-09-16]]\n- [ ] write report\n  - [ ] attach figures\n'
+        );
+        expect(files.get(previousNote)).to.equal(
+            '# 2025-09-16\n- [x] done\n- [>] write report\n  - [>] attach figures\n- plain item\n'
+        );
+    });
+
+    it('copies the tasks into the configured section of the template', async () => {
+        settings['taskRollover'] = 'copy';
+        settings['taskRolloverSectionName'] = 'Carry over';
+        settings['dailyNoteTemplate'] = 'templates/day.md';
+        files.set('/ws/templates/day.md', '# {{title}}\n## Carry over\n\n## Log\n');
+        const original = files.get(previousNote);
+
+        await manager.openOrCreateDailyNote(workspaceFolder);
+
+        expect(files.get(todayNote)).to.equal(
+            '# 2025-09-18\n## Carry over\nFrom [[2025-09-16]]\n- [ ] write report\n  - [ ] attach figures\n\n## Log\n'
+        );
+        expect(files.get(previousNote)).to.equal(original);
+    });
+
+    it('does not roll over when disabled, for other days or for existing notes', async () => {
+        settings['taskRollover'] = 'off';
+        await manager.openOrCreateDailyNote(workspaceFolder);
+        expect(files.get(todayNote)).to.equal('');
+
+        settings['taskRollover'] = 'move';
+        await manager.openOrCreateDailyNote(workspaceFolder);
+        await manager.openOrCreateDailyNote(workspaceFolder, new Date(2025, 8, 20));
+        expect(files.get(todayNote)).to.equal('');
+        expect(files.get('/ws/dailynotes/2025-09-20.md')).to.equal('');
+        expect(files.get(previousNote)).to.include('- [ ] write report');
+    });
+});
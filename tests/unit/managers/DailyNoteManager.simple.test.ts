@@ -90,6 +90,7 @@ describe('DailyNoteManager - Basic Functionality', () => {
 
         const mockConfigManager = {
             getDateFormat: () => 'YYYY-MM-DD',
+            getTimeFormat: () => 'HH:mm',
             getNoteExtension: () => '.md',
             getDailyNotePath: () => 'dailynotes',
             getDailyNoteTemplate: () => '', // 空のテンプレート
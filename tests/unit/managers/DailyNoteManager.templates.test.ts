@@ -0,0 +1,75 @@
+import { expect } from 'chai';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { DailyNoteManager } from '../../../src/managers/DailyNoteManager';
+import { ConfigurationManager } from '../../../src/managers/ConfigurationManager';
+import { DateTimeFormatter } from '../../../src/utils/DateTimeFormatter';
+
+describe('DailyNoteManager templates', () => {
+    const workspaceFolder = { uri: vscode.Uri.file('/ws'), name: 'ws', index: 0 };
+    let settings: Record<string, unknown>;
+    let files: Map<string, string>;
+    let manager: DailyNoteManager;
+    let showTextDocument: sinon.SinonStub;
+
+    beforeEach(() => {
+        settings = {};
+        files = new Map();
+        const configManager = new ConfigurationManager({
+            get: (key: string, defaultValue?: any) => key in settings ? settings[key] : defaultValue,
+            has: () => false,
+            update: async () => {}
+        });
+        manager = new DailyNoteManager(configManager, new DateTimeFormatter());
+
+        sinon.stub(vscode.workspace.fs, 'stat').rejects(new Error('FileNotFound'));
+        sinon.stub(vscode.workspace.fs, 'readFile').callsFake(async (uri: vscode.Uri) => {
+            const content = files.get(uri.toString());
+            if (content === undefined) {
+                throw new Error('FileNotFound');
+            }
+            return new TextEncoder().encode(content);
+        });
+        sinon.stub(vscode.workspace.fs, 'writeFile').callsFake(async (uri: vscode.Uri, data: Uint8Array) => {
+            files.set(uri.toString(), new TextDecoder().decode(data));
+        });
+        showTextDocument = sinon.stub(vscode.window, 'showTextDocument').resolves();
+    });
+
+    afterEach(() => {
+        sinon.restore();
+    });
+
+    it('renders the daily note template for the date of the note', async () => {
+        settings['dailyNoteTemplate'] = 'templates/day.md';
+        files.set('/ws/templates/day.md', '# {{title}}\n{{yesterday}} {{tomorrow}}\n{{include:templates/tasks.md}}');
+        files.set('/ws/templates/tasks.md', '## Tasks ({{date:MM/DD}})\n');
+
+        const content = await manager.getTemplateContent(workspaceFolder, new Date(2025, 8, 18));
+
+        expect(content).to.equal('# 2025-09-18\n[[2025-09-17]] [[2025-09-19]]\n## Tasks (09/18)\n');
+    });
+
+    it('renders periodic note templates with the title and start of the period', async () => {
+        settings['weeklyNoteTemplate'] = 'templates/week.md';
+        files.set('/ws/templates/week.md', '# {{title}} from {{date}}\n');
+
+        await manager.openOrCreatePeriodicNote(workspaceFolder, 'week', new Date(2025, 8, 18));
+
+        expect(files.get('/ws/weeklynotes/2025-W38.md')).to.equal('# 2025-W38 from 2025-09-15\n');
+    });
+
+    it('asks for prompts and places the cursor of new notes', async () => {
+        settings['dailyNoteTemplate'] = 'templates/day.md';
+        files.set('/ws/templates/day.md', '# {{prompt:Focus}}\n\n- {{cursor}}\n');
+        const showInputBox = sinon.stub(vscode.window, 'showInputBox').resolves('Release');
+
+        await manager.openOrCreateDailyNote(workspaceFolder, new Date(2025, 8, 18));
+
+        expect(showInputBox.firstCall.args[0]).to.include({ prompt: 'Focus' });
+        expect(files.get('/ws/dailynotes/2025-09-18.md')).to.equal('# Release\n\n- \n');
+        const selection = showTextDocument.firstCall.args[1].selection;
+        expect([selection.start.line, selection.start.character]).to.deep.equal([2, 2]);
+    });
+});
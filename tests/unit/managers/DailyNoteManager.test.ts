@@ -16,8 +16,10 @@ describe('DailyNoteManager', () => {
             getDailyNoteTemplate: () => '',
             getDailyNotePath: () => 'dailynotes',
             getDateFormat: () => 'YYYY-MM-DD',
+            getTimeFormat: () => 'HH:mm',
             getVaultRoot: () => '',
-            getNoteExtension: () => '.md'
+            getNoteExtension: () => '.md',
+            getPeriodicNoteLinks: () => false
         } as any;
 
         // DateTimeFormatterのモック
@@ -0,0 +1,72 @@
+import { describe, it } from 'mocha';
+import { expect } from 'chai';
+import MarkdownIt from 'markdown-it';
+import { wikiLinkPlugin } from '../../../src/processors/WikiLinkMarkdownPlugin';
+
+describe('wikiLinkPlugin', () => {
+    function createMarkdownIt(renderEmbed?: (linkText: string) => string): MarkdownIt {
+        const md = new MarkdownIt();
+        md.use(wikiLinkPlugin, {
+            resolve: (linkText: string) => {
+                const page = linkText.split(/[#|]/)[0].trim();
+                return { href: `file:///${page}.md`, exists: page === 'Existing' };
+            },
+            renderEmbed
+        });
+        return md;
+    }
+
+    function render(text: string): string {
+        return createMarkdownIt().renderInline(text);
+    }
+
+    it('renders resolved WikiLinks as anchors carrying the raw link text', () => {
+        expect(render('see [[Existing]]')).to.equal(
+            'see <a href="file:///Existing.md" class="mdlg-wikilink" data-wikilink="Existing">Existing</a>'
+        );
+    });
+
+    it('marks links to missing notes', () => {
+        expect(render('[[Missing]]')).to.include('class="mdlg-wikilink mdlg-wikilink-missing"');
+    });
+
+    it('uses the alias or heading for the label', () => {
+        expect(render('[[Existing|shown]]')).to.include('>shown</a>');
+        expect(render('[[Existing#Part]]')).to.include('>Existing &gt; Part</a>');
+    });
+
+    it('escapes link text and leaves malformed links as text', () => {
+        expect(render('[[Existing|<b>]]')).to.include('data-wikilink="Existing|&lt;b&gt;">&lt;b&gt;</a>');
+        expect(render('[[#only]]')).to.equal('[[#only]]');
+    });
+
+    describe('embeds', () => {
+        const renderEmbed = (linkText: string) => `<embed:${linkText}>`;
+
+        it('renders an embed on its own line as a block', () => {
+            expect(createMarkdownIt(renderEmbed).render('![[Existing#Part]]\ntext')).to.equal(
+                '<div class="mdlg-embed-block"><embed:Existing#Part></div>\n<p>text</p>\n'
+            );
+        });
+
+        it('renders embeds inside text inline', () => {
+            expect(createMarkdownIt(renderEmbed).render('see ![[pic.png]] here')).to.equal(
+                '<p>see <embed:pic.png> here</p>\n'
+            );
+        });
+
+        it('falls back to a link without an embed renderer', () => {
+            expect(render('![[Existing]]')).to.equal(
+                '<a href="file:///Existing.md" class="mdlg-wikilink" data-wikilink="Existing">Existing</a>'
+            );
+        });
+
+        it('leaves standard Markdown images alone', () => {
+            expect(render('![alt](x.png)')).to.equal('<img src="x.png" alt="alt">');
+        });
+    });
+
+    it('does not treat regular Markdown links as WikiLinks', () => {
+        expect(render('[text](https://example.com)')).to.equal('<a href="https://example.com">text</a>');
+    });
+});
@@ -70,6 +70,25 @@ describe('WikiLinkProcessor', () => {
             expect(() => processor.parseWikiLink('')).to.throw(WikiLinkError, 'WikiLink text cannot be empty');
         });
 
+        it('埋め込みリンクのフラグを設定する', () => {
+            // テスト対象: ![[Page#Section]]
+            const result = processor.parseWikiLink('Page#Section', true);
+
+            expect(result).to.deep.equal({ pageName: 'Page', heading: 'Section', isAlias: false, isEmbed: true });
+            expect(processor.parseWikiLink('Page')).to.not.have.property('isEmbed');
+        });
+
+        it('ブロック参照を見出しと区別して解析する', () => {
+            // テスト対象: [[Page#^abc123|Display]]
+            expect(processor.parseWikiLink('Page#^abc123|Display')).to.deep.equal({
+                pageName: 'Page',
+                blockId: 'abc123',
+                displayName: 'Display',
+                isAlias: true
+            });
+            expect(processor.parseWikiLink('Page#^not a block').heading).to.equal('^not a block');
+        });
+
         it('前後の空白を除去する', () => {
             const linkText = '  Trimmed Page  ';
             const result = processor.parseWikiLink(linkText);
@@ -107,4 +126,45 @@ describe('WikiLinkProcessor', () => {
             expect(result).to.equal('page-with-special-chars');
         });
     });
-});
\ No newline at end of file
+
+    describe('pageNameFromFileName', () => {
+        it('passthroughモードではファイル名をそのまま返す', () => {
+            const processor = new WikiLinkProcessor({ slugStrategy: 'passthrough' });
+            expect(processor.pageNameFromFileName('New Name')).to.equal('New Name');
+        });
+
+        it('kebab-caseのファイル名を空白区切りに戻す', () => {
+            const processor = new WikiLinkProcessor({ slugStrategy: 'kebab-case' });
+            expect(processor.pageNameFromFileName('new-name')).to.equal('new name');
+        });
+
+        it('元のリンクが大文字始まりなら単語の先頭を大文字にする', () => {
+            const processor = new WikiLinkProcessor({ slugStrategy: 'snake_case' });
+            expect(processor.pageNameFromFileName('new_name', 'Old Name')).to.equal('New Name');
+        });
+
+        it('逆変換できない場合はファイル名を返す', () => {
+            const processor = new WikiLinkProcessor({ slugStrategy: 'kebab-case' });
+            expect(processor.pageNameFromFileName('Mixed-Case')).to.equal('Mixed-Case');
+        });
+    });
+
+    describe('replacePageName', () => {
+        it('見出しとエイリアスを保持してページ名のみ置換する', () => {
+            const processor = new WikiLinkProcessor();
+            const result = processor.replacePageName('Old Name#Intro|alias', 'New Name');
+
+            expect(result.offset).to.equal(0);
+            expect(result.length).to.equal('Old Name'.length);
+            expect(result.newLinkText).to.equal('New Name#Intro|alias');
+        });
+
+        it('前後の空白を保持する', () => {
+            const processor = new WikiLinkProcessor();
+            const result = processor.replacePageName('  Old Name | alias', 'New');
+
+            expect(result.offset).to.equal(2);
+            expect(result.newLinkText).to.equal('  New | alias');
+        });
+    });
+});
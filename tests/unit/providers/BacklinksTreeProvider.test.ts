@@ -0,0 +1,107 @@
+import { expect } from 'chai';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { BacklinksTreeProvider, BacklinkNode } from '../../../src/providers/BacklinksTreeProvider';
+import { VaultIndex } from '../../../src/services/VaultIndex';
+import { WikiLinkResolver } from '../../../src/services/WikiLinkResolver';
+import { ConfigurationManager } from '../../../src/managers/ConfigurationManager';
+import { IFileWriter } from '../../../src/services/FileWriter';
+
+describe('BacklinksTreeProvider', () => {
+    const workspaceFolder = { uri: vscode.Uri.file('/ws'), name: 'ws', index: 0 };
+    const target = vscode.Uri.file('/ws/Project Alpha.md');
+    let store: Record<string, string>;
+    let index: VaultIndex;
+    let provider: BacklinksTreeProvider;
+
+    beforeEach(() => {
+        store = {
+            '/ws/Project Alpha.md': '# Project Alpha\nproject alpha mentions itself',
+            '/ws/Daily.md': '- worked on [[Project Alpha]]\n- project alpha review later',
+            '/ws/Notes.md': 'Nothing here\nSee `Project Alpha` in code'
+        };
+
+        sinon.stub(vscode.workspace, 'workspaceFolders').value([workspaceFolder]);
+        sinon.stub(vscode.workspace, 'findFiles').callsFake(async () => Object.keys(store).map(p => vscode.Uri.file(p)));
+
+        const configManager = new ConfigurationManager({
+            get: (_key: string, defaultValue?: any) => defaultValue,
+            has: () => false,
+            update: async () => {}
+        });
+        const fileWriter: IFileWriter = {
+            read: async (uri: vscode.Uri) => store[uri.fsPath] ?? '',
+            write: async () => {}
+        };
+        index = new VaultIndex(configManager, fileWriter);
+        provider = new BacklinksTreeProvider(configManager, index, new WikiLinkResolver(configManager, index));
+        provider.setTarget(target);
+    });
+
+    afterEach(() => {
+        provider.dispose();
+        index.dispose();
+        sinon.restore();
+    });
+
+    it('shows linked and unlinked groups for the active note', async () => {
+        const roots = await provider.getChildren();
+        expect(roots).to.deep.equal([{ kind: 'group', linked: true }, { kind: 'group', linked: false }]);
+    });
+
+    it('returns nothing when no note is active', async () => {
+        provider.setTarget(undefined);
+        expect(await provider.getChildren()).to.be.empty;
+    });
+
+    it('groups linked mentions by source file with the line as context', async () => {
+        const files = await provider.getChildren({ kind: 'group', linked: true });
+        expect(files).to.have.lengthOf(1);
+        const mentions = await provider.getChildren(files[0]);
+        expect(mentions).to.have.lengthOf(1);
+
+        const item = provider.getTreeItem(mentions[0]);
+        expect((item.label as vscode.TreeItemLabel).label).to.equal('- worked on [[Project Alpha]]');
+        expect(item.command?.command).to.equal('vscode.open');
+        expect(item.contextValue).to.equal('mdlg.linkedMention');
+    });
+
+    it('finds unlinked mentions outside of links, code and the note itself', async () => {
+        const files = await provider.getChildren({ kind: 'group', linked: false });
+        expect(files).to.have.lengthOf(1);
+        const file = files[0] as Extract<BacklinkNode, { kind: 'file' }>;
+        expect(file.note.title).to.equal('Daily');
+        expect(file.mentions).to.have.lengthOf(1);
+        expect(file.mentions[0].line).to.equal(1);
+        expect(file.mentions[0].text).to.equal('project alpha');
+    });
+
+    it('links an unlinked mention keeping its original wording', async () => {
+        const files = await provider.getChildren({ kind: 'group', linked: false });
+        const [mentionNode] = await provider.getChildren(files[0]);
+
+        const lines = store['/ws/Daily.md'].split('\n');
+        sinon.stub(vscode.workspace, 'openTextDocument').resolves({
+            getText: (range: vscode.Range) => lines[range.start.line].substring(range.start.character, range.end.character)
+        } as any);
+        const applyEdit = sinon.stub(vscode.workspace, 'applyEdit').resolves(true);
+
+        expect(await provider.linkMention(mentionNode)).to.be.true;
+        const edit = applyEdit.firstCall.args[0] as any;
+        const [edits] = Array.from(edit._edits.values()) as any[];
+        expect(edits[0].newText).to.equal('[[Project Alpha|project alpha]]');
+    });
+
+    it('counts links and mentions written with a frontmatter alias', async () => {
+        store['/ws/Project Alpha.md'] = '---\naliases: [PA]\n---\n# Project Alpha';
+        store['/ws/Notes.md'] = 'Review [[PA]]\nPA is on hold';
+
+        const linked = await provider.getChildren({ kind: 'group', linked: true });
+        expect(linked.map(node => (node as Extract<BacklinkNode, { kind: 'file' }>).note.title)).to.deep.equal(['Daily', 'Notes']);
+
+        const unlinked = await provider.getChildren({ kind: 'group', linked: false });
+        const notes = unlinked.find(node => (node as Extract<BacklinkNode, { kind: 'file' }>).note.title === 'Notes') as Extract<BacklinkNode, { kind: 'file' }>;
+        expect(notes.mentions.map(m => [m.line, m.text])).to.deep.equal([[1, 'PA']]);
+    });
+});
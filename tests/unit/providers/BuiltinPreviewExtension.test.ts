@@ -0,0 +1,93 @@
+import { expect } from 'chai';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import MarkdownIt from 'markdown-it';
+import { BuiltinPreviewExtension } from '../../../src/providers/BuiltinPreviewExtension';
+import { VaultIndex } from '../../../src/services/VaultIndex';
+import { WikiLinkResolver } from '../../../src/services/WikiLinkResolver';
+import { ConfigurationManager } from '../../../src/managers/ConfigurationManager';
+
+describe('BuiltinPreviewExtension', () => {
+    const workspaceFolder = { uri: vscode.Uri.file('/ws'), name: 'ws', index: 0 };
+    let index: VaultIndex;
+    let extension: BuiltinPreviewExtension;
+    let settings: Record<string, any>;
+    let watcherHandlers: { create?: (u: vscode.Uri) => void; change?: (u: vscode.Uri) => void };
+
+    beforeEach(async () => {
+        sinon.stub(vscode.workspace, 'workspaceFolders').value([workspaceFolder]);
+        sinon.stub(vscode.workspace, 'findFiles').resolves([vscode.Uri.file('/ws/my-note.md')]);
+        watcherHandlers = {};
+        sinon.stub(vscode.workspace, 'createFileSystemWatcher').returns({
+            onDidCreate: (h: any) => { watcherHandlers.create = h; return { dispose: () => {} }; },
+            onDidChange: (h: any) => { watcherHandlers.change = h; return { dispose: () => {} }; },
+            onDidDelete: () => ({ dispose: () => {} }),
+            dispose: () => {}
+        } as any);
+
+        settings = { slugStrategy: 'kebab-case' };
+        const configManager = new ConfigurationManager({
+            get: (key: string, defaultValue?: any) => settings[key] ?? defaultValue,
+            has: () => false,
+            update: async () => {}
+        });
+        index = new VaultIndex(configManager, { read: async () => '', write: async () => {} });
+        extension = new BuiltinPreviewExtension(index, new WikiLinkResolver(configManager, index));
+        await index.ensureLoaded();
+    });
+
+    afterEach(() => {
+        extension.dispose();
+        index.dispose();
+        sinon.restore();
+    });
+
+    it('renders WikiLinks with command URIs that reuse openOrCreateWikiLink', () => {
+        const html = extension.extendMarkdownIt(new MarkdownIt()).renderInline('[[My Note|Alias]]');
+        const args = encodeURIComponent(JSON.stringify(['My Note|Alias']));
+        expect(html).to.equal(
+            `<a href="command:mdlg.openOrCreateWikiLink?${args}" class="mdlg-wikilink" data-wikilink="My Note|Alias">Alias</a>`
+        );
+    });
+
+    it('resolves targets with the slug strategy and flags missing notes', () => {
+        expect(extension.resolve('My Note#Heading').exists).to.be.true;
+        expect(extension.resolve('Other').exists).to.be.false;
+        expect(extension.resolve('#only').exists).to.be.false;
+    });
+
+    it('uses the slug strategy of each render', () => {
+        const md = extension.extendMarkdownIt(new MarkdownIt());
+        expect(md.renderInline('[[My Note]]')).to.not.include('mdlg-wikilink-missing');
+
+        settings.slugStrategy = 'passthrough';
+        expect(md.renderInline('[[My Note]]')).to.include('mdlg-wikilink-missing');
+    });
+
+    it('refreshes previews once typing settles, only when notes were added or removed', async () => {
+        const executeCommand = sinon.stub(vscode.commands, 'executeCommand').resolves();
+        extension.extendMarkdownIt(new MarkdownIt());
+        await new Promise(resolve => setImmediate(resolve));
+        const clock = sinon.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+        const settle = async () => {
+            await new Promise(resolve => setImmediate(resolve));
+            clock.tick(1000);
+            await new Promise(resolve => setImmediate(resolve));
+        };
+
+        try {
+            watcherHandlers.change!(vscode.Uri.file('/ws/my-note.md'));
+            watcherHandlers.change!(vscode.Uri.file('/ws/my-note.md'));
+            await settle();
+            expect(executeCommand.called).to.be.false;
+
+            watcherHandlers.create!(vscode.Uri.file('/ws/other.md'));
+            watcherHandlers.change!(vscode.Uri.file('/ws/my-note.md'));
+            await settle();
+            expect(executeCommand.calledOnceWith('markdown.preview.refresh')).to.be.true;
+        } finally {
+            clock.restore();
+        }
+    });
+});
@@ -0,0 +1,111 @@
+import { expect } from 'chai';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { CalendarViewProvider, CalendarDayData } from '../../../src/providers/CalendarViewProvider';
+import { VaultIndex } from '../../../src/services/VaultIndex';
+import { ConfigurationManager } from '../../../src/managers/ConfigurationManager';
+import { DailyNoteManager } from '../../../src/managers/DailyNoteManager';
+import { DateTimeFormatter } from '../../../src/utils/DateTimeFormatter';
+
+describe('CalendarViewProvider', () => {
+    const workspaceFolder = { uri: vscode.Uri.file('/ws'), name: 'ws', index: 0 };
+    let settings: Record<string, unknown>;
+    let index: VaultIndex;
+    let dailyNoteManager: DailyNoteManager;
+    let provider: CalendarViewProvider;
+
+    beforeEach(() => {
+        settings = {};
+        const store: Record<string, string> = {
+            '/ws/dailynotes/2025-09-18.md': '# Thu\n- [ ] call Bob\n- [ ] write report\n- [x] done',
+            '/ws/dailynotes/2025-10-01.md': 'next month',
+            '/ws/Ideas.md': 'not a daily note'
+        };
+        sinon.stub(vscode.workspace, 'workspaceFolders').value([workspaceFolder]);
+        sinon.stub(vscode.workspace, 'findFiles').callsFake(async () => Object.keys(store).map(p => vscode.Uri.file(p)));
+
+        const configManager = new ConfigurationManager({
+            get: (key: string, defaultValue?: any) => key in settings ? settings[key] : defaultValue,
+            has: () => false,
+            update: async () => {}
+        });
+        index = new VaultIndex(configManager, { read: async (uri: vscode.Uri) => store[uri.fsPath] ?? '', write: async () => {} });
+        dailyNoteManager = new DailyNoteManager(configManager, new DateTimeFormatter());
+        provider = new CalendarViewProvider(configManager, dailyNoteManager, index);
+    });
+
+    afterEach(() => {
+        provider.dispose();
+        index.dispose();
+        sinon.restore();
+    });
+
+    const findDay = (weeks: { days: CalendarDayData[] }[], date: string) =>
+        weeks.flatMap(week => week.days).find(day => day.date === date)!;
+
+    it('marks the days that have a daily note with word and task counts', async () => {
+        const month = await provider.buildMonth(workspaceFolder, 2025, 8, new Date(2025, 8, 20));
+
+        const day = findDay(month.weeks, '2025-09-18');
+        expect(day).to.include({ day: 18, inMonth: true, hasNote: true, openTasks: 2, taskDots: 2, wordDots: 1, isToday: false });
+        expect(findDay(month.weeks, '2025-09-20')).to.include({ hasNote: false, isToday: true, wordDots: 0, taskDots: 0 });
+        // 翌月の日も前後の週に表示される
+        expect(findDay(month.weeks, '2025-10-01')).to.include({ inMonth: false, hasNote: true });
+    });
+
+    it('applies the first day of week and week number settings', async () => {
+        settings['calendarFirstDayOfWeek'] = 'monday';
+        settings['calendarShowWeekNumbers'] = true;
+
+        const month = await provider.buildMonth(workspaceFolder, 2025, 8);
+
+        expect(month.weekdays[0]).to.equal('Mon');
+        expect(month.showWeekNumbers).to.be.true;
+        expect(month.weeks[0].days[0].date).to.equal('2025-09-01');
+        expect(month.weeks[0].weekNumber).to.equal(36);
+    });
+
+    it('highlights the daily note open in the active editor', async () => {
+        sinon.stub(vscode.window, 'activeTextEditor').value({
+            document: { uri: vscode.Uri.file('/ws/dailynotes/2025-09-18.md') }
+        });
+
+        const month = await provider.buildMonth(workspaceFolder, 2025, 8);
+
+        expect(month.weeks.flatMap(week => week.days).filter(day => day.isActive).map(day => day.date)).to.deep.equal(['2025-09-18']);
+    });
+
+    it('opens or creates the daily note of a clicked day and navigates between months', async () => {
+        const openOrCreate = sinon.stub(dailyNoteManager, 'openOrCreateDailyNote').resolves();
+        const messages: any[] = [];
+        let onMessage: (msg: unknown) => Promise<void> = async () => {};
+        const view = {
+            visible: true,
+            webview: {
+                options: {},
+                html: '',
+                cspSource: 'mock-csp-source',
+                postMessage: async (message: any) => messages.push(message),
+                onDidReceiveMessage: (callback: any) => {
+                    onMessage = callback;
+                    return { dispose: () => {} };
+                }
+            },
+            onDidChangeVisibility: () => ({ dispose: () => {} }),
+            onDidDispose: () => ({ dispose: () => {} })
+        } as any;
+
+        provider.resolveWebviewView(view, {} as any, {} as any);
+        expect(view.webview.html).to.include('Content-Security-Policy');
+
+        await onMessage({ command: 'open', date: '2025-09-18' });
+        expect(openOrCreate.firstCall.args[1]!.getDate()).to.equal(18);
+
+        await onMessage({ command: 'today' });
+        await onMessage({ command: 'navigate', offset: -1 });
+        const today = new Date();
+        const expected = new Date(today.getFullYear(), today.getMonth() - 1, 1);
+        expect(messages[messages.length - 1].data).to.include({ year: expected.getFullYear(), month: expected.getMonth() });
+    });
+});
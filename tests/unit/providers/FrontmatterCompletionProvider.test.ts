@@ -0,0 +1,80 @@
+import { expect } from 'chai';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { FrontmatterCompletionProvider } from '../../../src/providers/FrontmatterCompletionProvider';
+import { VaultIndex } from '../../../src/services/VaultIndex';
+import { ConfigurationManager } from '../../../src/managers/ConfigurationManager';
+
+describe('FrontmatterCompletionProvider', () => {
+    const workspaceFolder = { uri: vscode.Uri.file('/ws'), name: 'ws', index: 0 };
+    let store: Record<string, string>;
+    let index: VaultIndex;
+    let provider: FrontmatterCompletionProvider;
+
+    function complete(lines: string[], line: number, character = lines[line].length) {
+        const document: any = {
+            uri: vscode.Uri.file('/ws/Current.md'),
+            getText: () => lines.join('\n'),
+            lineAt: (i: number) => ({ text: lines[i] })
+        };
+        return provider.provideCompletionItems(document, new vscode.Position(line, character));
+    }
+
+    beforeEach(() => {
+        store = {
+            '/ws/A.md': '---\nstatus: done\ntags: [work, home]\n---',
+            '/ws/B.md': '---\nstatus: draft\ntags:\n  - work\ntype: meeting\n---',
+            '/ws/C.md': '---\nstatus: done\n---'
+        };
+
+        sinon.stub(vscode.workspace, 'workspaceFolders').value([workspaceFolder]);
+        sinon.stub(vscode.workspace, 'findFiles').callsFake(async () => Object.keys(store).map(p => vscode.Uri.file(p)));
+
+        const configManager = new ConfigurationManager({
+            get: (_key: string, defaultValue?: any) => defaultValue,
+            has: () => false,
+            update: async () => {}
+        });
+        index = new VaultIndex(configManager, {
+            read: async (uri: vscode.Uri) => store[uri.fsPath] ?? '',
+            write: async () => {}
+        });
+        provider = new FrontmatterCompletionProvider(index);
+    });
+
+    afterEach(() => {
+        index.dispose();
+        sinon.restore();
+    });
+
+    it('suggests keys used in the vault, most common first, except those already present', async () => {
+        const items = await complete(['---', 'status: x', 'ty', '---'], 2);
+
+        expect(items!.map(item => item.label)).to.deep.equal(['tags', 'type']);
+        expect(items![0].insertText).to.equal('tags: ');
+        expect(items![0].detail).to.equal('Used in 2 notes');
+    });
+
+    it('suggests the values other notes use for the key', async () => {
+        const items = await complete(['---', 'status: d', '---'], 1);
+
+        expect(items!.map(item => item.label)).to.deep.equal(['done', 'draft']);
+        const range = items![0].range as vscode.Range;
+        expect([range.start.character, range.end.character]).to.deep.equal([8, 9]);
+    });
+
+    it('completes inline and block list items', async () => {
+        const inline = await complete(['---', 'tags: [home, w', '---'], 1);
+        expect(inline!.map(item => item.label)).to.deep.equal(['work', 'home']);
+        expect((inline![0].range as vscode.Range).start.character).to.equal(13);
+
+        const block = await complete(['---', 'tags:', '  - a', '  - ', '---'], 3);
+        expect(block!.map(item => item.label)).to.deep.equal(['work', 'home']);
+    });
+
+    it('returns null outside the frontmatter', async () => {
+        expect(await complete(['---', 'status: done', '---', 'status: '], 3)).to.be.null;
+        expect(await complete(['# Note', 'status: '], 1)).to.be.null;
+    });
+});
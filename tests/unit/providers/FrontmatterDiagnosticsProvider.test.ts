@@ -0,0 +1,35 @@
+import { expect } from 'chai';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import * as vscode from 'vscode';
+import { FrontmatterDiagnosticsProvider } from '../../../src/providers/FrontmatterDiagnosticsProvider';
+
+describe('FrontmatterDiagnosticsProvider', () => {
+    let provider: FrontmatterDiagnosticsProvider;
+
+    function createDocument(text: string): any {
+        return { uri: vscode.Uri.file('/ws/Current.md'), languageId: 'markdown', getText: () => text };
+    }
+
+    beforeEach(() => {
+        provider = new FrontmatterDiagnosticsProvider();
+    });
+
+    afterEach(() => {
+        provider.dispose();
+    });
+
+    it('reports nothing for valid frontmatter or notes without it', () => {
+        expect(provider.analyze(createDocument('---\ntitle: x\ntags: [a]\n---\nbody'))).to.be.empty;
+        expect(provider.analyze(createDocument('# Note\nkey: "open'))).to.be.empty;
+    });
+
+    it('flags malformed YAML at its position', () => {
+        const diagnostics = provider.analyze(createDocument('---\ntitle: "open\n---'));
+
+        expect(diagnostics).to.have.lengthOf(1);
+        expect(diagnostics[0].message).to.equal('Unterminated quoted string');
+        expect(diagnostics[0].range.start).to.deep.include({ line: 1, character: 7 });
+        expect(diagnostics[0].severity).to.equal(vscode.DiagnosticSeverity.Error);
+        expect(diagnostics[0].code).to.equal('malformed-frontmatter');
+    });
+});
@@ -0,0 +1,56 @@
+import { expect } from 'chai';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { GraphViewProvider } from '../../../src/providers/GraphViewProvider';
+import { VaultIndex } from '../../../src/services/VaultIndex';
+import { WikiLinkResolver } from '../../../src/services/WikiLinkResolver';
+import { ConfigurationManager } from '../../../src/managers/ConfigurationManager';
+
+describe('GraphViewProvider', () => {
+    const workspaceFolder = { uri: vscode.Uri.file('/ws'), name: 'ws', index: 0 };
+    const files: Record<string, string> = {
+        '/ws/a.md': '#work #work\n[[b]] ![[b]] [[b#Heading]] [[missing]] [[a]]',
+        '/ws/notes/b.md': '---\ntags: [ref]\n---\n[[a|Back]]',
+        '/ws/c.md': 'no links'
+    };
+    let index: VaultIndex;
+    let provider: GraphViewProvider;
+
+    beforeEach(async () => {
+        sinon.stub(vscode.workspace, 'workspaceFolders').value([workspaceFolder]);
+        sinon.stub(vscode.workspace, 'findFiles').resolves(Object.keys(files).map(p => vscode.Uri.file(p)));
+
+        const configManager = new ConfigurationManager({
+            get: (_key: string, defaultValue?: any) => defaultValue,
+            has: () => false,
+            update: async () => {}
+        });
+        index = new VaultIndex(configManager, { read: async (uri: vscode.Uri) => files[uri.fsPath], write: async () => {} });
+        provider = new GraphViewProvider(vscode.Uri.file('/ext'), index, new WikiLinkResolver(configManager, index));
+        await index.ensureLoaded();
+    });
+
+    afterEach(() => {
+        provider.dispose();
+        index.dispose();
+        sinon.restore();
+    });
+
+    it('builds one node per note with its tags and path', async () => {
+        const graph = await provider.buildGraph();
+        const nodes = graph.nodes.map(n => [n.title, n.path, n.tags, n.orphan]).sort();
+        expect(nodes).to.deep.equal([
+            ['a', 'a.md', ['work'], false],
+            ['b', 'notes/b.md', ['ref'], false],
+            ['c', 'c.md', [], true]
+        ]);
+    });
+
+    it('creates a single edge per linked pair and ignores missing notes and self links', async () => {
+        const graph = await provider.buildGraph();
+        const title = new Map(graph.nodes.map(n => [n.id, n.title]));
+        const edges = graph.edges.map(e => `${title.get(e.source)}->${title.get(e.target)}`).sort();
+        expect(edges).to.deep.equal(['a->b', 'b->a']);
+    });
+});
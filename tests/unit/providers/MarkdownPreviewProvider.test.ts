@@ -0,0 +1,157 @@
+import { expect } from 'chai';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { MarkdownPreviewProvider } from '../../../src/providers/MarkdownPreviewProvider';
+import { VaultIndex } from '../../../src/services/VaultIndex';
+import { WikiLinkResolver } from '../../../src/services/WikiLinkResolver';
+import { ConfigurationManager } from '../../../src/managers/ConfigurationManager';
+
+describe('MarkdownPreviewProvider', () => {
+    const workspaceFolder = { uri: vscode.Uri.file('/ws'), name: 'ws', index: 0 };
+    const attachments = ['/ws/assets/pic.png', '/ws/assets/doc.pdf'];
+    let store: Record<string, string>;
+    let index: VaultIndex;
+    let provider: MarkdownPreviewProvider;
+
+    beforeEach(async () => {
+        store = {
+            '/ws/Existing.md': '---\ntags: x\n---\n\nExisting body',
+            '/ws/Sections.md': '# One\nfirst\n# Two\nsecond\n- [ ] embedded task',
+            '/ws/Loop A.md': 'A text ![[Loop B]]',
+            '/ws/Loop B.md': 'B text\n\n![[Loop A]]'
+        };
+        sinon.stub(vscode.workspace, 'workspaceFolders').value([workspaceFolder]);
+        sinon.stub(vscode.workspace, 'findFiles').callsFake(async (include: any) => {
+            const pattern: string = include instanceof vscode.RelativePattern ? (include as any).pattern : include;
+            if (pattern.includes('png')) {
+                return attachments.map(p => vscode.Uri.file(p));
+            }
+            return Object.keys(store).map(p => vscode.Uri.file(p));
+        });
+
+        const configManager = new ConfigurationManager({
+            get: (_key: string, defaultValue?: any) => defaultValue,
+            has: () => false,
+            update: async () => {}
+        });
+        const fileWriter = {
+            read: async (uri: vscode.Uri) => store[uri.fsPath] ?? '',
+            write: async () => {}
+        };
+        index = new VaultIndex(configManager, fileWriter);
+        provider = new MarkdownPreviewProvider(configManager, index, new WikiLinkResolver(configManager, index), fileWriter);
+        await index.ensureLoaded();
+    });
+
+    afterEach(() => {
+        provider.dispose();
+        index.dispose();
+        sinon.restore();
+    });
+
+    it('styles links by whether the target note exists', async () => {
+        const html = await provider.renderMarkdown('[[Existing]] [[Missing]]');
+        expect(html).to.include('class="mdlg-wikilink" data-wikilink="Existing"');
+        expect(html).to.include('class="mdlg-wikilink mdlg-wikilink-missing" data-wikilink="Missing"');
+    });
+
+    it('renders task list items as checkboxes bound to their source line', async () => {
+        const html = await provider.renderMarkdown('# Tasks\n\n- [ ] open\n- [x] done');
+        expect(html).to.include('<input type="checkbox" class="mdlg-task" data-line="2">open');
+        expect(html).to.include('<input type="checkbox" class="mdlg-task" data-line="3" checked>done');
+        expect(html).to.not.include('[ ]');
+    });
+
+    it('annotates blocks with their source line for scroll sync', async () => {
+        const html = await provider.renderMarkdown('# Title\n\nParagraph');
+        expect(html).to.include('<h1 data-line="0">Title</h1>');
+        expect(html).to.include('<p data-line="2">Paragraph</p>');
+    });
+
+    it('does not render raw HTML from notes', async () => {
+        expect(await provider.renderMarkdown('<script>alert(1)</script>')).to.not.include('<script>');
+    });
+
+    it('renders query blocks as read-only results', async () => {
+        const html = await provider.renderMarkdown('intro\n\n```mdlg-query\nTASK FROM "Sections.md"\n```');
+        expect(html).to.include('<div class="mdlg-query" data-line="2">');
+        expect(html).to.include('class="mdlg-wikilink" data-wikilink="Sections"');
+        expect(html).to.include('<input type="checkbox" class="mdlg-task" disabled>embedded task');
+    });
+
+    it('shows query errors in place of the result', async () => {
+        const html = await provider.renderMarkdown('```mdlg-query\nLIST FROM\n```');
+        expect(html).to.include('<div class="mdlg-query mdlg-query-error" data-line="0">Query error: FROM expects');
+    });
+
+    it('skips the frontmatter and keeps source lines of the full note', async () => {
+        const html = await provider.renderMarkdown('---\ntitle: Note\ntags: [a]\n---\n# Heading\n\n- [ ] task');
+        expect(html).to.not.include('<hr');
+        expect(html).to.not.include('title: Note');
+        expect(html).to.include('<h1 data-line="4">Heading</h1>');
+        expect(html).to.include('<input type="checkbox" class="mdlg-task" data-line="6">task');
+    });
+
+    describe('embeds', () => {
+        it('expands embedded notes without their frontmatter', async () => {
+            const html = await provider.renderMarkdown('intro\n\n![[Existing]]');
+            expect(html).to.include('<div class="mdlg-embed-block" data-line="2"><div class="mdlg-embed">');
+            expect(html).to.include('<p>Existing body</p>');
+            expect(html).to.not.include('tags: x');
+        });
+
+        it('expands only the referenced section, with read-only tasks and no source lines', async () => {
+            const html = await provider.renderMarkdown('![[Sections#Two]]');
+            expect(html).to.include('<h1>Two</h1>');
+            expect(html).to.include('<input type="checkbox" class="mdlg-task" disabled>embedded task');
+            expect(html).to.not.include('first');
+        });
+
+        it('transcludes a single block', async () => {
+            store['/ws/Sections.md'] += '\n\nquoted line\ncontinued ^quote\n\nafter';
+            await index.refreshNote(vscode.Uri.file('/ws/Sections.md'));
+            const html = await provider.renderMarkdown('![[Sections#^quote]]');
+            expect(html).to.include('<p>quoted line\ncontinued</p>');
+            expect(html).to.not.include('after');
+            expect(html).to.include('Sections &gt; ^quote');
+        });
+
+        it('tags links inside an embed with the embedded note as their source', async () => {
+            store['/ws/sub/Inner.md'] = 'see [[./Sibling]]';
+            store['/ws/sub/Sibling.md'] = '';
+            await index.refreshNote(vscode.Uri.file('/ws/sub/Inner.md'));
+            await index.refreshNote(vscode.Uri.file('/ws/sub/Sibling.md'));
+            const inner = vscode.Uri.file('/ws/sub/Inner.md').toString();
+            const html = await provider.renderMarkdown('![[Inner]] [[Existing]]', vscode.Uri.file('/ws/Top.md'));
+            expect(html).to.include(`class="mdlg-wikilink" data-wikilink="./Sibling" data-source="${inner}">`);
+            expect(html).to.include(`data-wikilink="Existing" data-source="${vscode.Uri.file('/ws/Top.md').toString()}">`);
+        });
+
+        it('stops at cycles', async () => {
+            const html = await provider.renderMarkdown(store['/ws/Loop A.md'], vscode.Uri.file('/ws/Loop A.md'));
+            expect(html).to.include('B text');
+            expect(html).to.include('Circular embed: <a');
+        });
+
+        it('stops at the depth limit when the previewed note is not part of the cycle', async () => {
+            const html = await provider.renderMarkdown('![[Loop A]]');
+            expect(html).to.include('Circular embed');
+            expect(html.match(/A text/g)).to.have.length(1);
+        });
+
+        it('renders missing notes as links to create them', async () => {
+            const html = await provider.renderMarkdown('![[Nowhere]]');
+            expect(html).to.include('class="mdlg-wikilink mdlg-wikilink-missing" data-wikilink="Nowhere"');
+        });
+
+        it('renders images and PDFs as attachments', async () => {
+            const html = await provider.renderMarkdown('![[pic.png|200]] and ![[doc.pdf]]');
+            const pic = vscode.Uri.file('/ws/assets/pic.png').toString();
+            const doc = vscode.Uri.file('/ws/assets/doc.pdf').toString();
+            expect(html).to.include(`<img class="mdlg-embed-image" src="${pic}" alt="pic.png" width="200">`);
+            expect(html).to.include(`<object class="mdlg-embed-pdf" type="application/pdf" data="${doc}">`);
+            expect(html).to.include(`<a href="${doc}" class="mdlg-wikilink" data-wikilink="doc.pdf">doc.pdf</a></object>`);
+        });
+    });
+});
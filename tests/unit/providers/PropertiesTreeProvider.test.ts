@@ -0,0 +1,52 @@
+import { expect } from 'chai';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import * as vscode from 'vscode';
+import { PropertiesTreeProvider, PropertyNode } from '../../../src/providers/PropertiesTreeProvider';
+
+describe('PropertiesTreeProvider', () => {
+    const uri = vscode.Uri.file('/ws/Note.md');
+    let provider: PropertiesTreeProvider;
+
+    function createDocument(text: string): any {
+        return { uri, languageId: 'markdown', getText: () => text };
+    }
+
+    beforeEach(() => {
+        provider = new PropertiesTreeProvider();
+    });
+
+    afterEach(() => {
+        provider.dispose();
+    });
+
+    it('returns nothing without an active note or frontmatter', () => {
+        expect(provider.getChildren()).to.be.empty;
+        provider.setDocument(createDocument('# Note'));
+        expect(provider.getChildren()).to.be.empty;
+    });
+
+    it('lists the properties of the active note with their values', () => {
+        provider.setDocument(createDocument('---\nstatus: done\ntags:\n  - a\n  - b\n---'));
+        const roots = provider.getChildren();
+
+        expect(roots.map(node => node.property.key)).to.deep.equal(['status', 'tags']);
+
+        const status = provider.getTreeItem(roots[0]);
+        expect(status.label).to.equal('status');
+        expect(status.description).to.equal('done');
+        expect(status.command?.arguments?.[1].selection.start.line).to.equal(1);
+
+        const tags = provider.getTreeItem(roots[1]);
+        expect(tags.description).to.equal('2 items');
+        expect(tags.collapsibleState).to.equal(vscode.TreeItemCollapsibleState.Expanded);
+    });
+
+    it('expands list properties to their items', () => {
+        provider.setDocument(createDocument('---\ntags: [a, b]\n---'));
+        const [tags] = provider.getChildren();
+        const items = provider.getChildren(tags) as Extract<PropertyNode, { kind: 'value' }>[];
+
+        expect(items.map(item => item.value)).to.deep.equal(['a', 'b']);
+        expect(provider.getTreeItem(items[0]).label).to.equal('a');
+    });
+});
@@ -128,6 +128,28 @@ describe('QuickCaptureSidebarProvider', () => {
             expect(capturedContent).to.equal('Test capture');
         });
 
+        it('should append content to the weekly note when it is the selected target', async () => {
+            let dailyCalled = false;
+            let captured: any[] = [];
+            mockDailyNoteManager.appendToSection = async () => {
+                dailyCalled = true;
+                return { uri: vscode.Uri.file('/test/dailynote.md'), line: 5 };
+            };
+            (mockDailyNoteManager as any).appendToPeriodicNoteSection = async (_workspace: any, period: string, content: string) => {
+                captured = [period, content];
+                return { uri: vscode.Uri.file('/test/2025-W38.md'), line: 3 };
+            };
+            (vscode.workspace as any).workspaceFolders = [{ uri: vscode.Uri.file('/test/workspace'), name: 'test', index: 0 }];
+
+            provider.resolveWebviewView(mockWebviewView, {} as any, {} as any);
+            const messageCallback = (mockWebviewView.webview as any)._messageCallback;
+            await messageCallback({ command: 'capture:add', content: 'Weekly item', target: 'weekly' });
+
+            expect(dailyCalled).to.be.false;
+            expect(captured).to.deep.equal(['week', 'Weekly item']);
+            expect(receivedMessages.find(m => m.command === 'capture:ok').uri).to.equal('/test/2025-W38.md');
+        });
+
         it('should send capture:ok response after successful capture', async () => {
             const mockWorkspaceFolder = {
                 uri: vscode.Uri.file('/test/workspace'),
@@ -266,6 +288,37 @@ describe('QuickCaptureSidebarProvider', () => {
             expect(tasksMessage).to.exist;
             expect(tasksMessage.tasks).to.deep.equal([]);
         });
+
+        it('should send tasks sorted and grouped by due date', async () => {
+            (vscode.workspace as any).workspaceFolders = [{ uri: vscode.Uri.file('/test/workspace'), name: 'test', index: 0 }];
+            const today = new Date();
+            const pad = (n: number) => String(n).padStart(2, '0');
+            const key = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+            const vaultIndex = {
+                getAllNotes: async () => [{
+                    uri: vscode.Uri.file('/test/workspace/note.md'),
+                    tasks: [
+                        { line: 0, text: 'someday', raw: '- [ ] someday', completed: false, tags: [], description: 'someday' },
+                        { line: 1, text: 'later 📅 2999-01-01', raw: '', completed: false, tags: [], description: 'later', due: '2999-01-01' },
+                        { line: 2, text: `now ${key(today)}`, raw: '', completed: false, tags: [], description: 'now', due: key(today), priority: 'high' },
+                        { line: 3, text: 'late', raw: '', completed: false, tags: [], description: 'late', due: '2000-01-01' }
+                    ]
+                }]
+            };
+            const providerWithIndex = new QuickCaptureSidebarProvider(mockContext, mockConfigManager, mockDailyNoteManager, vaultIndex as any);
+
+            providerWithIndex.resolveWebviewView(mockWebviewView, {} as any, {} as any);
+            await (mockWebviewView.webview as any)._messageCallback({ command: 'request:tasks' });
+
+            const tasksMessage = receivedMessages.find(m => m.command === 'tasks:update');
+            expect(tasksMessage.tasks.map((t: any) => [t.description, t.group])).to.deep.equal([
+                ['late', 'overdue'],
+                ['now', 'today'],
+                ['later', 'upcoming'],
+                ['someday', 'noDate']
+            ]);
+            expect(tasksMessage.tasks[1]).to.include({ priority: 'high', file: 'note.md', line: 2 });
+        });
     });
 
     describe('task:complete message handling', () => {
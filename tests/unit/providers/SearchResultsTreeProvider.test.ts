@@ -0,0 +1,80 @@
+import { expect } from 'chai';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { SearchResultsTreeProvider } from '../../../src/providers/SearchResultsTreeProvider';
+import { SearchIndex } from '../../../src/services/SearchIndex';
+import { VaultIndex } from '../../../src/services/VaultIndex';
+import { ConfigurationManager } from '../../../src/managers/ConfigurationManager';
+
+describe('SearchResultsTreeProvider', () => {
+    const workspaceFolder = { uri: vscode.Uri.file('/ws'), name: 'ws', index: 0 };
+    let index: VaultIndex;
+    let searchIndex: SearchIndex;
+    let provider: SearchResultsTreeProvider;
+
+    beforeEach(() => {
+        const store: Record<string, string> = {
+            '/ws/A.md': 'intro\n    - nested todo item\nanother todo',
+            '/ws/B.md': 'nothing'
+        };
+        sinon.stub(vscode.workspace, 'workspaceFolders').value([workspaceFolder]);
+        sinon.stub(vscode.workspace, 'findFiles').callsFake(async () => Object.keys(store).map(p => vscode.Uri.file(p)));
+
+        const configManager = new ConfigurationManager({
+            get: (_key: string, defaultValue?: any) => defaultValue,
+            has: () => false,
+            update: async () => {}
+        });
+        const fileWriter = { read: async (uri: vscode.Uri) => store[uri.fsPath] ?? '', write: async () => {} };
+        index = new VaultIndex(configManager, fileWriter);
+        searchIndex = new SearchIndex(index, fileWriter);
+        provider = new SearchResultsTreeProvider(searchIndex, index);
+    });
+
+    afterEach(() => {
+        provider.dispose();
+        searchIndex.dispose();
+        index.dispose();
+        sinon.restore();
+    });
+
+    it('is empty until a search is run', () => {
+        expect(provider.getChildren()).to.be.empty;
+    });
+
+    it('lists matching notes with their matching lines', async () => {
+        await provider.search('todo');
+
+        const files = provider.getChildren();
+        expect(files).to.have.lengthOf(1);
+        const file = provider.getTreeItem(files[0]);
+        expect(file.label).to.equal('A');
+        expect(file.description).to.equal('A.md · 2');
+
+        const lines = provider.getChildren(files[0]);
+        const item = provider.getTreeItem(lines[0]);
+        expect(item.label).to.deep.equal({ label: '- nested todo item', highlights: [[9, 13]] });
+        expect(item.description).to.equal('2');
+        expect(item.command!.arguments![1].selection.start.character).to.equal(13);
+    });
+
+    it('prompts with the previous query', async () => {
+        await provider.search('todo');
+        const showInputBox = sinon.stub(vscode.window, 'showInputBox').resolves('intro');
+
+        const results = await provider.search();
+
+        expect(showInputBox.firstCall.args[0]!.value).to.equal('todo');
+        expect(results!.map(r => r.note.title)).to.deep.equal(['A']);
+    });
+
+    it('shows an error for invalid queries and keeps the previous results', async () => {
+        await provider.search('todo');
+        const showErrorMessage = sinon.stub(vscode.window, 'showErrorMessage');
+
+        expect(await provider.search('"todo')).to.be.undefined;
+        expect(showErrorMessage.firstCall.args[0]).to.equal('Invalid search query: Unterminated quoted phrase');
+        expect(provider.getChildren()).to.have.lengthOf(1);
+    });
+});
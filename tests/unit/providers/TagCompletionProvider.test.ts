@@ -0,0 +1,71 @@
+import { expect } from 'chai';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { TagCompletionProvider } from '../../../src/providers/TagCompletionProvider';
+import { VaultIndex } from '../../../src/services/VaultIndex';
+import { ConfigurationManager } from '../../../src/managers/ConfigurationManager';
+
+describe('TagCompletionProvider', () => {
+    const workspaceFolder = { uri: vscode.Uri.file('/ws'), name: 'ws', index: 0 };
+    let index: VaultIndex;
+    let provider: TagCompletionProvider;
+
+    function complete(lines: string[], line = lines.length - 1, character = lines[line].length) {
+        const document: any = {
+            uri: vscode.Uri.file('/ws/Current.md'),
+            lineAt: (i: number) => ({ text: lines[i] })
+        };
+        return provider.provideCompletionItems(document, new vscode.Position(line, character));
+    }
+
+    beforeEach(() => {
+        const store: Record<string, string> = {
+            '/ws/A.md': '#work #project/alpha',
+            '/ws/B.md': '---\ntags: work\n---'
+        };
+        sinon.stub(vscode.workspace, 'workspaceFolders').value([workspaceFolder]);
+        sinon.stub(vscode.workspace, 'findFiles').callsFake(async () => Object.keys(store).map(p => vscode.Uri.file(p)));
+
+        const configManager = new ConfigurationManager({
+            get: (_key: string, defaultValue?: any) => defaultValue,
+            has: () => false,
+            update: async () => {}
+        });
+        index = new VaultIndex(configManager, {
+            read: async (uri: vscode.Uri) => store[uri.fsPath] ?? '',
+            write: async () => {}
+        });
+        provider = new TagCompletionProvider(index);
+    });
+
+    afterEach(() => {
+        index.dispose();
+        sinon.restore();
+    });
+
+    it('suggests vault tags after # with their note counts', async () => {
+        const items = await complete(['Some text #pro']);
+
+        expect(items!.map(item => item.label)).to.deep.equal(['work', 'project/alpha']);
+        expect(items![0].detail).to.equal('2 notes');
+        const range = items![1].range as vscode.Range;
+        expect([range.start.character, range.end.character]).to.deep.equal([11, 14]);
+    });
+
+    it('completes at the start of a line and after nested separators', async () => {
+        expect(await complete(['#'])).to.have.lengthOf(2);
+        const nested = await complete(['#project/']);
+        expect((nested![0].range as vscode.Range).start.character).to.equal(1);
+    });
+
+    it('ignores headings, WikiLink anchors, code and frontmatter', async () => {
+        expect(await complete(['## Heading #'])).to.be.null;
+        expect(await complete(['[[Note #'])).to.be.null;
+        expect(await complete(['[[Note#'])).to.be.null;
+        expect(await complete(['`code #'])).to.be.null;
+        expect(await complete(['```', '#'])).to.be.null;
+        expect(await complete(['---', 'title: #', '---'], 1)).to.be.null;
+        expect(await complete(['a#'])).to.be.null;
+    });
+});
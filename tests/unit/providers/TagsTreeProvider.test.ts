@@ -0,0 +1,64 @@
+import { expect } from 'chai';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { TagsTreeProvider, TagNode } from '../../../src/providers/TagsTreeProvider';
+import { VaultIndex } from '../../../src/services/VaultIndex';
+import { ConfigurationManager } from '../../../src/managers/ConfigurationManager';
+
+describe('TagsTreeProvider', () => {
+    const workspaceFolder = { uri: vscode.Uri.file('/ws'), name: 'ws', index: 0 };
+    let index: VaultIndex;
+    let provider: TagsTreeProvider;
+
+    beforeEach(() => {
+        const store: Record<string, string> = {
+            '/ws/A.md': '#project\n#project/alpha',
+            '/ws/B.md': '#project/beta/x #misc'
+        };
+        sinon.stub(vscode.workspace, 'workspaceFolders').value([workspaceFolder]);
+        sinon.stub(vscode.workspace, 'findFiles').callsFake(async () => Object.keys(store).map(p => vscode.Uri.file(p)));
+
+        const configManager = new ConfigurationManager({
+            get: (_key: string, defaultValue?: any) => defaultValue,
+            has: () => false,
+            update: async () => {}
+        });
+        index = new VaultIndex(configManager, {
+            read: async (uri: vscode.Uri) => store[uri.fsPath] ?? '',
+            write: async () => {}
+        });
+        provider = new TagsTreeProvider(index);
+    });
+
+    afterEach(() => {
+        provider.dispose();
+        index.dispose();
+        sinon.restore();
+    });
+
+    it('lists top-level tags with the number of notes using them or nested tags', async () => {
+        const roots = await provider.getChildren();
+
+        expect(roots.map(node => node.tag)).to.deep.equal(['misc', 'project']);
+        const project = provider.getTreeItem(roots[1]);
+        expect(project.label).to.equal('#project');
+        expect(project.description).to.equal('2');
+        expect(project.contextValue).to.equal('mdlg.tag');
+    });
+
+    it('lists nested tags before the notes using the tag itself', async () => {
+        const [, project] = await provider.getChildren();
+        const children = await provider.getChildren(project);
+
+        expect(children.map(node => [node.kind, node.kind === 'tag' ? node.tag : node.note.title])).to.deep.equal([
+            ['tag', 'project/alpha'],
+            ['tag', 'project/beta'],
+            ['note', 'A']
+        ]);
+        expect(provider.getTreeItem(children[1]).label).to.equal('#beta');
+
+        const note = provider.getTreeItem(children[2] as Extract<TagNode, { kind: 'note' }>);
+        expect(note.command?.arguments?.[1].selection.start.line).to.equal(0);
+    });
+});
@@ -0,0 +1,137 @@
+import { expect } from 'chai';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { WikiLinkCodeActionProvider } from '../../../src/providers/WikiLinkCodeActionProvider';
+import { VaultIndex } from '../../../src/services/VaultIndex';
+import { WikiLinkResolver } from '../../../src/services/WikiLinkResolver';
+import { ConfigurationManager } from '../../../src/managers/ConfigurationManager';
+import { NoteCreationService } from '../../../src/services/NoteCreationService';
+import { TemplateService } from '../../../src/services/TemplateService';
+import { FrontmatterTimestampService } from '../../../src/services/FrontmatterTimestampService';
+import { DateTimeFormatter } from '../../../src/utils/DateTimeFormatter';
+
+describe('WikiLinkCodeActionProvider', () => {
+    const workspaceFolder = { uri: vscode.Uri.file('/ws'), name: 'ws', index: 0 };
+    const documentUri = vscode.Uri.file('/ws/Current.md');
+    let store: Record<string, string>;
+    let index: VaultIndex;
+    let configManager: ConfigurationManager;
+    let resolver: WikiLinkResolver;
+    let provider: WikiLinkCodeActionProvider;
+
+    function createDocument(text: string): any {
+        const lines = text.split('\n');
+        return {
+            uri: documentUri,
+            languageId: 'markdown',
+            getText: (range?: vscode.Range) => range
+                ? lines[range.start.line].substring(range.start.character, range.end.character)
+                : text
+        };
+    }
+
+    function createDiagnostic(code: string, line: number, start: number, end: number): vscode.Diagnostic {
+        const diagnostic = new vscode.Diagnostic(
+            new vscode.Range(line, start, line, end),
+            'broken',
+            vscode.DiagnosticSeverity.Warning
+        );
+        diagnostic.source = 'mdlg';
+        diagnostic.code = code;
+        return diagnostic;
+    }
+
+    beforeEach(() => {
+        store = {
+            '/ws/Project Plan.md': '# Goals\n## Timeline\n## Budget',
+            '/ws/Meeting.md': '',
+            '/ws/Current.md': ''
+        };
+
+        sinon.stub(vscode.workspace, 'workspaceFolders').value([workspaceFolder]);
+        sinon.stub(vscode.workspace, 'findFiles').callsFake(async () => Object.keys(store).map(p => vscode.Uri.file(p)));
+
+        configManager = new ConfigurationManager({
+            get: (key: string, defaultValue?: any) => key === 'template' ? '# {{title}}\n\n{{cursor}}' : defaultValue,
+            has: () => false,
+            update: async () => {}
+        });
+        index = new VaultIndex(configManager, {
+            read: async (uri: vscode.Uri) => store[uri.fsPath] ?? '',
+            write: async () => {}
+        });
+        resolver = new WikiLinkResolver(configManager, index);
+        provider = new WikiLinkCodeActionProvider(configManager, index, resolver);
+    });
+
+    afterEach(() => {
+        index.dispose();
+        sinon.restore();
+    });
+
+    it('offers to create the missing note and to use the closest title', async () => {
+        const text = 'See [[Projct Plan|plan]]';
+        const diagnostic = createDiagnostic('missing-note', 0, 4, text.length);
+        const actions = await provider.provideCodeActions(createDocument(text), diagnostic.range, { diagnostics: [diagnostic] } as any);
+
+        expect(actions.map(a => a.title)).to.deep.equal(['Create note "Projct Plan"', 'Change link to "Project Plan"']);
+        expect(actions[0].edit).to.be.undefined;
+        expect(actions[0].command).to.deep.include({
+            command: 'mdlg.openOrCreateWikiLink',
+            arguments: ['Projct Plan|plan', documentUri.toString()]
+        });
+
+        const replaced = (actions[1].edit as any).get(documentUri)[0];
+        expect(actions[1].isPreferred).to.be.true;
+        expect(replaced.newText).to.equal('Project Plan');
+        expect(replaced.range.start.character).to.equal(6);
+        expect(replaced.range.end.character).to.equal(6 + 'Projct Plan'.length);
+    });
+
+    it('creates the note from the rendered template like an opened link', async () => {
+        const text = '[[Weekly Review]]';
+        const diagnostic = createDiagnostic('missing-note', 0, 0, text.length);
+        const [create] = await provider.provideCodeActions(createDocument(text), diagnostic.range, { diagnostics: [diagnostic] } as any);
+
+        sinon.stub(vscode.workspace.fs, 'stat').rejects(new Error('not found'));
+        const writeFile = sinon.stub(vscode.workspace.fs, 'writeFile').resolves();
+        const showTextDocument = sinon.stub(vscode.window, 'showTextDocument').resolves();
+        const formatter = new DateTimeFormatter();
+        const service = new NoteCreationService(
+            configManager,
+            resolver,
+            new TemplateService(configManager, formatter),
+            new FrontmatterTimestampService(configManager, formatter)
+        );
+        // コマンドの登録処理と同じく、source は URI 文字列から戻す
+        const [linkText, source] = create.command!.arguments!;
+        await service.openOrCreateWikiLink(linkText, vscode.Uri.file(source));
+
+        expect(writeFile.firstCall.args[0].fsPath).to.equal('/ws/Weekly Review.md');
+        expect(new TextDecoder().decode(writeFile.firstCall.args[1])).to.equal('# Weekly Review\n\n');
+        expect(showTextDocument.firstCall.args[1]).to.have.nested.property('selection.start.line', 2);
+    });
+
+    it('offers existing headings, closest first', async () => {
+        const text = '[[Project Plan#Timelin]]';
+        const diagnostic = createDiagnostic('missing-heading', 0, 0, text.length);
+        const actions = await provider.provideCodeActions(createDocument(text), diagnostic.range, { diagnostics: [diagnostic] } as any);
+
+        expect(actions.map(a => a.title)).to.deep.equal([
+            'Change heading to "Timeline"',
+            'Change heading to "Goals"',
+            'Change heading to "Budget"'
+        ]);
+        const replaced = (actions[0].edit as any).get(documentUri)[0];
+        expect(replaced.range.start.character).to.equal('[[Project Plan#'.length);
+        expect(replaced.range.end.character).to.equal('[[Project Plan#Timelin'.length);
+    });
+
+    it('ignores diagnostics from other sources', async () => {
+        const diagnostic = createDiagnostic('missing-note', 0, 0, 9);
+        diagnostic.source = 'other';
+        const actions = await provider.provideCodeActions(createDocument('[[Nope]]'), diagnostic.range, { diagnostics: [diagnostic] } as any);
+        expect(actions).to.be.empty;
+    });
+});
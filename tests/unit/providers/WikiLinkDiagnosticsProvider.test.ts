@@ -0,0 +1,99 @@
+import { expect } from 'chai';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { WikiLinkDiagnosticsProvider } from '../../../src/providers/WikiLinkDiagnosticsProvider';
+import { VaultIndex } from '../../../src/services/VaultIndex';
+import { WikiLinkResolver } from '../../../src/services/WikiLinkResolver';
+import { ConfigurationManager } from '../../../src/managers/ConfigurationManager';
+
+describe('WikiLinkDiagnosticsProvider', () => {
+    const workspaceFolder = { uri: vscode.Uri.file('/ws'), name: 'ws', index: 0 };
+    let store: Record<string, string>;
+    let settings: Record<string, any>;
+    let index: VaultIndex;
+    let provider: WikiLinkDiagnosticsProvider;
+
+    function createDocument(text: string): any {
+        return { uri: vscode.Uri.file('/ws/Current.md'), languageId: 'markdown', getText: () => text };
+    }
+
+    beforeEach(() => {
+        store = {
+            '/ws/Existing.md': '# Intro\n## Details',
+            '/ws/Current.md': ''
+        };
+        settings = {};
+
+        sinon.stub(vscode.workspace, 'workspaceFolders').value([workspaceFolder]);
+        sinon.stub(vscode.workspace, 'findFiles').callsFake(async (include: any) => {
+            // 添付ファイル検索（**/name）はファイル名で絞り込む
+            const pattern: string = include instanceof vscode.RelativePattern ? (include as any).pattern : '';
+            const name = /^\*\*\/[^*]+$/.test(pattern) ? pattern.slice(2) : '';
+            return Object.keys(store).filter(p => p.endsWith(name)).map(p => vscode.Uri.file(p));
+        });
+
+        const configManager = new ConfigurationManager({
+            get: (key: string, defaultValue?: any) => key in settings ? settings[key] : defaultValue,
+            has: () => false,
+            update: async () => {}
+        });
+        index = new VaultIndex(configManager, {
+            read: async (uri: vscode.Uri) => store[uri.fsPath] ?? '',
+            write: async () => {}
+        });
+        provider = new WikiLinkDiagnosticsProvider(configManager, index, new WikiLinkResolver(configManager, index));
+    });
+
+    afterEach(() => {
+        provider.dispose();
+        index.dispose();
+        sinon.restore();
+    });
+
+    it('reports nothing for links that resolve', async () => {
+        const diagnostics = await provider.analyze(createDocument('[[Existing]] [[Existing#details|see]]'));
+        expect(diagnostics).to.be.empty;
+    });
+
+    it('flags links whose target note does not exist', async () => {
+        const diagnostics = await provider.analyze(createDocument('text [[Missing Note]]'));
+
+        expect(diagnostics).to.have.lengthOf(1);
+        expect(diagnostics[0].code).to.equal('missing-note');
+        expect(diagnostics[0].severity).to.equal(vscode.DiagnosticSeverity.Warning);
+        expect(diagnostics[0].source).to.equal('mdlg');
+        expect(diagnostics[0].range.start.character).to.equal(5);
+        expect(diagnostics[0].range.end.character).to.equal(5 + '[[Missing Note]]'.length);
+    });
+
+    it('flags heading links whose heading is missing in the target note', async () => {
+        const diagnostics = await provider.analyze(createDocument('[[Existing#Outro]]'));
+
+        expect(diagnostics).to.have.lengthOf(1);
+        expect(diagnostics[0].code).to.equal('missing-heading');
+        expect(diagnostics[0].message).to.include('Outro');
+    });
+
+    it('checks embedded attachments instead of notes', async () => {
+        store['/ws/assets/pic.png'] = '';
+        const diagnostics = await provider.analyze(createDocument('![[pic.png]] ![[gone.pdf]] ![[Existing#Intro]]'));
+
+        expect(diagnostics).to.have.lengthOf(1);
+        expect(diagnostics[0].code).to.equal('missing-attachment');
+        expect(diagnostics[0].message).to.include('gone.pdf');
+    });
+
+    it('flags malformed links as errors', async () => {
+        const diagnostics = await provider.analyze(createDocument('[[ ]]\n[[#Intro]]'));
+
+        expect(diagnostics.map(d => d.code)).to.deep.equal(['malformed-link', 'malformed-link']);
+        expect(diagnostics[0].severity).to.equal(vscode.DiagnosticSeverity.Error);
+        expect(diagnostics[1].range.start.line).to.equal(1);
+    });
+
+    it('ignores links inside fenced code blocks', async () => {
+        const diagnostics = await provider.analyze(createDocument('```\n[[Missing]]\n```'));
+        expect(diagnostics).to.be.empty;
+    });
+});
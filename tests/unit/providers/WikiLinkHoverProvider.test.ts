@@ -0,0 +1,90 @@
+import { expect } from 'chai';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { WikiLinkHoverProvider } from '../../../src/providers/WikiLinkHoverProvider';
+import { VaultIndex } from '../../../src/services/VaultIndex';
+import { WikiLinkResolver } from '../../../src/services/WikiLinkResolver';
+import { ConfigurationManager } from '../../../src/managers/ConfigurationManager';
+import { IFileWriter } from '../../../src/services/FileWriter';
+
+describe('WikiLinkHoverProvider', () => {
+    const workspaceFolder = { uri: vscode.Uri.file('/ws'), name: 'ws', index: 0 };
+    let store: Record<string, string>;
+    let settings: Record<string, any>;
+    let index: VaultIndex;
+    let provider: WikiLinkHoverProvider;
+
+    function hover(line: string, character: number) {
+        const document = {
+            uri: vscode.Uri.file('/ws/Source.md'),
+            lineAt: () => ({ text: line })
+        } as unknown as vscode.TextDocument;
+        return provider.provideHover(document, new vscode.Position(0, character));
+    }
+
+    beforeEach(() => {
+        store = {
+            '/ws/Target.md': '---\ntags: [a]\n---\n\nLine 1\nLine 2\nLine 3\n## Section\nInside\n## Other\nOutside',
+            '/ws/Source.md': '[[Target]] and [[Target#Section]]'
+        };
+        settings = { hoverPreviewLines: 2 };
+
+        sinon.stub(vscode.workspace, 'workspaceFolders').value([workspaceFolder]);
+        sinon.stub(vscode.workspace, 'getWorkspaceFolder').returns(workspaceFolder);
+        sinon.stub(vscode.workspace, 'findFiles').callsFake(async () => Object.keys(store).map(p => vscode.Uri.file(p)));
+        sinon.stub(vscode.workspace.fs, 'stat').resolves({ type: 1, ctime: 0, mtime: Date.UTC(2024, 0, 2), size: 0 } as any);
+
+        const configManager = new ConfigurationManager({
+            get: (key: string, defaultValue?: any) => key in settings ? settings[key] : defaultValue,
+            has: () => false,
+            update: async () => {}
+        });
+        const fileWriter: IFileWriter = {
+            read: async (uri: vscode.Uri) => store[uri.fsPath] ?? '',
+            write: async () => {}
+        };
+        index = new VaultIndex(configManager, fileWriter);
+        provider = new WikiLinkHoverProvider(configManager, new WikiLinkResolver(configManager, index), fileWriter);
+    });
+
+    afterEach(() => {
+        index.dispose();
+        sinon.restore();
+    });
+
+    it('previews the first lines of the target without frontmatter', async () => {
+        const result = await hover('see [[Target]] here', 6);
+        const value = (result!.contents as any).value as string;
+
+        expect(value.startsWith('Line 1\nLine 2\n\n…')).to.be.true;
+        expect(value).to.not.include('tags:');
+        expect(value).to.include('`Target.md`');
+        expect(value).to.include('Modified');
+        expect(value).to.include('2 backlinks');
+        expect(result!.range!.start.character).to.equal(4);
+        expect(result!.range!.end.character).to.equal(14);
+    });
+
+    it('previews only the linked section', async () => {
+        settings.hoverPreviewLines = 10;
+        const result = await hover('[[Target#Section]]', 3);
+        const value = (result!.contents as any).value as string;
+
+        expect(value.startsWith('## Section\nInside\n')).to.be.true;
+        expect(value).to.not.include('Outside');
+    });
+
+    it('offers a create command link for missing notes', async () => {
+        const result = await hover('[[New Idea|idea]]', 3);
+        const markdown = result!.contents as any;
+
+        expect(markdown.value).to.include('**New Idea** does not exist yet.');
+        expect(markdown.value).to.include(`command:mdlg.openOrCreateWikiLink?${encodeURIComponent(JSON.stringify(['New Idea|idea']))}`);
+        expect(markdown.isTrusted).to.deep.equal({ enabledCommands: ['mdlg.openOrCreateWikiLink'] });
+    });
+
+    it('returns null outside of links', async () => {
+        expect(await hover('plain [[Target]]', 2)).to.be.null;
+    });
+});
@@ -0,0 +1,115 @@
+import { expect } from 'chai';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { WikiLinkNavigationProvider } from '../../../src/providers/WikiLinkNavigationProvider';
+import { VaultIndex } from '../../../src/services/VaultIndex';
+import { WikiLinkResolver } from '../../../src/services/WikiLinkResolver';
+import { ConfigurationManager } from '../../../src/managers/ConfigurationManager';
+
+describe('WikiLinkNavigationProvider', () => {
+    const workspaceFolder = { uri: vscode.Uri.file('/ws'), name: 'ws', index: 0 };
+    let store: Record<string, string>;
+    let index: VaultIndex;
+    let provider: WikiLinkNavigationProvider;
+
+    function documentFor(path: string) {
+        return {
+            uri: vscode.Uri.file(path),
+            getText: () => store[path]
+        } as unknown as vscode.TextDocument;
+    }
+
+    async function references(path: string, line: number, character: number, includeDeclaration = false) {
+        const locations = await provider.provideReferences(
+            documentFor(path), new vscode.Position(line, character), { includeDeclaration }
+        );
+        return locations && locations.map(l => `${l.uri.fsPath}:${l.range.start.line}:${l.range.start.character}`);
+    }
+
+    beforeEach(() => {
+        store = {
+            '/ws/Target.md': '# Target\n\n## Section\ntext ^blk\n## Other',
+            '/ws/Source.md': '[[Target]] [[Target#Section]]\n![[Target#^blk]] [[Target#Other|o]]\n[[image.png]] [[Missing]]',
+            '/ws/Second.md': 'see [[Target#Section]]'
+        };
+
+        sinon.stub(vscode.workspace, 'workspaceFolders').value([workspaceFolder]);
+        sinon.stub(vscode.workspace, 'getWorkspaceFolder').returns(workspaceFolder);
+        sinon.stub(vscode.workspace, 'findFiles').callsFake(async (pattern: any) =>
+            pattern.pattern.includes('png')
+                ? [vscode.Uri.file('/ws/assets/image.png')]
+                : Object.keys(store).map(p => vscode.Uri.file(p)));
+
+        const configManager = new ConfigurationManager({
+            get: (_key: string, defaultValue?: any) => defaultValue,
+            has: () => false,
+            update: async () => {}
+        });
+        index = new VaultIndex(configManager, { read: async (uri: vscode.Uri) => store[uri.fsPath] ?? '', write: async () => {} });
+        provider = new WikiLinkNavigationProvider(index, new WikiLinkResolver(configManager, index));
+    });
+
+    afterEach(() => {
+        index.dispose();
+        sinon.restore();
+    });
+
+    describe('provideDefinition', () => {
+        it('jumps to the target note and the linked heading', async () => {
+            const doc = documentFor('/ws/Source.md');
+            const [note] = (await provider.provideDefinition(doc, new vscode.Position(0, 3)))!;
+            expect(note.targetUri.fsPath).to.equal('/ws/Target.md');
+            expect(note.targetRange.start.line).to.equal(0);
+            expect(note.originSelectionRange!.end.character).to.equal(10);
+
+            const [heading] = (await provider.provideDefinition(doc, new vscode.Position(0, 15)))!;
+            expect(heading.targetRange.start.line).to.equal(2);
+        });
+
+        it('includes the ! of embeds and resolves block references', async () => {
+            const [block] = (await provider.provideDefinition(documentFor('/ws/Source.md'), new vscode.Position(1, 0)))!;
+            expect(block.originSelectionRange!.start.character).to.equal(0);
+            expect(block.targetRange.start.line).to.equal(3);
+        });
+
+        it('points attachment links at the file and returns null for missing notes or plain text', async () => {
+            const doc = documentFor('/ws/Source.md');
+            const [attachment] = (await provider.provideDefinition(doc, new vscode.Position(2, 3)))!;
+            expect(attachment.targetUri.fsPath).to.equal('/ws/assets/image.png');
+
+            expect(await provider.provideDefinition(doc, new vscode.Position(2, 17))).to.be.null;
+            expect(await provider.provideDefinition(documentFor('/ws/Target.md'), new vscode.Position(1, 0))).to.be.null;
+        });
+    });
+
+    describe('provideReferences', () => {
+        it('lists every link to the note from its title', async () => {
+            expect(await references('/ws/Target.md', 0, 2)).to.deep.equal([
+                '/ws/Second.md:0:4',
+                '/ws/Source.md:0:0',
+                '/ws/Source.md:0:11',
+                '/ws/Source.md:1:0',
+                '/ws/Source.md:1:17'
+            ]);
+        });
+
+        it('lists only links to a heading or block', async () => {
+            expect(await references('/ws/Target.md', 2, 3)).to.deep.equal(['/ws/Second.md:0:4', '/ws/Source.md:0:11']);
+            expect(await references('/ws/Target.md', 3, 0)).to.deep.equal(['/ws/Source.md:1:0']);
+        });
+
+        it('uses the target of the link under the cursor and adds the declaration on request', async () => {
+            expect(await references('/ws/Second.md', 0, 8, true)).to.deep.equal([
+                '/ws/Target.md:2:0',
+                '/ws/Second.md:0:4',
+                '/ws/Source.md:0:11'
+            ]);
+        });
+
+        it('returns null outside links, headings and blocks', async () => {
+            expect(await references('/ws/Target.md', 1, 0)).to.be.null;
+            expect(await references('/ws/Source.md', 2, 17)).to.be.null;
+        });
+    });
+});
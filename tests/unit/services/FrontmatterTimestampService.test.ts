@@ -0,0 +1,63 @@
+import { expect } from 'chai';
+import { describe, it, beforeEach } from 'mocha';
+import * as vscode from 'vscode';
+import { FrontmatterTimestampService } from '../../../src/services/FrontmatterTimestampService';
+import { ConfigurationManager } from '../../../src/managers/ConfigurationManager';
+import { DateTimeFormatter } from '../../../src/utils/DateTimeFormatter';
+
+describe('FrontmatterTimestampService', () => {
+    const date = new Date(2024, 0, 2, 9, 5);
+    let settings: Record<string, any>;
+    let service: FrontmatterTimestampService;
+
+    function createDocument(text: string): any {
+        const lines = text.split('\n');
+        return {
+            languageId: 'markdown',
+            eol: vscode.EndOfLine.LF,
+            getText: () => text,
+            lineAt: (i: number) => ({ text: lines[i] })
+        };
+    }
+
+    beforeEach(() => {
+        settings = { frontmatterTimestamps: true };
+        const configManager = new ConfigurationManager({
+            get: (key: string, defaultValue?: any) => key in settings ? settings[key] : defaultValue,
+            has: () => false,
+            update: async () => {}
+        });
+        service = new FrontmatterTimestampService(configManager, new DateTimeFormatter());
+    });
+
+    it('adds created and updated to new notes, keeping values set by the template', () => {
+        expect(service.stampNewNote('# Note', date)).to.equal('---\ncreated: 2024-01-02 09:05\nupdated: 2024-01-02 09:05\n---\n# Note');
+        expect(service.stampNewNote('---\ncreated: 2023\n---\n', date)).to.equal('---\ncreated: 2023\nupdated: 2024-01-02 09:05\n---\n');
+    });
+
+    it('uses the configured format and does nothing when disabled', () => {
+        settings.frontmatterTimestampFormat = 'YYYY/MM/DD';
+        expect(service.stampNewNote('', date)).to.equal('---\ncreated: 2024/01/02\nupdated: 2024/01/02\n---\n');
+
+        settings.frontmatterTimestamps = false;
+        expect(service.stampNewNote('# Note', date)).to.equal('# Note');
+        expect(service.computeSaveEdits(createDocument('# Note'), date)).to.be.empty;
+    });
+
+    it('replaces the updated line on save', () => {
+        const edits = service.computeSaveEdits(createDocument('---\ntitle: x\nupdated: 2023-01-01 00:00\n---\nbody'), date);
+
+        expect(edits).to.have.lengthOf(1);
+        expect(edits[0].range.start).to.deep.include({ line: 2, character: 0 });
+        expect(edits[0].range.end).to.deep.include({ line: 2, character: 25 });
+        expect(edits[0].newText).to.equal('updated: 2024-01-02 09:05');
+    });
+
+    it('inserts updated when missing and skips notes already up to date', () => {
+        const inserted = service.computeSaveEdits(createDocument('---\ntitle: x\n---'), date);
+        expect(inserted[0].range.start).to.deep.include({ line: 2, character: 0 });
+        expect(inserted[0].newText).to.equal('updated: 2024-01-02 09:05\n');
+
+        expect(service.computeSaveEdits(createDocument('---\nupdated: 2024-01-02 09:05\n---'), date)).to.be.empty;
+    });
+});
@@ -0,0 +1,81 @@
+import { expect } from 'chai';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { NoteQueryService } from '../../../src/services/NoteQueryService';
+import { VaultIndex } from '../../../src/services/VaultIndex';
+import { WikiLinkResolver } from '../../../src/services/WikiLinkResolver';
+import { ConfigurationManager } from '../../../src/managers/ConfigurationManager';
+
+describe('NoteQueryService', () => {
+    const workspaceFolder = { uri: vscode.Uri.file('/ws'), name: 'ws', index: 0 };
+    let store: Record<string, string>;
+    let index: VaultIndex;
+    let service: NoteQueryService;
+
+    beforeEach(async () => {
+        store = {
+            '/ws/Alpha.md': '---\nstatus: active\ntags: [project]\n---\nSee [[Beta]]\n- [ ] open task\n- [x] done task',
+            '/ws/Beta.md': '---\nstatus: done\n---\n#project',
+            '/ws/Index.md': '```mdlg-query\nLIST FROM #project WHERE status = "active"\n```\nafter'
+        };
+        sinon.stub(vscode.workspace, 'workspaceFolders').value([workspaceFolder]);
+        sinon.stub(vscode.workspace, 'findFiles').callsFake(async () => Object.keys(store).map(p => vscode.Uri.file(p)));
+
+        const configManager = new ConfigurationManager({
+            get: (_key: string, defaultValue?: any) => defaultValue,
+            has: () => false,
+            update: async () => {}
+        });
+        const fileWriter = { read: async (uri: vscode.Uri) => store[uri.fsPath] ?? '', write: async () => {} };
+        index = new VaultIndex(configManager, fileWriter);
+        service = new NoteQueryService(index, new WikiLinkResolver(configManager, index), fileWriter);
+        await index.ensureLoaded();
+    });
+
+    afterEach(() => {
+        index.dispose();
+        sinon.restore();
+    });
+
+    it('evaluates frontmatter, tags and links of the indexed notes', async () => {
+        expect(await service.run('LIST FROM #project WHERE status = "active"')).to.equal('- [[Alpha]]');
+        expect(await service.run('TABLE status FROM [[Beta]]')).to.equal('| File | status |\n| --- | --- |\n| [[Alpha]] | active |');
+    });
+
+    it('reads open and completed tasks for TASK queries', async () => {
+        expect(await service.run('TASK FROM #project')).to.equal('- [[Alpha]]\n    - [ ] open task\n    - [x] done task');
+    });
+
+    it('replaces the query block at the cursor with its result', async () => {
+        const lines = store['/ws/Index.md'].split('\n');
+        sinon.stub(vscode.window, 'activeTextEditor').value({
+            document: {
+                uri: vscode.Uri.file('/ws/Index.md'),
+                languageId: 'markdown',
+                getText: () => store['/ws/Index.md'],
+                lineAt: (line: number) => ({ text: lines[line] })
+            },
+            selection: { active: new vscode.Position(1, 3) }
+        });
+        const applyEdit = sinon.stub(vscode.workspace, 'applyEdit').resolves(true);
+
+        expect(await service.materializeQuery()).to.be.true;
+        const edit = applyEdit.firstCall.args[0] as any;
+        const [replacement] = edit.get(vscode.Uri.file('/ws/Index.md'));
+        expect([replacement.range.start.line, replacement.range.end.line, replacement.range.end.character]).to.deep.equal([0, 2, 3]);
+        expect(replacement.newText).to.equal('- [[Alpha]]');
+    });
+
+    it('reports query errors when materializing', async () => {
+        store['/ws/Index.md'] = '```mdlg-query\nLIST LIMIT x\n```';
+        sinon.stub(vscode.window, 'activeTextEditor').value({
+            document: { uri: vscode.Uri.file('/ws/Index.md'), languageId: 'markdown', getText: () => store['/ws/Index.md'] },
+            selection: { active: new vscode.Position(0, 0) }
+        });
+        const showErrorMessage = sinon.stub(vscode.window, 'showErrorMessage');
+
+        expect(await service.materializeQuery()).to.be.false;
+        expect(showErrorMessage.firstCall.args[0]).to.equal('Query error: LIMIT expects a positive whole number');
+    });
+});
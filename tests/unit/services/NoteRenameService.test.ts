@@ -0,0 +1,184 @@
+import { expect } from 'chai';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { VaultIndex } from '../../../src/services/VaultIndex';
+import { WikiLinkResolver } from '../../../src/services/WikiLinkResolver';
+import { NoteRenameService } from '../../../src/services/NoteRenameService';
+import { ConfigurationManager } from '../../../src/managers/ConfigurationManager';
+
+describe('NoteRenameService', () => {
+    const workspaceFolder = { uri: vscode.Uri.file('/ws'), name: 'ws', index: 0 };
+    let store: Record<string, string>;
+    let settings: Record<string, any>;
+    let index: VaultIndex;
+    let service: NoteRenameService;
+
+    function setup(): void {
+        const configManager = new ConfigurationManager({
+            get: (key: string, defaultValue?: any) => key in settings ? settings[key] : defaultValue,
+            has: () => false,
+            update: async () => {}
+        });
+        index = new VaultIndex(configManager, {
+            read: async (uri: vscode.Uri) => store[uri.fsPath] ?? '',
+            write: async () => {}
+        });
+        service = new NoteRenameService(configManager, index, new WikiLinkResolver(configManager, index));
+    }
+
+    beforeEach(() => {
+        settings = {};
+        sinon.stub(vscode.workspace, 'workspaceFolders').value([workspaceFolder]);
+        sinon.stub(vscode.workspace, 'findFiles').callsFake(async () => Object.keys(store).map(p => vscode.Uri.file(p)));
+    });
+
+    afterEach(() => {
+        service.dispose();
+        index.dispose();
+        sinon.restore();
+    });
+
+    it('replaces only the page name and keeps heading and alias parts', async () => {
+        store = {
+            '/ws/Old Name.md': '',
+            '/ws/Source.md': 'A [[Old Name]]\nB [[Old Name#Intro|alias]] [[Other]]'
+        };
+        setup();
+
+        const edit: any = await service.computeLinkUpdates(vscode.Uri.file('/ws/Old Name.md'), 'New Name');
+        const edits = edit.get(vscode.Uri.file('/ws/Source.md'));
+
+        expect(edits).to.have.length(2);
+        expect(edits[0].newText).to.equal('New Name');
+        expect(edits[0].range.start.line).to.equal(0);
+        expect(edits[0].range.start.character).to.equal(4);
+        expect(edits[0].range.end.character).to.equal(4 + 'Old Name'.length);
+        expect(edits[1].range.start.line).to.equal(1);
+        expect(edits[1].range.start.character).to.equal(4);
+        expect(edits[1].range.end.character).to.equal(4 + 'Old Name'.length);
+    });
+
+    it('keeps the folder of path-qualified links', async () => {
+        store = {
+            '/ws/docs/Old Name.md': '',
+            '/ws/docs/Source.md': '[[docs/Old Name#Intro]] [[./Old Name]]'
+        };
+        setup();
+
+        const edit: any = await service.computeLinkUpdates(vscode.Uri.file('/ws/docs/Old Name.md'), 'New Name');
+        const edits = edit.get(vscode.Uri.file('/ws/docs/Source.md'));
+
+        expect(edits.map((e: any) => [e.range.start.character, e.range.end.character, e.newText])).to.deep.equal([
+            [7, 15, 'New Name'],
+            [28, 36, 'New Name']
+        ]);
+    });
+
+    it('leaves links written with a frontmatter alias untouched', async () => {
+        store = {
+            '/ws/Old Name.md': '---\naliases: [OKR]\n---',
+            '/ws/Source.md': '[[OKR]] [[Old Name]]'
+        };
+        setup();
+
+        const edit: any = await service.computeLinkUpdates(vscode.Uri.file('/ws/Old Name.md'), 'New Name');
+        const edits = edit.get(vscode.Uri.file('/ws/Source.md'));
+
+        expect(edits.map((e: any) => [e.range.start.character, e.newText])).to.deep.equal([[10, 'New Name']]);
+    });
+
+    it('keeps page-name form for slugged links and file-name form for file-name links', async () => {
+        settings = { slugStrategy: 'kebab-case' };
+        store = {
+            '/ws/old-name.md': '',
+            '/ws/Source.md': '[[Old Name]] [[old-name|x]]'
+        };
+        setup();
+
+        const edit: any = await service.computeLinkUpdates(vscode.Uri.file('/ws/old-name.md'), 'new-title');
+        const edits = edit.get(vscode.Uri.file('/ws/Source.md'));
+
+        expect(edits.map((e: any) => e.newText)).to.deep.equal(['New Title', 'new-title']);
+    });
+
+    it('uses the page name entered by the user when given', async () => {
+        settings = { slugStrategy: 'kebab-case' };
+        store = {
+            '/ws/old-name.md': '',
+            '/ws/Source.md': '[[old name]]'
+        };
+        setup();
+
+        const edit: any = await service.computeLinkUpdates(vscode.Uri.file('/ws/old-name.md'), 'new-title', 'New TITLE');
+        expect(edit.get(vscode.Uri.file('/ws/Source.md'))[0].newText).to.equal('New TITLE');
+    });
+
+    it('returns an empty edit when the title does not change', async () => {
+        store = {
+            '/ws/Old Name.md': '',
+            '/ws/Source.md': '[[Old Name]]'
+        };
+        setup();
+
+        const edit: any = await service.computeLinkUpdates(vscode.Uri.file('/ws/Old Name.md'), 'Old Name');
+        expect(edit.size).to.equal(0);
+    });
+
+    it('updates the folder of path-qualified links when a note moves', async () => {
+        store = {
+            '/ws/work/projects/Plan.md': '',
+            '/ws/work/Source.md': '[[projects/Plan#Goals]] [[/work/projects/Plan]] [[./projects/Plan|p]] [[Plan]]'
+        };
+        setup();
+
+        const edit: any = await service.computeRenameUpdates([{
+            oldUri: vscode.Uri.file('/ws/work/projects/Plan.md'),
+            newUri: vscode.Uri.file('/ws/archive/2026/Plan.md')
+        }]);
+        const edits = edit.get(vscode.Uri.file('/ws/work/Source.md'));
+
+        expect(edits.map((e: any) => [e.range.start.character, e.range.end.character, e.newText])).to.deep.equal([
+            [2, 15, '2026/Plan'],
+            [26, 45, '/archive/2026/Plan'],
+            [50, 65, '../archive/2026/Plan']
+        ]);
+    });
+
+    it('renames and moves a note in one step', async () => {
+        store = {
+            '/ws/a/Old.md': '',
+            '/ws/Source.md': '[[a/Old]]'
+        };
+        setup();
+
+        const edit: any = await service.computeRenameUpdates([{
+            oldUri: vscode.Uri.file('/ws/a/Old.md'),
+            newUri: vscode.Uri.file('/ws/b/New.md')
+        }]);
+
+        expect(edit.get(vscode.Uri.file('/ws/Source.md')).map((e: any) => e.newText)).to.deep.equal(['b/New']);
+    });
+
+    it('updates links into and out of a renamed folder', async () => {
+        store = {
+            '/ws/old/Inside.md': '[[../Outside]] [[./Sibling]]',
+            '/ws/old/Sibling.md': '',
+            '/ws/Outside.md': '[[old/Inside]] [[/old/Sibling]] [[Sibling]]'
+        };
+        setup();
+
+        const edit: any = await service.computeRenameUpdates([{
+            oldUri: vscode.Uri.file('/ws/old'),
+            newUri: vscode.Uri.file('/ws/projects/new')
+        }]);
+
+        expect(edit.get(vscode.Uri.file('/ws/Outside.md')).map((e: any) => e.newText)).to.deep.equal([
+            'new/Inside',
+            '/projects/new/Sibling'
+        ]);
+        expect(edit.get(vscode.Uri.file('/ws/old/Inside.md')).map((e: any) => e.newText)).to.deep.equal([
+            '../../Outside'
+        ]);
+    });
+});
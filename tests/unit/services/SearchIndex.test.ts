@@ -0,0 +1,98 @@
+import { expect } from 'chai';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { SearchIndex } from '../../../src/services/SearchIndex';
+import { VaultIndex } from '../../../src/services/VaultIndex';
+import { ConfigurationManager } from '../../../src/managers/ConfigurationManager';
+import { SearchQueryError } from '../../../src/utils/SearchQuery';
+
+describe('SearchIndex', () => {
+    const workspaceFolder = { uri: vscode.Uri.file('/ws'), name: 'ws', index: 0 };
+    let store: Record<string, string>;
+    let reads: string[];
+    let index: VaultIndex;
+    let searchIndex: SearchIndex;
+
+    beforeEach(() => {
+        store = {
+            '/ws/notes/Alpha.md': '# Alpha\nMeeting with the design team #work\n- [ ] Prepare slides',
+            '/ws/notes/Beta.md': 'Design review notes',
+            '/ws/journal/Gamma.md': 'Nothing to see here'
+        };
+        reads = [];
+
+        sinon.stub(vscode.workspace, 'workspaceFolders').value([workspaceFolder]);
+        sinon.stub(vscode.workspace, 'findFiles').callsFake(async () => Object.keys(store).map(p => vscode.Uri.file(p)));
+
+        const configManager = new ConfigurationManager({
+            get: (_key: string, defaultValue?: any) => defaultValue,
+            has: () => false,
+            update: async () => {}
+        });
+        const fileWriter = {
+            read: async (uri: vscode.Uri) => {
+                reads.push(uri.fsPath);
+                return store[uri.fsPath] ?? '';
+            },
+            write: async () => {}
+        };
+        index = new VaultIndex(configManager, fileWriter);
+        searchIndex = new SearchIndex(index, fileWriter);
+    });
+
+    afterEach(() => {
+        searchIndex.dispose();
+        index.dispose();
+        sinon.restore();
+    });
+
+    it('returns matching notes sorted by path with their matching lines', async () => {
+        const results = await searchIndex.search('design');
+
+        expect(results.map(r => r.note.relativePath)).to.deep.equal(['notes/Alpha.md', 'notes/Beta.md']);
+        expect(results[0].matches).to.deep.equal([{ line: 1, text: 'Meeting with the design team #work', ranges: [[17, 23]] }]);
+    });
+
+    it('evaluates field operators against the vault index', async () => {
+        expect((await searchIndex.search('tag:work')).map(r => r.note.title)).to.deep.equal(['Alpha']);
+        expect((await searchIndex.search('path:journal')).map(r => r.note.title)).to.deep.equal(['Gamma']);
+        expect((await searchIndex.search('task:slides')).map(r => r.note.title)).to.deep.equal(['Alpha']);
+        expect((await searchIndex.search('-path:notes see')).map(r => r.note.title)).to.deep.equal(['Gamma']);
+    });
+
+    it('matches words inside longer tokens', async () => {
+        expect((await searchIndex.search('sign')).map(r => r.note.title)).to.deep.equal(['Alpha', 'Beta']);
+    });
+
+    it('re-reads only the notes that changed', async () => {
+        await searchIndex.search('design');
+        reads = [];
+
+        store['/ws/notes/Beta.md'] = 'Rewritten';
+        await index.refreshNote(vscode.Uri.file('/ws/notes/Beta.md'));
+        reads = reads.filter(p => p !== '/ws/notes/Beta.md');
+
+        expect((await searchIndex.search('design')).map(r => r.note.title)).to.deep.equal(['Alpha']);
+        expect((await searchIndex.search('rewritten')).map(r => r.note.title)).to.deep.equal(['Beta']);
+        expect(reads).to.deep.equal(['/ws/notes/Beta.md']);
+    });
+
+    it('prefers the text of open documents', async () => {
+        sinon.stub(vscode.workspace, 'textDocuments').value([
+            { uri: vscode.Uri.file('/ws/journal/Gamma.md'), getText: () => 'Unsaved design idea' }
+        ]);
+
+        expect((await searchIndex.search('design')).map(r => r.note.title)).to.deep.equal(['Gamma', 'Alpha', 'Beta']);
+    });
+
+    it('throws SearchQueryError for malformed queries', async () => {
+        let error: unknown;
+        try {
+            await searchIndex.search('(design');
+        } catch (e) {
+            error = e;
+        }
+        expect(error).to.be.instanceOf(SearchQueryError);
+    });
+});
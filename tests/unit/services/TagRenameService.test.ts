@@ -0,0 +1,64 @@
+import { expect } from 'chai';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { TagRenameService } from '../../../src/services/TagRenameService';
+import { VaultIndex } from '../../../src/services/VaultIndex';
+import { ConfigurationManager } from '../../../src/managers/ConfigurationManager';
+
+describe('TagRenameService', () => {
+    const workspaceFolder = { uri: vscode.Uri.file('/ws'), name: 'ws', index: 0 };
+    let store: Record<string, string>;
+    let index: VaultIndex;
+    let service: TagRenameService;
+
+    beforeEach(() => {
+        store = {
+            '/ws/A.md': '---\ntags: [project, "#project/alpha", other]\n---\nSee #project and #project/beta #projects',
+            '/ws/B.md': 'Nothing #other'
+        };
+
+        sinon.stub(vscode.workspace, 'workspaceFolders').value([workspaceFolder]);
+        sinon.stub(vscode.workspace, 'findFiles').callsFake(async () => Object.keys(store).map(p => vscode.Uri.file(p)));
+
+        const configManager = new ConfigurationManager({
+            get: (_key: string, defaultValue?: any) => defaultValue,
+            has: () => false,
+            update: async () => {}
+        });
+        index = new VaultIndex(configManager, {
+            read: async (uri: vscode.Uri) => store[uri.fsPath] ?? '',
+            write: async () => {}
+        });
+        service = new TagRenameService(index);
+    });
+
+    afterEach(() => {
+        index.dispose();
+        sinon.restore();
+    });
+
+    it('renames inline and frontmatter occurrences including nested tags', async () => {
+        const edit: any = await service.computeTagRename('project', 'work');
+        const edits = edit.get(vscode.Uri.file('/ws/A.md'));
+
+        expect(edits.map((e: any) => [e.range.start.line, e.range.start.character, e.range.end.character, e.newText])).to.deep.equal([
+            [1, 7, 14, 'work'],
+            [1, 18, 25, 'work'],
+            [3, 5, 12, 'work'],
+            [3, 18, 25, 'work']
+        ]);
+        expect(edit.get(vscode.Uri.file('/ws/B.md'))).to.be.empty;
+    });
+
+    it('applies the rename entered by the user in a single edit', async () => {
+        sinon.stub(vscode.window, 'showInputBox').resolves('#area/work');
+        const applyEdit = sinon.stub(vscode.workspace, 'applyEdit').resolves(true);
+
+        expect(await service.renameTag('other')).to.be.true;
+        expect(applyEdit.calledOnce).to.be.true;
+        const edit = applyEdit.firstCall.args[0] as any;
+        expect(edit.size).to.equal(2);
+        expect(edit.get(vscode.Uri.file('/ws/B.md'))[0].newText).to.equal('area/work');
+    });
+});
@@ -0,0 +1,96 @@
+import { expect } from 'chai';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { TemplateService } from '../../../src/services/TemplateService';
+import { ConfigurationManager } from '../../../src/managers/ConfigurationManager';
+import { DateTimeFormatter } from '../../../src/utils/DateTimeFormatter';
+
+describe('TemplateService', () => {
+    const workspaceFolder = { uri: vscode.Uri.file('/ws'), name: 'ws', index: 0 };
+    let settings: Record<string, unknown>;
+    let files: Map<string, string>;
+    let service: TemplateService;
+    let findFiles: sinon.SinonStub;
+
+    beforeEach(() => {
+        settings = {};
+        files = new Map([
+            ['/ws/templates/Meeting.md', '---\ndestination: meetings/\ntags: meeting\n---\n# {{title}}\n'],
+            ['/ws/templates/people/Person.md', '# {{title}}\n'],
+            ['/ws/templates/Book.md', '---\ndestination: ""\n---\n# {{title}}\n']
+        ]);
+        const configManager = new ConfigurationManager({
+            get: (key: string, defaultValue?: any) => key in settings ? settings[key] : defaultValue,
+            has: () => false,
+            update: async () => {}
+        });
+        service = new TemplateService(configManager, new DateTimeFormatter());
+
+        findFiles = sinon.stub(vscode.workspace, 'findFiles').callsFake(async (pattern: any) => {
+            const base = pattern.base.toString();
+            return Array.from(files.keys()).filter(key => key.startsWith(`${base}/`)).map(key => vscode.Uri.file(key));
+        });
+        sinon.stub(vscode.workspace.fs, 'readFile').callsFake(async (uri: vscode.Uri) => {
+            const content = files.get(uri.toString());
+            if (content === undefined) {
+                throw new Error('FileNotFound');
+            }
+            return new TextEncoder().encode(content);
+        });
+    });
+
+    afterEach(() => {
+        sinon.restore();
+    });
+
+    it('lists the templates of the templates folder by name', async () => {
+        const templates = await service.listTemplates(workspaceFolder);
+
+        expect(templates.map(template => template.name)).to.deep.equal(['Book', 'Meeting', 'people/Person']);
+        expect(findFiles.firstCall.args[0].pattern).to.equal('**/*.md');
+    });
+
+    it('reads the templates folder relative to the vault root', async () => {
+        settings['vaultRoot'] = 'vault';
+        settings['templatesFolder'] = 'tpl';
+        files = new Map([['/ws/vault/tpl/Daily.md', 'x']]);
+
+        expect((await service.listTemplates(workspaceFolder)).map(template => template.name)).to.deep.equal(['Daily']);
+    });
+
+    it('shows the destination of each template in the picker', async () => {
+        const showQuickPick = sinon.stub(vscode.window, 'showQuickPick').callsFake(async (items: any) => items[1]);
+
+        const picked = await service.pickTemplate(workspaceFolder);
+
+        expect(picked?.name).to.equal('Meeting');
+        const items = showQuickPick.firstCall.args[0] as any[];
+        expect(items.map(item => item.description)).to.deep.equal([undefined, 'meetings', undefined]);
+    });
+
+    it('returns the fallback without asking when there is no template', async () => {
+        files.clear();
+        const showQuickPick = sinon.stub(vscode.window, 'showQuickPick');
+        const showInformationMessage = sinon.stub(vscode.window, 'showInformationMessage');
+        const fallback = { name: 'Default template', content: '# {{title}}' };
+
+        expect(await service.pickTemplate(workspaceFolder, fallback)).to.equal(fallback);
+        expect(await service.pickTemplate(workspaceFolder)).to.be.undefined;
+        expect(showQuickPick.called).to.be.false;
+        expect(showInformationMessage.calledOnce).to.be.true;
+    });
+
+    it('separates the destination folder from the note content', () => {
+        expect(service.extractDestination('---\ndestination: /projects/2025/\ntags: x\n---\n# Note')).to.deep.equal({
+            content: '---\ntags: x\n---\n# Note',
+            destination: 'projects/2025'
+        });
+        expect(service.extractDestination('---\ndestination: notes\n---\n# Note')).to.deep.equal({
+            content: '# Note',
+            destination: 'notes'
+        });
+        expect(service.extractDestination('# Note')).to.deep.equal({ content: '# Note' });
+        expect(service.extractDestination('---\ndestination: ""\n---\n# Note')).to.deep.equal({ content: '# Note' });
+    });
+});
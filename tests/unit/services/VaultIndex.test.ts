@@ -0,0 +1,251 @@
+import { expect } from 'chai';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { VaultIndex } from '../../../src/services/VaultIndex';
+import { ConfigurationManager } from '../../../src/managers/ConfigurationManager';
+import { IFileWriter } from '../../../src/services/FileWriter';
+import { NoteFinder } from '../../../src/utils/NoteFinder';
+
+class MockFileWriter implements IFileWriter {
+    constructor(public store: Record<string, string>) {}
+
+    async read(uri: vscode.Uri): Promise<string> {
+        if (!(uri.fsPath in this.store)) {
+            throw new Error(`not found: ${uri.fsPath}`);
+        }
+        return this.store[uri.fsPath];
+    }
+
+    async write(uri: vscode.Uri, content: string): Promise<void> {
+        this.store[uri.fsPath] = content;
+    }
+}
+
+describe('VaultIndex', () => {
+    const workspaceFolder = { uri: vscode.Uri.file('/ws'), name: 'ws', index: 0 };
+    let fileWriter: MockFileWriter;
+    let index: VaultIndex;
+    let findFilesStub: sinon.SinonStub;
+    let watcherHandlers: { create?: (u: vscode.Uri) => void; change?: (u: vscode.Uri) => void; remove?: (u: vscode.Uri) => void };
+    let docChangeHandler: ((e: { document: vscode.TextDocument }) => void) | undefined;
+
+    beforeEach(() => {
+        fileWriter = new MockFileWriter({
+            '/ws/Alpha.md': '# Alpha\n[[Beta]]\n- [ ] todo',
+            '/ws/sub/Beta.md': '## Intro\ntext',
+            '/ws/sub/deep/Alpha.md': 'duplicate'
+        });
+        watcherHandlers = {};
+        docChangeHandler = undefined;
+
+        sinon.stub(vscode.workspace, 'workspaceFolders').value([workspaceFolder]);
+        findFilesStub = sinon.stub(vscode.workspace, 'findFiles').callsFake(async () =>
+            Object.keys(fileWriter.store).map(p => vscode.Uri.file(p)));
+        sinon.stub(vscode.workspace, 'createFileSystemWatcher').returns({
+            onDidCreate: (h: any) => { watcherHandlers.create = h; return { dispose: () => {} }; },
+            onDidChange: (h: any) => { watcherHandlers.change = h; return { dispose: () => {} }; },
+            onDidDelete: (h: any) => { watcherHandlers.remove = h; return { dispose: () => {} }; },
+            dispose: () => {}
+        } as any);
+        sinon.stub(vscode.workspace, 'onDidChangeTextDocument').callsFake((h: any) => {
+            docChangeHandler = h;
+            return { dispose: () => {} };
+        });
+
+        const configManager = new ConfigurationManager({
+            get: (key: string, defaultValue?: any) => defaultValue,
+            has: () => false,
+            update: async () => {}
+        });
+        index = new VaultIndex(configManager, fileWriter);
+    });
+
+    afterEach(() => {
+        index.dispose();
+        sinon.restore();
+    });
+
+    it('scans the vault once and indexes links, headings and tasks', async () => {
+        const notes = await index.getAllNotes();
+        await index.getAllNotes();
+
+        // ノートと添付ファイルの検索が 1 回ずつ
+        expect(findFilesStub.calledTwice).to.be.true;
+        expect(notes).to.have.lengthOf(3);
+
+        const alpha = await index.getNote(vscode.Uri.file('/ws/Alpha.md'));
+        expect(alpha?.links.map(l => l.linkText)).to.deep.equal(['Beta']);
+        expect(alpha?.headings[0].text).to.equal('Alpha');
+        expect(alpha?.tasks[0].text).to.equal('todo');
+    });
+
+    it('resolves duplicate titles to the shallowest note', async () => {
+        const found = await index.findNoteByTitle('Alpha');
+        expect(found?.relativePath).to.equal('Alpha.md');
+        expect(index.getNotesByTitle('Alpha')).to.have.lengthOf(2);
+        expect(await index.findNoteByTitle('Missing')).to.be.null;
+    });
+
+    it('updates incrementally from file watcher events', async () => {
+        await index.ensureLoaded();
+        let changes = 0;
+        index.onDidChange(() => changes++);
+
+        fileWriter.store['/ws/Gamma.md'] = '[[Alpha]]';
+        watcherHandlers.create!(vscode.Uri.file('/ws/Gamma.md'));
+        await new Promise(resolve => setImmediate(resolve));
+        expect((await index.findNoteByTitle('Gamma'))?.links).to.have.lengthOf(1);
+
+        watcherHandlers.remove!(vscode.Uri.file('/ws/sub/Beta.md'));
+        expect(await index.findNoteByTitle('Beta')).to.be.null;
+        expect(changes).to.equal(2);
+        expect(findFilesStub.calledTwice).to.be.true;
+    });
+
+    it('reflects unsaved document edits', async () => {
+        await index.ensureLoaded();
+        const uri = vscode.Uri.file('/ws/sub/Beta.md');
+        docChangeHandler!({ document: { uri, getText: () => '[[New Link]]' } as any });
+
+        const beta = await index.getNote(uri);
+        expect(beta?.links.map(l => l.linkText)).to.deep.equal(['New Link']);
+        expect(beta?.headings).to.be.empty;
+    });
+
+    it('coalesces unsaved edits into one change event', async () => {
+        await index.ensureLoaded();
+        const clock = sinon.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+        const changed: (vscode.Uri | undefined)[] = [];
+        index.onDidChange(uri => changed.push(uri));
+
+        const uri = vscode.Uri.file('/ws/sub/Beta.md');
+        docChangeHandler!({ document: { uri, getText: () => '[[A]]' } as any });
+        docChangeHandler!({ document: { uri, getText: () => '[[A]] [[B]]' } as any });
+        expect(changed).to.be.empty;
+
+        clock.tick(1000);
+        clock.restore();
+        expect(changed.map(u => u?.toString())).to.deep.equal([uri.toString()]);
+        expect((await index.getNote(uri))?.links).to.have.lengthOf(2);
+    });
+
+    it('removes every note below a deleted folder', async () => {
+        await index.ensureLoaded();
+        watcherHandlers.remove!(vscode.Uri.file('/ws/sub'));
+
+        const notes = await index.getAllNotes();
+        expect(notes.map(note => note.relativePath)).to.deep.equal(['Alpha.md']);
+        expect(index.getNotesByTitle('Alpha')).to.have.lengthOf(1);
+    });
+
+    it('tracks which notes link to a page name and keeps their content', async () => {
+        fileWriter.store['/ws/Gamma.md'] = '[[sub/Beta#Intro|b]] [[Missing]]';
+        await index.ensureLoaded();
+
+        expect(index.getNotesLinkingTo(['Beta']).map(note => note.title).sort()).to.deep.equal(['Alpha', 'Gamma']);
+        expect(index.getContent(vscode.Uri.file('/ws/sub/Beta.md'))).to.equal('## Intro\ntext');
+
+        const uri = vscode.Uri.file('/ws/Alpha.md');
+        docChangeHandler!({ document: { uri, getText: () => 'no links' } as any });
+        expect(index.getNotesLinkingTo(['Beta']).map(note => note.title)).to.deep.equal(['Gamma']);
+        expect(index.getContent(uri)).to.equal('no links');
+    });
+
+    it('indexes attachments and follows their creation and deletion', async () => {
+        fileWriter.store['/ws/assets/pic.png'] = '';
+        expect((await index.getAttachments()).map(a => a.relativePath)).to.deep.equal(['assets/pic.png']);
+
+        watcherHandlers.create!(vscode.Uri.file('/ws/sub/doc.pdf'));
+        expect((await index.findAttachment('doc.pdf'))?.fsPath).to.equal('/ws/sub/doc.pdf');
+        expect((await index.findAttachment('assets/pic.png'))?.fsPath).to.equal('/ws/assets/pic.png');
+
+        watcherHandlers.remove!(vscode.Uri.file('/ws/assets'));
+        expect(await index.findAttachment('pic.png')).to.be.undefined;
+        expect(findFilesStub.calledTwice).to.be.true;
+    });
+
+    it('does not index the templates folder', async () => {
+        fileWriter.store['/ws/templates/Meeting.md'] = '[[{{title}}]]\n- [ ] {{prompt:Task}}';
+        await index.ensureLoaded();
+        expect((await index.getAllNotes()).map(note => note.relativePath)).to.not.include('templates/Meeting.md');
+
+        watcherHandlers.create!(vscode.Uri.file('/ws/templates/Meeting.md'));
+        await new Promise(resolve => setImmediate(resolve));
+        expect(await index.findNoteByTitle('Meeting')).to.be.null;
+    });
+
+    it('ignores files outside the note extension', async () => {
+        await index.ensureLoaded();
+        fileWriter.store['/ws/image.png'] = '';
+        watcherHandlers.create!(vscode.Uri.file('/ws/image.png'));
+        await new Promise(resolve => setImmediate(resolve));
+        expect(await index.getAllNotes()).to.have.lengthOf(3);
+    });
+
+    it('rebuilds after invalidate', async () => {
+        await index.ensureLoaded();
+        index.invalidate();
+        await index.ensureLoaded();
+        expect(findFilesStub.callCount).to.equal(4);
+    });
+
+    it('retries the scan after it failed', async () => {
+        const getAllNotes = sinon.stub(NoteFinder, 'getAllNotes').callThrough();
+        getAllNotes.onFirstCall().rejects(new Error('scan failed'));
+
+        let error: Error | undefined;
+        await index.ensureLoaded().catch(e => { error = e; });
+        expect(error?.message).to.equal('scan failed');
+
+        expect(await index.getAllNotes()).to.have.lengthOf(3);
+        expect(getAllNotes.calledTwice).to.be.true;
+    });
+
+    it('keeps notes updated by watcher events during the scan', async () => {
+        let releaseRead: () => void = () => {};
+        let blocked = false;
+        const read = fileWriter.read.bind(fileWriter);
+        sinon.stub(fileWriter, 'read').callsFake(async (uri: vscode.Uri) => {
+            const content = await read(uri);
+            if (uri.fsPath === '/ws/Alpha.md' && !blocked) {
+                // スキャンの読み込みを止めている間にファイルが保存される
+                blocked = true;
+                await new Promise<void>(resolve => { releaseRead = resolve; });
+            }
+            return content;
+        });
+
+        const loading = index.ensureLoaded();
+        await new Promise(resolve => setImmediate(resolve));
+        fileWriter.store['/ws/Alpha.md'] = '# Alpha\n[[Gamma]]';
+        watcherHandlers.change!(vscode.Uri.file('/ws/Alpha.md'));
+        await new Promise(resolve => setImmediate(resolve));
+        releaseRead();
+        await loading;
+
+        const alpha = await index.getNote(vscode.Uri.file('/ws/Alpha.md'));
+        expect(alpha?.links.map(l => l.linkText)).to.deep.equal(['Gamma']);
+        expect(await index.getAllNotes()).to.have.lengthOf(3);
+    });
+
+    it('collects the tags of every note', async () => {
+        fileWriter.store['/ws/Alpha.md'] = '---\ntags: [work]\n---\n#work #project/alpha';
+        fileWriter.store['/ws/sub/Beta.md'] = '#work';
+
+        const tags = await index.getTags();
+        expect(Array.from(tags.keys())).to.deep.equal(['project/alpha', 'work']);
+        expect(tags.get('work')!.map(note => note.relativePath).sort()).to.deep.equal(['Alpha.md', 'sub/Beta.md']);
+    });
+
+    it('looks up notes by frontmatter alias and forgets removed aliases', async () => {
+        fileWriter.store['/ws/sub/Beta.md'] = '---\naliases: [B]\n---';
+        await index.ensureLoaded();
+        expect(index.getNotesByAlias('B').map(note => note.title)).to.deep.equal(['Beta']);
+
+        const uri = vscode.Uri.file('/ws/sub/Beta.md');
+        docChangeHandler!({ document: { uri, getText: () => '---\naliases: [C]\n---' } as any });
+        expect(index.getNotesByAlias('B')).to.be.empty;
+        expect(index.getNotesByAlias('C')).to.have.lengthOf(1);
+    });
+});
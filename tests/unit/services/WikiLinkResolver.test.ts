@@ -0,0 +1,210 @@
+import { expect } from 'chai';
+import { describe, it, beforeEach, afterEach } from 'mocha';
+import * as vscode from 'vscode';
+import * as sinon from 'sinon';
+import { VaultIndex } from '../../../src/services/VaultIndex';
+import { WikiLinkResolver } from '../../../src/services/WikiLinkResolver';
+import { ConfigurationManager } from '../../../src/managers/ConfigurationManager';
+
+describe('WikiLinkResolver', () => {
+    const workspaceFolder = { uri: vscode.Uri.file('/ws'), name: 'ws', index: 0 };
+    let store: Record<string, string>;
+    let settings: Record<string, any>;
+    let index: VaultIndex;
+    let resolver: WikiLinkResolver;
+
+    beforeEach(() => {
+        store = {
+            '/ws/Target Note.md': '# Target',
+            '/ws/sub/Target Note.md': 'deeper duplicate',
+            '/ws/sub/my-note.md': '',
+            '/ws/Source.md': 'See [[Target Note]] and [[Target Note#Intro|alias]]\n[[Other]]',
+            '/ws/sub/Nested.md': '[[Target Note]]',
+            '/ws/Blocks.md': '# Top\n## Child\nA paragraph ^para',
+            '/ws/Goals.md': '---\naliases: [OKR, Blocks]\n---\n# Goals'
+        };
+        settings = {};
+
+        sinon.stub(vscode.workspace, 'workspaceFolders').value([workspaceFolder]);
+        sinon.stub(vscode.workspace, 'findFiles').callsFake(async () => Object.keys(store).map(p => vscode.Uri.file(p)));
+
+        const configManager = new ConfigurationManager({
+            get: (key: string, defaultValue?: any) => key in settings ? settings[key] : defaultValue,
+            has: () => false,
+            update: async () => {}
+        });
+        index = new VaultIndex(configManager, {
+            read: async (uri: vscode.Uri) => store[uri.fsPath] ?? '',
+            write: async () => {}
+        });
+        resolver = new WikiLinkResolver(configManager, index);
+    });
+
+    afterEach(() => {
+        index.dispose();
+        sinon.restore();
+    });
+
+    describe('resolve', () => {
+        it('resolves an existing note and keeps the parsed heading', async () => {
+            const result = await resolver.resolve('Target Note#Intro', workspaceFolder);
+            expect(result.note?.relativePath).to.equal('Target Note.md');
+            expect(result.uri.fsPath).to.equal('/ws/Target Note.md');
+            expect(result.parsedLink.heading).to.equal('Intro');
+        });
+
+        it('returns the line of the referenced heading or block', async () => {
+            expect((await resolver.resolve('Blocks#Top#Child', workspaceFolder)).line).to.equal(1);
+            expect((await resolver.resolve('Blocks#^para|alias', workspaceFolder)).line).to.equal(2);
+            expect((await resolver.resolve('Blocks#Missing', workspaceFolder)).line).to.be.undefined;
+            expect((await resolver.resolve('Blocks', workspaceFolder)).line).to.be.undefined;
+        });
+
+        it('falls back to the default creation location for missing notes', async () => {
+            const result = await resolver.resolve('Brand New', workspaceFolder);
+            expect(result.note).to.be.null;
+            expect(result.fileName).to.equal('Brand New');
+            expect(result.uri.fsPath).to.equal('/ws/Brand New.md');
+        });
+
+        it('applies the slug strategy before looking up the note', async () => {
+            settings.slugStrategy = 'kebab-case';
+            const result = await resolver.resolve('My Note', workspaceFolder);
+            expect(result.note?.relativePath).to.equal('sub/my-note.md');
+        });
+
+        it('only considers root notes when subdirectory search is disabled', async () => {
+            settings.searchSubdirectories = false;
+            const result = await resolver.resolve('my-note', workspaceFolder);
+            expect(result.note).to.be.null;
+        });
+    });
+
+    describe('path-qualified links', () => {
+        const nested = vscode.Uri.file('/ws/sub/Nested.md');
+
+        it('restricts the lookup to the folder written in the link', async () => {
+            expect((await resolver.resolve('sub/Target Note', workspaceFolder)).note?.relativePath).to.equal('sub/Target Note.md');
+            expect((await resolver.resolve('/Target Note', workspaceFolder, nested)).note?.relativePath).to.equal('Target Note.md');
+            expect((await resolver.resolve('other/Target Note', workspaceFolder)).note).to.be.null;
+        });
+
+        it('resolves ./ and ../ relative to the linking note', async () => {
+            expect((await resolver.resolve('./Target Note', workspaceFolder, nested)).note?.relativePath).to.equal('sub/Target Note.md');
+            expect((await resolver.resolve('../Target Note', workspaceFolder, nested)).note?.relativePath).to.equal('Target Note.md');
+            expect((await resolver.resolve('../../Target Note', workspaceFolder, nested)).note).to.be.null;
+        });
+
+        it('honors explicit folders when subdirectory search is disabled', async () => {
+            settings.searchSubdirectories = false;
+            expect((await resolver.resolve('sub/my-note', workspaceFolder)).note?.relativePath).to.equal('sub/my-note.md');
+        });
+
+        it('creates missing notes inside the linked folder', async () => {
+            const result = await resolver.resolve('new/Brand New', workspaceFolder);
+            expect(result.fileName).to.equal('Brand New');
+            expect(result.uri.fsPath).to.equal('/ws/new/Brand New.md');
+            expect((await resolver.resolve('./Brand New', workspaceFolder, nested)).uri.fsPath).to.equal('/ws/sub/Brand New.md');
+        });
+    });
+
+    describe('aliases', () => {
+        it('resolves a frontmatter alias to its note', async () => {
+            const result = await resolver.resolve('OKR|Objectives', workspaceFolder);
+            expect(result.note?.relativePath).to.equal('Goals.md');
+            expect(result.uri.fsPath).to.equal('/ws/Goals.md');
+        });
+
+        it('prefers a note whose title matches over an alias', async () => {
+            expect((await resolver.resolve('Blocks', workspaceFolder)).note?.relativePath).to.equal('Blocks.md');
+        });
+    });
+
+    describe('resolution policy', () => {
+        const nested = vscode.Uri.file('/ws/sub/Nested.md');
+        const root = vscode.Uri.file('/ws/Source.md');
+        const target = async (source: vscode.Uri) => (await resolver.resolve('Target Note', workspaceFolder, source)).note?.relativePath;
+
+        it('returns every candidate and picks the shallowest by default', async () => {
+            const result = await resolver.resolve('Target Note', workspaceFolder, nested);
+            expect(result.candidates.map(note => note.relativePath)).to.deep.equal(['Target Note.md', 'sub/Target Note.md']);
+            expect(result.note?.relativePath).to.equal('Target Note.md');
+        });
+
+        it('prefers the note closest to the linking note', async () => {
+            settings.linkResolution = 'closest';
+            expect(await target(nested)).to.equal('sub/Target Note.md');
+            expect(await target(root)).to.equal('Target Note.md');
+        });
+
+        it('prefers the linking note folder with sameFolder and orders prompt candidates by distance', async () => {
+            settings.linkResolution = 'sameFolder';
+            expect(await target(nested)).to.equal('sub/Target Note.md');
+            settings.linkResolution = 'prompt';
+            expect(await target(nested)).to.equal('sub/Target Note.md');
+        });
+
+        it('falls back to the shallowest note for unknown policies', async () => {
+            settings.linkResolution = 'nearest';
+            expect(await target(nested)).to.equal('Target Note.md');
+        });
+
+        it('resolves backlinks from the point of view of each linking note', async () => {
+            settings.linkResolution = 'closest';
+            const backlinks = await resolver.findBacklinks(vscode.Uri.file('/ws/sub/Target Note.md'));
+            expect(backlinks.map(b => b.source.relativePath)).to.deep.equal(['sub/Nested.md']);
+        });
+    });
+
+    describe('findBacklinks', () => {
+        it('returns every link resolving to the target, including heading and alias links', async () => {
+            const backlinks = await resolver.findBacklinks(vscode.Uri.file('/ws/Target Note.md'));
+            expect(backlinks.map(b => b.source.relativePath)).to.deep.equal(['Source.md', 'Source.md', 'sub/Nested.md']);
+            expect(backlinks[1].parsedLink.displayName).to.equal('alias');
+        });
+
+        it('does not count links that resolve to a shallower duplicate', async () => {
+            const backlinks = await resolver.findBacklinks(vscode.Uri.file('/ws/sub/Target Note.md'));
+            expect(backlinks).to.be.empty;
+        });
+    });
+
+    describe('getOutgoingTargets', () => {
+        it('resolves each link of the note and skips broken ones', async () => {
+            const source = await index.getNote(vscode.Uri.file('/ws/Source.md'));
+            const targets = resolver.getOutgoingTargets(source!);
+            expect(targets.map(note => note.relativePath)).to.deep.equal(['Target Note.md', 'Target Note.md']);
+        });
+    });
+
+    describe('findAttachment', () => {
+        beforeEach(() => {
+            store['/ws/img/shot[1].png'] = '';
+            store['/ws/img/shot1.png'] = '';
+            store['/ws/a/b/pic.png'] = '';
+            store['/ws/pic.png'] = '';
+        });
+
+        it('looks the name up in the index without globbing the workspace', async () => {
+            await index.ensureLoaded();
+            const findFiles = vscode.workspace.findFiles as sinon.SinonStub;
+            const calls = findFiles.callCount;
+
+            expect((await resolver.findAttachment('shot[1].png'))?.fsPath).to.equal('/ws/img/shot[1].png');
+            expect(await resolver.findAttachment('shot?.png')).to.be.undefined;
+            expect(findFiles.callCount).to.equal(calls);
+        });
+
+        it('picks the shortest path, or the path ending with the written folders', async () => {
+            expect((await resolver.findAttachment('pic.png'))?.fsPath).to.equal('/ws/pic.png');
+            expect((await resolver.findAttachment('b/pic.png'))?.fsPath).to.equal('/ws/a/b/pic.png');
+            expect(await resolver.findAttachment('c/pic.png')).to.be.undefined;
+        });
+
+        it('only finds attachments below the vault root', async () => {
+            settings['vaultRoot'] = 'a';
+            expect((await resolver.findAttachment('pic.png'))?.fsPath).to.equal('/ws/a/b/pic.png');
+            expect(await resolver.findAttachment('shot1.png')).to.be.undefined;
+        });
+    });
+});
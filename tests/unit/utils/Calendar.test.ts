@@ -0,0 +1,59 @@
+import { expect } from 'chai';
+import { buildMonthGrid, countToDots, getIsoWeek, getWeekdayLabels } from '../../../src/utils/Calendar';
+
+describe('Calendar', () => {
+    const ymd = (date: Date) => [date.getFullYear(), date.getMonth() + 1, date.getDate()];
+
+    describe('buildMonthGrid', () => {
+        it('lays out a month starting on Sunday', () => {
+            // 2025-09-01 は月曜日
+            const weeks = buildMonthGrid(2025, 8, 0);
+
+            expect(weeks).to.have.lengthOf(5);
+            expect(ymd(weeks[0].days[0].date)).to.deep.equal([2025, 8, 31]);
+            expect(weeks[0].days[0].inMonth).to.be.false;
+            expect(weeks[0].days[1].inMonth).to.be.true;
+            expect(ymd(weeks[4].days[6].date)).to.deep.equal([2025, 10, 4]);
+            expect(weeks.map(w => w.weekNumber)).to.deep.equal([36, 37, 38, 39, 40]);
+        });
+
+        it('starts the rows on the configured weekday', () => {
+            const weeks = buildMonthGrid(2025, 8, 1);
+
+            expect(weeks).to.have.lengthOf(5);
+            expect(ymd(weeks[0].days[0].date)).to.deep.equal([2025, 9, 1]);
+            expect(weeks.every(w => w.days.length === 7 && w.days[0].date.getDay() === 1)).to.be.true;
+        });
+
+        it('uses six rows when the month needs them', () => {
+            // 2025-08-01 は金曜日、31日まで
+            expect(buildMonthGrid(2025, 7, 0)).to.have.lengthOf(6);
+            // 2026-02 は日曜始まりでちょうど4週
+            expect(buildMonthGrid(2026, 1, 0)).to.have.lengthOf(4);
+        });
+    });
+
+    describe('getIsoWeek', () => {
+        it('numbers weeks from the week containing the first Thursday', () => {
+            expect(getIsoWeek(new Date(2025, 8, 18))).to.deep.equal({ year: 2025, week: 38 });
+            expect(getIsoWeek(new Date(2024, 11, 30))).to.deep.equal({ year: 2025, week: 1 });
+            expect(getIsoWeek(new Date(2021, 0, 3))).to.deep.equal({ year: 2020, week: 53 });
+        });
+    });
+
+    describe('getWeekdayLabels', () => {
+        it('rotates the labels to the first day of the week', () => {
+            expect(getWeekdayLabels(0)[0]).to.equal('Sun');
+            expect(getWeekdayLabels(1)).to.deep.equal(['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']);
+        });
+    });
+
+    describe('countToDots', () => {
+        it('shows at least one dot for any count and caps the number of dots', () => {
+            expect(countToDots(0, 250, 5)).to.equal(0);
+            expect(countToDots(10, 250, 5)).to.equal(1);
+            expect(countToDots(600, 250, 5)).to.equal(2);
+            expect(countToDots(9000, 250, 5)).to.equal(5);
+        });
+    });
+});
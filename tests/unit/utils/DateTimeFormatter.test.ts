@@ -146,6 +146,54 @@ describe('DateTimeFormatter', () => {
         });
     });
 
+    describe('ISO 週・四半期トークン', () => {
+        it('ISO 週の年と週番号、四半期を出力できる', () => {
+            expect(formatter.formatDate(new Date(2025, 8, 18), 'GGGG-[W]WW')).to.equal('2025-W38');
+            expect(formatter.formatDate(new Date(2024, 11, 30), 'GGGG-[W]WW')).to.equal('2025-W01');
+            expect(formatter.formatDate(new Date(2021, 0, 3), 'GGGG-[W]W')).to.equal('2020-W53');
+            expect(formatter.formatDate(new Date(2025, 8, 18), 'YYYY-[Q]Q')).to.equal('2025-Q3');
+        });
+
+        it('角括弧で囲んだ文字はトークンとして扱わない', () => {
+            expect(formatter.formatDate(new Date(2025, 8, 18), '[Week of] YYYY-MM-DD')).to.equal('Week of 2025-09-18');
+            expect(formatter.validateFormat('GGGG-[Week]WW').isValid).to.be.true;
+        });
+
+        it('角括弧で囲んだ時刻形式はリテラルになり、[[] で角括弧を出力できる', () => {
+            const date = new Date(2025, 8, 18, 14, 5);
+            expect(formatter.formatDate(date, '[HH:mm]')).to.equal('HH:mm');
+            expect(formatter.formatDate(date, '[[]HH:mm]')).to.equal('[14:05]');
+        });
+    });
+
+    describe('parseDate', () => {
+        it('フォーマットに従って日付を解析できる', () => {
+            const date = formatter.parseDate('2025-09-18', 'YYYY-MM-DD')!;
+            expect([date.getFullYear(), date.getMonth(), date.getDate()]).to.deep.equal([2025, 8, 18]);
+
+            const short = formatter.parseDate('25年9月1日', 'YY年M月D日')!;
+            expect([short.getFullYear(), short.getMonth(), short.getDate()]).to.deep.equal([2025, 8, 1]);
+        });
+
+        it('期間ノートの名前を期間の初日として解析できる', () => {
+            const ymd = (date: Date | undefined) => date && [date.getFullYear(), date.getMonth() + 1, date.getDate()];
+
+            expect(ymd(formatter.parseDate('2025-W38', 'GGGG-[W]WW'))).to.deep.equal([2025, 9, 15]);
+            expect(ymd(formatter.parseDate('2025-W01', 'GGGG-[W]WW'))).to.deep.equal([2024, 12, 30]);
+            expect(ymd(formatter.parseDate('2025-09', 'YYYY-MM'))).to.deep.equal([2025, 9, 1]);
+            expect(ymd(formatter.parseDate('2025-Q3', 'YYYY-[Q]Q'))).to.deep.equal([2025, 7, 1]);
+            expect(ymd(formatter.parseDate('2025', 'YYYY'))).to.deep.equal([2025, 1, 1]);
+            expect(formatter.parseDate('2025-W53', 'GGGG-[W]WW')).to.be.undefined;
+        });
+
+        it('形式が一致しない文字列や存在しない日付は undefined を返す', () => {
+            expect(formatter.parseDate('2025-09-18 memo', 'YYYY-MM-DD')).to.be.undefined;
+            expect(formatter.parseDate('2025.09.18', 'YYYY-MM-DD')).to.be.undefined;
+            expect(formatter.parseDate('2025-02-30', 'YYYY-MM-DD')).to.be.undefined;
+            expect(formatter.parseDate('09-18', 'MM-DD')).to.be.undefined;
+        });
+    });
+
     describe('エッジケース', () => {
         it('うるう年の2月29日を正しく処理する', () => {
             const leapDay = new Date(2024, 1, 29); // 2024年2月29日
@@ -0,0 +1,161 @@
+import { expect } from 'chai';
+import {
+    parseFrontmatter,
+    getFrontmatterProperty,
+    getFrontmatterListItems,
+    formatFrontmatterValue,
+    computePropertyEdit,
+    setFrontmatterProperty,
+    removeFrontmatterProperty
+} from '../../../src/utils/Frontmatter';
+
+describe('Frontmatter', () => {
+    describe('parseFrontmatter', () => {
+        it('returns undefined for notes without frontmatter', () => {
+            expect(parseFrontmatter('# Title\n---\nkey: value\n---')).to.be.undefined;
+        });
+
+        it('reads scalars, quoted strings and lists', () => {
+            const md = [
+                '---',
+                'title: Weekly review # comment',
+                'quoted: "a: b"',
+                'single: \'it\'\'s\'',
+                'tags: [work, "a, b"]',
+                'aliases:',
+                '  - One',
+                '  - \'Two\'',
+                'summary: |',
+                '  line 1',
+                '  line 2',
+                'empty:',
+                '---',
+                'body'
+            ].join('\n');
+            const frontmatter = parseFrontmatter(md)!;
+
+            expect(frontmatter.endLine).to.equal(12);
+            expect(frontmatter.errors).to.be.empty;
+            expect(frontmatter.properties.map(p => [p.key, p.value])).to.deep.equal([
+                ['title', 'Weekly review'],
+                ['quoted', 'a: b'],
+                ['single', 'it\'s'],
+                ['tags', ['work', 'a, b']],
+                ['aliases', ['One', 'Two']],
+                ['summary', 'line 1\nline 2'],
+                ['empty', '']
+            ]);
+            expect(frontmatter.properties[4]).to.include({ line: 5, endLine: 7, isBlockList: true });
+            expect(frontmatter.properties[0].valueCharacter).to.equal(7);
+        });
+
+        it('reports malformed lines with their position', () => {
+            const md = '---\ntitle: "open\nno colon here\n\tindented: x\ntitle: again\nlist: [a, b\nbad: a: b\n---';
+            const errors = parseFrontmatter(md)!.errors;
+
+            expect(errors.map(e => [e.line, e.character, e.message])).to.deep.equal([
+                [1, 7, 'Unterminated quoted string'],
+                [2, 0, 'Expected "key: value"'],
+                [3, 0, 'Tabs are not allowed for indentation'],
+                [4, 0, 'Duplicate property "title"'],
+                [5, 6, 'Unclosed list: expected "]"'],
+                [6, 5, 'Nested mappings must be on their own lines; quote values containing ": "']
+            ]);
+        });
+
+        it('reports frontmatter that is never closed', () => {
+            const frontmatter = parseFrontmatter('---\ntitle: x\n')!;
+            expect(frontmatter.endLine).to.equal(-1);
+            expect(frontmatter.errors[0].message).to.contain('not closed');
+        });
+    });
+
+    describe('getFrontmatterProperty', () => {
+        it('returns the value of a key', () => {
+            expect(getFrontmatterProperty('---\nstatus: done\n---', 'status')).to.equal('done');
+            expect(getFrontmatterProperty('---\nstatus: done\n---', 'missing')).to.be.undefined;
+        });
+    });
+
+    describe('getFrontmatterListItems', () => {
+        it('reads inline and block lists with the position of each entry', () => {
+            const items = getFrontmatterListItems('---\ntags: [a, "b, c"] # note\ntag:\n  - \'d\'\n---', ['tags', 'tag']);
+            expect(items).to.deep.equal([
+                { value: 'a', line: 1, character: 7 },
+                { value: 'b, c', line: 1, character: 11 },
+                { value: 'd', line: 3, character: 5 }
+            ]);
+        });
+
+        it('splits plain scalars on commas, and on spaces when asked', () => {
+            const content = '---\naliases: Key Results, OKR\n---';
+            expect(getFrontmatterListItems(content, ['aliases']).map(item => item.value)).to.deep.equal(['Key Results', 'OKR']);
+            expect(getFrontmatterListItems(content, ['aliases'], true).map(item => [item.value, item.character]))
+                .to.deep.equal([['Key', 9], ['Results', 13], ['OKR', 22]]);
+        });
+
+        it('ignores block scalars, nested values and notes without frontmatter', () => {
+            expect(getFrontmatterListItems('---\ntags: |\n  a\nmeta:\n  tags: b\n---', ['tags'])).to.deep.equal([]);
+            expect(getFrontmatterListItems('tags: a', ['tags'])).to.deep.equal([]);
+        });
+    });
+
+    describe('formatFrontmatterValue', () => {
+        it('quotes only values plain YAML would misread', () => {
+            expect(formatFrontmatterValue('2024-01-02 10:30')).to.equal('2024-01-02 10:30');
+            expect(formatFrontmatterValue('a: b')).to.equal('"a: b"');
+            expect(formatFrontmatterValue('true')).to.equal('"true"');
+            expect(formatFrontmatterValue('#tag')).to.equal('"#tag"');
+            expect(formatFrontmatterValue(['a', 'b, c'])).to.equal('[a, "b, c"]');
+        });
+    });
+
+    describe('setFrontmatterProperty', () => {
+        it('round-trips unchanged values without reformatting', () => {
+            const md = '---\ntitle:   \'Weekly\'   # keep\ntags: [ a,b ]\n---\nbody';
+            expect(setFrontmatterProperty(md, 'title', 'Weekly')).to.equal(md);
+            expect(setFrontmatterProperty(md, 'tags', ['a', 'b'])).to.equal(md);
+        });
+
+        it('replaces only the lines of the changed property', () => {
+            const md = '---\n# comment\ntitle: Old\nstatus: draft\n---\nbody';
+            expect(setFrontmatterProperty(md, 'title', 'New')).to.equal('---\n# comment\ntitle: New\nstatus: draft\n---\nbody');
+        });
+
+        it('keeps block lists in block form with their indentation', () => {
+            const md = '---\ntags:\n    - a\n    - b\nnext: 1\n---';
+            expect(setFrontmatterProperty(md, 'tags', ['a', 'c', 'd'])).to.equal('---\ntags:\n    - a\n    - c\n    - d\nnext: 1\n---');
+        });
+
+        it('appends new properties and creates missing frontmatter', () => {
+            expect(setFrontmatterProperty('---\ntitle: x\n---\nbody', 'updated', '2024-01-02'))
+                .to.equal('---\ntitle: x\nupdated: 2024-01-02\n---\nbody');
+            expect(setFrontmatterProperty('# Note', 'created', '2024-01-02'))
+                .to.equal('---\ncreated: 2024-01-02\n---\n# Note');
+        });
+
+        it('preserves CRLF line endings', () => {
+            expect(setFrontmatterProperty('---\r\ntitle: x\r\n---\r\nbody', 'title', 'y')).to.equal('---\r\ntitle: y\r\n---\r\nbody');
+        });
+
+        it('does not edit unclosed frontmatter', () => {
+            expect(computePropertyEdit('---\ntitle: x', 'title', 'y')).to.be.undefined;
+        });
+    });
+
+    describe('removeFrontmatterProperty', () => {
+        it('removes the lines of the property', () => {
+            expect(removeFrontmatterProperty('---\ntitle: x\ntags:\n  - a\n  - b\nnext: 1\n---\nbody', 'tags'))
+                .to.equal('---\ntitle: x\nnext: 1\n---\nbody');
+        });
+
+        it('removes the frontmatter when it becomes empty', () => {
+            expect(removeFrontmatterProperty('---\ndestination: notes\n---\n# Note', 'destination')).to.equal('# Note');
+        });
+
+        it('leaves notes without the property unchanged', () => {
+            expect(removeFrontmatterProperty('---\ntitle: x\n---\nbody', 'tags')).to.equal('---\ntitle: x\n---\nbody');
+            expect(removeFrontmatterProperty('# Note', 'tags')).to.equal('# Note');
+        });
+    });
+});
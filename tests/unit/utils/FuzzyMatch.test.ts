@@ -0,0 +1,33 @@
+import { expect } from 'chai';
+import { describe, it } from 'mocha';
+import { levenshteinDistance, findClosestMatches } from '../../../src/utils/FuzzyMatch';
+
+describe('FuzzyMatch', () => {
+    describe('levenshteinDistance', () => {
+        it('returns 0 for identical strings', () => {
+            expect(levenshteinDistance('note', 'note')).to.equal(0);
+        });
+
+        it('counts insertions, deletions and substitutions', () => {
+            expect(levenshteinDistance('kitten', 'sitting')).to.equal(3);
+            expect(levenshteinDistance('', 'abc')).to.equal(3);
+            expect(levenshteinDistance('abc', '')).to.equal(3);
+        });
+    });
+
+    describe('findClosestMatches', () => {
+        it('sorts by distance and ignores case', () => {
+            const matches = findClosestMatches('Projct Plan', ['project plan', 'Project Plans', 'Meeting']);
+            expect(matches.map(m => m.value)).to.deep.equal(['project plan', 'Project Plans']);
+        });
+
+        it('drops candidates that are too different', () => {
+            expect(findClosestMatches('Todo', ['Completely different'])).to.deep.equal([]);
+        });
+
+        it('respects the limit and ignores duplicates', () => {
+            const matches = findClosestMatches('ab', ['ab', 'ab', 'abc', 'abd', 'abe'], 2);
+            expect(matches.map(m => m.value)).to.deep.equal(['ab', 'abc']);
+        });
+    });
+});
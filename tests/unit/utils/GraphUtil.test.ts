@@ -0,0 +1,89 @@
+import { expect } from 'chai';
+import { GraphNode, createGraph, filterGraph } from '../../../src/utils/GraphUtil';
+
+function node(id: string, path: string, tags: string[] = []): GraphNode {
+    return { id, title: id, path, tags, orphan: false };
+}
+
+describe('GraphUtil', () => {
+    describe('createGraph', () => {
+        it('removes duplicate, self and dangling edges', () => {
+            const graph = createGraph(
+                [node('a', 'a.md'), node('b', 'b.md')],
+                [
+                    { source: 'a', target: 'b' },
+                    { source: 'a', target: 'b' },
+                    { source: 'a', target: 'a' },
+                    { source: 'a', target: 'missing' }
+                ]
+            );
+            expect(graph.edges).to.deep.equal([{ source: 'a', target: 'b' }]);
+        });
+
+        it('keeps links in both directions as separate edges', () => {
+            const graph = createGraph(
+                [node('a', 'a.md'), node('b', 'b.md')],
+                [{ source: 'a', target: 'b' }, { source: 'b', target: 'a' }]
+            );
+            expect(graph.edges).to.have.length(2);
+        });
+
+        it('marks notes without links in either direction as orphans', () => {
+            const graph = createGraph(
+                [node('a', 'a.md'), node('b', 'b.md'), node('c', 'c.md')],
+                [{ source: 'a', target: 'b' }, { source: 'c', target: 'c' }]
+            );
+            expect(graph.nodes.map(n => n.orphan)).to.deep.equal([false, false, true]);
+        });
+    });
+
+    describe('filterGraph', () => {
+        // a -> b -> c -> d, e は孤立
+        const graph = createGraph(
+            [
+                node('a', 'projects/a.md', ['work']),
+                node('b', 'projects/sub/b.md', ['work/client']),
+                node('c', 'daily/c.md', ['Personal']),
+                node('d', 'd.md'),
+                node('e', 'projects/e.md')
+            ],
+            [
+                { source: 'a', target: 'b' },
+                { source: 'b', target: 'c' },
+                { source: 'c', target: 'd' }
+            ]
+        );
+        const ids = (filter: Parameters<typeof filterGraph>[1]) => filterGraph(graph, filter).nodes.map(n => n.id);
+
+        it('returns the whole graph without filters', () => {
+            const result = filterGraph(graph, {});
+            expect(result.nodes).to.have.length(5);
+            expect(result.edges).to.have.length(3);
+        });
+
+        it('limits local graphs to the given number of hops in both directions', () => {
+            expect(ids({ center: 'b' })).to.deep.equal(['a', 'b', 'c']);
+            expect(ids({ center: 'b', hops: 2 })).to.deep.equal(['a', 'b', 'c', 'd']);
+            expect(ids({ center: 'e', hops: 3 })).to.deep.equal(['e']);
+        });
+
+        it('filters by folder including subfolders', () => {
+            expect(ids({ folder: 'projects' })).to.deep.equal(['a', 'b', 'e']);
+            expect(ids({ folder: '/projects/sub/' })).to.deep.equal(['b']);
+        });
+
+        it('filters by tag including nested tags, ignoring case and #', () => {
+            expect(ids({ tag: 'work' })).to.deep.equal(['a', 'b']);
+            expect(ids({ tag: '#personal' })).to.deep.equal(['c']);
+        });
+
+        it('keeps only edges between visible nodes', () => {
+            const result = filterGraph(graph, { folder: 'projects' });
+            expect(result.edges).to.deep.equal([{ source: 'a', target: 'b' }]);
+        });
+
+        it('keeps the center note even when it does not match the filters', () => {
+            expect(ids({ center: 'c', tag: 'work' })).to.deep.equal(['b', 'c']);
+        });
+    });
+});
@@ -0,0 +1,52 @@
+import { expect } from 'chai';
+import { parseNaturalDate } from '../../../src/utils/NaturalDate';
+
+describe('parseNaturalDate', () => {
+    // 2025-09-18 は木曜日
+    const today = new Date(2025, 8, 18, 15, 30);
+    const parse = (input: string) => {
+        const date = parseNaturalDate(input, today);
+        return date && [date.getFullYear(), date.getMonth() + 1, date.getDate(), date.getHours()];
+    };
+
+    it('parses ISO dates and rejects impossible ones', () => {
+        expect(parse('2024-02-29')).to.deep.equal([2024, 2, 29, 0]);
+        expect(parse('2025/9/1')).to.deep.equal([2025, 9, 1, 0]);
+        expect(parse('2025-02-30')).to.be.undefined;
+    });
+
+    it('parses relative day words in English and Japanese', () => {
+        expect(parse('Today')).to.deep.equal([2025, 9, 18, 0]);
+        expect(parse('yesterday')).to.deep.equal([2025, 9, 17, 0]);
+        expect(parse('明日')).to.deep.equal([2025, 9, 19, 0]);
+    });
+
+    it('parses offsets', () => {
+        expect(parse('+3d')).to.deep.equal([2025, 9, 21, 0]);
+        expect(parse('-2w')).to.deep.equal([2025, 9, 4, 0]);
+        expect(parse('1 month')).to.deep.equal([2025, 10, 18, 0]);
+        expect(parse('3 days ago')).to.deep.equal([2025, 9, 15, 0]);
+        expect(parse('in 2 weeks')).to.deep.equal([2025, 10, 2, 0]);
+        expect(parseNaturalDate('+1m', new Date(2025, 0, 31))!.getDate()).to.equal(28);
+    });
+
+    it('parses weekdays relative to today', () => {
+        expect(parse('last friday')).to.deep.equal([2025, 9, 12, 0]);
+        expect(parse('friday')).to.deep.equal([2025, 9, 19, 0]);
+        expect(parse('next thu')).to.deep.equal([2025, 9, 25, 0]);
+        expect(parse('last thursday')).to.deep.equal([2025, 9, 11, 0]);
+        expect(parse('thursday')).to.deep.equal([2025, 9, 18, 0]);
+    });
+
+    it('parses last/next week, month and year', () => {
+        expect(parse('last week')).to.deep.equal([2025, 9, 11, 0]);
+        expect(parse('next month')).to.deep.equal([2025, 10, 18, 0]);
+        expect(parse('last year')).to.deep.equal([2024, 9, 18, 0]);
+    });
+
+    it('returns undefined for anything else', () => {
+        expect(parse('someday')).to.be.undefined;
+        expect(parse('constructor')).to.be.undefined;
+        expect(parse('+3')).to.be.undefined;
+    });
+});
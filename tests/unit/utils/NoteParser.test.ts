@@ -1,5 +1,22 @@
 import { expect } from 'chai';
-import { extractTasks, markTaskCompleted } from '../../../src/utils/NoteParser';
+import {
+    extractTasks,
+    markTaskCompleted,
+    markTaskIncomplete,
+    markTaskMigrated,
+    extractWikiLinks,
+    extractHeadings,
+    findUnlinkedMentions,
+    getHeadingPath,
+    findHeading,
+    extractBlockIds,
+    findBlockEndLine,
+    createBlockId,
+    extractTags,
+    extractAliases,
+    isValidTag,
+    countWords
+} from '../../../src/utils/NoteParser';
 
 describe('NoteParser', () => {
     describe('extractTasks', () => {
@@ -13,6 +30,16 @@ describe('NoteParser', () => {
             expect(tasks[1].text).to.equal('Subtask');
         });
 
+        it('includes completed items when requested', () => {
+            const md = `- [ ] Task A\n- [x] Done\n- [X] Also done`;
+            const tasks = extractTasks(md, true);
+            expect(tasks.map(t => [t.line, t.text, t.completed])).to.deep.equal([
+                [0, 'Task A', false],
+                [1, 'Done', true],
+                [2, 'Also done', true]
+            ]);
+        });
+
         it('returns empty array when no tasks', () => {
             const md = 'No tasks here\nJust text';
             const tasks = extractTasks(md);
@@ -39,5 +66,220 @@ describe('NoteParser', () => {
             const out = markTaskCompleted(md, 5, '2025-10-30');
             expect(out).to.equal(md);
         });
+
+        it('inserts the next occurrence of a recurring task above the completed line', () => {
+            const md = 'A\n  - [ ] Water plants 📅 2026-10-19 🔁 every week\nB';
+            const lines = markTaskCompleted(md, 1, '2026-10-20').split('\n');
+            expect(lines).to.deep.equal([
+                'A',
+                '  - [ ] Water plants 📅 2026-10-26 🔁 every week',
+                '  - [x] Water plants 📅 2026-10-19 🔁 every week [completion: 2026-10-20]',
+                'B'
+            ]);
+        });
+
+        it('does not repeat a task that was already checked', () => {
+            const md = '- [x] Water plants [due: 2026-10-19] [repeat: every week]';
+            const out = markTaskCompleted(md, 0, '2026-10-20');
+            expect(out.split('\n')).to.have.length(1);
+        });
+    });
+
+    describe('extractWikiLinks', () => {
+        it('returns every link with its position', () => {
+            const md = 'See [[Alpha]] and [[Beta#Intro|b]]\nnext [[Gamma]]';
+            const links = extractWikiLinks(md);
+            expect(links).to.have.length(3);
+            expect(links[0]).to.deep.equal({ line: 0, character: 4, length: 9, linkText: 'Alpha', isEmbed: false });
+            expect(links[1].linkText).to.equal('Beta#Intro|b');
+            expect(links[2].line).to.equal(1);
+        });
+
+        it('flags embeds written with a leading !', () => {
+            const links = extractWikiLinks('![[Note#Part]] and [[Link]]');
+            expect(links[0]).to.include({ character: 1, linkText: 'Note#Part', isEmbed: true });
+            expect(links[1].isEmbed).to.be.false;
+        });
+
+        it('skips links inside fenced code blocks', () => {
+            const md = '[[Real]]\n```\n[[Code]]\n```\n[[After]]';
+            const links = extractWikiLinks(md).map(l => l.linkText);
+            expect(links).to.deep.equal(['Real', 'After']);
+        });
+    });
+
+    describe('extractHeadings', () => {
+        it('extracts ATX headings with level and trimmed text', () => {
+            const md = '# Title\ntext\n## Section ##\n#nottag\n### C# tips';
+            const headings = extractHeadings(md);
+            expect(headings).to.deep.equal([
+                { line: 0, level: 1, text: 'Title' },
+                { line: 2, level: 2, text: 'Section' },
+                { line: 4, level: 3, text: 'C# tips' }
+            ]);
+        });
+
+        it('ignores hash lines inside fenced code blocks', () => {
+            const md = '```bash\n# comment\n```\n## Real';
+            expect(extractHeadings(md).map(h => h.text)).to.deep.equal(['Real']);
+        });
+    });
+
+    describe('markTaskIncomplete', () => {
+        it('unchecks a completed task and removes the completion tag', () => {
+            const md = '- [x] done [completion: 2024-01-02]\n- [ ] open';
+            expect(markTaskIncomplete(md, 0)).to.equal('- [ ] done\n- [ ] open');
+        });
+
+        it('leaves unchecked tasks and plain lines unchanged', () => {
+            const md = '- [ ] open\ntext';
+            expect(markTaskIncomplete(md, 0)).to.equal(md);
+            expect(markTaskIncomplete(md, 1)).to.equal(md);
+        });
+    });
+
+    describe('markTaskMigrated', () => {
+        it('marks an unchecked task as migrated so it is no longer extracted', () => {
+            const md = '- [ ] open\r\n  * [ ] nested';
+            const migrated = markTaskMigrated(markTaskMigrated(md, 0), 1);
+            expect(migrated).to.equal('- [>] open\r\n  * [>] nested');
+            expect(extractTasks(migrated)).to.have.length(0);
+        });
+
+        it('leaves completed tasks and plain lines unchanged', () => {
+            const md = '- [x] done\ntext';
+            expect(markTaskMigrated(md, 0)).to.equal(md);
+            expect(markTaskMigrated(md, 1)).to.equal(md);
+        });
+    });
+
+    describe('getHeadingPath / findHeading', () => {
+        const headings = extractHeadings('# Project\n## Tasks\n### Open\n## Archive\n### Open');
+
+        it('builds the path of ancestor headings', () => {
+            expect(getHeadingPath(headings, 2)).to.deep.equal(['Project', 'Tasks', 'Open']);
+            expect(getHeadingPath(headings, 3)).to.deep.equal(['Project', 'Archive']);
+        });
+
+        it('finds plain headings case-insensitively (first match wins)', () => {
+            expect(findHeading(headings, 'open')?.line).to.equal(2);
+        });
+
+        it('disambiguates by path, allowing skipped ancestors', () => {
+            expect(findHeading(headings, 'Archive#Open')?.line).to.equal(4);
+            expect(findHeading(headings, 'Project#Archive#Open')?.line).to.equal(4);
+            expect(findHeading(headings, 'Tasks#Archive')).to.be.undefined;
+        });
+    });
+
+    describe('extractBlockIds', () => {
+        it('extracts trailing block identifiers outside code', () => {
+            const md = 'A paragraph ^para-1\n- item ^item\nnot^inline\n```\ncode ^code\n```';
+            expect(extractBlockIds(md)).to.deep.equal([
+                { line: 0, id: 'para-1', text: 'A paragraph' },
+                { line: 1, id: 'item', text: '- item' }
+            ]);
+        });
+    });
+
+    describe('findBlockEndLine', () => {
+        const md = '---\ntitle: x\n---\n# Head\nfirst line\nsecond line\n- item\n\n```\ncode\n```';
+
+        it('returns the last line of the paragraph', () => {
+            expect(findBlockEndLine(md, 4)).to.equal(5);
+            expect(findBlockEndLine(md, 5)).to.equal(5);
+        });
+
+        it('returns the list item itself', () => {
+            expect(findBlockEndLine(md, 6)).to.equal(6);
+        });
+
+        it('rejects frontmatter, headings, blank lines and code', () => {
+            [1, 3, 7, 9].forEach(line => expect(findBlockEndLine(md, line)).to.be.undefined);
+        });
+    });
+
+    describe('createBlockId', () => {
+        it('creates six base36 characters avoiding existing IDs', () => {
+            const values = [0, 0, 0, 0, 0, 0, 0.5, 0.5, 0.5, 0.5, 0.5, 0.5];
+            const id = createBlockId(new Set(['000000']), () => values.shift()!);
+            expect(id).to.equal('iiiiii');
+        });
+    });
+
+    describe('extractTags', () => {
+        it('extracts inline and nested tags with their ranges', () => {
+            const tags = extractTags('Meeting #work and #project/alpha\n#todo');
+            expect(tags.map(t => [t.line, t.character, t.length, t.tag])).to.deep.equal([
+                [0, 8, 5, 'work'],
+                [0, 18, 14, 'project/alpha'],
+                [1, 0, 5, 'todo']
+            ]);
+        });
+
+        it('ignores headings, numbers, anchors and tags in code or WikiLinks', () => {
+            const md = '# Heading\nissue #123 a#b\n`#code` [[Note#Section]]\n```\n#fenced\n```';
+            expect(extractTags(md)).to.deep.equal([]);
+        });
+
+        it('reads inline, list and block frontmatter tags', () => {
+            const inline = extractTags('---\ntags: [alpha, "#beta"]\n---\nbody');
+            expect(inline.map(t => [t.tag, t.inFrontmatter])).to.deep.equal([['alpha', true], ['beta', true]]);
+
+            const block = extractTags('---\ntags:\n  - one\n  - two/three\ntitle: x\n---\n#body');
+            expect(block.map(t => [t.line, t.tag])).to.deep.equal([[2, 'one'], [3, 'two/three'], [6, 'body']]);
+        });
+    });
+
+    describe('isValidTag', () => {
+        it('accepts nested tags and rejects empty levels or numbers', () => {
+            expect(isValidTag('project/alpha-1')).to.be.true;
+            expect(isValidTag('日本語')).to.be.true;
+            expect(isValidTag('2024')).to.be.false;
+            expect(isValidTag('a//b')).to.be.false;
+            expect(isValidTag('a b')).to.be.false;
+            expect(isValidTag('')).to.be.false;
+        });
+    });
+
+    describe('extractAliases', () => {
+        it('reads inline, list and block frontmatter aliases', () => {
+            expect(extractAliases('---\naliases: OKR\n---\nbody')).to.deep.equal(['OKR']);
+            expect(extractAliases('---\naliases: [OKR, "Key Results"]\n---')).to.deep.equal(['OKR', 'Key Results']);
+            expect(extractAliases('---\ntitle: x\nalias:\n  - Goals 2024\n  - \'Q1\'\n---')).to.deep.equal(['Goals 2024', 'Q1']);
+        });
+
+        it('ignores aliases outside the frontmatter', () => {
+            expect(extractAliases('aliases: OKR')).to.deep.equal([]);
+            expect(extractAliases('# Title\n---\naliases: OKR\n---')).to.deep.equal([]);
+        });
+    });
+
+    describe('findUnlinkedMentions', () => {
+        it('matches case-insensitively on word boundaries', () => {
+            const md = 'Alpha and alpha\nalphabet soup\n[[Alpha]] linked';
+            const mentions = findUnlinkedMentions(md, ['Alpha']);
+            expect(mentions.map(m => [m.line, m.character, m.text])).to.deep.equal([[0, 0, 'Alpha'], [0, 10, 'alpha']]);
+        });
+
+        it('matches non-ASCII titles without word boundaries', () => {
+            const mentions = findUnlinkedMentions('今日は会議メモを書いた', ['会議メモ']);
+            expect(mentions).to.have.lengthOf(1);
+            expect(mentions[0].character).to.equal(3);
+        });
+    });
+
+    describe('countWords', () => {
+        it('counts the words of the body, excluding the frontmatter', () => {
+            expect(countWords('---\ntitle: Some long title\n---\n# Heading\n- [ ] don\'t forget the e-mail')).to.equal(5);
+        });
+
+        it('counts each CJK character as a word', () => {
+            expect(countWords('今日は晴れ。Walk 2 km')).to.equal(8);
+        });
+
+        it('returns 0 for an empty note', () => {
+            expect(countWords('')).to.equal(0);
+        });
     });
 });
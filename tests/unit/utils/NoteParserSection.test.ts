@@ -1,5 +1,5 @@
 import { expect } from 'chai';
-import { insertIntoSection } from '../../../src/utils/NoteParser';
+import { insertIntoSection, extractSectionLines, extractBlockLines, extractBodyLines } from '../../../src/utils/NoteParser';
 
 describe('NoteParser.insertIntoSection', () => {
     it('inserts into existing section before next heading', () => {
@@ -29,3 +29,33 @@ describe('NoteParser.insertIntoSection', () => {
         expect(lines[lines.length - 1].trim()).to.equal('- [ ] b');
     });
 });
+
+describe('NoteParser.extractSectionLines / extractBlockLines', () => {
+    const md = '# Title\nintro\n## A\na1\n### A.1\ndeep\n## B\nb1\n\nfirst line\nsecond line ^para\n- item ^item';
+
+    it('returns the heading and its body up to the next heading of the same level', () => {
+        expect(extractSectionLines(md, 2)).to.deep.equal(['## A', 'a1', '### A.1', 'deep']);
+    });
+
+    it('returns an empty list when the line is not a heading', () => {
+        expect(extractSectionLines(md, 1)).to.deep.equal([]);
+    });
+
+    it('returns the paragraph of a block without its identifier', () => {
+        expect(extractBlockLines(md, 10)).to.deep.equal(['first line', 'second line']);
+    });
+
+    it('returns only the list item for list blocks', () => {
+        expect(extractBlockLines(md, 11)).to.deep.equal(['- item']);
+    });
+});
+
+describe('NoteParser.extractBodyLines', () => {
+    it('skips the frontmatter and leading blank lines', () => {
+        expect(extractBodyLines('---\ntitle: x\n---\n\nBody\nmore')).to.deep.equal(['Body', 'more']);
+    });
+
+    it('keeps content when the frontmatter is not closed', () => {
+        expect(extractBodyLines('---\nBody')).to.deep.equal(['---', 'Body']);
+    });
+});
@@ -0,0 +1,160 @@
+import { expect } from 'chai';
+import {
+    QueryPage,
+    NoteQueryError,
+    parseNoteQuery,
+    executeNoteQuery,
+    renderNoteQueryResult,
+    findNoteQueryBlocks,
+    toQueryValue
+} from '../../../src/utils/NoteQuery';
+
+describe('NoteQuery', () => {
+    const page = (id: string, path: string, data: Partial<QueryPage> = {}): QueryPage => ({
+        id,
+        title: path.replace(/^.*\//, '').replace(/\.md$/, ''),
+        path,
+        tags: [],
+        outlinks: [],
+        properties: {},
+        tasks: [],
+        ...data
+    });
+
+    const pages: QueryPage[] = [
+        page('a', 'projects/Alpha.md', {
+            tags: ['project'],
+            outlinks: ['c'],
+            properties: { status: 'active', updated: '2026-01-03', priority: '2' },
+            tasks: [{ line: 3, text: 'Write spec', completed: false }, { line: 4, text: 'Kickoff', completed: true }]
+        }),
+        page('b', 'projects/Beta.md', {
+            tags: ['project/sub'],
+            properties: { status: 'done', updated: '2026-01-05', priority: '10' }
+        }),
+        page('c', 'Home.md', { outlinks: ['a', 'b'], properties: { draft: 'true' } }),
+        page('d', 'dailynotes/2026-01-01.md', {
+            tasks: [{ line: 1, text: 'Call | Bob', completed: false }]
+        })
+    ];
+    const resolveLink = (linkText: string) => pages.find(p => p.title === linkText)?.id;
+    const run = (source: string) => renderNoteQueryResult(executeNoteQuery(parseNoteQuery(source), pages, resolveLink));
+
+    describe('parseNoteQuery', () => {
+        it('parses every clause', () => {
+            const query = parseNoteQuery('TABLE status, updated AS "Last update"\nFROM #project OR "notes"\nWHERE status != "done"\nSORT updated DESC, file.name\nLIMIT 5');
+
+            expect(query.type).to.equal('TABLE');
+            expect(query.columns.map(c => c.name)).to.deep.equal(['status', 'Last update']);
+            expect(query.from).to.deep.equal({
+                type: 'or',
+                left: { type: 'tag', tag: 'project' },
+                right: { type: 'folder', folder: 'notes' }
+            });
+            expect(query.where).to.deep.equal({
+                type: 'binary',
+                operator: '!=',
+                left: { type: 'field', path: ['status'] },
+                right: { type: 'literal', value: 'done' }
+            });
+            expect(query.sort.map(s => s.descending)).to.deep.equal([true, false]);
+            expect(query.limit).to.equal(5);
+        });
+
+        it('accepts lower-case keywords and LIST without a value', () => {
+            const query = parseNoteQuery('list from [[Home]] sort file.name asc');
+            expect(query.type).to.equal('LIST');
+            expect(query.columns).to.be.empty;
+            expect(query.from).to.deep.equal({ type: 'inlinks', linkText: 'Home' });
+        });
+
+        it('reports malformed queries', () => {
+            const cases: [string, string][] = [
+                ['', 'A query must start with LIST, TABLE or TASK'],
+                ['LIST FROM', 'FROM expects #tag, "folder", [[link]] or outgoing([[link]])'],
+                ['LIST WHERE (a = 1', 'Expected ")"'],
+                ['LIST WHERE a = "open', 'Unterminated string'],
+                ['LIST LIMIT x', 'LIMIT expects a positive whole number'],
+                ['LIST WHERE nope(1)', 'Unknown function "nope"'],
+                ['TABLE a GROUP BY b', 'Unexpected "GROUP", expected FROM, WHERE, SORT or LIMIT']
+            ];
+            for (const [source, message] of cases) {
+                expect(() => parseNoteQuery(source), source).to.throw(NoteQueryError, message);
+            }
+        });
+    });
+
+    describe('executeNoteQuery', () => {
+        it('lists notes from tags including nested tags, sorted by path', () => {
+            expect(run('LIST FROM #project')).to.equal('- [[Alpha]]\n- [[Beta]]');
+        });
+
+        it('selects notes by folder, incoming and outgoing links, and negation', () => {
+            expect(run('LIST FROM "dailynotes"')).to.equal('- [[2026-01-01]]');
+            expect(run('LIST FROM [[Alpha]]')).to.equal('- [[Home]]');
+            expect(run('LIST FROM outgoing([[Home]])')).to.equal('- [[Alpha]]\n- [[Beta]]');
+            expect(run('LIST FROM -#project AND -"dailynotes"')).to.equal('- [[Home]]');
+        });
+
+        it('filters with WHERE and sorts numbers numerically', () => {
+            expect(run('LIST FROM #project WHERE status = "active"')).to.equal('- [[Alpha]]');
+            expect(run('LIST WHERE draft')).to.equal('- [[Home]]');
+            expect(run('LIST WHERE priority > 5')).to.equal('- [[Beta]]');
+            expect(run('LIST FROM #project SORT priority DESC')).to.equal('- [[Beta]]\n- [[Alpha]]');
+            expect(run('LIST WHERE contains(file.tags, "#project/sub") AND updated >= date("2026-01-04")')).to.equal('- [[Beta]]');
+        });
+
+        it('shows a value next to LIST items', () => {
+            expect(run('LIST file.outlinks FROM [[Alpha]] OR [[Beta]]')).to.equal('- [[Home]]: [[Alpha]], [[Beta]]');
+        });
+
+        it('renders tables with escaped cells', () => {
+            expect(run('TABLE status, file.inlinks AS "Linked from" FROM #project LIMIT 1')).to.equal([
+                '| File | status | Linked from |',
+                '| --- | --- | --- |',
+                '| [[Alpha]] | active | [[Home]] |'
+            ].join('\n'));
+        });
+
+        it('groups tasks by note and filters them by completion', () => {
+            expect(run('TASK WHERE !completed')).to.equal([
+                '- [[2026-01-01]]',
+                '    - [ ] Call | Bob',
+                '- [[Alpha]]',
+                '    - [ ] Write spec'
+            ].join('\n'));
+            expect(run('TASK FROM #project WHERE completed')).to.equal('- [[Alpha]]\n    - [x] Kickoff');
+        });
+
+        it('renders a placeholder for empty results', () => {
+            expect(run('LIST FROM #missing')).to.equal('_No results_');
+        });
+    });
+
+    describe('toQueryValue', () => {
+        it('types booleans, numbers and empty values', () => {
+            expect(toQueryValue(['true', '1.5', 'text', ''])).to.deep.equal([true, 1.5, 'text', null]);
+        });
+    });
+
+    describe('findNoteQueryBlocks', () => {
+        it('finds query fences and skips other code blocks', () => {
+            const content = [
+                '```js',
+                '```mdlg-query',
+                '```',
+                '~~~mdlg-query',
+                'LIST',
+                'FROM #a',
+                '~~~',
+                '````mdlg-query',
+                'TASK'
+            ].join('\n');
+
+            expect(findNoteQueryBlocks(content)).to.deep.equal([
+                { startLine: 3, endLine: 6, source: 'LIST\nFROM #a' },
+                { startLine: 7, endLine: 8, source: 'TASK' }
+            ]);
+        });
+    });
+});
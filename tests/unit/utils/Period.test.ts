@@ -0,0 +1,31 @@
+import { expect } from 'chai';
+import { addPeriods, getPeriodStart, getWeekDays } from '../../../src/utils/Period';
+
+describe('Period', () => {
+    const ymd = (date: Date) => [date.getFullYear(), date.getMonth() + 1, date.getDate()];
+    // 2025-09-18 は木曜日
+    const date = new Date(2025, 8, 18, 15, 30);
+
+    it('gets the first day of each period', () => {
+        expect(ymd(getPeriodStart(date, 'week'))).to.deep.equal([2025, 9, 15]);
+        expect(ymd(getPeriodStart(new Date(2025, 8, 21), 'week'))).to.deep.equal([2025, 9, 15]);
+        expect(ymd(getPeriodStart(date, 'month'))).to.deep.equal([2025, 9, 1]);
+        expect(ymd(getPeriodStart(date, 'quarter'))).to.deep.equal([2025, 7, 1]);
+        expect(ymd(getPeriodStart(date, 'year'))).to.deep.equal([2025, 1, 1]);
+        expect(getPeriodStart(date, 'week').getHours()).to.equal(0);
+    });
+
+    it('moves by whole periods across year boundaries', () => {
+        expect(ymd(addPeriods(date, 'week', 1))).to.deep.equal([2025, 9, 22]);
+        expect(ymd(addPeriods(new Date(2025, 0, 2), 'week', -1))).to.deep.equal([2024, 12, 23]);
+        expect(ymd(addPeriods(new Date(2025, 0, 31), 'month', 1))).to.deep.equal([2025, 2, 1]);
+        expect(ymd(addPeriods(date, 'quarter', 2))).to.deep.equal([2026, 1, 1]);
+        expect(ymd(addPeriods(date, 'year', -1))).to.deep.equal([2024, 1, 1]);
+    });
+
+    it('lists the days of the week from Monday to Sunday', () => {
+        expect(getWeekDays(date).map(ymd)).to.deep.equal([
+            [2025, 9, 15], [2025, 9, 16], [2025, 9, 17], [2025, 9, 18], [2025, 9, 19], [2025, 9, 20], [2025, 9, 21]
+        ]);
+    });
+});
@@ -0,0 +1,139 @@
+import { expect } from 'chai';
+import {
+    parseSearchQuery,
+    matchSearchDocument,
+    getRequiredWords,
+    tokenize,
+    SearchDocument,
+    SearchQueryError
+} from '../../../src/utils/SearchQuery';
+
+describe('SearchQuery', () => {
+    const document: SearchDocument = {
+        title: 'Weekly Review',
+        relativePath: 'notes/work/Weekly Review.md',
+        lines: [
+            '# Weekly Review #work',
+            'Discussed the next step with Alice',
+            '- [ ] Send report to Bob',
+            '- [x] Book room 42',
+            'Draft ideas'
+        ],
+        tags: [{ line: 0, character: 16, length: 5, tag: 'work' }]
+    };
+
+    const match = (query: string) => matchSearchDocument(parseSearchQuery(query), document);
+    const lines = (query: string) => match(query)?.map(m => m.line);
+
+    describe('parseSearchQuery', () => {
+        it('combines terms with and, OR and negation', () => {
+            expect(parseSearchQuery('alpha -beta OR "c d"')).to.deep.equal({
+                type: 'or',
+                children: [
+                    {
+                        type: 'and',
+                        children: [
+                            { type: 'term', field: 'content', matcher: { kind: 'text', text: 'alpha' } },
+                            { type: 'not', child: { type: 'term', field: 'content', matcher: { kind: 'text', text: 'beta' } } }
+                        ]
+                    },
+                    { type: 'term', field: 'content', matcher: { kind: 'text', text: 'c d' } }
+                ]
+            });
+        });
+
+        it('applies a field to every term of a group and strips # from tags', () => {
+            expect(parseSearchQuery('tag:(#a OR b)')).to.deep.equal({
+                type: 'or',
+                children: [
+                    { type: 'term', field: 'tag', matcher: { kind: 'text', text: 'a' } },
+                    { type: 'term', field: 'tag', matcher: { kind: 'text', text: 'b' } }
+                ]
+            });
+        });
+
+        it('treats unknown prefixes and lone slashes as plain words', () => {
+            expect(parseSearchQuery('http://x /usr')).to.deep.equal({
+                type: 'and',
+                children: [
+                    { type: 'term', field: 'content', matcher: { kind: 'text', text: 'http://x' } },
+                    { type: 'term', field: 'content', matcher: { kind: 'text', text: '/usr' } }
+                ]
+            });
+        });
+
+        it('reports malformed queries', () => {
+            const cases: [string, string][] = [
+                ['', 'Enter a search query'],
+                ['(a b', 'Missing ")"'],
+                ['"open', 'Unterminated quoted phrase'],
+                ['tag: x', 'Expected a value after "tag:"'],
+                ['a)', 'Unexpected ")"'],
+                ['/(/', 'Invalid regular expression']
+            ];
+            for (const [query, message] of cases) {
+                expect(() => parseSearchQuery(query), query).to.throw(SearchQueryError, message);
+            }
+        });
+    });
+
+    describe('matchSearchDocument', () => {
+        it('returns every line containing the words, case-insensitively', () => {
+            expect(match('review')).to.deep.equal([{ line: 0, text: '# Weekly Review #work', ranges: [[9, 15]] }]);
+            expect(lines('report bob')).to.deep.equal([2]);
+            expect(lines('step OR room')).to.deep.equal([1, 3]);
+            expect(match('missing')).to.be.undefined;
+        });
+
+        it('matches quoted phrases and regular expressions', () => {
+            expect(match('"next step"')).to.deep.equal([{ line: 1, text: document.lines[1], ranges: [[14, 23]] }]);
+            expect(match('/room \\d+/')![0].ranges).to.deep.equal([[11, 18]]);
+        });
+
+        it('excludes notes with negated terms', () => {
+            expect(match('review -draft')).to.be.undefined;
+            expect(lines('review -missing')).to.deep.equal([0]);
+        });
+
+        it('matches tags including nested ones', () => {
+            expect(match('tag:#work')).to.deep.equal([{ line: 0, text: document.lines[0], ranges: [[16, 21]] }]);
+            expect(match('tag:wor')).to.be.undefined;
+            expect(lines('tag:work/sub')).to.be.undefined;
+            expect(matchSearchDocument(parseSearchQuery('tag:work'), { ...document, tags: [{ line: 0, character: 16, length: 9, tag: 'Work/sub' }] }))
+                .to.have.lengthOf(1);
+        });
+
+        it('matches path and file names without lines', () => {
+            expect(match('path:notes/work')).to.deep.equal([]);
+            expect(match('file:weekly')).to.deep.equal([]);
+            expect(match('file:work')).to.be.undefined;
+            expect(lines('path:work alice')).to.deep.equal([1]);
+        });
+
+        it('matches tasks by status', () => {
+            expect(lines('task:o')).to.deep.equal([2, 3]);
+            expect(match('task-todo:report')).to.deep.equal([{ line: 2, text: document.lines[2], ranges: [[11, 17]] }]);
+            expect(lines('task-done:room')).to.deep.equal([3]);
+            expect(match('task:draft')).to.be.undefined;
+        });
+
+        it('requires line: terms to match on the same line', () => {
+            expect(lines('line:(alice step)')).to.deep.equal([1]);
+            expect(match('line:(alice report)')).to.be.undefined;
+            expect(lines('alice report')).to.deep.equal([1, 2]);
+            expect(lines('line:(task:report -room)')).to.deep.equal([2]);
+        });
+    });
+
+    describe('getRequiredWords', () => {
+        it('collects words every match must contain', () => {
+            expect(getRequiredWords(parseSearchQuery('"next step" line:(alice) -bob tag:x (a OR b) /re/'))).to.deep.equal(['next', 'step', 'alice']);
+        });
+    });
+
+    describe('tokenize', () => {
+        it('splits on anything but letters, digits and underscores', () => {
+            expect(tokenize('Café-au_lait 日本語, x2')).to.deep.equal(['café', 'au_lait', '日本語', 'x2']);
+        });
+    });
+});
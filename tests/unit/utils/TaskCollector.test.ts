@@ -1,5 +1,5 @@
 import { expect } from 'chai';
-import { collectOpenTasksFromFiles, applyTaskCompletionToContent } from '../../../src/utils/TaskCollector';
+import { collectOpenTasksFromFiles, applyTaskCompletionToContent, groupTasks } from '../../../src/utils/TaskCollector';
 
 describe('TaskCollector', () => {
     describe('collectOpenTasksFromFiles', () => {
@@ -14,6 +14,39 @@ describe('TaskCollector', () => {
             expect(tasks[0]).to.include({ uri: 'file:///a.md', file: 'a.md', text: 'task1', line: 1 });
             expect(tasks[1]).to.include({ uri: 'file:///b.md', file: 'sub/b.md', text: 'subtask', line: 1 });
         });
+
+        it('includes the inline fields of each task', () => {
+            const files = [{ uri: 'file:///a.md', file: 'a.md', content: '- [ ] pay rent ⏫ 📅 2026-11-01 🔁 every month #home' }];
+
+            const [task] = collectOpenTasksFromFiles(files);
+            expect(task).to.include({ description: 'pay rent #home', due: '2026-11-01', priority: 'high', recurrence: 'every month' });
+            expect(task.tags).to.deep.equal(['home']);
+        });
+    });
+
+    describe('groupTasks', () => {
+        it('sorts by date then priority and assigns groups', () => {
+            const files = [{
+                uri: 'file:///a.md',
+                file: 'a.md',
+                content: [
+                    '- [ ] no date',
+                    '- [ ] upcoming [due: 2026-10-25]',
+                    '- [ ] today low 🔽 📅 2026-10-19',
+                    '- [ ] today high ⏫ 📅 2026-10-19',
+                    '- [ ] overdue ⏳ 2026-10-01'
+                ].join('\n')
+            }];
+
+            const grouped = groupTasks(collectOpenTasksFromFiles(files), '2026-10-19');
+            expect(grouped.map(t => [t.description, t.group])).to.deep.equal([
+                ['overdue', 'overdue'],
+                ['today high', 'today'],
+                ['today low', 'today'],
+                ['upcoming', 'upcoming'],
+                ['no date', 'noDate']
+            ]);
+        });
     });
 
     describe('applyTaskCompletionToContent', () => {
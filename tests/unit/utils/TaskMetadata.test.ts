@@ -0,0 +1,136 @@
+import { expect } from 'chai';
+import {
+    parseTaskMetadata,
+    getTaskGroup,
+    compareTasks,
+    getNextOccurrence,
+    createNextOccurrence,
+    setTaskDate
+} from '../../../src/utils/TaskMetadata';
+
+describe('TaskMetadata', () => {
+    describe('parseTaskMetadata', () => {
+        it('parses emoji fields', () => {
+            const meta = parseTaskMetadata('Pay rent 🔼 ⏳ 2026-10-28 📅 2026-11-01 🔁 every month #home #finance');
+            expect(meta).to.deep.equal({
+                due: '2026-11-01',
+                scheduled: '2026-10-28',
+                priority: 'medium',
+                recurrence: 'every month',
+                tags: ['home', 'finance'],
+                description: 'Pay rent #home #finance'
+            });
+        });
+
+        it('parses bracketed fields, with ":" or "::"', () => {
+            const meta = parseTaskMetadata('Report [due:: 2026-11-01] [scheduled: 2026-10-30] [priority: highest] [repeat: every 2 weeks when done]');
+            expect(meta).to.include({
+                due: '2026-11-01',
+                scheduled: '2026-10-30',
+                priority: 'highest',
+                recurrence: 'every 2 weeks when done',
+                description: 'Report'
+            });
+        });
+
+        it('parses the completion date', () => {
+            expect(parseTaskMetadata('Done ✅ 2026-10-19').completion).to.equal('2026-10-19');
+            expect(parseTaskMetadata('Done [completion: 2026-10-19]').completion).to.equal('2026-10-19');
+        });
+
+        it('ignores invalid dates and priorities but removes them from the description', () => {
+            const meta = parseTaskMetadata('Task [due: tomorrow] [priority: urgent]');
+            expect(meta.due).to.be.undefined;
+            expect(meta.priority).to.be.undefined;
+            expect(meta.description).to.equal('Task');
+        });
+
+        it('does not treat issue numbers as tags', () => {
+            expect(parseTaskMetadata('Fix issue #123 for #team/web').tags).to.deep.equal(['team/web']);
+        });
+
+        it('returns the text as description when there are no fields', () => {
+            expect(parseTaskMetadata('Buy milk')).to.deep.equal({ tags: [], description: 'Buy milk' });
+        });
+    });
+
+    describe('getTaskGroup', () => {
+        it('groups by due date, then scheduled date', () => {
+            expect(getTaskGroup({ due: '2026-10-18' }, '2026-10-19')).to.equal('overdue');
+            expect(getTaskGroup({ due: '2026-10-19' }, '2026-10-19')).to.equal('today');
+            expect(getTaskGroup({ scheduled: '2026-10-20' }, '2026-10-19')).to.equal('upcoming');
+            expect(getTaskGroup({ due: '2026-10-20', scheduled: '2026-10-01' }, '2026-10-19')).to.equal('upcoming');
+            expect(getTaskGroup({}, '2026-10-19')).to.equal('noDate');
+        });
+    });
+
+    describe('compareTasks', () => {
+        it('orders by date, priority and description with undated tasks last', () => {
+            const tasks = [
+                parseTaskMetadata('b'),
+                parseTaskMetadata('no priority 📅 2026-10-20'),
+                parseTaskMetadata('low 🔽 📅 2026-10-20'),
+                parseTaskMetadata('high ⏫ 📅 2026-10-20'),
+                parseTaskMetadata('a'),
+                parseTaskMetadata('earlier ⏳ 2026-10-19')
+            ];
+            expect(tasks.sort(compareTasks).map(t => t.description)).to.deep.equal([
+                'earlier', 'high', 'no priority', 'low', 'a', 'b'
+            ]);
+        });
+    });
+
+    describe('getNextOccurrence', () => {
+        const from = new Date(2026, 0, 31); // Saturday
+
+        it('adds days, weeks, months and years', () => {
+            expect(getNextOccurrence('every day', from)).to.deep.equal(new Date(2026, 1, 1));
+            expect(getNextOccurrence('every 2 weeks', from)).to.deep.equal(new Date(2026, 1, 14));
+            expect(getNextOccurrence('every year', from)).to.deep.equal(new Date(2027, 0, 31));
+        });
+
+        it('clamps monthly recurrences to the end of the month', () => {
+            expect(getNextOccurrence('every month', from)).to.deep.equal(new Date(2026, 1, 28));
+        });
+
+        it('moves to the next matching weekday', () => {
+            expect(getNextOccurrence('every monday', from)).to.deep.equal(new Date(2026, 1, 2));
+            expect(getNextOccurrence('every saturday', from)).to.deep.equal(new Date(2026, 1, 7));
+        });
+
+        it('ignores "when done" and returns undefined for unknown rules', () => {
+            expect(getNextOccurrence('every 3 days when done', from)).to.deep.equal(new Date(2026, 1, 3));
+            expect(getNextOccurrence('every other tuesday', from)).to.be.undefined;
+        });
+    });
+
+    describe('createNextOccurrence', () => {
+        it('moves the due and scheduled dates by the interval', () => {
+            const next = createNextOccurrence('Review ⏳ 2026-10-17 📅 2026-10-19 🔁 every week', '2026-10-21');
+            expect(next).to.equal('Review ⏳ 2026-10-24 📅 2026-10-26 🔁 every week');
+        });
+
+        it('counts from the completion date with "when done"', () => {
+            const next = createNextOccurrence('Haircut [due: 2026-10-01] [repeat: every 4 weeks when done]', '2026-10-19');
+            expect(next).to.equal('Haircut [due: 2026-11-16] [repeat: every 4 weeks when done]');
+        });
+
+        it('adds a due date to a recurring task without dates and drops the completion date', () => {
+            const next = createNextOccurrence('Backup 🔁 every day ✅ 2026-10-18', '2026-10-19');
+            expect(next).to.equal('Backup 🔁 every day 📅 2026-10-20');
+        });
+
+        it('returns undefined for tasks that do not recur', () => {
+            expect(createNextOccurrence('Once 📅 2026-10-19', '2026-10-19')).to.be.undefined;
+            expect(createNextOccurrence('Odd 🔁 sometimes', '2026-10-19')).to.be.undefined;
+        });
+    });
+
+    describe('setTaskDate', () => {
+        it('keeps the notation of the field', () => {
+            expect(setTaskDate('A 📅 2026-10-19', 'due', '2026-10-20')).to.equal('A 📅 2026-10-20');
+            expect(setTaskDate('A [scheduled:: 2026-10-19]', 'scheduled', '2026-10-20')).to.equal('A [scheduled:: 2026-10-20]');
+            expect(setTaskDate('A', 'due', '2026-10-20')).to.equal('A');
+        });
+    });
+});
@@ -0,0 +1,76 @@
+import { expect } from 'chai';
+import { renderTemplate, extractCursor, TemplateContext } from '../../../src/utils/TemplateEngine';
+import { DateTimeFormatter } from '../../../src/utils/DateTimeFormatter';
+
+describe('TemplateEngine', () => {
+    const context = (overrides: Partial<TemplateContext> = {}): TemplateContext => ({
+        title: 'Meeting',
+        date: new Date(2025, 8, 18),
+        now: new Date(2025, 8, 18, 9, 5),
+        dateFormat: 'YYYY-MM-DD',
+        timeFormat: 'HH:mm',
+        formatter: new DateTimeFormatter(),
+        ...overrides
+    });
+
+    describe('renderTemplate', () => {
+        it('expands title, date and time', async () => {
+            const rendered = await renderTemplate('# {{title}}\n{{date}} {{time}} {{ date:YYYY/MM/DD }} {{time:HH}}h', context());
+
+            expect(rendered).to.equal('# Meeting\n2025-09-18 09:05 2025/09/18 09h');
+        });
+
+        it('links the daily notes of the previous and next day', async () => {
+            const rendered = await renderTemplate('{{yesterday}} | {{tomorrow}} | {{tomorrow:YYYYMMDD}}', context({
+                date: new Date(2025, 11, 31)
+            }));
+
+            expect(rendered).to.equal('[[2025-12-30]] | [[2026-01-01]] | [[20260101]]');
+        });
+
+        it('asks each prompt once and renders cancelled prompts as empty text', async () => {
+            const asked: string[] = [];
+            const prompt = async (label: string) => {
+                asked.push(label);
+                return label === 'Project name' ? 'Apollo' : undefined;
+            };
+
+            const rendered = await renderTemplate('{{prompt:Project name}}/{{prompt:Owner}}/{{prompt: Project name }}', context({ prompt }));
+
+            expect(rendered).to.equal('Apollo//Apollo');
+            expect(asked).to.deep.equal(['Project name', 'Owner']);
+        });
+
+        it('renders included templates and leaves missing or recursive includes as they are', async () => {
+            const templates = new Map([
+                ['header.md', '# {{title}}\n{{include:footer.md}}'],
+                ['footer.md', 'Created {{date}}'],
+                ['loop.md', 'x{{include:loop.md}}']
+            ]);
+            const include = async (path: string) => templates.get(path);
+
+            expect(await renderTemplate('{{include:header.md}}', context({ include }))).to.equal('# Meeting\nCreated 2025-09-18');
+            expect(await renderTemplate('{{include:missing.md}}', context({ include }))).to.equal('{{include:missing.md}}');
+            expect(await renderTemplate('{{include:loop.md}}', context({ include }))).to.equal('xxxxx{{include:loop.md}}');
+        });
+
+        it('keeps the cursor and unknown placeholders', async () => {
+            const rendered = await renderTemplate('{{cursor}} {{unknown}} {{prompt:Name}}', context());
+
+            expect(rendered).to.equal('{{cursor}} {{unknown}} {{prompt:Name}}');
+        });
+    });
+
+    describe('extractCursor', () => {
+        it('removes the cursor placeholders and returns the position of the first one', () => {
+            expect(extractCursor('# Title\n\n- {{cursor}}\n{{ cursor }}')).to.deep.equal({
+                content: '# Title\n\n- \n',
+                cursor: { line: 2, character: 2 }
+            });
+        });
+
+        it('returns the content unchanged without a cursor', () => {
+            expect(extractCursor('# Title\n')).to.deep.equal({ content: '# Title\n' });
+        });
+    });
+});